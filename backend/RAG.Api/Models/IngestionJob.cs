@@ -0,0 +1,70 @@
+namespace RAG.Api.Models;
+
+/// <summary>
+/// Arka planda çalışan PDF ingestion işinin anlık durumu
+/// Immutable - her güncelleme yeni bir kopya oluşturur
+/// </summary>
+public record IngestionJob
+{
+    public Guid JobId { get; init; } = Guid.NewGuid();
+    public string FileName { get; init; } = string.Empty;
+    public string DocumentTitle { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Yükleyen kullanıcı ve çalışma alanı (frontend proxy'sinin header'larından)
+    /// Proxy, job'u sadece aynı çalışma alanındaki kullanıcılara gösterir
+    /// </summary>
+    public string? UploadedBy { get; init; }
+    public string? Workspace { get; init; }
+
+    /// <summary>
+    /// İşin bulunduğu aşama (bkz. IngestionStage)
+    /// </summary>
+    public string Stage { get; init; } = IngestionStage.Queued;
+
+    /// <summary>
+    /// Embedding'i üretilmiş chunk sayısı
+    /// </summary>
+    public int ProcessedChunks { get; init; }
+
+    /// <summary>
+    /// Toplam chunk sayısı (chunking bitene kadar 0)
+    /// </summary>
+    public int TotalChunks { get; init; }
+
+    public int ExtractedTextLength { get; init; }
+
+    /// <summary>
+    /// Oluşturulan döküman - sadece completed aşamasında dolu
+    /// </summary>
+    public Guid? DocumentId { get; init; }
+
+    /// <summary>
+    /// Hata mesajı - sadece failed aşamasında dolu
+    /// </summary>
+    public string? Error { get; init; }
+
+    public DateTime CreatedAt { get; init; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; init; } = DateTime.UtcNow;
+
+    public bool IsFinished => Stage is IngestionStage.Completed or IngestionStage.Failed;
+}
+
+/// <summary>
+/// Ingestion aşamaları (API'de string olarak döner)
+/// </summary>
+public static class IngestionStage
+{
+    public const string Queued = "queued";
+    public const string Extracting = "extracting";
+    public const string Chunking = "chunking";
+    public const string Embedding = "embedding";
+    public const string Saving = "saving";
+    public const string Completed = "completed";
+    public const string Failed = "failed";
+}
+
+/// <summary>
+/// ChunkIngestionService'in raporladığı ilerleme
+/// </summary>
+public record IngestionProgress(string Stage, int ProcessedChunks, int TotalChunks);
@@ -22,5 +22,10 @@ public class RagRequest
     /// Minimum benzerlik skoru (default: 0.0)
     /// </summary>
     public double? MinSimilarity { get; set; }
+
+    /// <summary>
+    /// Aramayı bu dökümanlarla sınırla (optional, boşsa tüm dökümanlar)
+    /// </summary>
+    public List<Guid>? DocumentIds { get; set; }
 }
 
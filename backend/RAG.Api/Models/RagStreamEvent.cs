@@ -0,0 +1,22 @@
+namespace RAG.Api.Models;
+
+/// <summary>
+/// Streaming RAG cevabının tek bir parçası
+/// Ara event'ler LLM token'ı, son event tam RagResponse taşır
+/// </summary>
+public class RagStreamEvent
+{
+    /// <summary>
+    /// LLM'in ürettiği cevap parçası (token event'i)
+    /// </summary>
+    public string? Token { get; init; }
+
+    /// <summary>
+    /// Tam cevap - sadece son event'te dolu
+    /// </summary>
+    public RagResponse? Response { get; init; }
+
+    public static RagStreamEvent ForToken(string token) => new() { Token = token };
+
+    public static RagStreamEvent Final(RagResponse response) => new() { Response = response };
+}
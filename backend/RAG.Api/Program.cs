@@ -61,6 +61,11 @@ builder.Services.AddScoped<IRagAnswerService, RagAnswerService>();
 // PDF Reader Service
 builder.Services.AddScoped<IPdfReaderService, PdfReaderService>();
 
+// Ingestion jobs (arka planda PDF işleme + ilerleme takibi)
+builder.Services.AddSingleton<IIngestionJobStore, InMemoryIngestionJobStore>();
+builder.Services.AddSingleton<IngestionJobQueue>();
+builder.Services.AddHostedService<IngestionJobWorker>();
+
 builder.Services.AddOpenApi();
 
 // CORS - Frontend'den direkt istek alabilmek için
@@ -105,6 +110,139 @@ app.MapGet("/api/documents/count", async (RagDbContext db) =>
     return Results.Ok(new { totalDocuments = count });
 });
 
+// Döküman listesi - en yeni yüklenen önce
+app.MapGet("/api/documents", async (RagDbContext db, CancellationToken cancellationToken) =>
+{
+    var documents = await db.Documents
+        .AsNoTracking()
+        .OrderByDescending(d => d.UploadDate)
+        .ToListAsync(cancellationToken);
+
+    return Results.Ok(new
+    {
+        totalDocuments = documents.Count,
+        documents = documents.Select(ToDocumentSummary).ToList()
+    });
+});
+
+// Döküman detayı + chunk'ları sırayla (sayfalı)
+app.MapGet("/api/documents/{id:guid}/chunks", async (
+    Guid id,
+    int? offset,
+    int? limit,
+    RagDbContext db,
+    CancellationToken cancellationToken) =>
+{
+    var document = await db.Documents
+        .AsNoTracking()
+        .FirstOrDefaultAsync(d => d.Id == id, cancellationToken);
+
+    if (document == null)
+    {
+        return Results.NotFound($"Document {id} not found");
+    }
+
+    var skip = Math.Max(offset ?? 0, 0);
+    var take = Math.Clamp(limit ?? 50, 1, 200);
+
+    var chunks = await db.Chunks
+        .AsNoTracking()
+        .Where(c => c.DocumentId == id)
+        .OrderBy(c => c.ChunkIndex)
+        .Skip(skip)
+        .Take(take)
+        .Select(c => new
+        {
+            chunkId = c.Id,
+            chunkIndex = c.ChunkIndex,
+            content = c.Content,
+            tokenCount = c.TokenCount,
+            chunkType = c.ChunkType,
+            articleNumber = c.ArticleNumber,
+            articleTitle = c.ArticleTitle
+        })
+        .ToListAsync(cancellationToken);
+
+    return Results.Ok(new
+    {
+        document = ToDocumentSummary(document),
+        offset = skip,
+        limit = take,
+        chunks
+    });
+});
+
+// Bir chunk ve komşuları (chunkIndex ± radius) - kaynak doğrulama için tam metin
+app.MapGet("/api/documents/{id:guid}/chunks/{chunkIndex:int}/neighbours", async (
+    Guid id,
+    int chunkIndex,
+    int? radius,
+    RagDbContext db,
+    CancellationToken cancellationToken) =>
+{
+    var document = await db.Documents
+        .AsNoTracking()
+        .FirstOrDefaultAsync(d => d.Id == id, cancellationToken);
+
+    if (document == null)
+    {
+        return Results.NotFound($"Document {id} not found");
+    }
+
+    var range = Math.Clamp(radius ?? 2, 0, 10);
+    var from = chunkIndex - range;
+    var to = chunkIndex + range;
+
+    var chunks = await db.Chunks
+        .AsNoTracking()
+        .Where(c => c.DocumentId == id && c.ChunkIndex >= from && c.ChunkIndex <= to)
+        .OrderBy(c => c.ChunkIndex)
+        .Select(c => new
+        {
+            chunkId = c.Id,
+            chunkIndex = c.ChunkIndex,
+            content = c.Content,
+            tokenCount = c.TokenCount,
+            chunkType = c.ChunkType,
+            articleNumber = c.ArticleNumber,
+            articleTitle = c.ArticleTitle
+        })
+        .ToListAsync(cancellationToken);
+
+    // Sayfalama için dökümanın ilk/son chunk index'i
+    var bounds = await db.Chunks
+        .AsNoTracking()
+        .Where(c => c.DocumentId == id)
+        .GroupBy(c => c.DocumentId)
+        .Select(g => new { min = g.Min(c => c.ChunkIndex), max = g.Max(c => c.ChunkIndex) })
+        .FirstOrDefaultAsync(cancellationToken);
+
+    return Results.Ok(new
+    {
+        document = ToDocumentSummary(document),
+        chunkIndex,
+        radius = range,
+        firstChunkIndex = bounds?.min ?? 0,
+        lastChunkIndex = bounds?.max ?? 0,
+        chunks
+    });
+});
+
+// Döküman silme - chunk'lar cascade ile silinir
+app.MapDelete("/api/documents/{id:guid}", async (Guid id, RagDbContext db, CancellationToken cancellationToken) =>
+{
+    var document = await db.Documents.FirstOrDefaultAsync(d => d.Id == id, cancellationToken);
+    if (document == null)
+    {
+        return Results.NotFound($"Document {id} not found");
+    }
+
+    db.Documents.Remove(document);
+    await db.SaveChangesAsync(cancellationToken);
+
+    return Results.Ok(new { success = true, documentId = id });
+});
+
 // Test endpoint - embedding servisi
 app.MapPost("/api/embedding/test", async (IOllamaEmbeddingService embeddingService, TestEmbeddingRequest request) =>
 {
@@ -206,26 +344,15 @@ app.MapPost("/api/ingest/pdf", async (
         var form = await request.ReadFormAsync(cancellationToken);
         var file = form.Files.GetFile("file");
 
-        if (file == null || file.Length == 0)
-        {
-            return Results.BadRequest("No file uploaded. Use 'file' as the field name.");
-        }
-
-        // Sadece PDF kabul et
-        if (!file.ContentType.Contains("pdf") && !file.FileName.EndsWith(".pdf", StringComparison.OrdinalIgnoreCase))
+        var validationError = ValidatePdfUpload(file);
+        if (validationError != null)
         {
-            return Results.BadRequest("Only PDF files are supported");
-        }
-
-        // Dosya boyutu kontrolü (max 50MB)
-        if (file.Length > 50 * 1024 * 1024)
-        {
-            return Results.BadRequest("File size must be less than 50MB");
+            return Results.BadRequest(validationError);
         }
 
         // PDF'den metin çıkar
         string extractedText;
-        await using (var stream = file.OpenReadStream())
+        await using (var stream = file!.OpenReadStream())
         {
             extractedText = await pdfReader.ExtractTextAsync(stream, cancellationToken);
         }
@@ -235,18 +362,8 @@ app.MapPost("/api/ingest/pdf", async (
             return Results.BadRequest("No text could be extracted from the PDF");
         }
 
-        // Dosya adını başlık olarak kullan (uzantıyı kaldır)
-        var title = form["title"].FirstOrDefault() 
-            ?? System.IO.Path.GetFileNameWithoutExtension(file.FileName);
-
-        // Metadata ekle (JSON string olarak)
-        var metadata = System.Text.Json.JsonSerializer.Serialize(new
-        {
-            source = "pdf_upload",
-            original_filename = file.FileName,
-            file_size_bytes = file.Length,
-            upload_date = DateTime.UtcNow
-        });
+        var title = GetPdfTitle(form, file!);
+        var metadata = BuildPdfMetadata(file!, request.Headers);
 
         // Sisteme yükle (chunk + embed + store)
         var result = await ingestionService.IngestTextAsync(
@@ -276,6 +393,76 @@ app.MapPost("/api/ingest/pdf", async (
     }
 }).DisableAntiforgery(); // File upload için CSRF kontrolünü devre dışı bırak
 
+// PDF Upload (job) endpoint - dosyayı kuyruğa alır ve hemen job ID döner
+// İlerleme /api/ingest/jobs/{jobId} üzerinden takip edilir
+app.MapPost("/api/ingest/pdf/jobs", async (
+    HttpRequest request,
+    IIngestionJobStore jobStore,
+    IngestionJobQueue jobQueue,
+    CancellationToken cancellationToken) =>
+{
+    if (!request.HasFormContentType)
+    {
+        return Results.BadRequest("Request must be multipart/form-data");
+    }
+
+    var form = await request.ReadFormAsync(cancellationToken);
+    var file = form.Files.GetFile("file");
+
+    var validationError = ValidatePdfUpload(file);
+    if (validationError != null)
+    {
+        return Results.BadRequest(validationError);
+    }
+
+    // Request bitince form stream'i kapanır - dosyayı belleğe al
+    byte[] pdfBytes;
+    using (var buffer = new MemoryStream())
+    {
+        await file!.CopyToAsync(buffer, cancellationToken);
+        pdfBytes = buffer.ToArray();
+    }
+
+    var title = GetPdfTitle(form, file);
+    var job = jobStore.Create(
+        file.FileName,
+        title,
+        request.Headers["X-Uploaded-By"].FirstOrDefault(),
+        request.Headers["X-Workspace"].FirstOrDefault());
+
+    await jobQueue.EnqueueAsync(
+        new IngestionWorkItem(job.JobId, pdfBytes, title, BuildPdfMetadata(file, request.Headers)),
+        cancellationToken);
+
+    return Results.Accepted($"/api/ingest/jobs/{job.JobId}", ToJobResponse(job));
+}).DisableAntiforgery();
+
+// Ingestion job durumu - aşama + işlenen/toplam chunk sayısı
+app.MapGet("/api/ingest/jobs/{jobId:guid}", (Guid jobId, IIngestionJobStore jobStore) =>
+{
+    var job = jobStore.Get(jobId);
+    return job == null
+        ? Results.NotFound($"Ingestion job {jobId} not found")
+        : Results.Ok(ToJobResponse(job));
+});
+
+// Ingestion job iptali - kuyruktaki job hiç başlamaz, çalışan job durdurulur
+app.MapDelete("/api/ingest/jobs/{jobId:guid}", (Guid jobId, IIngestionJobStore jobStore) =>
+{
+    var job = jobStore.Get(jobId);
+    if (job == null)
+    {
+        return Results.NotFound($"Ingestion job {jobId} not found");
+    }
+
+    if (!jobStore.Cancel(jobId))
+    {
+        return Results.Conflict($"Ingestion job {jobId} has already finished");
+    }
+
+    return Results.Ok(ToJobResponse(jobStore.Get(jobId)!));
+});
+
 // Search endpoint - vector similarity search
 app.MapPost("/api/search", async (
     IVectorSearchService searchService,
@@ -288,7 +475,8 @@ app.MapPost("/api/search", async (
             request.Query,
             request.TopK ?? 5,
             request.SimilarityThreshold ?? 0.0,
-            cancellationToken
+            cancellationToken,
+            request.DocumentIds
         );
 
         return Results.Ok(new
@@ -325,41 +513,227 @@ app.MapPost("/api/rag/ask", async (
     {
         var response = await ragService.AskAsync(request, cancellationToken);
 
-        return Results.Ok(new
+        return Results.Ok(ToAskResponse(response));
+    }
+    catch (Exception ex)
+    {
+        return Results.Problem($"RAG error: {ex.Message}");
+    }
+});
+
+// RAG Ask streaming endpoint - LLM token'larını Server-Sent Events olarak gönderir
+// event: token → { text }, event: done → /api/rag/ask ile aynı cevap, event: error → { error }
+app.MapPost("/api/rag/ask/stream", async (
+    IRagAnswerService ragService,
+    RAG.Api.Models.RagRequest request,
+    HttpContext context,
+    CancellationToken cancellationToken) =>
+{
+    context.Response.ContentType = "text/event-stream";
+    context.Response.Headers.CacheControl = "no-cache";
+
+    async Task WriteEventAsync(string eventName, object data)
+    {
+        var json = System.Text.Json.JsonSerializer.Serialize(data);
+        await context.Response.WriteAsync($"event: {eventName}\ndata: {json}\n\n", cancellationToken);
+        await context.Response.Body.FlushAsync(cancellationToken);
+    }
+
+    try
+    {
+        await foreach (var streamEvent in ragService.AskStreamAsync(request, cancellationToken))
         {
-            question = response.Question,
-            answer = response.Answer,
-            conversationId = response.ConversationId,
-            language = response.Language,
-            confidence = new
+            if (streamEvent.Response != null)
             {
-                level = response.Confidence.Level,
-                maxSimilarity = response.Confidence.MaxSimilarity,
-                averageSimilarity = response.Confidence.AverageSimilarity,
-                explanation = response.Confidence.Explanation
-            },
-            sourceCount = response.SourceCount,
-            averageSimilarity = response.AverageSimilarity, // backward compatibility
-            sources = response.Sources.Select(s => new
+                await WriteEventAsync("done", ToAskResponse(streamEvent.Response));
+            }
+            else if (streamEvent.Token != null)
             {
-                chunkId = s.ChunkId,
-                documentId = s.DocumentId,
-                documentTitle = s.DocumentTitle,
-                chunkIndex = s.ChunkIndex,
-                similarityScore = Math.Round(s.SimilarityScore, 4),
-                contentPreview = s.ContentPreview
-            }).ToList()
-        });
+                await WriteEventAsync("token", new { text = streamEvent.Token });
+            }
+        }
+    }
+    catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+    {
+        // Client bağlantıyı kapattı - yazılacak bir şey yok
     }
     catch (Exception ex)
     {
-        return Results.Problem($"RAG error: {ex.Message}");
+        // Stream başladıktan sonra status code değiştirilemez, hatayı event olarak gönder
+        await WriteEventAsync("error", new { error = $"RAG error: {ex.Message}" });
     }
 });
 
+// Soru-cevap çiftiyle yeni conversation başlatır (LLM çağrılmaz)
+// Frontend proxy'si önbellekten verdiği cevaplar için kullanır, takip soruları bu bağlamla devam eder
+app.MapPost("/api/conversations", (IConversationStore conversationStore, StartConversationRequest request) =>
+{
+    if (string.IsNullOrWhiteSpace(request.Question) || string.IsNullOrWhiteSpace(request.Answer))
+    {
+        return Results.BadRequest("Question and answer are required");
+    }
+
+    var conversationId = conversationStore.CreateConversation();
+    conversationStore.AddTurn(conversationId, request.Question, request.Answer);
+    return Results.Ok(new { conversationId });
+});
+
 app.Run();
 
+// /api/rag/ask ve /api/rag/ask/stream için ortak response şekli
+static object ToAskResponse(RAG.Api.Models.RagResponse response) => new
+{
+    question = response.Question,
+    answer = response.Answer,
+    conversationId = response.ConversationId,
+    language = response.Language,
+    confidence = new
+    {
+        level = response.Confidence.Level,
+        maxSimilarity = response.Confidence.MaxSimilarity,
+        averageSimilarity = response.Confidence.AverageSimilarity,
+        explanation = response.Confidence.Explanation
+    },
+    sourceCount = response.SourceCount,
+    averageSimilarity = response.AverageSimilarity, // backward compatibility
+    sources = response.Sources.Select(s => new
+    {
+        chunkId = s.ChunkId,
+        documentId = s.DocumentId,
+        documentTitle = s.DocumentTitle,
+        chunkIndex = s.ChunkIndex,
+        similarityScore = Math.Round(s.SimilarityScore, 4),
+        contentPreview = s.ContentPreview
+    }).ToList()
+};
+
+// PDF upload kontrolleri - /api/ingest/pdf ve /api/ingest/pdf/jobs için ortak
+static string? ValidatePdfUpload(IFormFile? file)
+{
+    if (file == null || file.Length == 0)
+    {
+        return "No file uploaded. Use 'file' as the field name.";
+    }
+
+    // Sadece PDF kabul et
+    if (!file.ContentType.Contains("pdf") && !file.FileName.EndsWith(".pdf", StringComparison.OrdinalIgnoreCase))
+    {
+        return "Only PDF files are supported";
+    }
+
+    // Dosya boyutu kontrolü (max 50MB)
+    if (file.Length > 50 * 1024 * 1024)
+    {
+        return "File size must be less than 50MB";
+    }
+
+    return null;
+}
+
+// Başlık verilmediyse dosya adını kullan (uzantıyı kaldır)
+static string GetPdfTitle(IFormCollection form, IFormFile file)
+{
+    return form["title"].FirstOrDefault()
+        ?? System.IO.Path.GetFileNameWithoutExtension(file.FileName);
+}
+
+// Metadata (JSON string olarak)
+// Yükleyen kullanıcı ve çalışma alanı frontend proxy'sinden header olarak gelir
+static string BuildPdfMetadata(IFormFile file, IHeaderDictionary headers)
+{
+    return System.Text.Json.JsonSerializer.Serialize(new
+    {
+        source = "pdf_upload",
+        original_filename = file.FileName,
+        file_size_bytes = file.Length,
+        upload_date = DateTime.UtcNow,
+        uploaded_by = headers["X-Uploaded-By"].FirstOrDefault(),
+        workspace = headers["X-Workspace"].FirstOrDefault()
+    });
+}
+
+static object ToJobResponse(RAG.Api.Models.IngestionJob job) => new
+{
+    jobId = job.JobId,
+    fileName = job.FileName,
+    documentTitle = job.DocumentTitle,
+    uploadedBy = job.UploadedBy,
+    workspace = job.Workspace,
+    stage = job.Stage,
+    processedChunks = job.ProcessedChunks,
+    totalChunks = job.TotalChunks,
+    extractedTextLength = job.ExtractedTextLength,
+    documentId = job.DocumentId,
+    error = job.Error,
+    createdAt = job.CreatedAt,
+    updatedAt = job.UpdatedAt
+};
+
+// Döküman listesi/detayı için ortak şekil
+// Orijinal dosya adı ve boyutu PDF upload sırasında metadata'ya yazılıyor
+static object ToDocumentSummary(RAG.Api.Models.Document document)
+{
+    string? originalFilename = null;
+    long? fileSizeBytes = null;
+    string? uploadedBy = null;
+    string? workspace = null;
+
+    // Metadata JSON veya düz metin olabilir (bkz. migration 002)
+    if (!string.IsNullOrWhiteSpace(document.Metadata))
+    {
+        try
+        {
+            using var json = System.Text.Json.JsonDocument.Parse(document.Metadata);
+            if (json.RootElement.ValueKind == System.Text.Json.JsonValueKind.Object)
+            {
+                if (json.RootElement.TryGetProperty("original_filename", out var filename)
+                    && filename.ValueKind == System.Text.Json.JsonValueKind.String)
+                {
+                    originalFilename = filename.GetString();
+                }
+
+                if (json.RootElement.TryGetProperty("file_size_bytes", out var size)
+                    && size.ValueKind == System.Text.Json.JsonValueKind.Number
+                    && size.TryGetInt64(out var bytes))
+                {
+                    fileSizeBytes = bytes;
+                }
+
+                // Giriş öncesi yüklenen dökümanlarda yok - herkes görür
+                if (json.RootElement.TryGetProperty("uploaded_by", out var uploader)
+                    && uploader.ValueKind == System.Text.Json.JsonValueKind.String)
+                {
+                    uploadedBy = uploader.GetString();
+                }
+
+                if (json.RootElement.TryGetProperty("workspace", out var space)
+                    && space.ValueKind == System.Text.Json.JsonValueKind.String)
+                {
+                    workspace = space.GetString();
+                }
+            }
+        }
+        catch (System.Text.Json.JsonException)
+        {
+            // Düz metin metadata - dosya bilgisi yok
+        }
+    }
+
+    return new
+    {
+        documentId = document.Id,
+        title = document.Filename,
+        uploadDate = document.UploadDate,
+        chunkCount = document.TotalChunks,
+        originalFilename,
+        fileSizeBytes,
+        uploadedBy,
+        workspace
+    };
+}
+
 record TestEmbeddingRequest(string Text);
 record TestChunkingRequest(string Text, int? MaxChunkSize, int? Overlap);
 record IngestTextRequest(string Text, string Title, string? Metadata);
-record SearchRequest(string Query, int? TopK, double? SimilarityThreshold);
+record SearchRequest(string Query, int? TopK, double? SimilarityThreshold, List<Guid>? DocumentIds);
+record StartConversationRequest(string Question, string Answer);
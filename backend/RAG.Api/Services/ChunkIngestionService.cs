@@ -28,7 +28,8 @@ public class ChunkIngestionService : IChunkIngestionService
         string text,
         string documentTitle,
         string? metadata = null,
-        CancellationToken cancellationToken = default)
+        CancellationToken cancellationToken = default,
+        Action<IngestionProgress>? onProgress = null)
     {
         if (string.IsNullOrWhiteSpace(text))
         {
@@ -82,6 +83,8 @@ public class ChunkIngestionService : IChunkIngestionService
                 .ToList();
             _logger.LogInformation("Chunk type distribution: {Distribution}", string.Join(", ", typeDistribution));
 
+            onProgress?.Invoke(new IngestionProgress(IngestionStage.Embedding, 0, chunkResults.Count));
+
             // 3. Her chunk için embedding üret ve kaydet
             _logger.LogInformation("Step 3: Starting embedding generation for {Count} chunks...", chunkResults.Count);
             var chunkEntities = new List<Chunk>();
@@ -133,6 +136,8 @@ public class ChunkIngestionService : IChunkIngestionService
 
                     chunkEntities.Add(chunk);
                     _logger.LogInformation("Chunk entity created and added to list: {Index}/{Total}", i + 1, chunkResults.Count);
+
+                    onProgress?.Invoke(new IngestionProgress(IngestionStage.Embedding, i + 1, chunkResults.Count));
                 }
                 catch (Exception ex)
                 {
@@ -145,6 +150,7 @@ public class ChunkIngestionService : IChunkIngestionService
             _logger.LogInformation("Step 3 COMPLETED: All {Count} embeddings generated successfully", chunkEntities.Count);
 
             // 4. Tüm chunk'ları kaydet
+            onProgress?.Invoke(new IngestionProgress(IngestionStage.Saving, chunkEntities.Count, chunkResults.Count));
             _logger.LogInformation("Step 4: Saving {Count} chunks to database...", chunkEntities.Count);
             _dbContext.Chunks.AddRange(chunkEntities);
             _logger.LogDebug("Chunks added to DbContext. Calling SaveChangesAsync...");
@@ -1,3 +1,5 @@
+using RAG.Api.Models;
+
 namespace RAG.Api.Services;
 
 public interface IChunkIngestionService
@@ -9,12 +11,14 @@ public interface IChunkIngestionService
     /// <param name="documentTitle">Döküman başlığı</param>
     /// <param name="metadata">Opsiyonel metadata (JSON)</param>
     /// <param name="cancellationToken">İptal token</param>
+    /// <param name="onProgress">Opsiyonel ilerleme callback'i (aşama + işlenen chunk sayısı)</param>
     /// <returns>Oluşturulan döküman ID ve chunk sayısı</returns>
     Task<ChunkIngestionResult> IngestTextAsync(
         string text,
         string documentTitle,
         string? metadata = null,
-        CancellationToken cancellationToken = default
+        CancellationToken cancellationToken = default,
+        Action<IngestionProgress>? onProgress = null
     );
 }
 
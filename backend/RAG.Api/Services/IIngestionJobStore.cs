@@ -0,0 +1,37 @@
+using RAG.Api.Models;
+
+namespace RAG.Api.Services;
+
+/// <summary>
+/// Ingestion job durumları için store interface
+/// </summary>
+public interface IIngestionJobStore
+{
+    /// <summary>
+    /// Queued durumunda yeni job oluşturur
+    /// </summary>
+    IngestionJob Create(string fileName, string documentTitle, string? uploadedBy, string? workspace);
+
+    /// <summary>
+    /// Job'un son durumunu getirir
+    /// </summary>
+    IngestionJob? Get(Guid jobId);
+
+    /// <summary>
+    /// Job durumunu günceller (UpdatedAt otomatik set edilir)
+    /// Bitmiş (completed/failed) job'lar artık değişmez
+    /// Güncelleme uygulandıysa true, job bulunamazsa veya bitmişse false döner
+    /// </summary>
+    bool Update(Guid jobId, Func<IngestionJob, IngestionJob> update);
+
+    /// <summary>
+    /// Job iptal edildiğinde tetiklenen token - worker işlerken bunu dinler
+    /// </summary>
+    CancellationToken GetCancellationToken(Guid jobId);
+
+    /// <summary>
+    /// Job'u iptal eder ve failed olarak işaretler
+    /// Job bulunamazsa veya zaten bitmişse false döner
+    /// </summary>
+    bool Cancel(Guid jobId);
+}
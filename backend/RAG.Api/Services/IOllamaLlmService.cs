@@ -12,6 +12,14 @@ public interface IOllamaLlmService
     /// <param name="cancellationToken">İptal token</param>
     /// <returns>LLM'in ürettiği cevap</returns>
     Task<string> GenerateAsync(string prompt, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Verilen prompt için LLM cevabını token token üretir (Ollama stream modu)
+    /// </summary>
+    /// <param name="prompt">LLM'e gönderilecek tam prompt</param>
+    /// <param name="cancellationToken">İptal token</param>
+    /// <returns>Üretildikçe dönen cevap parçaları</returns>
+    IAsyncEnumerable<string> GenerateStreamAsync(string prompt, CancellationToken cancellationToken = default);
 }
 
 
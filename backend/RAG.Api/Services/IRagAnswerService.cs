@@ -14,6 +14,14 @@ public interface IRagAnswerService
     /// <param name="cancellationToken">İptal token</param>
     /// <returns>LLM cevabı ve kaynak chunk'lar</returns>
     Task<RagResponse> AskAsync(RagRequest request, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// AskAsync'in streaming versiyonu - cevap token'larını üretildikçe döndürür
+    /// </summary>
+    /// <param name="request">Soru ve parametreler</param>
+    /// <param name="cancellationToken">İptal token</param>
+    /// <returns>Token event'leri, ardından tam cevabı taşıyan son event</returns>
+    IAsyncEnumerable<RagStreamEvent> AskStreamAsync(RagRequest request, CancellationToken cancellationToken = default);
 }
 
 
@@ -11,12 +11,14 @@ public interface IVectorSearchService
     /// <param name="topK">Döndürülecek maksimum sonuç sayısı</param>
     /// <param name="similarityThreshold">Minimum benzerlik skoru (0-1 arası)</param>
     /// <param name="cancellationToken">İptal token</param>
+    /// <param name="documentIds">Sadece bu dökümanlarda ara (null/boş = tümü)</param>
     /// <returns>Benzerlik skoruna göre sıralanmış chunk listesi</returns>
     Task<List<SearchResult>> SearchAsync(
         string queryText,
         int topK = 5,
         double similarityThreshold = 0.0,
-        CancellationToken cancellationToken = default
+        CancellationToken cancellationToken = default,
+        IReadOnlyCollection<Guid>? documentIds = null
     );
 }
 
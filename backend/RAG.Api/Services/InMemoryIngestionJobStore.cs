@@ -0,0 +1,116 @@
+using System.Collections.Concurrent;
+using RAG.Api.Models;
+
+namespace RAG.Api.Services;
+
+/// <summary>
+/// In-memory ingestion job store (restart'da kaybolur)
+/// Biten job'lar TTL sonunda temizlenir
+/// </summary>
+public class InMemoryIngestionJobStore : IIngestionJobStore
+{
+    public const string CancelledError = "Cancelled by user";
+
+    private readonly ConcurrentDictionary<Guid, IngestionJob> _jobs = new();
+    private readonly ConcurrentDictionary<Guid, CancellationTokenSource> _cancellations = new();
+    private readonly ILogger<InMemoryIngestionJobStore> _logger;
+    private readonly TimeSpan _finishedJobTtl;
+
+    public InMemoryIngestionJobStore(
+        ILogger<InMemoryIngestionJobStore> logger,
+        IConfiguration configuration)
+    {
+        _logger = logger;
+        _finishedJobTtl = TimeSpan.FromHours(configuration.GetValue<int>("Ingestion:JobTtlHours", 24));
+    }
+
+    public IngestionJob Create(string fileName, string documentTitle, string? uploadedBy, string? workspace)
+    {
+        CleanupFinishedJobs();
+
+        var job = new IngestionJob
+        {
+            FileName = fileName,
+            DocumentTitle = documentTitle,
+            UploadedBy = uploadedBy,
+            Workspace = workspace
+        };
+
+        _jobs[job.JobId] = job;
+        _cancellations[job.JobId] = new CancellationTokenSource();
+        _logger.LogInformation("Created ingestion job {JobId} for {FileName}", job.JobId, fileName);
+
+        return job;
+    }
+
+    public IngestionJob? Get(Guid jobId)
+    {
+        return _jobs.TryGetValue(jobId, out var job) ? job : null;
+    }
+
+    public bool Update(Guid jobId, Func<IngestionJob, IngestionJob> update)
+    {
+        // Job silinmişse (TTL) veya bitmişse (ör. iptal edildiyse) güncelleme yapılmaz
+        while (_jobs.TryGetValue(jobId, out var current) && !current.IsFinished)
+        {
+            var updated = update(current) with { UpdatedAt = DateTime.UtcNow };
+            if (_jobs.TryUpdate(jobId, updated, current))
+                return true;
+        }
+
+        return false;
+    }
+
+    public CancellationToken GetCancellationToken(Guid jobId)
+    {
+        return _cancellations.TryGetValue(jobId, out var cts) ? cts.Token : CancellationToken.None;
+    }
+
+    public bool Cancel(Guid jobId)
+    {
+        // Önce failed işaretlenir, böylece worker'ın geç gelen ilerleme güncellemeleri yok sayılır.
+        // İptal ile tamamlanma yarışırsa Update sadece biri için uygulanır; tamamlanan job iptal edilmiş sayılmaz
+        var cancelled = Update(jobId, current => current with
+        {
+            Stage = IngestionStage.Failed,
+            Error = CancelledError
+        });
+        if (!cancelled)
+        {
+            return false;
+        }
+
+        if (_cancellations.TryGetValue(jobId, out var cts))
+        {
+            cts.Cancel();
+        }
+
+        _logger.LogInformation("Cancelled ingestion job {JobId}", jobId);
+        return true;
+    }
+
+    /// <summary>
+    /// TTL'i dolmuş tamamlanmış/başarısız job'ları temizler
+    /// </summary>
+    private void CleanupFinishedJobs()
+    {
+        var expiredKeys = _jobs
+            .Where(kvp => kvp.Value.IsFinished && DateTime.UtcNow - kvp.Value.UpdatedAt > _finishedJobTtl)
+            .Select(kvp => kvp.Key)
+            .ToList();
+
+        foreach (var key in expiredKeys)
+        {
+            _jobs.TryRemove(key, out _);
+            if (_cancellations.TryRemove(key, out var cts))
+            {
+                cts.Dispose();
+            }
+        }
+
+        if (expiredKeys.Count > 0)
+        {
+            _logger.LogInformation("Cleaned up {Count} finished ingestion jobs", expiredKeys.Count);
+        }
+    }
+}
@@ -0,0 +1,27 @@
+using System.Threading.Channels;
+
+namespace RAG.Api.Services;
+
+/// <summary>
+/// Arka planda işlenecek PDF
+/// Request bittikten sonra form stream'i kapandığı için dosya byte olarak tutulur
+/// </summary>
+public record IngestionWorkItem(Guid JobId, byte[] PdfBytes, string Title, string Metadata);
+
+/// <summary>
+/// Upload endpoint'i ile IngestionJobWorker arasındaki kuyruk
+/// </summary>
+public class IngestionJobQueue
+{
+    private readonly Channel<IngestionWorkItem> _channel = Channel.CreateUnbounded<IngestionWorkItem>();
+
+    public ValueTask EnqueueAsync(IngestionWorkItem item, CancellationToken cancellationToken = default)
+    {
+        return _channel.Writer.WriteAsync(item, cancellationToken);
+    }
+
+    public IAsyncEnumerable<IngestionWorkItem> ReadAllAsync(CancellationToken cancellationToken)
+    {
+        return _channel.Reader.ReadAllAsync(cancellationToken);
+    }
+}
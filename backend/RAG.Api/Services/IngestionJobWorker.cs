@@ -0,0 +1,141 @@
+using RAG.Api.Models;
+
+namespace RAG.Api.Services;
+
+/// <summary>
+/// Kuyruktaki PDF'leri arka planda işler (extract → chunk → embed → store)
+/// Her aşamayı ve chunk ilerlemesini IIngestionJobStore'a yazar
+/// </summary>
+public class IngestionJobWorker : BackgroundService
+{
+    private readonly IngestionJobQueue _queue;
+    private readonly IIngestionJobStore _jobStore;
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<IngestionJobWorker> _logger;
+    private readonly int _maxParallelJobs;
+
+    public IngestionJobWorker(
+        IngestionJobQueue queue,
+        IIngestionJobStore jobStore,
+        IServiceScopeFactory scopeFactory,
+        ILogger<IngestionJobWorker> logger,
+        IConfiguration configuration)
+    {
+        _queue = queue;
+        _jobStore = jobStore;
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+        _maxParallelJobs = Math.Max(1, configuration.GetValue<int>("Ingestion:MaxParallelJobs", 2));
+    }
+
+    protected override Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("IngestionJobWorker started with {Count} parallel workers", _maxParallelJobs);
+
+        // Aynı kuyruktan okuyan N worker - Ollama'yı aşırı yüklememek için sınırlı
+        var workers = Enumerable.Range(0, _maxParallelJobs)
+            .Select(_ => ProcessQueueAsync(stoppingToken));
+
+        return Task.WhenAll(workers);
+    }
+
+    private async Task ProcessQueueAsync(CancellationToken stoppingToken)
+    {
+        await foreach (var item in _queue.ReadAllAsync(stoppingToken))
+        {
+            await ProcessAsync(item, stoppingToken);
+        }
+    }
+
+    private async Task ProcessAsync(IngestionWorkItem item, CancellationToken stoppingToken)
+    {
+        // Kuyruktayken iptal edilen job'lar hiç işlenmez
+        if (_jobStore.Get(item.JobId)?.IsFinished == true)
+        {
+            _logger.LogInformation("Skipping ingestion job {JobId}, it was cancelled", item.JobId);
+            return;
+        }
+
+        _logger.LogInformation("Processing ingestion job {JobId}", item.JobId);
+
+        // Kullanıcı iptali veya sunucu kapanışı işi durdurur
+        var jobToken = _jobStore.GetCancellationToken(item.JobId);
+        using var linked = CancellationTokenSource.CreateLinkedTokenSource(stoppingToken, jobToken);
+        var cancellationToken = linked.Token;
+
+        try
+        {
+            // DbContext scoped olduğu için her job kendi scope'unu açar
+            using var scope = _scopeFactory.CreateScope();
+            var pdfReader = scope.ServiceProvider.GetRequiredService<IPdfReaderService>();
+            var ingestionService = scope.ServiceProvider.GetRequiredService<IChunkIngestionService>();
+
+            // 1. PDF'den metin çıkar
+            _jobStore.Update(item.JobId, job => job with { Stage = IngestionStage.Extracting });
+
+            string extractedText;
+            using (var stream = new MemoryStream(item.PdfBytes))
+            {
+                extractedText = await pdfReader.ExtractTextAsync(stream, cancellationToken);
+            }
+
+            if (string.IsNullOrWhiteSpace(extractedText))
+            {
+                throw new InvalidOperationException("No text could be extracted from the PDF");
+            }
+
+            _jobStore.Update(item.JobId, job => job with
+            {
+                Stage = IngestionStage.Chunking,
+                ExtractedTextLength = extractedText.Length
+            });
+
+            // 2-4. Chunk + embed + store (ilerleme her chunk'ta raporlanır)
+            var result = await ingestionService.IngestTextAsync(
+                extractedText,
+                item.Title,
+                item.Metadata,
+                cancellationToken,
+                progress => _jobStore.Update(item.JobId, job => job with
+                {
+                    Stage = progress.Stage,
+                    ProcessedChunks = progress.ProcessedChunks,
+                    TotalChunks = progress.TotalChunks
+                })
+            );
+
+            _jobStore.Update(item.JobId, job => job with
+            {
+                Stage = IngestionStage.Completed,
+                DocumentId = result.DocumentId,
+                ProcessedChunks = result.ChunkCount,
+                TotalChunks = result.ChunkCount
+            });
+
+            _logger.LogInformation("✅ Ingestion job {JobId} completed: {ChunkCount} chunks",
+                item.JobId, result.ChunkCount);
+        }
+        catch (OperationCanceledException) when (jobToken.IsCancellationRequested)
+        {
+            // Job zaten failed olarak işaretlendi, transaction geri alındı
+            _logger.LogInformation("Ingestion job {JobId} was cancelled", item.JobId);
+        }
+        catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+        {
+            _jobStore.Update(item.JobId, job => job with
+            {
+                Stage = IngestionStage.Failed,
+                Error = "Server is shutting down"
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "❌ Ingestion job {JobId} failed", item.JobId);
+            _jobStore.Update(item.JobId, job => job with
+            {
+                Stage = IngestionStage.Failed,
+                Error = ex.Message
+            });
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using System.Runtime.CompilerServices;
 using System.Text;
 using System.Text.Json;
 using Microsoft.Extensions.Options;
@@ -38,21 +39,7 @@ public class OllamaLlmService : IOllamaLlmService
 
         try
         {
-            var requestBody = new
-            {
-                model = _modelName,
-                prompt = prompt,
-                stream = false, // Non-streaming response
-                options = new
-                {
-                    temperature = 0.7,
-                    top_p = 0.9,
-                    top_k = 40
-                }
-            };
-
-            var json = JsonSerializer.Serialize(requestBody);
-            var content = new StringContent(json, Encoding.UTF8, "application/json");
+            var content = CreateGenerateContent(prompt, stream: false);
 
             _logger.LogDebug("Sending request to Ollama API: /api/generate");
             var response = await _httpClient.PostAsync("/api/generate", content, cancellationToken);
@@ -88,5 +75,88 @@ public class OllamaLlmService : IOllamaLlmService
             throw new InvalidOperationException("LLM generation failed", ex);
         }
     }
-}
 
+    public async IAsyncEnumerable<string> GenerateStreamAsync(
+        string prompt,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(prompt))
+        {
+            throw new ArgumentException("Prompt cannot be empty", nameof(prompt));
+        }
+
+        _logger.LogInformation("Streaming LLM response with model: {Model}", _modelName);
+
+        using var request = new HttpRequestMessage(HttpMethod.Post, "/api/generate")
+        {
+            Content = CreateGenerateContent(prompt, stream: true)
+        };
+
+        // Header'lar gelir gelmez okumaya başla, body'yi buffer'lama
+        using var response = await _httpClient.SendAsync(
+            request,
+            HttpCompletionOption.ResponseHeadersRead,
+            cancellationToken);
+
+        if (!response.IsSuccessStatusCode)
+        {
+            var error = await response.Content.ReadAsStringAsync(cancellationToken);
+            _logger.LogError("Ollama API error: {StatusCode} - {Error}",
+                response.StatusCode, error);
+            throw new InvalidOperationException("LLM generation failed",
+                new HttpRequestException($"Ollama API failed: {response.StatusCode}"));
+        }
+
+        await using var stream = await response.Content.ReadAsStreamAsync(cancellationToken);
+        using var reader = new StreamReader(stream, Encoding.UTF8);
+
+        // Ollama stream modunda her satır ayrı bir JSON objesi döner (NDJSON)
+        var totalLength = 0;
+        string? line;
+        while ((line = await reader.ReadLineAsync(cancellationToken)) != null)
+        {
+            if (string.IsNullOrWhiteSpace(line))
+                continue;
+
+            using var doc = JsonDocument.Parse(line);
+            var root = doc.RootElement;
+
+            if (root.TryGetProperty("response", out var token))
+            {
+                var text = token.GetString();
+                if (!string.IsNullOrEmpty(text))
+                {
+                    totalLength += text.Length;
+                    yield return text;
+                }
+            }
+
+            if (root.TryGetProperty("done", out var done) && done.GetBoolean())
+                break;
+        }
+
+        _logger.LogInformation("✅ LLM stream completed: {Length} characters", totalLength);
+    }
+
+    /// <summary>
+    /// Ollama /api/generate request body'sini oluşturur
+    /// </summary>
+    private StringContent CreateGenerateContent(string prompt, bool stream)
+    {
+        var requestBody = new
+        {
+            model = _modelName,
+            prompt = prompt,
+            stream = stream,
+            options = new
+            {
+                temperature = 0.7,
+                top_p = 0.9,
+                top_k = 40
+            }
+        };
+
+        var json = JsonSerializer.Serialize(requestBody);
+        return new StringContent(json, Encoding.UTF8, "application/json");
+    }
+}
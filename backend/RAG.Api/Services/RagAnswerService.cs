@@ -1,3 +1,4 @@
+using System.Runtime.CompilerServices;
 using System.Text;
 using Microsoft.Extensions.Options;
 using RAG.Api.Configuration;
@@ -36,6 +37,62 @@ public class RagAnswerService : IRagAnswerService
     }
 
     public async Task<RagResponse> AskAsync(RagRequest request, CancellationToken cancellationToken = default)
+    {
+        var preparation = await PrepareAsync(request, cancellationToken);
+        if (preparation.GatedResponse != null)
+        {
+            return preparation.GatedResponse;
+        }
+
+        try
+        {
+            // STEP 4: LLM'e gönder
+            _logger.LogInformation("Step 4: Sending to LLM...");
+            var answer = await _llmService.GenerateAsync(preparation.Prompt!, cancellationToken);
+            _logger.LogInformation("✅ LLM response received: {Length} characters", answer.Length);
+
+            return CompleteAnswer(request, preparation, answer);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "❌ RAG processing failed for question: '{Question}'",
+                request.Question.Substring(0, Math.Min(100, request.Question.Length)));
+            throw new InvalidOperationException("RAG answer generation failed", ex);
+        }
+    }
+
+    public async IAsyncEnumerable<RagStreamEvent> AskStreamAsync(
+        RagRequest request,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        var preparation = await PrepareAsync(request, cancellationToken);
+        if (preparation.GatedResponse != null)
+        {
+            // LLM çağrılmadı - fallback cevap tek event olarak döner
+            yield return RagStreamEvent.Final(preparation.GatedResponse);
+            yield break;
+        }
+
+        // STEP 4: LLM'den token token cevap al
+        _logger.LogInformation("Step 4: Streaming from LLM...");
+        var answerBuilder = new StringBuilder();
+        await foreach (var token in _llmService.GenerateStreamAsync(preparation.Prompt!, cancellationToken))
+        {
+            answerBuilder.Append(token);
+            yield return RagStreamEvent.ForToken(token);
+        }
+
+        var answer = answerBuilder.ToString().Trim();
+        _logger.LogInformation("✅ LLM stream received: {Length} characters", answer.Length);
+
+        yield return RagStreamEvent.Final(CompleteAnswer(request, preparation, answer));
+    }
+
+    /// <summary>
+    /// Conversation, vector search ve relevance gating adımları (STEP 0-3)
+    /// Gating devreye girerse LLM çağrılmadan dönecek cevabı da hazırlar
+    /// </summary>
+    private async Task<RagPreparation> PrepareAsync(RagRequest request, CancellationToken cancellationToken)
     {
         if (string.IsNullOrWhiteSpace(request.Question))
         {
@@ -56,9 +113,9 @@ public class RagAnswerService : IRagAnswerService
             conversationHistory = _conversationStore.GetConversation(conversationId);
         }
 
-        _logger.LogInformation("🔍 RAG Question: '{Question}' (convId={ConvId}, topK={TopK}, minSim={MinSim})",
+        _logger.LogInformation("🔍 RAG Question: '{Question}' (convId={ConvId}, topK={TopK}, minSim={MinSim}, documents={DocCount})",
             request.Question.Substring(0, Math.Min(100, request.Question.Length)), 
-            conversationId, topK, minSimilarity);
+            conversationId, topK, minSimilarity, request.DocumentIds?.Count ?? 0);
 
         // Dil tespiti (prompt için gerekli)
         var isTurkish = DetectTurkish(request.Question);
@@ -72,7 +129,8 @@ public class RagAnswerService : IRagAnswerService
                 request.Question,
                 topK,
                 minSimilarity,
-                cancellationToken
+                cancellationToken,
+                request.DocumentIds
             );
 
             // NO RELEVANT CHUNKS FOUND
@@ -90,7 +148,7 @@ public class RagAnswerService : IRagAnswerService
                 
                 _conversationStore.AddTurn(conversationId, request.Question, noContextAnswer);
                 
-                return new RagResponse
+                return RagPreparation.Gated(new RagResponse
                 {
                     Question = request.Question,
                     Answer = noContextAnswer,
@@ -106,7 +164,7 @@ public class RagAnswerService : IRagAnswerService
                     Sources = new List<SourceReference>(),
                     SourceCount = 0,
                     AverageSimilarity = 0.0
-                };
+                });
             }
 
             _logger.LogInformation("✅ Found {Count} relevant chunks", searchResults.Count);
@@ -136,7 +194,7 @@ public class RagAnswerService : IRagAnswerService
                 
                 _conversationStore.AddTurn(conversationId, request.Question, lowRelevanceAnswer);
                 
-                return new RagResponse
+                return RagPreparation.Gated(new RagResponse
                 {
                     Question = request.Question,
                     Answer = lowRelevanceAnswer,
@@ -160,7 +218,7 @@ public class RagAnswerService : IRagAnswerService
                     }).ToList(),
                     SourceCount = searchResults.Count,
                     AverageSimilarity = Math.Round(avgSimilarity, 4)
-                };
+                });
             }
 
             // Determine confidence level and reason
@@ -183,59 +241,17 @@ public class RagAnswerService : IRagAnswerService
             var prompt = BuildRagPrompt(documentContext, conversationContext, request.Question, isTurkish, confidenceLevel);
             _logger.LogDebug("Prompt length: {Length} characters", prompt.Length);
 
-            // STEP 4: LLM'e gönder
-            _logger.LogInformation("Step 4: Sending to LLM...");
-            var answer = await _llmService.GenerateAsync(prompt, cancellationToken);
-            _logger.LogInformation("✅ LLM response received: {Length} characters", answer.Length);
-
-            // STEP 5: Response oluştur + Conversation'a kaydet
-            var sources = searchResults.Select(r => new SourceReference
-            {
-                ChunkId = r.ChunkId,
-                DocumentId = r.DocumentId,
-                DocumentTitle = r.DocumentTitle,
-                ChunkIndex = r.ChunkIndex,
-                SimilarityScore = r.SimilarityScore,
-                ContentPreview = r.Content.Length > 200
-                    ? r.Content.Substring(0, 200) + "..."
-                    : r.Content
-            }).ToList();
-
-            // Conversation'a turn ekle
-            _conversationStore.AddTurn(conversationId, request.Question, answer);
-            _logger.LogDebug("Added turn to conversation {ConversationId}", conversationId);
-
-            // Human-readable confidence explanation
-            var confidenceExplanation = confidenceLevel == "high"
-                ? (isTurkish 
-                    ? $"Yüksek güvenilirlik - belgelerle güçlü eşleşme (benzerlik: %{maxSimilarity * 100:F1})" 
-                    : $"High confidence - strong match with documents (similarity: {maxSimilarity * 100:F1}%)")
-                : (isTurkish
-                    ? $"Düşük güvenilirlik - cevap eksik veya belirsiz olabilir (benzerlik: %{maxSimilarity * 100:F1}, ideal: %{_confidenceSettings.LowConfidenceThreshold * 100:F0}+)"
-                    : $"Low confidence - answer may be incomplete or uncertain (similarity: {maxSimilarity * 100:F1}%, ideal: {_confidenceSettings.LowConfidenceThreshold * 100:F0}%+)");
-
-            var response = new RagResponse
+            return new RagPreparation
             {
-                Question = request.Question,
-                Answer = answer,
                 ConversationId = conversationId,
                 Language = language,
-                Confidence = new ConfidenceInfo
-                {
-                    Level = confidenceLevel,
-                    MaxSimilarity = Math.Round(maxSimilarity, 4),
-                    AverageSimilarity = Math.Round(avgSimilarity, 4),
-                    Explanation = confidenceExplanation
-                },
-                Sources = sources,
-                SourceCount = sources.Count,
-                AverageSimilarity = Math.Round(avgSimilarity, 4) // backward compatibility
+                IsTurkish = isTurkish,
+                SearchResults = searchResults,
+                ConfidenceLevel = confidenceLevel,
+                MaxSimilarity = maxSimilarity,
+                AverageSimilarity = avgSimilarity,
+                Prompt = prompt
             };
-
-            _logger.LogInformation("✅ RAG COMPLETED - Confidence: {Confidence}, MaxSim: {MaxSim:F4}, Answer: {Length} chars",
-                confidenceLevel, maxSimilarity, answer.Length);
-
-            return response;
         }
         catch (Exception ex)
         {
@@ -245,6 +261,67 @@ public class RagAnswerService : IRagAnswerService
         }
     }
 
+    /// <summary>
+    /// LLM cevabından RagResponse oluşturur ve conversation'a kaydeder (STEP 5)
+    /// </summary>
+    private RagResponse CompleteAnswer(RagRequest request, RagPreparation preparation, string answer)
+    {
+        var searchResults = preparation.SearchResults;
+        var confidenceLevel = preparation.ConfidenceLevel;
+        var maxSimilarity = preparation.MaxSimilarity;
+        var avgSimilarity = preparation.AverageSimilarity;
+        var isTurkish = preparation.IsTurkish;
+
+        // STEP 5: Response oluştur + Conversation'a kaydet
+        var sources = searchResults.Select(r => new SourceReference
+        {
+            ChunkId = r.ChunkId,
+            DocumentId = r.DocumentId,
+            DocumentTitle = r.DocumentTitle,
+            ChunkIndex = r.ChunkIndex,
+            SimilarityScore = r.SimilarityScore,
+            ContentPreview = r.Content.Length > 200
+                ? r.Content.Substring(0, 200) + "..."
+                : r.Content
+        }).ToList();
+
+        // Conversation'a turn ekle
+        _conversationStore.AddTurn(preparation.ConversationId, request.Question, answer);
+        _logger.LogDebug("Added turn to conversation {ConversationId}", preparation.ConversationId);
+
+        // Human-readable confidence explanation
+        var confidenceExplanation = confidenceLevel == "high"
+            ? (isTurkish 
+                ? $"Yüksek güvenilirlik - belgelerle güçlü eşleşme (benzerlik: %{maxSimilarity * 100:F1})" 
+                : $"High confidence - strong match with documents (similarity: {maxSimilarity * 100:F1}%)")
+            : (isTurkish
+                ? $"Düşük güvenilirlik - cevap eksik veya belirsiz olabilir (benzerlik: %{maxSimilarity * 100:F1}, ideal: %{_confidenceSettings.LowConfidenceThreshold * 100:F0}+)"
+                : $"Low confidence - answer may be incomplete or uncertain (similarity: {maxSimilarity * 100:F1}%, ideal: {_confidenceSettings.LowConfidenceThreshold * 100:F0}%+)");
+
+        var response = new RagResponse
+        {
+            Question = request.Question,
+            Answer = answer,
+            ConversationId = preparation.ConversationId,
+            Language = preparation.Language,
+            Confidence = new ConfidenceInfo
+            {
+                Level = confidenceLevel,
+                MaxSimilarity = Math.Round(maxSimilarity, 4),
+                AverageSimilarity = Math.Round(avgSimilarity, 4),
+                Explanation = confidenceExplanation
+            },
+            Sources = sources,
+            SourceCount = sources.Count,
+            AverageSimilarity = Math.Round(avgSimilarity, 4) // backward compatibility
+        };
+
+        _logger.LogInformation("✅ RAG COMPLETED - Confidence: {Confidence}, MaxSim: {MaxSim:F4}, Answer: {Length} chars",
+            confidenceLevel, maxSimilarity, answer.Length);
+
+        return response;
+    }
+
     /// <summary>
     /// Chunk'lardan context string oluşturur
     /// </summary>
@@ -368,7 +445,7 @@ STRICT RULES (CITATION MODE):
 4. Do NOT use external knowledge or assumptions
 5. If the documents do NOT contain the answer, say: ""{noAnswerTemplate}""
 6. Be clear, concise, and direct
-7. You may reference which document number you're using (e.g., ""According to Document 1..."")
+7. Cite the document number in square brackets right after each statement it supports (e.g., ""... [1]"" or ""... [1][3]"")
 {confidenceInstructions}
 {conversationSection}DOCUMENT CONTEXT:
 
@@ -378,5 +455,26 @@ QUESTION: {question}
 
 ANSWER (in {(isTurkish ? "TURKISH" : "ENGLISH")}):";
     }
-}
 
+    /// <summary>
+    /// PrepareAsync sonucu - LLM'e gidecek prompt veya gating cevabı
+    /// </summary>
+    private sealed class RagPreparation
+    {
+        public Guid ConversationId { get; init; }
+        public string Language { get; init; } = string.Empty;
+        public bool IsTurkish { get; init; }
+        public List<SearchResult> SearchResults { get; init; } = new();
+        public string ConfidenceLevel { get; init; } = "none";
+        public double MaxSimilarity { get; init; }
+        public double AverageSimilarity { get; init; }
+        public string? Prompt { get; init; }
+
+        /// <summary>
+        /// Relevance gating devreye girdiyse LLM çağrılmadan dönecek cevap
+        /// </summary>
+        public RagResponse? GatedResponse { get; init; }
+
+        public static RagPreparation Gated(RagResponse response) => new() { GatedResponse = response };
+    }
+}
@@ -31,7 +31,8 @@ public class VectorSearchService : IVectorSearchService
         string queryText,
         int topK = 5,
         double similarityThreshold = 0.0,
-        CancellationToken cancellationToken = default)
+        CancellationToken cancellationToken = default,
+        IReadOnlyCollection<Guid>? documentIds = null)
     {
         if (string.IsNullOrWhiteSpace(queryText))
         {
@@ -44,8 +45,9 @@ public class VectorSearchService : IVectorSearchService
         }
 
         _logger.LogInformation(
-            "Starting vector search: query='{Query}', topK={TopK}, threshold={Threshold}",
-            queryText.Substring(0, Math.Min(100, queryText.Length)), topK, similarityThreshold
+            "Starting vector search: query='{Query}', topK={TopK}, threshold={Threshold}, documents={DocumentCount}",
+            queryText.Substring(0, Math.Min(100, queryText.Length)), topK, similarityThreshold,
+            documentIds?.Count ?? 0
         );
 
         try
@@ -70,7 +72,10 @@ public class VectorSearchService : IVectorSearchService
             _logger.LogDebug("Query vector prepared with {Dims} dimensions", queryEmbeddingArray.Length);
 
             // L2 distance works (<->), cosine distance (<=>)  has issues with Npgsql
-            var sql = "SELECT c.id, c.document_id, c.chunk_index, c.content, d.filename as document_title, (c.embedding <-> CAST(@embedding AS vector(768))) as distance FROM chunks c INNER JOIN documents d ON c.document_id = d.id WHERE c.embedding IS NOT NULL ORDER BY c.embedding <-> CAST(@embedding AS vector(768)) LIMIT @limit";
+            // Döküman filtresi varsa sadece o dökümanların chunk'ları
+            var filterByDocuments = documentIds is { Count: > 0 };
+            var documentFilter = filterByDocuments ? " AND c.document_id = ANY(@documentIds)" : string.Empty;
+            var sql = "SELECT c.id, c.document_id, c.chunk_index, c.content, d.filename as document_title, (c.embedding <-> CAST(@embedding AS vector(768))) as distance FROM chunks c INNER JOIN documents d ON c.document_id = d.id WHERE c.embedding IS NOT NULL" + documentFilter + " ORDER BY c.embedding <-> CAST(@embedding AS vector(768)) LIMIT @limit";
 
             List<ChunkSearchResult> results = new();
             await using (var connection = new NpgsqlConnection(_connectionString))
@@ -86,6 +91,13 @@ public class VectorSearchService : IVectorSearchService
                     // Parametreleri explicit type ile ekle
                     command.Parameters.Add(new NpgsqlParameter("@embedding", NpgsqlTypes.NpgsqlDbType.Text) { Value = vectorLiteral });
                     command.Parameters.Add(new NpgsqlParameter("@limit", NpgsqlTypes.NpgsqlDbType.Integer) { Value = topK * 2 });
+                    if (filterByDocuments)
+                    {
+                        command.Parameters.Add(new NpgsqlParameter("@documentIds", NpgsqlTypes.NpgsqlDbType.Array | NpgsqlTypes.NpgsqlDbType.Uuid)
+                        {
+                            Value = documentIds!.ToArray()
+                        });
+                    }
                     command.CommandTimeout = 30;
                     
                     _logger.LogInformation("🔍 Vector literal (first 150 chars): {Preview}...", 
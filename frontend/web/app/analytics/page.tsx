@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { SimilarityHistogram } from '@/components/SimilarityHistogram';
+import { useTranslation } from '@/hooks/useTranslation';
+import { fetchAnalytics } from '@/lib/analyticsApi';
+import type {
+  AnalyticsResponse,
+  AnalyticsSummary,
+  ChunkCitationCount,
+  ConfidenceInfo,
+  DocumentCitationCount,
+} from '@/types';
+
+const PERIODS = [7, 30, 90, 0] as const;
+
+type Period = (typeof PERIODS)[number];
+
+const LEVELS: ConfidenceInfo['level'][] = ['high', 'low', 'none'];
+
+const levelColors: Record<ConfidenceInfo['level'], string> = {
+  high: 'bg-green-500',
+  low: 'bg-yellow-400',
+  none: 'bg-red-400',
+};
+
+const selectClassName =
+  'px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const cardClassName = 'bg-white border border-slate-200 rounded-lg shadow-sm p-4 space-y-3';
+
+const isChunk = (row: DocumentCitationCount): row is ChunkCitationCount => 'chunkId' in row;
+
+export default function AnalyticsPage() {
+  const { t, plural } = useTranslation();
+  const [period, setPeriod] = useState<Period>(30);
+  const [data, setData] = useState<AnalyticsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFailed = t('analytics.loadFailed');
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchAnalytics(period)
+      .then((response) => {
+        if (cancelled) return;
+        setData(response);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : loadFailed);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period, loadFailed]);
+
+  const summary = data?.summary;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">{t('analytics.title')}</h1>
+            <p className="text-sm text-slate-600">
+              {summary ? plural('analytics.summary', summary.total) : t('common.loading')}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <LanguageSwitcher />
+            <select
+              aria-label={t('analytics.period')}
+              value={period}
+              onChange={(e) => setPeriod(Number(e.target.value) as Period)}
+              className={selectClassName}
+            >
+              {PERIODS.map((days) => (
+                <option key={days} value={days}>
+                  {t(`analytics.period.${days}`)}
+                </option>
+              ))}
+            </select>
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              {t('nav.backToChat')}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 max-w-7xl w-full mx-auto px-4 py-8 space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {summary?.total === 0 && <p className="text-sm text-slate-600">{t('analytics.empty')}</p>}
+
+        {data && summary && summary.total > 0 && (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <LevelDistribution levels={summary.levels} total={summary.total} />
+              <DailyAnswers daily={summary.daily} />
+            </div>
+
+            <p className="text-xs text-slate-500">{t('analytics.histogramHint')}</p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <SimilarityHistogram
+                title={t('analytics.maxSimilarity')}
+                histogram={summary.maxSimilarity}
+                thresholds={data.thresholds}
+              />
+              <SimilarityHistogram
+                title={t('analytics.averageSimilarity')}
+                histogram={summary.averageSimilarity}
+                thresholds={data.thresholds}
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <CitationTable title={t('analytics.topDocuments')} rows={summary.topDocuments} />
+              <CitationTable title={t('analytics.topChunks')} rows={summary.topChunks} />
+            </div>
+
+            <NoInfoQuestions questions={summary.noInfoQuestions} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LevelDistribution({ levels, total }: { levels: AnalyticsSummary['levels']; total: number }) {
+  const { t } = useTranslation();
+
+  return (
+    <section className={cardClassName}>
+      <h2 className="text-sm font-semibold text-slate-800">{t('analytics.levels')}</h2>
+      <div className="flex h-4 rounded-full overflow-hidden bg-slate-100">
+        {LEVELS.map((level) => (
+          <div
+            key={level}
+            className={levelColors[level]}
+            style={{ width: `${(levels[level] / total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <ul className="space-y-1 text-sm">
+        {LEVELS.map((level) => (
+          <li key={level} className="flex items-center justify-between">
+            <span className="flex items-center space-x-2 text-slate-700">
+              <span className={`inline-block w-3 h-3 rounded-sm ${levelColors[level]}`} />
+              <span>{t(`confidence.${level}.label`)}</span>
+            </span>
+            <span className="font-mono text-xs text-slate-600">
+              {t('analytics.share', {
+                count: levels[level],
+                percent: Math.round((levels[level] / total) * 100),
+              })}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function DailyAnswers({ daily }: { daily: AnalyticsSummary['daily'] }) {
+  const { t, date } = useTranslation();
+  const highest = Math.max(1, ...daily.map((day) => day.high + day.low + day.none));
+
+  return (
+    <section className={cardClassName}>
+      <h2 className="text-sm font-semibold text-slate-800">{t('analytics.overTime')}</h2>
+      <div className="h-32 flex items-end space-x-1">
+        {daily.map((day) => (
+          <div
+            key={day.date}
+            title={t('analytics.dayTitle', { date: date(day.date), high: day.high, low: day.low, none: day.none })}
+            className="flex-1 max-w-6 flex flex-col-reverse rounded-t overflow-hidden"
+            style={{ height: `${((day.high + day.low + day.none) / highest) * 100}%` }}
+          >
+            {LEVELS.map((level) => (
+              <div key={level} className={levelColors[level]} style={{ flexGrow: day[level] }} />
+            ))}
+          </div>
+        ))}
+      </div>
+      {daily.length > 0 && (
+        <div className="flex justify-between text-xs text-slate-500">
+          <span>{date(daily[0].date)}</span>
+          <span>{date(daily[daily.length - 1].date)}</span>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function CitationTable({ title, rows }: { title: string; rows: DocumentCitationCount[] }) {
+  const { t, similarity } = useTranslation();
+
+  return (
+    <section className={cardClassName}>
+      <h2 className="text-sm font-semibold text-slate-800">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('analytics.noCitations')}</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead className="text-xs text-slate-600 uppercase">
+            <tr>
+              <th className="py-1 text-left">{t('analytics.column.document')}</th>
+              <th className="py-1 text-right">{t('analytics.column.citations')}</th>
+              <th className="py-1 text-right">{t('analytics.column.averageSimilarity')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map((row) => (
+              <tr key={isChunk(row) ? row.chunkId : row.documentId} className="align-top">
+                <td className="py-1 pr-2 text-slate-800">
+                  <p className="truncate max-w-xs">{row.documentTitle}</p>
+                  {isChunk(row) && (
+                    <p className="text-xs text-slate-500 truncate max-w-xs">
+                      {t('sources.chunk', { index: row.chunkIndex })} • {row.contentPreview}
+                    </p>
+                  )}
+                </td>
+                <td className="py-1 text-right font-mono text-xs text-slate-700">{row.citations}</td>
+                <td className="py-1 text-right font-mono text-xs text-slate-700">
+                  {similarity(row.averageSimilarity)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+function NoInfoQuestions({ questions }: { questions: AnalyticsSummary['noInfoQuestions'] }) {
+  const { t, similarity, dateTime } = useTranslation();
+
+  return (
+    <section className={cardClassName}>
+      <div>
+        <h2 className="text-sm font-semibold text-slate-800">{t('analytics.noInfo')}</h2>
+        <p className="text-xs text-slate-500">{t('analytics.noInfoHint')}</p>
+      </div>
+      {questions.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('analytics.noInfoEmpty')}</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead className="text-xs text-slate-600 uppercase">
+            <tr>
+              <th className="py-1 text-left">{t('analytics.column.date')}</th>
+              <th className="py-1 text-left">{t('analytics.column.question')}</th>
+              <th className="py-1 text-right">{t('analytics.column.maxSimilarity')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {questions.map((question) => (
+              <tr key={`${question.createdAt}-${question.question}`}>
+                <td className="py-1 pr-2 text-xs text-slate-500 whitespace-nowrap">
+                  {dateTime(question.createdAt)}
+                </td>
+                <td className="py-1 text-slate-800">{question.question}</td>
+                <td className="py-1 text-right font-mono text-xs text-slate-700">
+                  {similarity(question.maxSimilarity)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
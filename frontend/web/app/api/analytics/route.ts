@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { summarizeAnswers } from '@/lib/analytics';
+import { listAnswerLogs } from '@/lib/analyticsStore';
+import { requestUser } from '@/lib/auth';
+import { confidenceThresholds } from '@/lib/config';
+import { proxyErrorResponse } from '@/lib/proxyError';
+import type { AnalyticsResponse } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Aggregates the answers logged for the user's workspace in the last
+ * ?days=30 (0 = all time). The ask proxies log every answer themselves.
+ */
+export async function GET(request: NextRequest) {
+  const days = Number(request.nextUrl.searchParams.get('days') ?? 30);
+  const since = Number.isFinite(days) && days > 0 ? new Date(Date.now() - days * DAY_MS) : undefined;
+
+  try {
+    const entries = await listAnswerLogs({ since, workspace: requestUser(request)?.workspace });
+    const body: AnalyticsResponse = {
+      since: since?.toISOString() ?? null,
+      thresholds: confidenceThresholds,
+      summary: summarizeAnswers(entries, confidenceThresholds),
+    };
+    return NextResponse.json(body, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return proxyErrorResponse(error, 'Failed to read answer logs');
+  }
+}
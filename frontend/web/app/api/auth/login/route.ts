@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSessionToken, SESSION_COOKIE, SESSION_TTL_SECONDS } from '@/lib/auth';
+import { invalidRequestResponse, proxyErrorResponse, unauthorizedResponse } from '@/lib/proxyError';
+import { authenticate } from '@/lib/userStore';
+import { parseLoginRequest } from '@/lib/validation';
+import type { LoginRequest, SessionResponse } from '@/types';
+
+/**
+ * Credentials sign-in against the local user store; sets the session cookie
+ */
+export async function POST(request: NextRequest) {
+  let credentials: LoginRequest;
+  try {
+    credentials = parseLoginRequest(await request.json(), 'POST /api/auth/login');
+  } catch (error) {
+    return invalidRequestResponse(error);
+  }
+
+  try {
+    const user = await authenticate(credentials.username, credentials.password);
+    if (!user) {
+      return unauthorizedResponse('Invalid username or password');
+    }
+
+    const body: SessionResponse = { user };
+    const response = NextResponse.json(body);
+    response.cookies.set(SESSION_COOKIE, createSessionToken(user), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    return proxyErrorResponse(error, 'Sign-in failed');
+  }
+}
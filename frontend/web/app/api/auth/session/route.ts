@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { unauthorizedResponse } from '@/lib/proxyError';
+import type { SessionResponse } from '@/types';
+
+/**
+ * The signed-in user (the proxy answers 401 before this runs otherwise)
+ */
+export async function GET(request: NextRequest) {
+  const user = requestUser(request);
+  if (!user) {
+    return unauthorizedResponse('Not signed in');
+  }
+  const body: SessionResponse = { user };
+  return NextResponse.json(body);
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { listDocumentTags, saveDocumentTags } from '@/lib/documentTagStore';
+import { invalidRequestResponse, proxyErrorResponse } from '@/lib/proxyError';
+import { parseDocumentTags } from '@/lib/validation';
+import type { DocumentTags } from '@/types';
+
+/**
+ * Replaces the tags of one document ({ documentId, tags }; [] removes them)
+ * for the user's workspace
+ */
+export async function PUT(request: NextRequest) {
+  let update: DocumentTags;
+  try {
+    update = parseDocumentTags(await request.json(), 'PUT /api/document-tags');
+  } catch (error) {
+    return invalidRequestResponse(error);
+  }
+
+  try {
+    return NextResponse.json(await saveDocumentTags(update, requestUser(request)?.workspace));
+  } catch (error) {
+    return proxyErrorResponse(error, 'Failed to save document tags');
+  }
+}
+
+/**
+ * Lists the documents tagged in the user's workspace
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ documents: await listDocumentTags(requestUser(request)?.workspace) });
+  } catch (error) {
+    return proxyErrorResponse(error, 'Failed to read document tags');
+  }
+}
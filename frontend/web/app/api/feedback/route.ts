@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { listFeedback, saveFeedback, type FeedbackFilter } from '@/lib/feedbackStore';
+import { invalidRequestResponse, proxyErrorResponse } from '@/lib/proxyError';
+import { parseFeedbackSubmission } from '@/lib/validation';
+import type { ConfidenceInfo, FeedbackSubmission } from '@/types';
+
+const CONFIDENCE_LEVELS: readonly string[] = ['high', 'low', 'none'];
+
+const isConfidenceLevel = (value: string): value is ConfidenceInfo['level'] =>
+  CONFIDENCE_LEVELS.includes(value);
+
+/**
+ * Stores a thumbs up/down (+ optional comment) with the answer it rates,
+ * under the user and their workspace
+ */
+export async function POST(request: NextRequest) {
+  let submission: FeedbackSubmission;
+  try {
+    submission = parseFeedbackSubmission(await request.json(), 'POST /api/feedback');
+  } catch (error) {
+    return invalidRequestResponse(error);
+  }
+
+  try {
+    const entry = await saveFeedback(
+      { ...submission, comment: submission.comment?.trim() || undefined },
+      requestUser(request)
+    );
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    return proxyErrorResponse(error, 'Failed to save feedback');
+  }
+}
+
+/**
+ * Lists the feedback of the user's workspace (?confidence=low,none&rating=down).
+ * ?format=jsonl downloads the filtered entries as JSON Lines. There are no
+ * admin roles: every signed-in member of the workspace may review it.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const rating = params.get('rating');
+  const filter: FeedbackFilter = {
+    confidence: (params.get('confidence') ?? '').split(',').filter(isConfidenceLevel),
+    rating: rating === 'up' || rating === 'down' ? rating : undefined,
+    workspace: requestUser(request)?.workspace,
+  };
+
+  try {
+    const entries = await listFeedback(filter);
+
+    if (params.get('format') === 'jsonl') {
+      const body = entries.map((entry) => JSON.stringify(entry)).join('\n');
+      return new Response(body ? `${body}\n` : '', {
+        headers: {
+          'Content-Type': 'application/x-ndjson; charset=utf-8',
+          'Content-Disposition': `attachment; filename="feedback-${new Date().toISOString().slice(0, 10)}.jsonl"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ total: entries.length, entries });
+  } catch (error) {
+    return proxyErrorResponse(error, 'Failed to read feedback');
+  }
+}
@@ -1,39 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { logAnswer } from '@/lib/analyticsStore';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { conversationOwners } from '@/lib/conversationOwners';
+import { invalidRequestResponse, proxyErrorResponse } from '@/lib/proxyError';
+import { checkQuestionLength, clientKey, rateLimiter } from '@/lib/rateLimit';
+import { responseCache } from '@/lib/responseCache';
+import { parseAskRequest } from '@/lib/validation';
+import { scopeToWorkspace } from '@/lib/workspaceAccess';
+import type { AskRequest } from '@/types';
 
 /**
  * Proxy endpoint to avoid CORS issues
- * Forwards requests from frontend to backend API Gateway
+ * Forwards requests from frontend to backend API Gateway, within the
+ * client's rate limit and in-flight cap (429 + Retry-After otherwise).
+ * Repeated questions are answered from the response cache when it's enabled,
+ * in a backend conversation started with the cached question and answer.
+ * Follow-ups only continue the user's own conversations (another user's
+ * conversationId is a 404). Every answer is logged for /analytics.
  */
 export async function POST(request: NextRequest) {
+  let body: AskRequest;
   try {
-    const body = await request.json();
-
-    // Forward request to backend API Gateway
-    const response = await fetch('http://localhost:8080/api/rag/ask', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+    body = parseAskRequest(await request.json(), 'POST /api/rag/ask');
+    checkQuestionLength(body.question, 'POST /api/rag/ask');
+  } catch (error) {
+    return invalidRequestResponse(error);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      return NextResponse.json(
-        { error: 'Backend request failed', details: errorText },
-        { status: response.status }
-      );
+  const user = requestUser(request);
+  let release = () => {};
+  try {
+    const scoped = {
+      ...body,
+      conversationId: conversationOwners.check(body.conversationId, user),
+      documentIds: await scopeToWorkspace(body.documentIds, user, request.signal),
+    };
+    // Cached answers cost the backend nothing, so they don't count against the limit
+    const cached = responseCache.get(scoped);
+    if (cached) {
+      // A conversation of the caller's own, so follow-ups know the cached answer
+      const conversationId = await apiClient.startConversation(cached, { signal: request.signal });
+      const answer = { ...cached, conversationId };
+      conversationOwners.record(answer.conversationId, user);
+      void logAnswer(body, answer, user);
+      return NextResponse.json(answer);
     }
 
-    const data = await response.json();
+    release = rateLimiter.acquire('ask', clientKey(request, user));
+    // Forward request to backend API Gateway; a closed tab aborts generation there too
+    const data = await apiClient.ask(scoped, { signal: request.signal });
+    conversationOwners.record(data.conversationId, user);
+    responseCache.set(scoped, data);
+    void logAnswer(body, data, user);
     return NextResponse.json(data);
   } catch (error) {
-    console.error('Proxy error:', error);
-    return NextResponse.json(
-      { error: 'Failed to connect to backend', message: (error as Error).message },
-      { status: 500 }
-    );
+    return proxyErrorResponse(error, 'Answer generation failed');
+  } finally {
+    release();
   }
 }
-
-
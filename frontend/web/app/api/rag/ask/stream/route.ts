@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { logAnswer } from '@/lib/analyticsStore';
+import { tapAnswerStream } from '@/lib/askStream';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { conversationOwners } from '@/lib/conversationOwners';
+import { invalidRequestResponse, proxyErrorResponse } from '@/lib/proxyError';
+import { checkQuestionLength, clientKey, rateLimiter, releaseWhenDone } from '@/lib/rateLimit';
+import { cachedAnswerStream, responseCache } from '@/lib/responseCache';
+import { parseAskRequest } from '@/lib/validation';
+import { scopeToWorkspace } from '@/lib/workspaceAccess';
+import type { AskRequest } from '@/types';
+
+const eventStreamHeaders = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+/**
+ * Streaming variant of the ask proxy
+ * Relays the backend's Server-Sent Events (token frames + final answer frame) as-is.
+ * Errors before the stream starts use the usual error envelope; a failure
+ * during generation arrives as an `error` event instead.
+ * The client's in-flight slot is held until the stream ends. Cached answers
+ * are replayed as a single token frame followed by the final frame, in a
+ * backend conversation started with the cached question and answer.
+ * Follow-ups are checked against the conversation's owner as in the ask
+ * proxy. Every final frame is logged for /analytics.
+ */
+export async function POST(request: NextRequest) {
+  let body: AskRequest;
+  try {
+    body = parseAskRequest(await request.json(), 'POST /api/rag/ask/stream');
+    checkQuestionLength(body.question, 'POST /api/rag/ask/stream');
+  } catch (error) {
+    return invalidRequestResponse(error);
+  }
+
+  const user = requestUser(request);
+  let release = () => {};
+  try {
+    const scoped = {
+      ...body,
+      conversationId: conversationOwners.check(body.conversationId, user),
+      documentIds: await scopeToWorkspace(body.documentIds, user, request.signal),
+    };
+    const cached = responseCache.get(scoped);
+    if (cached) {
+      // A conversation of the caller's own, so follow-ups know the cached answer
+      const conversationId = await apiClient.startConversation(cached, { signal: request.signal });
+      const answer = { ...cached, conversationId };
+      conversationOwners.record(answer.conversationId, user);
+      void logAnswer(body, answer, user);
+      return new Response(cachedAnswerStream(answer), { headers: eventStreamHeaders });
+    }
+
+    release = rateLimiter.acquire('ask', clientKey(request, user));
+    // Abort the backend call when the browser cancels generation
+    const response = await apiClient.openAskStream(scoped, { signal: request.signal });
+    const relayed =
+      response.body &&
+      tapAnswerStream(response.body, (answer) => {
+        conversationOwners.record(answer.conversationId, user);
+        responseCache.set(scoped, answer);
+        void logAnswer(body, answer, user);
+      });
+
+    return new Response(releaseWhenDone(relayed, release, request.signal), { headers: eventStreamHeaders });
+  } catch (error) {
+    release();
+    return proxyErrorResponse(error, 'Answer generation failed');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { proxyErrorResponse } from '@/lib/proxyError';
+import { assertVisible } from '@/lib/workspaceAccess';
+
+const DEFAULT_RADIUS = 2;
+// The backend clamps to the same range, but can't bind a fractional radius
+const MAX_RADIUS = 10;
+
+/**
+ * Returns a chunk with its neighbours in the same document (?radius=2, 0-10)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; chunkIndex: string }> }
+) {
+  try {
+    const { id, chunkIndex } = await params;
+    const index = Number(chunkIndex);
+    if (!Number.isInteger(index) || index < 0) {
+      return NextResponse.json(
+        { code: 'validation', error: 'Invalid chunk index', details: `'${chunkIndex}' is not a chunk index` },
+        { status: 400 }
+      );
+    }
+
+    const radius = Number(request.nextUrl.searchParams.get('radius') ?? DEFAULT_RADIUS);
+    const data = await apiClient.getChunkNeighbours(
+      id,
+      index,
+      Number.isFinite(radius) ? Math.min(Math.max(Math.trunc(radius), 0), MAX_RADIUS) : DEFAULT_RADIUS,
+      { signal: request.signal }
+    );
+    assertVisible(data.document, requestUser(request));
+    return NextResponse.json(data);
+  } catch (error) {
+    return proxyErrorResponse(error);
+  }
+}
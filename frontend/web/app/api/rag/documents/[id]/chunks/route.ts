@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { proxyErrorResponse } from '@/lib/proxyError';
+import { assertVisible } from '@/lib/workspaceAccess';
+
+/**
+ * Returns a page of a document's chunks in order (?offset=0&limit=50)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const data = await apiClient.getDocumentChunks(id, {
+      offset: Number(searchParams.get('offset') ?? 0) || 0,
+      limit: Number(searchParams.get('limit') ?? 50) || 50,
+    }, { signal: request.signal });
+    assertVisible(data.document, requestUser(request));
+    return NextResponse.json(data);
+  } catch (error) {
+    return proxyErrorResponse(error);
+  }
+}
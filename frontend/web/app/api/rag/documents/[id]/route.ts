@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { proxyErrorResponse } from '@/lib/proxyError';
+import { responseCache } from '@/lib/responseCache';
+import { assertVisible } from '@/lib/workspaceAccess';
+
+/**
+ * Deletes a document together with all of its chunks; documents of another
+ * workspace are reported as not found. Cached answers may cite it, so they
+ * are dropped.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { documents } = await apiClient.listDocuments({ signal: request.signal });
+    const document = documents.find((d) => d.documentId === id);
+    if (document) assertVisible(document, requestUser(request));
+
+    const data = await apiClient.deleteDocument(id, { signal: request.signal });
+    responseCache.clear();
+    return NextResponse.json(data);
+  } catch (error) {
+    return proxyErrorResponse(error, 'Document delete failed');
+  }
+}
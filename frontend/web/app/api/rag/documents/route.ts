@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { proxyErrorResponse } from '@/lib/proxyError';
+import { visibleDocuments } from '@/lib/workspaceAccess';
+
+/**
+ * Lists ingested documents (newest first) the user's workspace may see
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const data = await apiClient.listDocuments({ signal: request.signal });
+    const documents = visibleDocuments(data.documents, requestUser(request));
+    return NextResponse.json({ totalDocuments: documents.length, documents });
+  } catch (error) {
+    return proxyErrorResponse(error);
+  }
+}
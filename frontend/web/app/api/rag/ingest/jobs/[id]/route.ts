@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { proxyErrorResponse } from '@/lib/proxyError';
+import { assertJobVisible } from '@/lib/workspaceAccess';
+
+/**
+ * Current stage and processed/total chunk counts of an ingestion job.
+ * Jobs of another workspace answer 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await apiClient.getIngestionJob(id, { signal: request.signal });
+    assertJobVisible(job, requestUser(request));
+    return NextResponse.json(job, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return proxyErrorResponse(error, 'Ingestion job lookup failed');
+  }
+}
+
+/**
+ * Cancels a queued or running ingestion job; 409 once it has finished,
+ * 404 for a job of another workspace
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    assertJobVisible(await apiClient.getIngestionJob(id, { signal: request.signal }), requestUser(request));
+    const job = await apiClient.cancelIngestionJob(id, { signal: request.signal });
+    return NextResponse.json(job);
+  } catch (error) {
+    return proxyErrorResponse(error, 'Ingestion job cancel failed');
+  }
+}
@@ -1,48 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { watchIngestionJob } from '@/lib/ingestionJobs';
+import { invalidRequestResponse, proxyErrorResponse } from '@/lib/proxyError';
+import { clientKey, rateLimiter } from '@/lib/rateLimit';
+import { responseCache } from '@/lib/responseCache';
+import { guardPdfUpload, type GuardedUpload } from '@/lib/uploadGuard';
+import type { IngestionJob } from '@/types';
+
+/**
+ * Follows the job from the server, whether or not a browser still polls it,
+ * and drops the answers cached while it ran once its document is in
+ */
+function clearCacheWhenCompleted(job: IngestionJob) {
+  watchIngestionJob(job, { fetchJob: (jobId, signal) => apiClient.getIngestionJob(jobId, { signal }) }).then(
+    (finished) => {
+      if (finished.stage === 'completed') responseCache.clear();
+    },
+    (error) => console.warn(`Stopped following ingestion job ${job.jobId}:`, error)
+  );
+}
 
 /**
  * PDF upload proxy endpoint
- * Simple proxy without streaming - just waits for backend to complete
+ * Streams the multipart body to the backend as an ingestion job and returns
+ * the job (202). Non-PDFs (415) and files over 50MB (413) are refused here,
+ * and so are clients over their upload rate limit (429).
+ * Progress is polled from /api/rag/ingest/jobs/[id]. The document is tagged
+ * with the uploader and their workspace. Cached answers are dropped, since
+ * the new document may change them: now, and again when the job completes.
  */
 export async function POST(request: NextRequest) {
+  let upload: GuardedUpload;
   try {
-    console.log('[API Route] Received PDF upload request');
-    const formData = await request.formData();
-    
-    const file = formData.get('file');
-    const title = formData.get('title');
-    
-    console.log('[API Route] File:', file ? 'Present' : 'Missing');
-    console.log('[API Route] Title:', title);
+    upload = await guardPdfUpload(request.body, request.headers);
+  } catch (error) {
+    return invalidRequestResponse(error, 'Body must be multipart/form-data');
+  }
 
-    // Forward to backend - NO TIMEOUT (let it run as long as needed)
-    console.log('[API Route] Forwarding to backend: http://localhost:8080/api/ingest/pdf');
-    
-    const response = await fetch('http://localhost:8080/api/ingest/pdf', {
-      method: 'POST',
-      body: formData,
+  const user = requestUser(request);
+  let release = () => {};
+  try {
+    // Held while the file is sent; processing is capped by the backend's job workers
+    release = rateLimiter.acquire('ingest', clientKey(request, user));
+    // BACKEND_INGEST_TIMEOUT_MS only covers sending the file, processing runs as a job
+    const job = await apiClient.submitPdfJob(upload.body, {
+      contentType: request.headers.get('content-type') ?? undefined,
+      uploader: user ?? undefined,
+      signal: request.signal,
     });
-
-    console.log('[API Route] Backend response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[API Route] Backend error:', errorText);
-      return NextResponse.json(
-        { error: 'PDF upload failed', details: errorText },
-        { status: response.status }
-      );
+    responseCache.clear();
+    clearCacheWhenCompleted(job);
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    if (upload.rejected) {
+      return invalidRequestResponse(upload.rejected);
     }
-
-    const data = await response.json();
-    console.log('[API Route] Success! Chunk count:', data.chunkCount);
-    
-    return NextResponse.json(data);
-  } catch (error: any) {
-    console.error('[API Route] Exception:', error);
-    return NextResponse.json(
-      { error: 'Failed to upload PDF', message: error.message, stack: error.stack },
-      { status: 500 }
-    );
+    return proxyErrorResponse(error, 'PDF upload failed');
+  } finally {
+    release();
   }
 }
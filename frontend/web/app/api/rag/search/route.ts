@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requestUser } from '@/lib/auth';
+import { apiClient } from '@/lib/backend';
+import { invalidRequestResponse, proxyErrorResponse } from '@/lib/proxyError';
+import { parseSearchRequest } from '@/lib/validation';
+import { scopeToWorkspace } from '@/lib/workspaceAccess';
+import type { SearchRequest } from '@/types';
+
+/**
+ * Vector similarity search over the ingested chunks, without the LLM
+ */
+export async function POST(request: NextRequest) {
+  let body: SearchRequest;
+  try {
+    body = parseSearchRequest(await request.json(), 'POST /api/rag/search');
+  } catch (error) {
+    return invalidRequestResponse(error);
+  }
+
+  try {
+    const documentIds = await scopeToWorkspace(body.documentIds, requestUser(request), request.signal);
+    const data = await apiClient.search({ ...body, documentIds }, { signal: request.signal });
+    return NextResponse.json(data);
+  } catch (error) {
+    return proxyErrorResponse(error, 'Search failed');
+  }
+}
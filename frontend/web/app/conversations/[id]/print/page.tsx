@@ -0,0 +1,111 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { MarkdownAnswer } from '@/components/MarkdownAnswer';
+import { useConversations } from '@/hooks/useConversations';
+import { useTranslation } from '@/hooks/useTranslation';
+
+/**
+ * Print-optimized conversation, for "Save as PDF" from the browser print dialog
+ */
+export default function PrintConversationPage() {
+  const { id } = useParams<{ id: string }>();
+  const conversation = useConversations().find((c) => c.id === id);
+  const { t, similarity, dateTime } = useTranslation();
+
+  if (!conversation) {
+    return (
+      <div className="max-w-3xl mx-auto px-6 py-10 text-sm text-slate-600">
+        <p>{t('print.notStored')}</p>
+        <Link href="/" className="text-blue-700 underline">
+          {t('print.backToChat')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-10 bg-white text-slate-900 print:px-0 print:py-0">
+      <div className="mb-6 flex items-center justify-between print:hidden">
+        <Link href="/" className="text-sm text-blue-700 underline">
+          {t('nav.backToChat')}
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          {t('print.print')}
+        </button>
+      </div>
+
+      <header className="mb-6 border-b border-slate-300 pb-4">
+        <h1 className="text-2xl font-bold">{conversation.title}</h1>
+        <p className="text-xs text-slate-600 mt-1">
+          {t('print.started', {
+            started: dateTime(conversation.createdAt),
+            updated: dateTime(conversation.updatedAt),
+          })}
+          {conversation.conversationId && t('print.conversationId', { id: conversation.conversationId })}
+        </p>
+      </header>
+
+      <div className="space-y-6">
+        {conversation.messages.map((message) =>
+          message.role === 'user' ? (
+            <section key={message.id} className="break-inside-avoid">
+              <p className="text-xs text-slate-500">{dateTime(message.timestamp)}</p>
+              <h2 className="text-base font-semibold">{t('print.question', { question: message.content })}</h2>
+            </section>
+          ) : (
+            <section key={message.id} className="pl-4 border-l-4 border-slate-200 space-y-3">
+              <div className="text-sm leading-relaxed">
+                <MarkdownAnswer
+                  content={message.content}
+                  sources={message.sources ?? []}
+                  onCitationSelect={() => undefined}
+                />
+                {(message.isCancelled || message.isStreaming) && (
+                  <p className="text-xs italic text-slate-500">{t('message.cancelled')}</p>
+                )}
+                {message.error && (
+                  <p className="text-xs italic text-red-700">
+                    {t('print.failed', { message: message.error.message })}
+                  </p>
+                )}
+              </div>
+
+              {message.confidence && (
+                <p className="text-xs text-slate-700">
+                  <span className="font-semibold">
+                    {t(`confidence.${message.confidence.level}.label`)}
+                  </span>
+                  {t('print.similarity', {
+                    max: similarity(message.confidence.maxSimilarity),
+                    average: similarity(message.confidence.averageSimilarity),
+                  })}
+                  {message.confidence.explanation && ` — ${message.confidence.explanation}`}
+                </p>
+              )}
+
+              {message.sources && message.sources.length > 0 && (
+                <ol className="list-decimal pl-5 space-y-2 text-xs text-slate-700">
+                  {message.sources.map((source) => (
+                    <li key={source.chunkId} className="break-inside-avoid">
+                      <span className="font-medium">{source.documentTitle}</span>{' '}
+                      {t('print.source', {
+                        index: source.chunkIndex,
+                        similarity: similarity(source.similarityScore),
+                      })}
+                      <p className="mt-1 text-slate-600 whitespace-pre-wrap">{source.contentPreview}</p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
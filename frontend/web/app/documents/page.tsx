@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { DocumentChunksPanel } from '@/components/DocumentChunksPanel';
+import { DocumentTable } from '@/components/DocumentTable';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useTranslation } from '@/hooks/useTranslation';
+import { parseTagList } from '@/lib/documentScope';
+import { fetchDocumentTags, updateDocumentTags } from '@/lib/documentTagsApi';
+import { fetchDocuments, removeDocument } from '@/lib/documentsApi';
+import type { DocumentSummary } from '@/types';
+
+export default function DocumentsPage() {
+  const { t } = useTranslation();
+  const [documents, setDocuments] = useState<DocumentSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [tags, setTags] = useState<Record<string, string[]>>({});
+
+  const loadFailed = t('documents.loadFailed');
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchDocuments()
+      .then((data) => {
+        if (cancelled) return;
+        setDocuments(data.documents);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : loadFailed);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey, loadFailed]);
+
+  // Tags are an extra; the library works without them
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchDocumentTags()
+      .then((data) => {
+        if (!cancelled) setTags(Object.fromEntries(data.documents.map((entry) => [entry.documentId, entry.tags])));
+      })
+      .catch((err) => console.warn('Could not load document tags:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleDelete = async (document: DocumentSummary) => {
+    if (
+      !window.confirm(
+        t('documents.confirmDelete', { title: document.title, count: document.chunkCount })
+      )
+    ) {
+      return;
+    }
+
+    setDeletingId(document.documentId);
+    try {
+      await removeDocument(document.documentId);
+      setDocuments((prev) => prev?.filter((d) => d.documentId !== document.documentId) ?? null);
+      if (selectedId === document.documentId) {
+        setSelectedId(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('documents.deleteFailed'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleEditTags = async (document: DocumentSummary) => {
+    const input = window.prompt(
+      t('documents.tagsPrompt', { title: document.title }),
+      (tags[document.documentId] ?? []).join(', ')
+    );
+    if (input === null) return;
+
+    const next = parseTagList(input);
+    try {
+      await updateDocumentTags({ documentId: document.documentId, tags: next });
+      setTags((prev) => ({ ...prev, [document.documentId]: next }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('documents.tagsFailed'));
+    }
+  };
+
+  const selectedDocument = documents?.find((d) => d.documentId === selectedId);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">{t('documents.title')}</h1>
+            <p className="text-sm text-slate-600">
+              {documents ? t('documents.count', { count: documents.length }) : t('common.loading')}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <LanguageSwitcher />
+            <button
+              onClick={() => setReloadKey((k) => k + 1)}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              {t('documents.refresh')}
+            </button>
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              {t('nav.backToChat')}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 max-w-7xl w-full mx-auto px-4 py-8">
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {documents === null ? (
+          !error && <p className="text-sm text-slate-600">{t('documents.loading')}</p>
+        ) : (
+          <div className={`grid gap-6 ${selectedDocument ? 'lg:grid-cols-2' : ''}`}>
+            <DocumentTable
+              documents={documents}
+              selectedId={selectedId}
+              deletingId={deletingId}
+              tags={tags}
+              onSelect={setSelectedId}
+              onDelete={handleDelete}
+              onEditTags={handleEditTags}
+            />
+            {selectedDocument && (
+              <DocumentChunksPanel
+                key={selectedDocument.documentId}
+                document={selectedDocument}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
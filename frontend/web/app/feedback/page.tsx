@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useTranslation } from '@/hooks/useTranslation';
+import { feedbackExportUrl, fetchFeedback, type FeedbackQuery } from '@/lib/feedbackApi';
+import type { ConfidenceInfo, FeedbackEntry, FeedbackRating } from '@/types';
+
+const levelStyles: Record<ConfidenceInfo['level'], string> = {
+  high: 'bg-green-100 text-green-800',
+  low: 'bg-yellow-100 text-yellow-800',
+  none: 'bg-red-100 text-red-800',
+};
+
+const selectClassName =
+  'px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function FeedbackPage() {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState<FeedbackQuery>({});
+  const [entries, setEntries] = useState<FeedbackEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadFailed = t('feedbackPage.loadFailed');
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchFeedback(query)
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(data.entries);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : loadFailed);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, loadFailed]);
+
+  const upCount = entries?.filter((entry) => entry.rating === 'up').length ?? 0;
+  const downCount = (entries?.length ?? 0) - upCount;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">{t('feedbackPage.title')}</h1>
+            <p className="text-sm text-slate-600">
+              {entries
+                ? t('feedbackPage.summary', { count: entries.length, up: upCount, down: downCount })
+                : t('common.loading')}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <LanguageSwitcher />
+            <a
+              href={feedbackExportUrl(query)}
+              download
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              {t('feedbackPage.export')}
+            </a>
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              {t('nav.backToChat')}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 max-w-7xl w-full mx-auto px-4 py-8 space-y-4">
+        {/* Filters */}
+        <div className="flex items-center space-x-3">
+          <select
+            aria-label={t('feedbackPage.confidenceFilter')}
+            value={query.confidence ?? ''}
+            onChange={(e) =>
+              setQuery({
+                ...query,
+                confidence: (e.target.value || undefined) as ConfidenceInfo['level'] | undefined,
+              })
+            }
+            className={selectClassName}
+          >
+            <option value="">{t('feedbackPage.allConfidence')}</option>
+            <option value="high">{t('feedbackPage.high')}</option>
+            <option value="low">{t('feedbackPage.low')}</option>
+            <option value="none">{t('feedbackPage.none')}</option>
+          </select>
+          <select
+            aria-label={t('feedbackPage.ratingFilter')}
+            value={query.rating ?? ''}
+            onChange={(e) =>
+              setQuery({ ...query, rating: (e.target.value || undefined) as FeedbackRating | undefined })
+            }
+            className={selectClassName}
+          >
+            <option value="">{t('feedbackPage.allRatings')}</option>
+            <option value="up">{t('feedbackPage.helpful')}</option>
+            <option value="down">{t('feedbackPage.notHelpful')}</option>
+          </select>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {entries?.length === 0 && (
+          <p className="text-sm text-slate-600">{t('feedbackPage.empty')}</p>
+        )}
+
+        {entries && entries.length > 0 && (
+          <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-600 uppercase">
+                <tr>
+                  <th className="px-4 py-2 text-left">{t('feedbackPage.column.date')}</th>
+                  <th className="px-4 py-2 text-left">{t('feedbackPage.column.rating')}</th>
+                  <th className="px-4 py-2 text-left">{t('feedbackPage.column.confidence')}</th>
+                  <th className="px-4 py-2 text-right">{t('feedbackPage.column.maxSimilarity')}</th>
+                  <th className="px-4 py-2 text-left">{t('feedbackPage.column.question')}</th>
+                  <th className="px-4 py-2 text-left">{t('feedbackPage.column.comment')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {entries.map((entry) => (
+                  <FeedbackRow
+                    key={entry.id}
+                    entry={entry}
+                    isExpanded={entry.id === expandedId}
+                    onToggle={() => setExpandedId(entry.id === expandedId ? null : entry.id)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FeedbackRowProps {
+  entry: FeedbackEntry;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+function FeedbackRow({ entry, isExpanded, onToggle }: FeedbackRowProps) {
+  const { t, similarity, dateTime } = useTranslation();
+
+  return (
+    <>
+      <tr onClick={onToggle} className="cursor-pointer hover:bg-slate-50 align-top">
+        <td className="px-4 py-2 text-xs text-slate-500 whitespace-nowrap">
+          {dateTime(entry.createdAt)}
+        </td>
+        <td className="px-4 py-2">{entry.rating === 'up' ? '👍' : '👎'}</td>
+        <td className="px-4 py-2">
+          <span className={`text-xs font-medium px-2 py-0.5 rounded ${levelStyles[entry.confidence.level]}`}>
+            {t(`feedbackPage.${entry.confidence.level}`)}
+          </span>
+        </td>
+        <td className="px-4 py-2 text-right font-mono text-xs text-slate-700">
+          {similarity(entry.confidence.maxSimilarity)}
+        </td>
+        <td className="px-4 py-2 text-slate-800 max-w-md truncate">{entry.question}</td>
+        <td className="px-4 py-2 text-slate-600 max-w-xs truncate">{entry.comment ?? '—'}</td>
+      </tr>
+      {isExpanded && (
+        <tr className="bg-slate-50">
+          <td colSpan={6} className="px-4 py-3 space-y-2 text-xs text-slate-700">
+            <p>
+              <span className="font-semibold">{t('feedbackPage.answer')}</span>{' '}
+              <span className="whitespace-pre-wrap">{entry.answer}</span>
+            </p>
+            {entry.comment && (
+              <p>
+                <span className="font-semibold">{t('feedbackPage.comment')}</span> {entry.comment}
+              </p>
+            )}
+            <p>
+              <span className="font-semibold">{t('feedbackPage.sources')}</span>{' '}
+              {entry.sources.length === 0
+                ? t('feedbackPage.noSources')
+                : entry.sources
+                    .map((s) => `${s.documentTitle} #${s.chunkIndex} (${similarity(s.similarityScore)})`)
+                    .join(', ')}
+            </p>
+            <p className="text-slate-500">
+              {t('feedbackPage.averageSimilarity', { value: similarity(entry.confidence.averageSimilarity) })}
+              {entry.conversationId &&
+                t('feedbackPage.conversation', { id: entry.conversationId.slice(0, 8) })}
+              {entry.language && ` • ${entry.language}`}
+            </p>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
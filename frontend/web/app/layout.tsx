@@ -1,4 +1,7 @@
 import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { SessionProvider } from "@/components/SessionProvider";
+import { readSessionToken, SESSION_COOKIE } from "@/lib/auth";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -6,15 +9,17 @@ export const metadata: Metadata = {
   description: "Demo interface for RAG system with confidence-aware responses",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const user = readSessionToken((await cookies()).get(SESSION_COOKIE)?.value);
+
   return (
     <html lang="en">
       <body className="antialiased">
-        {children}
+        <SessionProvider user={user}>{children}</SessionProvider>
       </body>
     </html>
   );
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useTranslation } from '@/hooks/useTranslation';
+import { signIn } from '@/lib/authApi';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Where to go after signing in: the page the proxy redirected from, as long
+ * as it stays on this site
+ */
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next?.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+export default function LoginPage() {
+  const { t } = useTranslation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const user = await signIn({ username: username.trim(), password });
+      if (user) {
+        // A full load so the layout reads the new session cookie
+        window.location.assign(nextPath());
+        return;
+      }
+      setError(t('login.invalid'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('login.failed'));
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex flex-col">
+      <div className="flex justify-end px-4 py-4">
+        <LanguageSwitcher />
+      </div>
+
+      <div className="flex-1 flex items-start justify-center px-4 pt-16">
+        <form
+          onSubmit={handleSubmit}
+          className="w-full max-w-sm bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4"
+        >
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">{t('login.title')}</h1>
+            <p className="text-sm text-slate-600">{t('login.subtitle')}</p>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-slate-700">{t('login.username')}</span>
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              required
+              className={inputClassName}
+            />
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-sm font-medium text-slate-700">{t('login.password')}</span>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+              className={inputClassName}
+            />
+          </label>
+
+          {error && (
+            <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {submitting ? t('login.submitting') : t('login.submit')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
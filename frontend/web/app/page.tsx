@@ -1,187 +1,440 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import Link from 'next/link';
 import { ChatMessage } from '@/components/ChatMessage';
 import { ChatInput } from '@/components/ChatInput';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
+import { DocumentScopeChips } from '@/components/DocumentScopeChips';
+import { ExportMenu } from '@/components/ExportMenu';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { PdfUpload } from '@/components/PdfUpload';
-import type { Message } from '@/types';
+import { RetrievalSettingsPanel } from '@/components/RetrievalSettingsPanel';
+import { UserMenu } from '@/components/UserMenu';
+import { useConversations } from '@/hooks/useConversations';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toMessageError } from '@/lib/apiErrors';
+import { askStream } from '@/lib/askStream';
+import {
+  createConversation,
+  deleteConversation,
+  getConversation,
+  importConversation,
+  renameConversation,
+  titleFromQuestion,
+  updateConversation,
+} from '@/lib/conversationStore';
+import { parseConversationFile } from '@/lib/conversationExport';
+import { withinScope } from '@/lib/documentScope';
+import { submitFeedback } from '@/lib/feedbackApi';
+import { DEFAULT_RETRIEVAL_SETTINGS, toAskParameters } from '@/lib/retrievalSettings';
+import type { Conversation, Message, MessageFeedback, RetrievalSettings } from '@/types';
+
+/**
+ * The user message an answer responds to: the last one before it
+ */
+function questionFor(conversation: Conversation, answerId: string): Message | undefined {
+  const index = conversation.messages.findIndex((m) => m.id === answerId);
+  return conversation.messages
+    .slice(0, index)
+    .reverse()
+    .find((m) => m.role === 'user');
+}
 
 export default function Home() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const conversations = useConversations();
+  const { t } = useTranslation();
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [showSidebar, setShowSidebar] = useState(true);
+  // Settings chosen before the first question, when there is no conversation yet
+  const [draftSettings, setDraftSettings] = useState<RetrievalSettings>(DEFAULT_RETRIEVAL_SETTINGS);
+  const [linkedQuestion, setLinkedQuestion] = useState('');
 
-  const handleSendMessage = async (question: string) => {
-    // Add user message immediately
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: question,
-      timestamp: new Date(),
+  const activeConversation = conversations.find((c) => c.id === activeId);
+  const messages = activeConversation?.messages ?? [];
+  const conversationId = activeConversation?.conversationId ?? null;
+  const retrievalSettings = activeConversation
+    ? activeConversation.retrievalSettings ?? DEFAULT_RETRIEVAL_SETTINGS
+    : draftSettings;
+
+  const handleSettingsChange = (settings: RetrievalSettings) => {
+    if (activeId) {
+      updateConversation(activeId, (c) => ({ ...c, retrievalSettings: settings }));
+    } else {
+      setDraftSettings(settings);
+    }
+  };
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Streams the answer into assistant message `assistantId` of conversation
+   * `threadId`. Updates target that thread even if the user switches away.
+   */
+  const streamAnswer = async (
+    threadId: string,
+    assistantId: string,
+    question: string,
+    askedWith: string | null,
+    settings: RetrievalSettings
+  ) => {
+    const updateAssistant = (update: (message: Message) => Message) => {
+      updateConversation(threadId, (c) => ({
+        ...c,
+        messages: c.messages.map((m) => (m.id === assistantId ? update(m) : m)),
+      }));
     };
-    setMessages((prev) => [...prev, userMessage]);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/rag/ask', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const data = await askStream(
+        {
           question,
-          conversationId,
-          topK: 5,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to get response');
-      }
-
-      const data = await response.json();
+          conversationId: askedWith,
+          ...toAskParameters(settings),
+        },
+        {
+          signal: controller.signal,
+          onToken: (text) =>
+            updateAssistant((m) => ({ ...m, content: m.content + text })),
+        }
+      );
 
       // Update conversation ID for multi-turn
-      if (data.conversationId && !conversationId) {
-        setConversationId(data.conversationId);
-      }
+      // (the backend issues a new one if the stored ID has expired)
+      updateConversation(threadId, (c) =>
+        c.conversationId === data.conversationId
+          ? c
+          : { ...c, conversationId: data.conversationId }
+      );
 
-      // Add assistant message
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
+      // Replace the streamed text with the final answer; sources outside
+      // the conversation's documents are never shown
+      const sources = withinScope(data.sources, settings.documentIds);
+      updateAssistant((m) => ({
+        ...m,
         content: data.answer,
         timestamp: new Date(),
         confidence: data.confidence,
-        sources: data.sources,
+        sources,
         language: data.language,
-      };
-      setMessages((prev) => [...prev, assistantMessage]);
+        cached: data.cached,
+        isStreaming: false,
+      }));
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever was generated so far
+        updateAssistant((m) => ({ ...m, isStreaming: false, isCancelled: true }));
+        return;
+      }
+
       console.error('Error:', error);
-      // Add error message
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'Sorry, there was an error processing your request. Please try again.',
+      // Turn the placeholder into an error the user can retry
+      updateAssistant((m) => ({
+        ...m,
+        content: '',
         timestamp: new Date(),
-        confidence: {
-          level: 'none',
-          maxSimilarity: 0,
-          averageSimilarity: 0,
-          explanation: 'Error occurred',
-        },
-        sources: [],
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+        isStreaming: false,
+        error: toMessageError(error, askedWith),
+      }));
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleSendMessage = async (question: string, settings = retrievalSettings) => {
+    // Add user message and an empty assistant message that fills up as tokens stream in
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: question,
+      timestamp: new Date(),
+    };
+    const assistantId = (Date.now() + 1).toString();
+    const placeholder: Message = {
+      id: assistantId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      isStreaming: true,
+      retrievalSettings: settings,
+    };
+
+    // The first question starts a new stored conversation
+    const threadId =
+      activeId ?? createConversation(titleFromQuestion(question), settings).id;
+    setActiveId(threadId);
+    updateConversation(threadId, (c) => ({
+      ...c,
+      messages: [...c.messages, userMessage, placeholder],
+    }));
+
+    await streamAnswer(
+      threadId,
+      assistantId,
+      question,
+      getConversation(threadId)?.conversationId ?? null,
+      settings
+    );
+  };
+
+  // "Ask about this" on the search page links here with ?ask=…&document=…
+  // The question is only filled in: a link must never spend a question by itself
+  const openAskLink = useEffectEvent((question: string, documentId: string | null) => {
+    setActiveId(null);
+    setDraftSettings({ ...DEFAULT_RETRIEVAL_SETTINGS, documentIds: documentId ? [documentId] : [] });
+    setLinkedQuestion(question);
+  });
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const question = params.get('ask')?.trim();
+    if (!question) return;
+    // Drop the parameters so a reload doesn't fill the input again
+    window.history.replaceState(null, '', window.location.pathname);
+    openAskLink(question, params.get('document'));
+  }, []);
+
+  /**
+   * Asks a failed question again in place, with the conversationId and
+   * settings of the original attempt
+   */
+  const handleRetry = async (message: Message) => {
+    const question = activeConversation && questionFor(activeConversation, message.id);
+    if (!activeConversation || !question || !message.error || isLoading) return;
+
+    const { conversationId: askedWith } = message.error;
+    updateConversation(activeConversation.id, (c) => ({
+      ...c,
+      messages: c.messages.map((m) =>
+        m.id === message.id
+          ? { ...m, content: '', error: undefined, isStreaming: true, timestamp: new Date() }
+          : m
+      ),
+    }));
+
+    await streamAnswer(
+      activeConversation.id,
+      message.id,
+      question.content,
+      askedWith,
+      message.retrievalSettings ?? retrievalSettings
+    );
+  };
+
+  const handleFeedback = async (message: Message, feedback: MessageFeedback) => {
+    if (!activeConversation || !message.confidence) return;
+
+    const question = questionFor(activeConversation, message.id);
+
+    await submitFeedback({
+      ...feedback,
+      messageId: message.id,
+      question: question?.content ?? '',
+      answer: message.content,
+      conversationId: activeConversation.conversationId,
+      language: message.language,
+      confidence: message.confidence,
+      sources: message.sources ?? [],
+      retrievalSettings: message.retrievalSettings,
+    });
+
+    updateConversation(activeConversation.id, (c) => ({
+      ...c,
+      messages: c.messages.map((m) => (m.id === message.id ? { ...m, feedback } : m)),
+    }));
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleNewConversation = () => {
-    setMessages([]);
-    setConversationId(null);
+    setActiveId(null);
+    setDraftSettings(DEFAULT_RETRIEVAL_SETTINGS);
+  };
+
+  const handleImportConversation = (fileContent: string) => {
+    try {
+      const imported = importConversation(parseConversationFile(fileContent));
+      setActiveId(imported.id);
+    } catch (error) {
+      console.error('Import failed:', error);
+      window.alert(
+        t('home.importFailed', { reason: error instanceof Error ? error.message : String(error) })
+      );
+    }
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    if (id === activeId) {
+      abortControllerRef.current?.abort();
+      setActiveId(null);
+    }
+    deleteConversation(id);
   };
 
   const [showUpload, setShowUpload] = useState(false);
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex flex-col">
-      {/* Header */}
-      <header className="bg-white border-b border-slate-200 shadow-sm">
-        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
-          <div>
-            <h1 className="text-2xl font-bold text-slate-900">RAG Demo</h1>
-            <p className="text-sm text-slate-600">
-              Retrieval Augmented Generation System
-            </p>
-          </div>
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={() => setShowUpload(!showUpload)}
-              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
-            >
-              {showUpload ? 'Hide Upload' : '📄 Upload PDF'}
-            </button>
-            {messages.length > 0 && (
+    <div className="h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex">
+      {/* Conversation History */}
+      {showSidebar && (
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={activeId}
+          onSelect={setActiveId}
+          onNew={handleNewConversation}
+          onRename={renameConversation}
+          onDelete={handleDeleteConversation}
+          onImport={handleImportConversation}
+        />
+      )}
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* Header */}
+        <header className="bg-white border-b border-slate-200 shadow-sm">
+          <div className="max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900">{t('home.title')}</h1>
+              <p className="text-sm text-slate-600">
+                {t('home.subtitle')}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <LanguageSwitcher />
               <button
-                onClick={handleNewConversation}
+                onClick={() => setShowSidebar(!showSidebar)}
                 className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
               >
-                New Conversation
+                {showSidebar ? t('home.hideHistory') : t('home.history')}
               </button>
-            )}
-          </div>
-        </div>
-      </header>
-
-      {/* Chat Area */}
-      <div className="flex-1 overflow-y-auto">
-        <div className="max-w-5xl mx-auto px-4 py-8">
-          {/* PDF Upload Panel */}
-          {showUpload && (
-            <div className="mb-8">
-              <PdfUpload />
-            </div>
-          )}
-          {messages.length === 0 ? (
-            <div className="text-center py-16">
-              <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
-                <svg
-                  className="w-8 h-8 text-blue-600"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              <Link
+                href="/documents"
+                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+              >
+                {t('home.documents')}
+              </Link>
+              <Link
+                href="/search"
+                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+              >
+                {t('home.search')}
+              </Link>
+              <Link
+                href="/feedback"
+                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+              >
+                {t('home.feedback')}
+              </Link>
+              <Link
+                href="/analytics"
+                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+              >
+                {t('home.analytics')}
+              </Link>
+              <button
+                onClick={() => setShowUpload(!showUpload)}
+                className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+              >
+                {showUpload ? t('home.hideUpload') : t('home.uploadPdf')}
+              </button>
+              {activeConversation && messages.length > 0 && (
+                <ExportMenu conversation={activeConversation} />
+              )}
+              {messages.length > 0 && (
+                <button
+                  onClick={handleNewConversation}
+                  className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
-                  />
-                </svg>
-              </div>
-              <h2 className="text-xl font-semibold text-slate-900 mb-2">
-                Ask a Question
-              </h2>
-              <p className="text-slate-600">
-                Start a conversation with the RAG system
-              </p>
-            </div>
-          ) : (
-            <div className="space-y-6">
-              {messages.map((message) => (
-                <ChatMessage key={message.id} message={message} />
-              ))}
-              {isLoading && (
-                <div className="flex items-center space-x-2 text-slate-600">
-                  <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce" />
-                  <div
-                    className="w-2 h-2 bg-blue-600 rounded-full animate-bounce"
-                    style={{ animationDelay: '0.1s' }}
-                  />
-                  <div
-                    className="w-2 h-2 bg-blue-600 rounded-full animate-bounce"
-                    style={{ animationDelay: '0.2s' }}
-                  />
-                  <span className="text-sm ml-2">Thinking...</span>
-                </div>
+                  {t('home.newConversation')}
+                </button>
               )}
+              <UserMenu />
             </div>
-          )}
+          </div>
+        </header>
+
+        {/* Chat Area */}
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-w-5xl mx-auto px-4 py-8">
+            {/* PDF Upload Panel */}
+            {showUpload && (
+              <div className="mb-8">
+                <PdfUpload />
+              </div>
+            )}
+            {messages.length === 0 ? (
+              <div className="text-center py-16">
+                <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4">
+                  <svg
+                    className="w-8 h-8 text-blue-600"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+                    />
+                  </svg>
+                </div>
+                <h2 className="text-xl font-semibold text-slate-900 mb-2">
+                  {t('home.emptyTitle')}
+                </h2>
+                <p className="text-slate-600">
+                  {t('home.emptySubtitle')}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {messages.map((message) => (
+                  <ChatMessage
+                    key={message.id}
+                    message={message}
+                    onFeedback={(feedback) => handleFeedback(message, feedback)}
+                    onRetry={() => handleRetry(message)}
+                    retryDisabled={isLoading}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Input Area */}
-      <div className="bg-white border-t border-slate-200 shadow-lg">
-        <div className="max-w-5xl mx-auto px-4 py-4">
-          <ChatInput onSend={handleSendMessage} disabled={isLoading} />
-          {conversationId && (
-            <div className="mt-2 text-xs text-slate-500 text-center">
-              Conversation active • ID: {conversationId.slice(0, 8)}...
-            </div>
-          )}
+        {/* Input Area */}
+        <div className="bg-white border-t border-slate-200 shadow-lg">
+          <div className="max-w-5xl mx-auto px-4 py-4">
+            <RetrievalSettingsPanel
+              settings={retrievalSettings}
+              onChange={handleSettingsChange}
+              disabled={isLoading}
+            />
+            <DocumentScopeChips
+              documentIds={retrievalSettings.documentIds}
+              onChange={(documentIds) => handleSettingsChange({ ...retrievalSettings, documentIds })}
+              disabled={isLoading}
+            />
+            <ChatInput
+              key={linkedQuestion}
+              initialValue={linkedQuestion}
+              onSend={handleSendMessage}
+              onStop={handleCancel}
+              disabled={isLoading}
+            />
+            {conversationId && (
+              <div className="mt-2 text-xs text-slate-500 text-center">
+                {t('home.conversationActive', { id: conversationId.slice(0, 8) })}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,188 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AnswerError } from '@/components/AnswerError';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { SearchHitCard } from '@/components/SearchHitCard';
+import { useTranslation } from '@/hooks/useTranslation';
+import { toMessageError } from '@/lib/apiErrors';
+import { TOP_K_RANGE } from '@/lib/retrievalSettings';
+import { searchChunks } from '@/lib/searchApi';
+import { groupHitsByDocument, queryTerms } from '@/lib/searchResults';
+import type { MessageError, SearchResponse } from '@/types';
+
+const DEFAULT_TOP_K = 10;
+/** Quiet time before searching, so dragging a slider doesn't search at every step */
+const SEARCH_DELAY_MS = 300;
+
+interface SearchOutcome {
+  /** The search (query, topK, threshold, attempt) the response or error belongs to */
+  key: string;
+  response?: SearchResponse;
+  error?: MessageError;
+}
+
+const searchKey = (query: string, topK: number, threshold: number, attempt: number) =>
+  JSON.stringify([query, topK, threshold, attempt]);
+
+export default function SearchPage() {
+  const { t, plural, number } = useTranslation();
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState(0);
+  const [topK, setTopK] = useState(DEFAULT_TOP_K);
+  const [attempt, setAttempt] = useState(0);
+  const [outcome, setOutcome] = useState<SearchOutcome | null>(null);
+
+  const requestKey = query ? searchKey(query, topK, threshold, attempt) : null;
+  const isSearching = requestKey !== null && outcome?.key !== requestKey;
+
+  // Moving a slider searches again once it rests; the previous search is aborted
+  useEffect(() => {
+    if (!query) return;
+    const key = searchKey(query, topK, threshold, attempt);
+    const controller = new AbortController();
+
+    const timer = setTimeout(() => {
+      searchChunks({ query, topK, similarityThreshold: threshold }, controller.signal)
+        .then((response) => setOutcome({ key, response }))
+        .catch((err) => {
+          if (!controller.signal.aborted) setOutcome({ key, error: toMessageError(err, null) });
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, topK, threshold, attempt]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = input.trim();
+    if (trimmed) setQuery(trimmed);
+  };
+
+  const response = outcome?.response;
+  const groups = response ? groupHitsByDocument(response.results) : [];
+  const terms = response ? queryTerms(response.query) : [];
+  const bestScore = response?.results[0]?.similarityScore ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200 shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">{t('search.title')}</h1>
+            <p className="text-sm text-slate-600">
+              {response
+                ? plural('search.results', response.resultCount, {
+                    documents: plural('search.documents', groups.length),
+                  })
+                : t('search.subtitle')}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <LanguageSwitcher />
+            <Link
+              href="/"
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              {t('nav.backToChat')}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 max-w-5xl w-full mx-auto px-4 py-8 space-y-4">
+        <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t('search.placeholder')}
+            className="flex-1 px-4 py-3 border border-slate-300 rounded-lg text-sm text-slate-900 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="px-6 py-3 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {t('search.submit')}
+          </button>
+        </form>
+
+        <div className="p-3 bg-white border border-slate-200 rounded-lg grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="search-threshold" className="block text-xs font-medium text-slate-700 mb-1">
+              {t('search.threshold', { value: number(threshold, 2) })}
+            </label>
+            <input
+              id="search-threshold"
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-full"
+            />
+            <p className="text-xs text-slate-500">{t('search.thresholdHint')}</p>
+          </div>
+          <div>
+            <label htmlFor="search-top-k" className="block text-xs font-medium text-slate-700 mb-1">
+              {t('search.topK', { value: topK })}
+            </label>
+            <input
+              id="search-top-k"
+              type="range"
+              min={TOP_K_RANGE.min}
+              max={TOP_K_RANGE.max}
+              step={1}
+              value={topK}
+              onChange={(e) => setTopK(Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {isSearching && <p className="text-sm text-slate-600">{t('search.searching')}</p>}
+
+        {!isSearching && outcome?.error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <AnswerError error={outcome.error} onRetry={() => setAttempt(attempt + 1)} />
+          </div>
+        )}
+
+        {!query && <p className="text-sm text-slate-600">{t('search.empty')}</p>}
+
+        {response?.resultCount === 0 && <p className="text-sm text-slate-600">{t('search.noResults')}</p>}
+
+        {groups.map((group) => (
+          <section
+            key={group.documentId}
+            className="bg-white border border-slate-200 rounded-lg shadow-sm p-4 space-y-3"
+          >
+            <h2 className="text-sm font-semibold text-slate-800">
+              {group.documentTitle}{' '}
+              <span className="font-normal text-slate-500">({group.hits.length})</span>
+            </h2>
+            <ul className="space-y-2">
+              {group.hits.map((hit) => (
+                <SearchHitCard
+                  key={hit.chunkId}
+                  hit={hit}
+                  terms={terms}
+                  bestScore={bestScore}
+                  query={response?.query ?? ''}
+                />
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import type { MessageError } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface AnswerErrorProps {
+  error: MessageError;
+  /** Resends the question; hidden when missing */
+  onRetry?: () => void;
+  retryDisabled?: boolean;
+}
+
+/**
+ * A question that failed, with the reason and a retry button
+ */
+export function AnswerError({ error, onRetry, retryDisabled = false }: AnswerErrorProps) {
+  const { t, plural } = useTranslation();
+
+  return (
+    <div role="alert" className="flex items-start space-x-2 text-red-800">
+      <span className="text-lg leading-none">⚠</span>
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="text-sm font-semibold">{t(`errors.${error.code}`)}</p>
+        <p className="text-xs text-red-700 break-words">{error.message}</p>
+        {error.retryAfterSeconds !== undefined && (
+          <p className="text-xs text-red-700">{plural('errors.retryAfter', error.retryAfterSeconds)}</p>
+        )}
+      </div>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          disabled={retryDisabled}
+          className="px-3 py-1 text-xs font-medium text-red-700 bg-white border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('errors.retry')}
+        </button>
+      )}
+    </div>
+  );
+}
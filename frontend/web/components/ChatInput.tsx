@@ -1,14 +1,20 @@
 'use client';
 
 import { useState, KeyboardEvent } from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
+  /** Aborts the question in flight; replaces the spinner with a stop button */
+  onStop?: () => void;
   disabled?: boolean;
+  /** Filled in on mount, e.g. from an "Ask about this" link; change the key to refill */
+  initialValue?: string;
 }
 
-export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
-  const [input, setInput] = useState('');
+export function ChatInput({ onSend, onStop, disabled = false, initialValue = '' }: ChatInputProps) {
+  const [input, setInput] = useState(initialValue);
+  const { t } = useTranslation();
 
   const handleSend = () => {
     const trimmed = input.trim();
@@ -33,7 +39,7 @@ export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
           disabled={disabled}
-          placeholder="Ask a question... (Turkish or English)"
+          placeholder={t('chatInput.placeholder')}
           rows={1}
           className="w-full px-4 py-3 pr-20 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none disabled:bg-slate-100 disabled:cursor-not-allowed text-sm text-slate-900 placeholder:text-slate-400"
           style={{
@@ -42,51 +48,64 @@ export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
           }}
         />
         <div className="absolute right-2 bottom-2 text-xs text-slate-400">
-          {disabled ? 'Processing...' : 'Press Enter to send'}
+          {disabled ? t('chatInput.processing') : t('chatInput.hint')}
         </div>
       </div>
-      <button
-        onClick={handleSend}
-        disabled={disabled || !input.trim()}
-        className="px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors h-12 flex items-center justify-center"
-      >
-        {disabled ? (
-          <svg
-            className="animate-spin h-5 w-5"
-            xmlns="http://www.w3.org/2000/svg"
-            fill="none"
-            viewBox="0 0 24 24"
-          >
-            <circle
-              className="opacity-25"
-              cx="12"
-              cy="12"
-              r="10"
-              stroke="currentColor"
-              strokeWidth="4"
-            />
-            <path
-              className="opacity-75"
-              fill="currentColor"
-              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-            />
-          </svg>
-        ) : (
-          <svg
-            className="w-5 h-5"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
-            />
+      {disabled && onStop ? (
+        <button
+          onClick={onStop}
+          aria-label={t('chatInput.stop')}
+          title={t('chatInput.stop')}
+          className="px-6 py-3 bg-slate-700 text-white font-medium rounded-lg hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 transition-colors h-12 flex items-center justify-center"
+        >
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <rect x="4" y="4" width="16" height="16" rx="2" />
           </svg>
-        )}
-      </button>
+        </button>
+      ) : (
+        <button
+          onClick={handleSend}
+          disabled={disabled || !input.trim()}
+          className="px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors h-12 flex items-center justify-center"
+        >
+          {disabled ? (
+            <svg
+              className="animate-spin h-5 w-5"
+              xmlns="http://www.w3.org/2000/svg"
+              fill="none"
+              viewBox="0 0 24 24"
+            >
+              <circle
+                className="opacity-25"
+                cx="12"
+                cy="12"
+                r="10"
+                stroke="currentColor"
+                strokeWidth="4"
+              />
+              <path
+                className="opacity-75"
+                fill="currentColor"
+                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+              />
+            </svg>
+          ) : (
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
+              />
+            </svg>
+          )}
+        </button>
+      )}
     </div>
   );
 }
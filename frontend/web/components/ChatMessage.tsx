@@ -1,13 +1,35 @@
-import { Message } from '@/types';
+'use client';
+
+import { useRef } from 'react';
+import { Message, MessageFeedback } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { describeRetrievalSettings } from '@/lib/retrievalSettings';
+import { AnswerError } from './AnswerError';
 import { ConfidenceBadge } from './ConfidenceBadge';
-import { SourcesPanel } from './SourcesPanel';
+import { FeedbackControls } from './FeedbackControls';
+import { MarkdownAnswer } from './MarkdownAnswer';
+import { SourcesPanel, SourcesPanelHandle } from './SourcesPanel';
 
 interface ChatMessageProps {
   message: Message;
+  /** Enables thumbs up/down on finished answers */
+  onFeedback?: (feedback: MessageFeedback) => Promise<void>;
+  /** Resends the question of a failed answer */
+  onRetry?: () => void;
+  retryDisabled?: boolean;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+export function ChatMessage({
+  message,
+  onFeedback,
+  onRetry,
+  retryDisabled,
+}: ChatMessageProps) {
+  const translator = useTranslation();
+  const { t, time } = translator;
   const isUser = message.role === 'user';
+  const sourcesRef = useRef<SourcesPanelHandle>(null);
+  const sources = message.sources ?? [];
 
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -17,7 +39,9 @@ export function ChatMessage({ message }: ChatMessageProps) {
           className={`rounded-lg px-4 py-3 ${
             isUser
               ? 'bg-blue-600 text-white'
-              : 'bg-white border border-slate-200 shadow-sm'
+              : message.error
+                ? 'bg-red-50 border border-red-200'
+                : 'bg-white border border-slate-200 shadow-sm'
           }`}
         >
           {/* User Message */}
@@ -42,8 +66,13 @@ export function ChatMessage({ message }: ChatMessageProps) {
             </div>
           )}
 
+          {/* Failed Question */}
+          {!isUser && message.error && (
+            <AnswerError error={message.error} onRetry={onRetry} retryDisabled={retryDisabled} />
+          )}
+
           {/* Assistant Message */}
-          {!isUser && (
+          {!isUser && !message.error && (
             <div className="space-y-3">
               <div className="flex items-start space-x-2">
                 <div className="flex-shrink-0">
@@ -64,20 +93,73 @@ export function ChatMessage({ message }: ChatMessageProps) {
                   </div>
                 </div>
                 <div className="flex-1">
-                  <p className="text-sm leading-relaxed text-slate-800 whitespace-pre-wrap">
-                    {message.content}
-                  </p>
+                  {message.isStreaming && !message.content ? (
+                    <div className="flex items-center space-x-2 text-slate-600">
+                      <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce" />
+                      <div
+                        className="w-2 h-2 bg-blue-600 rounded-full animate-bounce"
+                        style={{ animationDelay: '0.1s' }}
+                      />
+                      <div
+                        className="w-2 h-2 bg-blue-600 rounded-full animate-bounce"
+                        style={{ animationDelay: '0.2s' }}
+                      />
+                      <span className="text-sm ml-2">{t('message.thinking')}</span>
+                    </div>
+                  ) : (
+                    <div className="text-sm leading-relaxed text-slate-800 break-words">
+                      <MarkdownAnswer
+                        content={message.content}
+                        sources={sources}
+                        onCitationSelect={(index) => sourcesRef.current?.focusSource(index)}
+                      />
+                      {message.isStreaming && (
+                        <span className="inline-block w-2 h-4 mt-1 align-middle bg-slate-400 animate-pulse" />
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
 
+              {/* Cancelled */}
+              {message.isCancelled && (
+                <p className="text-xs text-slate-500 italic">
+                  {t('message.cancelled')}
+                </p>
+              )}
+
               {/* Confidence Badge */}
               {message.confidence && (
-                <ConfidenceBadge confidence={message.confidence} />
+                <ConfidenceBadge confidence={message.confidence} language={message.language} />
+              )}
+
+              {/* Served from the ask proxy's response cache */}
+              {message.cached && (
+                <span
+                  title={t('message.cachedTitle')}
+                  className="inline-block px-2 py-0.5 text-xs text-slate-600 bg-slate-100 border border-slate-200 rounded-full"
+                >
+                  {t('message.cached')}
+                </span>
+              )}
+
+              {/* Retrieval settings the answer was produced with */}
+              {message.retrievalSettings && !message.isStreaming && (
+                <p className="text-xs text-slate-500">
+                  {t('message.retrievedWith', {
+                    settings: describeRetrievalSettings(message.retrievalSettings, translator),
+                  })}
+                </p>
               )}
 
               {/* Sources Panel */}
-              {message.sources && message.sources.length > 0 && (
-                <SourcesPanel sources={message.sources} />
+              {sources.length > 0 && (
+                <SourcesPanel ref={sourcesRef} sources={sources} />
+              )}
+
+              {/* Feedback */}
+              {onFeedback && message.confidence && !message.isStreaming && !message.isCancelled && (
+                <FeedbackControls feedback={message.feedback} onSubmit={onFeedback} />
               )}
             </div>
           )}
@@ -89,7 +171,7 @@ export function ChatMessage({ message }: ChatMessageProps) {
             isUser ? 'text-right' : 'text-left'
           }`}
         >
-          {message.timestamp.toLocaleTimeString()}
+          {time(message.timestamp)}
         </div>
       </div>
     </div>
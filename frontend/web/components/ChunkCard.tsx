@@ -0,0 +1,43 @@
+'use client';
+
+import type { DocumentChunk } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ChunkCardProps {
+  chunk: DocumentChunk;
+  /** Marks the chunk a search or answer matched */
+  highlighted?: boolean;
+}
+
+export function ChunkCard({ chunk, highlighted = false }: ChunkCardProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div
+      className={`border rounded-lg p-3 ${
+        highlighted ? 'bg-blue-50 border-blue-300 ring-2 ring-blue-200' : 'bg-slate-50 border-slate-200'
+      }`}
+    >
+      <div className="flex items-center space-x-2 mb-2">
+        <span className="text-xs font-mono bg-slate-200 text-slate-700 px-2 py-0.5 rounded">
+          #{chunk.chunkIndex}
+        </span>
+        <span className="text-xs text-slate-500">{chunk.chunkType}</span>
+        {chunk.articleNumber && (
+          <span className="text-xs text-slate-700 truncate">
+            {t('chunk.article', { number: chunk.articleNumber })}
+            {chunk.articleTitle ? `: ${chunk.articleTitle}` : ''}
+          </span>
+        )}
+        {highlighted && (
+          <span className="text-xs font-medium text-blue-800 bg-blue-100 px-2 py-0.5 rounded">
+            {t('chunk.matched')}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-slate-700 leading-relaxed whitespace-pre-wrap">
+        {chunk.content}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { Source } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface CitationChipProps {
+  number: number;
+  source: Source;
+  onSelect: () => void;
+}
+
+/**
+ * Inline `[n]` marker in an answer. Hover or focus shows the chunk preview,
+ * click jumps to the source in SourcesPanel.
+ */
+export function CitationChip({ number, source, onSelect }: CitationChipProps) {
+  const { t } = useTranslation();
+
+  return (
+    <span className="relative inline-block group align-baseline">
+      <button
+        type="button"
+        onClick={onSelect}
+        aria-label={t('sources.citation', { number, title: source.documentTitle })}
+        className="mx-0.5 px-1.5 py-0 text-xs font-mono font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+      >
+        {number}
+      </button>
+      <span
+        role="tooltip"
+        className="hidden group-hover:block group-focus-within:block absolute z-10 left-0 bottom-full mb-1 w-72 p-2 bg-slate-900 text-white rounded-lg shadow-lg whitespace-normal"
+      >
+        <span className="block text-xs font-semibold mb-1 truncate">
+          #{number} {source.documentTitle} • {t('sources.chunk', { index: source.chunkIndex })}
+        </span>
+        <span className="block text-xs text-slate-200 leading-relaxed line-clamp-6">
+          {source.contentPreview}
+        </span>
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { ComponentProps, useEffect, useRef, useState } from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const COPIED_MS = 2000;
+
+/**
+ * Fenced code block with a copy button; the language comes from the ```lang fence
+ */
+export function CodeBlock({ children }: ComponentProps<'pre'>) {
+  const { t } = useTranslation();
+  const preRef = useRef<HTMLPreElement>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(
+    () => () => {
+      if (timer.current) clearTimeout(timer.current);
+    },
+    []
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = setTimeout(() => setCopied(false), COPIED_MS);
+    } catch (error) {
+      console.warn('Could not copy code block:', error);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 px-2 py-0.5 text-xs font-medium text-slate-200 bg-slate-700 border border-slate-600 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+      >
+        {copied ? t('code.copied') : t('code.copy')}
+      </button>
+      <pre
+        ref={preRef}
+        className="overflow-x-auto rounded-lg bg-slate-900 text-slate-100 p-3 text-xs leading-relaxed"
+      >
+        {children}
+      </pre>
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
+'use client';
+
 import { ConfidenceInfo } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getTranslator, localeForLanguage } from '@/lib/i18n';
 
 interface ConfidenceBadgeProps {
   confidence: ConfidenceInfo;
+  /** Language of the answer; the badge is worded in it when it is a UI language */
+  language?: string;
 }
 
-export function ConfidenceBadge({ confidence }: ConfidenceBadgeProps) {
+export function ConfidenceBadge({ confidence, language }: ConfidenceBadgeProps) {
   const { level, maxSimilarity, averageSimilarity, explanation } = confidence;
+  const uiTranslator = useTranslation();
+  const answerLocale = localeForLanguage(language);
+  // Matches the explanation, which the backend writes in the answer's language
+  const { t, similarity } = answerLocale ? getTranslator(answerLocale) : uiTranslator;
 
   // Style variants based on confidence level
   const variants = {
@@ -14,24 +24,24 @@ export function ConfidenceBadge({ confidence }: ConfidenceBadgeProps) {
       border: 'border-green-200',
       text: 'text-green-800',
       icon: '✓',
-      label: 'High Confidence',
-      description: 'Strong match found in documents',
+      label: t('confidence.high.label'),
+      description: t('confidence.high.description'),
     },
     low: {
       bg: 'bg-yellow-50',
       border: 'border-yellow-200',
       text: 'text-yellow-800',
       icon: '⚠',
-      label: 'Low Confidence',
-      description: 'Answer may be incomplete or uncertain',
+      label: t('confidence.low.label'),
+      description: t('confidence.low.description'),
     },
     none: {
       bg: 'bg-red-50',
       border: 'border-red-200',
       text: 'text-red-800',
       icon: '✕',
-      label: 'No Relevant Information',
-      description: 'Question not sufficiently relevant to available documents',
+      label: t('confidence.none.label'),
+      description: t('confidence.none.description'),
     },
   };
 
@@ -47,11 +57,11 @@ export function ConfidenceBadge({ confidence }: ConfidenceBadgeProps) {
           <div className="flex items-center justify-between">
             <span className="font-semibold text-sm">{variant.label}</span>
             <div className="text-xs space-x-2">
-              <span title="Maximum similarity score">
-                Max: {maxSimilarity.toFixed(4)}
+              <span title={t('confidence.maxTitle')}>
+                {t('confidence.max', { value: similarity(maxSimilarity) })}
               </span>
-              <span title="Average similarity score">
-                Avg: {averageSimilarity.toFixed(4)}
+              <span title={t('confidence.avgTitle')}>
+                {t('confidence.avg', { value: similarity(averageSimilarity) })}
               </span>
             </div>
           </div>
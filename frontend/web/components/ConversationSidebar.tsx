@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, ChangeEvent, KeyboardEvent } from 'react';
+import type { Conversation } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { searchConversations } from '@/lib/conversationStore';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  /** Receives the content of a JSON export chosen by the user */
+  onImport: (fileContent: string) => void;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onImport,
+}: ConversationSidebarProps) {
+  const { t, plural, date } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const visible = searchConversations(conversations, query);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, editTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again
+    e.target.value = '';
+    if (file) {
+      onImport(await file.text());
+    }
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(t('sidebar.confirmDelete', { title: conversation.title }))) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <aside className="w-72 flex-shrink-0 bg-white border-r border-slate-200 flex flex-col">
+      <div className="p-4 border-b border-slate-200 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-slate-900">{t('sidebar.title')}</h2>
+          <div className="flex items-center space-x-1">
+            <label
+              title={t('sidebar.importTitle')}
+              className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors cursor-pointer"
+            >
+              {t('sidebar.import')}
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="sr-only"
+              />
+            </label>
+            <button
+              onClick={onNew}
+              className="px-3 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              {t('sidebar.new')}
+            </button>
+          </div>
+        </div>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('sidebar.search')}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-slate-900 placeholder:text-slate-400"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {visible.length === 0 && (
+          <p className="px-2 py-4 text-xs text-slate-500 text-center">
+            {query ? t('sidebar.noMatches') : t('sidebar.empty')}
+          </p>
+        )}
+
+        {visible.map((conversation) => {
+          const isActive = conversation.id === activeId;
+          const isEditing = conversation.id === editingId;
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg px-3 py-2 ${
+                isActive ? 'bg-blue-50 border border-blue-200' : 'hover:bg-slate-50 border border-transparent'
+              }`}
+            >
+              {isEditing ? (
+                <input
+                  autoFocus
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={commitRename}
+                  className="w-full px-2 py-1 border border-slate-300 rounded text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              ) : (
+                <div className="flex items-start justify-between space-x-2">
+                  <button
+                    onClick={() => onSelect(conversation.id)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-sm font-medium text-slate-800 truncate">
+                      {conversation.title}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {plural('sidebar.messages', conversation.messages.length)} •{' '}
+                      {date(conversation.updatedAt)}
+                    </p>
+                  </button>
+                  <div className="flex-shrink-0 flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startRename(conversation)}
+                      title={t('sidebar.rename')}
+                      className="p-1 text-slate-500 hover:text-slate-800 rounded"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z"
+                        />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(conversation)}
+                      title={t('sidebar.delete')}
+                      className="p-1 text-slate-500 hover:text-red-600 rounded"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
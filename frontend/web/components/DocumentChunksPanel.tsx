@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { DocumentChunk, DocumentSummary } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { fetchDocumentChunks } from '@/lib/documentsApi';
+import { ChunkCard } from './ChunkCard';
+
+const PAGE_SIZE = 50;
+
+interface DocumentChunksPanelProps {
+  document: DocumentSummary;
+}
+
+/**
+ * Shows a document's chunks in order, loading them page by page
+ */
+export function DocumentChunksPanel({ document }: DocumentChunksPanelProps) {
+  const { t } = useTranslation();
+  const [chunks, setChunks] = useState<DocumentChunk[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [offset, setOffset] = useState(0);
+
+  const loadFailed = t('chunks.loadFailed');
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchDocumentChunks(document.documentId, offset, PAGE_SIZE)
+      .then((data) => {
+        if (cancelled) return;
+        setChunks((prev) => (offset === 0 ? data.chunks : [...prev, ...data.chunks]));
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : loadFailed);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document.documentId, offset, loadFailed]);
+
+  const handleLoadMore = () => {
+    setIsLoading(true);
+    setOffset(chunks.length);
+  };
+
+  const hasMore = chunks.length < document.chunkCount;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm flex flex-col max-h-[calc(100vh-10rem)]">
+      <div className="px-4 py-3 border-b border-slate-200">
+        <h2 className="text-sm font-semibold text-slate-900 truncate">{document.title}</h2>
+        <p className="text-xs text-slate-500">
+          {t('chunks.loaded', { loaded: chunks.length, total: document.chunkCount })}
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {chunks.map((chunk) => (
+          <ChunkCard key={chunk.chunkId} chunk={chunk} />
+        ))}
+
+        {error && <p className="text-xs text-red-700">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-xs text-slate-500 text-center">{t('chunks.loading')}</p>
+        ) : (
+          hasMore && (
+            <button
+              onClick={handleLoadMore}
+              className="w-full px-3 py-2 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              {t('chunks.loadMore')}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
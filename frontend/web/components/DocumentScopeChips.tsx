@@ -0,0 +1,59 @@
+'use client';
+
+import { useDocumentCatalog } from '@/hooks/useDocumentCatalog';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface DocumentScopeChipsProps {
+  /** The conversation's scope; nothing is shown while it covers all documents */
+  documentIds: string[];
+  onChange: (documentIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The documents the next question is limited to, each removable
+ */
+export function DocumentScopeChips({ documentIds, onChange, disabled = false }: DocumentScopeChipsProps) {
+  const { t } = useTranslation();
+  const { documents } = useDocumentCatalog(documentIds.length > 0);
+
+  if (documentIds.length === 0) return null;
+
+  // Until the list loads, and for deleted documents, the ID stands in for the title
+  const titleOf = (documentId: string) =>
+    documents?.find((d) => d.documentId === documentId)?.title ?? `${documentId.slice(0, 8)}...`;
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-1">
+      <span className="text-xs text-slate-600">{t('scope.label')}</span>
+      {documentIds.map((documentId) => {
+        const title = titleOf(documentId);
+        return (
+          <span
+            key={documentId}
+            className="inline-flex items-center space-x-1 pl-2 pr-1 py-0.5 text-xs text-blue-800 bg-blue-50 border border-blue-200 rounded-full"
+          >
+            <span className="truncate max-w-48">{title}</span>
+            <button
+              type="button"
+              onClick={() => onChange(documentIds.filter((id) => id !== documentId))}
+              disabled={disabled}
+              aria-label={t('scope.remove', { title })}
+              className="w-4 h-4 leading-none rounded-full hover:bg-blue-100 disabled:opacity-50"
+            >
+              ×
+            </button>
+          </span>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([])}
+        disabled={disabled}
+        className="px-2 py-0.5 text-xs text-slate-600 hover:text-slate-900 disabled:opacity-50"
+      >
+        {t('scope.clear')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import type { DocumentSummary } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { MessageKey } from '@/lib/i18n';
+
+interface DocumentTableProps {
+  documents: DocumentSummary[];
+  selectedId: string | null;
+  deletingId: string | null;
+  /** Tags by document ID */
+  tags: Record<string, string[]>;
+  onSelect: (documentId: string) => void;
+  onDelete: (document: DocumentSummary) => void;
+  onEditTags: (document: DocumentSummary) => void;
+}
+
+type SortColumn = 'title' | 'uploaded' | 'chunks' | 'size';
+
+interface Sort {
+  column: SortColumn;
+  descending: boolean;
+}
+
+const COLUMNS: { column: SortColumn; label: MessageKey; align: 'left' | 'right' }[] = [
+  { column: 'title', label: 'documents.column.title', align: 'left' },
+  { column: 'uploaded', label: 'documents.column.uploaded', align: 'left' },
+  { column: 'chunks', label: 'documents.column.chunks', align: 'right' },
+  { column: 'size', label: 'documents.column.size', align: 'right' },
+];
+
+/**
+ * Documents in the column's order; a missing file size sorts as the smallest
+ */
+function sortDocuments(documents: DocumentSummary[], { column, descending }: Sort, locale: string) {
+  const compare = (a: DocumentSummary, b: DocumentSummary) => {
+    switch (column) {
+      case 'title':
+        return a.title.localeCompare(b.title, locale);
+      case 'uploaded':
+        return Date.parse(a.uploadDate) - Date.parse(b.uploadDate);
+      case 'chunks':
+        return a.chunkCount - b.chunkCount;
+      case 'size':
+        return (a.fileSizeBytes ?? -1) - (b.fileSizeBytes ?? -1);
+    }
+  };
+  return [...documents].sort((a, b) => (descending ? compare(b, a) : compare(a, b)));
+}
+
+export function DocumentTable({
+  documents,
+  selectedId,
+  deletingId,
+  tags,
+  onSelect,
+  onDelete,
+  onEditTags,
+}: DocumentTableProps) {
+  const { t, locale, bytes, dateTime, number } = useTranslation();
+  // Newest first, as the backend lists them
+  const [sort, setSort] = useState<Sort>({ column: 'uploaded', descending: true });
+
+  // Clicking the sorted column flips it; another column starts A-Z for titles, largest first otherwise
+  const sortBy = (column: SortColumn) =>
+    setSort((prev) =>
+      prev.column === column
+        ? { column, descending: !prev.descending }
+        : { column, descending: column !== 'title' }
+    );
+
+  if (documents.length === 0) {
+    return (
+      <div className="bg-white border border-slate-200 rounded-lg p-8 text-center text-sm text-slate-600">
+        {t('documents.empty')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+          <tr>
+            {COLUMNS.map(({ column, label, align }) => {
+              const isSorted = sort.column === column;
+              return (
+                <th
+                  key={column}
+                  aria-sort={isSorted ? (sort.descending ? 'descending' : 'ascending') : undefined}
+                  className={`px-4 py-2 font-medium ${align === 'right' ? 'text-right' : 'text-left'}`}
+                >
+                  <button
+                    onClick={() => sortBy(column)}
+                    className="uppercase hover:text-slate-900 transition-colors"
+                  >
+                    {t(label)}
+                    {isSorted && <span aria-hidden="true">{sort.descending ? ' ↓' : ' ↑'}</span>}
+                  </button>
+                </th>
+              );
+            })}
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200">
+          {sortDocuments(documents, sort, locale).map((document) => {
+            const isSelected = document.documentId === selectedId;
+            return (
+              <tr
+                key={document.documentId}
+                onClick={() => onSelect(document.documentId)}
+                className={`cursor-pointer transition-colors ${
+                  isSelected ? 'bg-blue-50' : 'hover:bg-slate-50'
+                }`}
+              >
+                <td className="px-4 py-3">
+                  <p className="font-medium text-slate-900">{document.title}</p>
+                  {document.originalFilename && (
+                    <p className="text-xs text-slate-500">{document.originalFilename}</p>
+                  )}
+                  {(tags[document.documentId] ?? []).length > 0 && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {tags[document.documentId].map((tag) => (
+                        <span
+                          key={tag}
+                          className="px-2 py-0.5 text-xs text-slate-700 bg-slate-100 rounded-full"
+                        >
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-slate-600 whitespace-nowrap">
+                  {dateTime(document.uploadDate)}
+                </td>
+                <td className="px-4 py-3 text-right font-mono text-slate-700">
+                  {number(document.chunkCount)}
+                </td>
+                <td className="px-4 py-3 text-right text-slate-600 whitespace-nowrap">
+                  {document.fileSizeBytes !== undefined
+                    ? bytes(document.fileSizeBytes)
+                    : '—'}
+                </td>
+                <td className="px-4 py-3 text-right whitespace-nowrap space-x-2">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onEditTags(document);
+                    }}
+                    className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+                  >
+                    {t('documents.editTags')}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(document);
+                    }}
+                    disabled={deletingId === document.documentId}
+                    className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {deletingId === document.documentId ? t('documents.deleting') : t('documents.delete')}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
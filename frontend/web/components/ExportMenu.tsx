@@ -0,0 +1,70 @@
+'use client';
+
+import { useRef } from 'react';
+import Link from 'next/link';
+import type { Conversation } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  conversationToJson,
+  conversationToMarkdown,
+  downloadFile,
+  exportFileName,
+} from '@/lib/conversationExport';
+
+interface ExportMenuProps {
+  conversation: Conversation;
+}
+
+const itemClassName =
+  'block w-full px-3 py-2 text-left text-sm text-slate-700 hover:bg-slate-50 transition-colors';
+
+export function ExportMenu({ conversation }: ExportMenuProps) {
+  const { t } = useTranslation();
+  const menuRef = useRef<HTMLDetailsElement>(null);
+
+  const close = () => {
+    if (menuRef.current) menuRef.current.open = false;
+  };
+
+  const exportMarkdown = () => {
+    downloadFile(
+      exportFileName(conversation, 'md'),
+      conversationToMarkdown(conversation),
+      'text/markdown;charset=utf-8'
+    );
+    close();
+  };
+
+  const exportJson = () => {
+    downloadFile(
+      exportFileName(conversation, 'json'),
+      conversationToJson(conversation),
+      'application/json;charset=utf-8'
+    );
+    close();
+  };
+
+  return (
+    <details ref={menuRef} className="relative">
+      <summary className="list-none cursor-pointer px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors">
+        {t('export.button')}
+      </summary>
+      <div className="absolute right-0 z-20 mt-1 w-52 bg-white border border-slate-200 rounded-lg shadow-lg overflow-hidden">
+        <button onClick={exportMarkdown} className={itemClassName}>
+          {t('export.markdown')}
+        </button>
+        <button onClick={exportJson} className={itemClassName}>
+          {t('export.json')}
+        </button>
+        <Link
+          href={`/conversations/${encodeURIComponent(conversation.id)}/print`}
+          target="_blank"
+          onClick={close}
+          className={itemClassName}
+        >
+          {t('export.print')}
+        </Link>
+      </div>
+    </details>
+  );
+}
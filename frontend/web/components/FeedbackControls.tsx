@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import type { FeedbackRating, MessageFeedback } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface FeedbackControlsProps {
+  feedback?: MessageFeedback;
+  onSubmit: (feedback: MessageFeedback) => Promise<void>;
+}
+
+/**
+ * Thumbs up/down with an optional comment; sent once per answer
+ */
+export function FeedbackControls({ feedback, onSubmit }: FeedbackControlsProps) {
+  const { t } = useTranslation();
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (feedback) {
+    return (
+      <p className="text-xs text-slate-500">
+        {feedback.rating === 'up' ? '👍' : '👎'} {t('feedback.thanks')}
+        {feedback.comment && <span className="italic"> — “{feedback.comment}”</span>}
+      </p>
+    );
+  }
+
+  const handleSubmit = async () => {
+    if (!rating) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      await onSubmit({ rating, comment: comment.trim() || undefined });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('feedback.sendFailed'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const thumbClass = (value: FeedbackRating) =>
+    `px-2 py-1 text-sm rounded-lg border transition-colors ${
+      rating === value
+        ? value === 'up'
+          ? 'bg-green-50 border-green-300'
+          : 'bg-red-50 border-red-300'
+        : 'bg-white border-slate-200 hover:bg-slate-50'
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <span className="text-xs text-slate-500">{t('feedback.prompt')}</span>
+        <button
+          type="button"
+          onClick={() => setRating('up')}
+          aria-pressed={rating === 'up'}
+          title={t('feedback.helpful')}
+          className={thumbClass('up')}
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          onClick={() => setRating('down')}
+          aria-pressed={rating === 'down'}
+          title={t('feedback.notHelpful')}
+          className={thumbClass('down')}
+        >
+          👎
+        </button>
+      </div>
+
+      {rating && (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={
+              rating === 'down' ? t('feedback.whatWasWrong') : t('feedback.anythingToAdd')
+            }
+            rows={2}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-xs text-slate-900 placeholder:text-slate-400"
+          />
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={isSending}
+              className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-slate-300 transition-colors"
+            >
+              {isSending ? t('feedback.sending') : t('feedback.send')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRating(null)}
+              disabled={isSending}
+              className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              {t('feedback.cancel')}
+            </button>
+            {error && <span className="text-xs text-red-700">{error}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
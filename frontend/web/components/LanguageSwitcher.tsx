@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+import { LOCALES, localeNames, setLocale } from '@/lib/i18n';
+
+/**
+ * EN / TR toggle for the UI language; the choice is saved in the browser
+ */
+export function LanguageSwitcher() {
+  const { locale, t } = useTranslation();
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return (
+    <div
+      role="group"
+      aria-label={t('language.label')}
+      className="flex items-center border border-slate-300 rounded-lg overflow-hidden"
+    >
+      {LOCALES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => setLocale(option)}
+          aria-pressed={option === locale}
+          title={localeNames[option]}
+          className={`px-3 py-2 text-xs font-semibold uppercase transition-colors ${
+            option === locale ? 'bg-slate-800 text-white' : 'bg-white text-slate-700 hover:bg-slate-50'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
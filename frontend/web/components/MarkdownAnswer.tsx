@@ -0,0 +1,87 @@
+'use client';
+
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Source } from '@/types';
+import { remarkCitations } from '@/lib/citations';
+import { CitationChip } from './CitationChip';
+import { CodeBlock } from './CodeBlock';
+
+interface MarkdownAnswerProps {
+  content: string;
+  sources: Source[];
+  onCitationSelect: (sourceIndex: number) => void;
+}
+
+const baseComponents: Components = {
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  h1: ({ children }) => <h3 className="mt-3 mb-2 text-base font-semibold text-slate-900">{children}</h3>,
+  h2: ({ children }) => <h4 className="mt-3 mb-2 text-sm font-semibold text-slate-900">{children}</h4>,
+  h3: ({ children }) => <h5 className="mt-3 mb-1 text-sm font-semibold text-slate-900">{children}</h5>,
+  h4: ({ children }) => <h6 className="mt-2 mb-1 text-sm font-medium text-slate-900">{children}</h6>,
+  ul: ({ children }) => <ul className="my-2 pl-5 list-disc space-y-1">{children}</ul>,
+  ol: ({ children, start }) => (
+    <ol start={start} className="my-2 pl-5 list-decimal space-y-1">
+      {children}
+    </ol>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 pl-3 border-l-4 border-slate-300 text-slate-600">{children}</blockquote>
+  ),
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-700 underline hover:text-blue-900">
+      {children}
+    </a>
+  ),
+  hr: () => <hr className="my-3 border-slate-200" />,
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="min-w-full text-xs border border-slate-200">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-slate-50">{children}</thead>,
+  th: ({ children, style }) => (
+    <th style={style} className="px-2 py-1 border border-slate-200 text-left font-semibold text-slate-700">
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-2 py-1 border border-slate-200 align-top">
+      {children}
+    </td>
+  ),
+  pre: CodeBlock,
+  code: ({ children, className }) =>
+    // Fenced blocks carry a language-* class and are styled by CodeBlock
+    className ? (
+      <code className={className}>{children}</code>
+    ) : (
+      <code className="px-1 py-0.5 rounded bg-slate-100 text-slate-800 font-mono text-xs">{children}</code>
+    ),
+};
+
+/**
+ * Assistant answer as GFM Markdown. Raw HTML in the answer is shown as text,
+ * never injected, and unsafe link protocols are stripped by react-markdown.
+ */
+export function MarkdownAnswer({ content, sources, onCitationSelect }: MarkdownAnswerProps) {
+  const components: Components = {
+    ...baseComponents,
+    cite: ({ node }) => {
+      const index = Number(node?.properties?.dataSourceIndex);
+      const source = sources[index];
+      return source ? (
+        <CitationChip number={index + 1} source={source} onSelect={() => onCitationSelect(index)} />
+      ) : null;
+    },
+  };
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, [remarkCitations, { sourceCount: sources.length }]]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
@@ -1,325 +1,150 @@
 'use client';
 
-import { useState } from 'react';
-
-interface UploadResult {
-  success: boolean;
-  documentTitle: string;
-  chunkCount: number;
-  extractedTextLength: number;
-  message: string;
-}
+import { useEffect, useState, useSyncExternalStore, DragEvent } from 'react';
+import { uploadConcurrency } from '@/lib/config';
+import { useTranslation } from '@/hooks/useTranslation';
+import { jobProgress } from '@/lib/ingestionJobs';
+import { getServerSnapshot, getUploadQueue, summarizeBatch, trackUploads, UploadQueue } from '@/lib/uploadQueue';
+import type { UploadItem, UploadStatus } from '@/types';
+
+const statusStyles: Record<UploadStatus, string> = {
+  queued: 'bg-slate-100 text-slate-700',
+  uploading: 'bg-blue-100 text-blue-800',
+  processing: 'bg-indigo-100 text-indigo-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-slate-100 text-slate-500',
+};
 
 export function PdfUpload() {
-  const [file, setFile] = useState<File | null>(null);
-  const [title, setTitle] = useState('');
-  const [isUploading, setIsUploading] = useState(false);
-  const [result, setResult] = useState<UploadResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
-  const [progressMessage, setProgressMessage] = useState('');
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      // Dosya adından başlık oluştur (uzantıyı kaldır)
-      const fileName = selectedFile.name.replace('.pdf', '');
-      setTitle(fileName);
-      setResult(null);
-      setError(null);
-    }
+  // Shared with every mount, so leaving the page doesn't stop running uploads
+  const [queue] = useState(getUploadQueue);
+  useEffect(() => trackUploads(queue), [queue]);
+  const { t, number } = useTranslation();
+  const items = useSyncExternalStore(queue.subscribe, queue.getSnapshot, getServerSnapshot);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const summary = summarizeBatch(items);
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    queue.add(Array.from(e.dataTransfer.files));
   };
 
-  const handleUpload = async () => {
-    if (!file) return;
-
-    setIsUploading(true);
-    setError(null);
-    setResult(null);
-    setProgress(0);
-    setProgressMessage('Preparing upload...');
-
-    console.log('📤 [PDF Upload] Starting upload...', {
-      filename: file.name,
-      size: file.size,
-      title: title || file.name.replace('.pdf', '')
-    });
-
-    // Simulate progress (since backend doesn't stream)
-    const progressInterval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 90) return prev; // Stop at 90% until backend responds
-        return prev + 1;
-      });
-    }, 1000); // Update every second
-
-    try {
-      const formData = new FormData();
-      formData.append('file', file);
-      if (title) {
-        formData.append('title', title);
-      }
-
-      console.log('🔄 [PDF Upload] Sending to backend...');
-      setProgress(5);
-      setProgressMessage('Uploading PDF to backend...');
-      
-      const startTime = Date.now();
-
-      setTimeout(() => setProgressMessage('Processing PDF (extracting text)...'), 2000);
-      setTimeout(() => setProgressMessage('Creating chunks...'), 5000);
-      setTimeout(() => setProgressMessage('Generating embeddings (this may take several minutes)...'), 10000);
-
-      // Direct backend call (bypassing Next.js API route to avoid timeout)
-      const response = await fetch('http://localhost:8080/api/ingest/pdf', {
-        method: 'POST',
-        body: formData,
-        mode: 'cors', // Enable CORS
-      });
-
-      clearInterval(progressInterval);
-
-      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      console.log(`⏱️ [PDF Upload] Request completed in ${duration}s`);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
-        console.error('❌ [PDF Upload] Server error:', errorData);
-        throw new Error(errorData.error || errorData.message || `Server error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      console.log('✅ [PDF Upload] Success!', {
-        documentId: data.documentId,
-        documentTitle: data.documentTitle,
-        chunkCount: data.chunkCount,
-        extractedTextLength: data.extractedTextLength
-      });
-
-      setProgress(100);
-      setProgressMessage('Complete!');
-      setResult(data);
-      setFile(null);
-      setTitle('');
-      
-      // Reset file input
-      const fileInput = document.getElementById('pdf-file-input') as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
-    } catch (err) {
-      clearInterval(progressInterval);
-      const errorMessage = err instanceof Error ? err.message : 'Upload failed';
-      console.error('❌ [PDF Upload] Failed:', errorMessage, err);
-      setError(errorMessage);
-      setProgress(0);
-      setProgressMessage('');
-    } finally {
-      setIsUploading(false);
-    }
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    queue.add(Array.from(e.target.files ?? []));
+    // Allow selecting the same files again
+    e.target.value = '';
   };
 
   return (
     <div className="bg-white border border-slate-200 rounded-lg p-6 shadow-sm">
-      <div className="flex items-center space-x-2 mb-4">
-        <svg
-          className="w-5 h-5 text-blue-600"
-          fill="none"
-          stroke="currentColor"
-          viewBox="0 0 24 24"
-        >
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            strokeWidth={2}
-            d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-          />
-        </svg>
-        <h3 className="text-lg font-semibold text-slate-900">
-          Upload PDF Document
-        </h3>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <svg
+            className="w-5 h-5 text-blue-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+            />
+          </svg>
+          <h3 className="text-lg font-semibold text-slate-900">
+            {t('upload.title')}
+          </h3>
+        </div>
+        {summary && (
+          <button
+            onClick={() => queue.clearFinished()}
+            className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            {t('upload.clear')}
+          </button>
+        )}
       </div>
 
       <div className="space-y-4">
-        {/* File Input */}
-        <div>
-          <label
-            htmlFor="pdf-file-input"
-            className="block text-sm font-medium text-slate-700 mb-2"
+        {/* Drop Zone */}
+        <label
+          htmlFor="pdf-file-input"
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center px-4 py-8 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+            isDragging
+              ? 'border-blue-500 bg-blue-50'
+              : 'border-slate-300 hover:border-blue-400 hover:bg-slate-50'
+          }`}
+        >
+          <svg
+            className="w-8 h-8 text-slate-400 mb-2"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
           >
-            Select PDF File
-          </label>
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+            />
+          </svg>
+          <span className="text-sm font-medium text-slate-700">
+            {t('upload.dropZone')}
+          </span>
+          <span className="text-xs text-slate-500 mt-1">
+            {t('upload.limits', { concurrency: uploadConcurrency })}
+          </span>
           <input
             id="pdf-file-input"
             type="file"
             accept=".pdf,application/pdf"
+            multiple
             onChange={handleFileChange}
-            disabled={isUploading}
-            className="block w-full text-sm text-slate-500
-              file:mr-4 file:py-2 file:px-4
-              file:rounded-lg file:border-0
-              file:text-sm file:font-semibold
-              file:bg-blue-50 file:text-blue-700
-              hover:file:bg-blue-100
-              disabled:opacity-50 disabled:cursor-not-allowed"
+            className="sr-only"
           />
-        </div>
-
-        {/* Title Input */}
-        {file && (
-          <div>
-            <label
-              htmlFor="doc-title"
-              className="block text-sm font-medium text-slate-700 mb-2"
-            >
-              Document Title (Optional)
-            </label>
-            <input
-              id="doc-title"
-              type="text"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              disabled={isUploading}
-              placeholder="e.g., TC Anayasası"
-              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-100 disabled:cursor-not-allowed text-sm text-slate-900 placeholder:text-slate-400"
-            />
-          </div>
+        </label>
+
+        {/* Queue */}
+        {items.length > 0 && (
+          <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+            {items.map((item) => (
+              <UploadRow key={item.id} item={item} queue={queue} />
+            ))}
+          </ul>
         )}
 
-        {/* Progress Bar */}
-        {isUploading && (
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-slate-700 font-medium">{progressMessage}</span>
-              <span className="text-slate-600">{progress}%</span>
-            </div>
-            <div className="w-full bg-slate-200 rounded-full h-2.5 overflow-hidden">
-              <div
-                className="bg-blue-600 h-2.5 rounded-full transition-all duration-300 ease-out"
-                style={{ width: `${progress}%` }}
-              />
-            </div>
-            <p className="text-xs text-slate-500 text-center">
-              ⏱️ Large PDFs may take several minutes to process...
-            </p>
-          </div>
-        )}
-
-        {/* Upload Button */}
-        {file && !result && (
-          <button
-            onClick={handleUpload}
-            disabled={isUploading}
-            className="w-full px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+        {/* Batch Summary */}
+        {summary && (
+          <div
+            className={`${
+              summary.failed === 0
+                ? 'bg-green-50 border-green-200 text-green-900'
+                : 'bg-yellow-50 border-yellow-200 text-yellow-900'
+            } border rounded-lg p-4`}
           >
-            {isUploading ? (
-              <>
-                <svg
-                  className="animate-spin h-5 w-5"
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  />
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  />
-                </svg>
-                <span>Uploading & Processing...</span>
-              </>
-            ) : (
-              <>
-                <svg
-                  className="w-5 h-5"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
-                  />
-                </svg>
-                <span>Upload & Process PDF</span>
-              </>
-            )}
-          </button>
-        )}
-
-        {/* Success Result */}
-        {result && (
-          <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-            <div className="flex items-start space-x-2">
-              <svg
-                className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-                />
-              </svg>
-              <div className="flex-1">
-                <p className="text-sm font-semibold text-green-900 mb-1">
-                  Upload Successful!
-                </p>
-                <div className="text-xs text-green-800 space-y-1">
-                  <p>
-                    <span className="font-medium">Document:</span>{' '}
-                    {result.documentTitle}
-                  </p>
-                  <p>
-                    <span className="font-medium">Chunks Created:</span>{' '}
-                    {result.chunkCount}
-                  </p>
-                  <p>
-                    <span className="font-medium">Text Extracted:</span>{' '}
-                    {result.extractedTextLength.toLocaleString()} characters
-                  </p>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
-
-        {/* Error */}
-        {error && (
-          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-            <div className="flex items-start space-x-2">
-              <svg
-                className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                />
-              </svg>
-              <div>
-                <p className="text-sm font-semibold text-red-900 mb-1">
-                  Upload Failed
-                </p>
-                <p className="text-xs text-red-800">{error}</p>
-              </div>
+            <p className="text-sm font-semibold mb-1">
+              {t('upload.batchComplete', { succeeded: summary.succeeded, total: summary.total })}
+              {summary.failed > 0 && t('upload.batchFailed', { failed: summary.failed })}
+            </p>
+            <div className="text-xs space-y-1">
+              <p>
+                <span className="font-medium">{t('upload.chunksCreated')}</span>{' '}
+                {number(summary.totalChunks)}
+              </p>
+              <p>
+                <span className="font-medium">{t('upload.textExtracted')}</span>{' '}
+                {t('upload.characters', { count: summary.totalCharacters })}
+              </p>
             </div>
           </div>
         )}
@@ -328,13 +153,103 @@ export function PdfUpload() {
       {/* Info */}
       <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
         <p className="text-xs text-blue-800">
-          <span className="font-semibold">ℹ️ Note:</span> PDF will be processed
-          automatically (text extraction → chunking → embedding → vector store).
-          This may take a few seconds depending on document size.
+          <span className="font-semibold">{t('upload.noteLabel')}</span> {t('upload.note')}
         </p>
       </div>
     </div>
   );
 }
 
+interface UploadRowProps {
+  item: UploadItem;
+  queue: UploadQueue;
+}
+
+function UploadRow({ item, queue }: UploadRowProps) {
+  const { t, plural } = useTranslation();
+  const job = item.job;
+  const progress =
+    item.status === 'processing' ? (job ? jobProgress(job) : 0) : item.uploadProgress;
 
+  return (
+    <li className="px-3 py-2 space-y-1">
+      <div className="flex items-center justify-between space-x-2">
+        <div className="flex-1 min-w-0">
+          {item.status === 'queued' ? (
+            <input
+              value={item.title}
+              onChange={(e) => queue.rename(item.id, e.target.value)}
+              aria-label={t('upload.titleFor', { fileName: item.fileName })}
+              className="w-full px-2 py-1 border border-slate-300 rounded text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            <p className="text-sm font-medium text-slate-800 truncate">{item.title}</p>
+          )}
+          <p className="text-xs text-slate-500 truncate">{item.fileName}</p>
+        </div>
+        <span className={`text-xs font-medium px-2 py-0.5 rounded ${statusStyles[item.status]}`}>
+          {t(`upload.status.${item.status}`)}
+          {(item.status === 'uploading' || item.status === 'processing') &&
+            ` ${Math.round(progress * 100)}%`}
+        </span>
+        {(item.status === 'queued' || item.status === 'uploading' || item.status === 'processing') && (
+          <button
+            onClick={() => queue.cancel(item.id)}
+            className="px-2 py-0.5 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded hover:bg-slate-100 transition-colors"
+          >
+            {t('upload.cancel')}
+          </button>
+        )}
+        {(item.status === 'failed' || item.status === 'cancelled') && item.retryable && (
+          <button
+            onClick={() => queue.retry(item.id)}
+            className="px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 transition-colors"
+          >
+            {t('upload.retry')}
+          </button>
+        )}
+        {(item.status === 'failed' || item.status === 'done' || item.status === 'cancelled') && (
+          <button
+            onClick={() => queue.remove(item.id)}
+            title={t('upload.remove')}
+            className="p-1 text-slate-400 hover:text-slate-700 rounded"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {(item.status === 'uploading' || item.status === 'processing') && (
+        <div className="w-full bg-slate-200 rounded-full h-1.5 overflow-hidden">
+          <div
+            className={`h-1.5 rounded-full transition-all duration-300 ease-out ${
+              item.status === 'processing' ? 'bg-indigo-600' : 'bg-blue-600'
+            }`}
+            style={{ width: `${Math.round(progress * 100)}%` }}
+          />
+        </div>
+      )}
+      {item.status === 'processing' && (
+        <p className="text-xs text-slate-500">
+          {job ? t(`upload.stage.${job.stage}`) : t('upload.waiting')}
+          {job && job.totalChunks > 0 && (job.stage === 'embedding' || job.stage === 'saving') &&
+            t('upload.chunkProgress', { processed: job.processedChunks, total: job.totalChunks })}
+        </p>
+      )}
+      {item.status === 'done' && item.result && (
+        <p className="text-xs text-green-800">
+          {t('upload.result', {
+            chunks: item.result.chunkCount,
+            characters: item.result.extractedTextLength,
+          })}
+        </p>
+      )}
+      {item.status === 'failed' && item.error && (
+        <p className="text-xs text-red-800">
+          {item.error}
+          {item.retryAfterSeconds !== undefined && ` • ${plural('errors.retryAfter', item.retryAfterSeconds)}`}
+        </p>
+      )}
+    </li>
+  );
+}
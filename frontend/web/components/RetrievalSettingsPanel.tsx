@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import type { RetrievalSettings } from '@/types';
+import { useDocumentCatalog } from '@/hooks/useDocumentCatalog';
+import { useTranslation } from '@/hooks/useTranslation';
+import { allTags, documentsWithTag } from '@/lib/documentScope';
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  describeRetrievalSettings,
+  normalizeRetrievalSettings,
+  TOP_K_RANGE,
+} from '@/lib/retrievalSettings';
+
+interface RetrievalSettingsPanelProps {
+  settings: RetrievalSettings;
+  onChange: (settings: RetrievalSettings) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Collapsible topK / minSimilarity / document scope controls for the next question
+ */
+export function RetrievalSettingsPanel({
+  settings,
+  onChange,
+  disabled = false,
+}: RetrievalSettingsPanelProps) {
+  const translator = useTranslation();
+  const { t, number } = translator;
+  const [isOpen, setIsOpen] = useState(false);
+  // The document list is only needed once the panel is opened
+  const { documents, tags, error } = useDocumentCatalog(isOpen);
+  const documentIds = (documents ?? []).map((d) => d.documentId);
+  // Only tags of existing documents, so a tag never selects nothing (= all documents)
+  const tagNames = allTags(tags.filter((entry) => documentIds.includes(entry.documentId)));
+
+  const update = (change: Partial<RetrievalSettings>) =>
+    onChange(normalizeRetrievalSettings({ ...settings, ...change }));
+
+  const toggleDocument = (documentId: string) =>
+    update({
+      documentIds: settings.documentIds.includes(documentId)
+        ? settings.documentIds.filter((id) => id !== documentId)
+        : [...settings.documentIds, documentId],
+    });
+
+  const selectTag = (tag: string) => update({ documentIds: documentsWithTag(tags, tag, documentIds) });
+
+  return (
+    <div className="mb-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex items-center space-x-2 text-xs text-slate-600 hover:text-slate-900"
+      >
+        <svg
+          className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="font-medium">{t('retrieval.title')}</span>
+        <span className="text-slate-400">{describeRetrievalSettings(settings, translator)}</span>
+      </button>
+
+      {isOpen && (
+        <fieldset
+          disabled={disabled}
+          className="mt-2 p-3 bg-slate-50 border border-slate-200 rounded-lg grid grid-cols-1 md:grid-cols-3 gap-4"
+        >
+          <div>
+            <label htmlFor="retrieval-top-k" className="block text-xs font-medium text-slate-700 mb-1">
+              {t('retrieval.topK', { value: settings.topK })}
+            </label>
+            <input
+              id="retrieval-top-k"
+              type="range"
+              min={TOP_K_RANGE.min}
+              max={TOP_K_RANGE.max}
+              step={1}
+              value={settings.topK}
+              onChange={(e) => update({ topK: Number(e.target.value) })}
+              className="w-full"
+            />
+            <p className="text-xs text-slate-500">{t('retrieval.topKHint')}</p>
+          </div>
+
+          <div>
+            <label
+              htmlFor="retrieval-min-similarity"
+              className="block text-xs font-medium text-slate-700 mb-1"
+            >
+              {t('retrieval.minSimilarity', { value: number(settings.minSimilarity, 2) })}
+            </label>
+            <input
+              id="retrieval-min-similarity"
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={settings.minSimilarity}
+              onChange={(e) => update({ minSimilarity: Number(e.target.value) })}
+              className="w-full"
+            />
+            <p className="text-xs text-slate-500">{t('retrieval.minSimilarityHint')}</p>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-slate-700 mb-1">{t('retrieval.documents')}</p>
+            {error && <p className="text-xs text-red-700">{error}</p>}
+            {documents === null && !error && (
+              <p className="text-xs text-slate-500">{t('retrieval.loadingDocuments')}</p>
+            )}
+            {documents?.length === 0 && (
+              <p className="text-xs text-slate-500">{t('retrieval.noDocuments')}</p>
+            )}
+            {documents && documents.length > 0 && (
+              <div className="max-h-28 overflow-y-auto space-y-1">
+                {documents.map((document) => (
+                  <label
+                    key={document.documentId}
+                    className="flex items-center space-x-2 text-xs text-slate-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={settings.documentIds.includes(document.documentId)}
+                      onChange={() => toggleDocument(document.documentId)}
+                    />
+                    <span className="truncate">{document.title}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {tagNames.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                <span className="text-xs text-slate-600">{t('retrieval.byTag')}</span>
+                {tagNames.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => selectTag(tag)}
+                    className="px-2 py-0.5 text-xs text-slate-700 bg-white border border-slate-300 rounded-full hover:bg-slate-100 transition-colors"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-500 mt-1">{t('retrieval.allDocumentsHint')}</p>
+          </div>
+
+          <div className="md:col-span-3 flex justify-end">
+            <button
+              type="button"
+              onClick={() => onChange(DEFAULT_RETRIEVAL_SETTINGS)}
+              className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              {t('retrieval.reset')}
+            </button>
+          </div>
+        </fieldset>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import Link from 'next/link';
+import { useTranslation } from '@/hooks/useTranslation';
+import { highlightSegments, type RankedHit } from '@/lib/searchResults';
+
+interface SearchHitCardProps {
+  hit: RankedHit;
+  /** Query words to mark in the chunk text */
+  terms: string[];
+  /** Score of the top hit; the similarity bar is drawn relative to it */
+  bestScore: number;
+  /** The question "Ask about this" fills in */
+  query: string;
+}
+
+/**
+ * One search hit: rank, similarity bar, highlighted chunk text and a link
+ * that opens the chat with the query, limited to the hit's document
+ */
+export function SearchHitCard({ hit, terms, bestScore, query }: SearchHitCardProps) {
+  const { t, similarity } = useTranslation();
+  const width = bestScore > 0 ? (hit.similarityScore / bestScore) * 100 : 0;
+
+  return (
+    <li className="border border-slate-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center space-x-3 text-xs text-slate-600">
+        <span className="font-mono font-semibold text-slate-800">{t('search.rank', { rank: hit.rank })}</span>
+        <span>{t('sources.chunk', { index: hit.chunkIndex })}</span>
+        <div
+          role="meter"
+          aria-valuenow={hit.similarityScore}
+          aria-valuemin={0}
+          aria-valuemax={1}
+          aria-label={t('search.similarityTitle', { value: similarity(hit.similarityScore) })}
+          className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden"
+        >
+          <div className="h-full bg-blue-500" style={{ width: `${width}%` }} />
+        </div>
+        <span className="font-mono">{similarity(hit.similarityScore)}</span>
+      </div>
+
+      <p className="text-sm text-slate-800 whitespace-pre-wrap break-words">
+        {highlightSegments(hit.content, terms).map((segment, index) =>
+          segment.match ? (
+            <mark key={index} className="bg-yellow-200 text-slate-900 rounded-sm">
+              {segment.text}
+            </mark>
+          ) : (
+            segment.text
+          )
+        )}
+      </p>
+
+      <div className="flex justify-end">
+        <Link
+          href={{ pathname: '/', query: { ask: query, document: hit.documentId } }}
+          title={t('search.askHint')}
+          className="px-3 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+        >
+          {t('search.ask')}
+        </Link>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { createContext, useLayoutEffect } from 'react';
+import { setConversationOwner } from '@/lib/conversationStore';
+import { setUploadOwner } from '@/lib/ingestionJobs';
+import type { User } from '@/types';
+
+export const SessionContext = createContext<User | null>(null);
+
+interface SessionProviderProps {
+  user: User | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Hands the signed-in user (read from the session cookie by the root layout)
+ * to client components
+ */
+export function SessionProvider({ user, children }: SessionProviderProps) {
+  const username = user?.username ?? null;
+
+  // Not during render, which also runs on the server for every request.
+  // Layout effects run before the passive effects in which children first
+  // read the conversation history and restore the upload queue.
+  useLayoutEffect(() => {
+    setConversationOwner(username);
+    setUploadOwner(username);
+  }, [username]);
+
+  return <SessionContext value={user}>{children}</SessionContext>;
+}
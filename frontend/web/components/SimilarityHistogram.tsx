@@ -0,0 +1,85 @@
+'use client';
+
+import { useTranslation } from '@/hooks/useTranslation';
+import type { ConfidenceThresholds, SimilarityHistogram as Histogram } from '@/types';
+
+interface SimilarityHistogramProps {
+  title: string;
+  histogram: Histogram;
+  thresholds: ConfidenceThresholds;
+}
+
+/**
+ * Bar chart of answers per similarity range, with the backend's
+ * no-answer and low-confidence thresholds drawn as dashed lines
+ */
+export function SimilarityHistogram({ title, histogram, thresholds }: SimilarityHistogramProps) {
+  const { t, similarity } = useTranslation();
+  const { binWidth, counts } = histogram;
+  const upper = binWidth * counts.length;
+  const highest = Math.max(1, ...counts);
+
+  // Bars left of the low-confidence line would have been answered with low confidence
+  const barColor = (from: number) =>
+    from + binWidth <= thresholds.minAnswerSimilarity
+      ? 'bg-red-400'
+      : from + binWidth <= thresholds.lowConfidence
+        ? 'bg-yellow-400'
+        : 'bg-green-500';
+
+  const markers = [
+    {
+      value: thresholds.minAnswerSimilarity,
+      label: t('analytics.threshold.minAnswer', { value: similarity(thresholds.minAnswerSimilarity) }),
+      color: 'border-red-500',
+    },
+    {
+      value: thresholds.lowConfidence,
+      label: t('analytics.threshold.low', { value: similarity(thresholds.lowConfidence) }),
+      color: 'border-yellow-500',
+    },
+  ].filter((marker) => marker.value > 0 && marker.value < upper);
+
+  return (
+    <figure className="bg-white border border-slate-200 rounded-lg shadow-sm p-4 space-y-2">
+      <figcaption className="text-sm font-semibold text-slate-800">{title}</figcaption>
+      <div className="relative h-40 flex items-end space-x-px border-b border-slate-300">
+        {counts.map((count, index) => {
+          const from = index * binWidth;
+          return (
+            <div
+              key={index}
+              title={t('analytics.binTitle', {
+                from: similarity(from),
+                to: similarity(from + binWidth),
+                count,
+              })}
+              className={`flex-1 rounded-t ${barColor(from)}`}
+              style={{ height: `${(count / highest) * 100}%` }}
+            />
+          );
+        })}
+        {markers.map((marker) => (
+          <div
+            key={marker.label}
+            title={marker.label}
+            className={`absolute inset-y-0 border-l-2 border-dashed ${marker.color}`}
+            style={{ left: `${(marker.value / upper) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>{similarity(0)}</span>
+        <span>{similarity(upper)}</span>
+      </div>
+      <ul className="text-xs text-slate-600 space-y-0.5">
+        {markers.map((marker) => (
+          <li key={marker.label} className="flex items-center space-x-2">
+            <span className={`inline-block w-4 border-t-2 border-dashed ${marker.color}`} />
+            <span>{marker.label}</span>
+          </li>
+        ))}
+      </ul>
+    </figure>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ChunkNeighboursResponse, Source } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { fetchChunkNeighbours } from '@/lib/documentsApi';
+import { ChunkCard } from './ChunkCard';
+
+const RADIUS_OPTIONS = [1, 2, 5];
+
+interface SourceChunkDrawerProps {
+  source: Source;
+  onClose: () => void;
+}
+
+/**
+ * Side drawer with the full text of a source chunk and its neighbours.
+ * Pages through the document in windows of chunkIndex ± radius.
+ */
+export function SourceChunkDrawer({ source, onClose }: SourceChunkDrawerProps) {
+  const { t, similarity } = useTranslation();
+  const [center, setCenter] = useState(source.chunkIndex);
+  const [radius, setRadius] = useState(2);
+  const [data, setData] = useState<ChunkNeighboursResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const matchedRef = useRef<HTMLDivElement>(null);
+
+  const loadFailed = t('chunks.loadFailed');
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchChunkNeighbours(source.documentId, center, radius)
+      .then((result) => {
+        if (cancelled) return;
+        setData(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : loadFailed);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source.documentId, center, radius, loadFailed]);
+
+  useEffect(() => {
+    matchedRef.current?.scrollIntoView({ block: 'center' });
+  }, [data]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const moveTo = (nextCenter: number, nextRadius = radius) => {
+    setIsLoading(true);
+    setCenter(nextCenter);
+    setRadius(nextRadius);
+  };
+
+  const windowStart = center - radius;
+  const windowEnd = center + radius;
+  const step = radius * 2 + 1;
+  const hasEarlier = data !== null && windowStart > data.firstChunkIndex;
+  const hasLater = data !== null && windowEnd < data.lastChunkIndex;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end" role="dialog" aria-modal="true">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose} />
+
+      <aside className="relative w-full max-w-xl h-full bg-white shadow-xl flex flex-col">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-start justify-between space-x-3">
+          <div className="min-w-0">
+            <h2 className="text-sm font-semibold text-slate-900 truncate">{source.documentTitle}</h2>
+            <p className="text-xs text-slate-500">
+              {t('drawer.matched', {
+                index: source.chunkIndex,
+                similarity: similarity(source.similarityScore),
+              })}
+              {data && t('drawer.chunksInDocument', { count: data.document.chunkCount })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            title={t('drawer.close')}
+            className="p-1 text-slate-400 hover:text-slate-700 rounded"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-slate-200 flex items-center justify-between space-x-2">
+          <button
+            onClick={() => moveTo(center - step)}
+            disabled={!hasEarlier || isLoading}
+            className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {t('drawer.earlier')}
+          </button>
+          <div className="flex items-center space-x-2">
+            <label className="text-xs text-slate-600" htmlFor="chunk-radius">
+              {t('drawer.context')}
+            </label>
+            <select
+              id="chunk-radius"
+              value={radius}
+              onChange={(e) => moveTo(center, Number(e.target.value))}
+              className="px-2 py-1 border border-slate-300 rounded text-xs text-slate-900"
+            >
+              {RADIUS_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  ± {option}
+                </option>
+              ))}
+            </select>
+            {center !== source.chunkIndex && (
+              <button
+                onClick={() => moveTo(source.chunkIndex)}
+                className="px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 transition-colors"
+              >
+                {t('drawer.backToMatch')}
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => moveTo(center + step)}
+            disabled={!hasLater || isLoading}
+            className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {t('drawer.later')}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {error && <p className="text-xs text-red-700">{error}</p>}
+
+          {data?.chunks.map((chunk) => {
+            const isMatched = chunk.chunkId === source.chunkId;
+            return (
+              <div key={chunk.chunkId} ref={isMatched ? matchedRef : undefined}>
+                <ChunkCard chunk={chunk} highlighted={isMatched} />
+              </div>
+            );
+          })}
+
+          {data && data.chunks.length === 0 && !isLoading && (
+            <p className="text-xs text-slate-500 text-center">
+              {t('drawer.emptyRange')}
+            </p>
+          )}
+
+          {isLoading && <p className="text-xs text-slate-500 text-center">{t('chunks.loading')}</p>}
+        </div>
+      </aside>
+    </div>
+  );
+}
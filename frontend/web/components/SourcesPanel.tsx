@@ -1,16 +1,58 @@
 'use client';
 
-import { useState } from 'react';
+import { Ref, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { Source } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { SourceChunkDrawer } from './SourceChunkDrawer';
+
+export interface SourcesPanelHandle {
+  /** Expands the source at `index` (0-based, #1 = 0) and scrolls it into view */
+  focusSource: (index: number) => void;
+}
 
 interface SourcesPanelProps {
   sources: Source[];
+  ref?: Ref<SourcesPanelHandle>;
 }
 
-export function SourcesPanel({ sources }: SourcesPanelProps) {
+const HIGHLIGHT_MS = 1500;
+
+export function SourcesPanel({ sources, ref }: SourcesPanelProps) {
+  const { t, similarity } = useTranslation();
   const [expandedSources, setExpandedSources] = useState<Set<string>>(
     new Set()
   );
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const [openSource, setOpenSource] = useState<Source | null>(null);
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+  const highlightTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (highlightTimer.current) clearTimeout(highlightTimer.current);
+    },
+    []
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      focusSource(index: number) {
+        const source = sources[index];
+        if (!source) return;
+
+        setExpandedSources((prev) => new Set(prev).add(source.chunkId));
+        setHighlighted(source.chunkId);
+        if (highlightTimer.current) clearTimeout(highlightTimer.current);
+        highlightTimer.current = setTimeout(() => setHighlighted(null), HIGHLIGHT_MS);
+
+        itemRefs.current
+          .get(source.chunkId)
+          ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+      },
+    }),
+    [sources]
+  );
 
   const toggleSource = (chunkId: string) => {
     setExpandedSources((prev) => {
@@ -45,55 +87,74 @@ export function SourcesPanel({ sources }: SourcesPanelProps) {
           />
         </svg>
         <span className="text-sm font-semibold text-slate-700">
-          Sources ({sources.length})
+          {t('sources.title', { count: sources.length })}
         </span>
       </div>
 
       <div className="space-y-2">
         {sources.map((source, index) => {
           const isExpanded = expandedSources.has(source.chunkId);
+          const isHighlighted = highlighted === source.chunkId;
           return (
             <div
               key={source.chunkId}
-              className="bg-slate-50 border border-slate-200 rounded-lg overflow-hidden"
+              ref={(element) => {
+                if (element) {
+                  itemRefs.current.set(source.chunkId, element);
+                } else {
+                  itemRefs.current.delete(source.chunkId);
+                }
+              }}
+              className={`bg-slate-50 border rounded-lg overflow-hidden transition-shadow ${
+                isHighlighted ? 'border-blue-400 ring-2 ring-blue-300' : 'border-slate-200'
+              }`}
             >
               {/* Source Header - Always Visible */}
-              <button
-                onClick={() => toggleSource(source.chunkId)}
-                className="w-full px-3 py-2 flex items-center justify-between hover:bg-slate-100 transition-colors"
-              >
-                <div className="flex items-center space-x-2 text-left flex-1">
-                  <span className="text-xs font-mono bg-slate-200 text-slate-700 px-2 py-0.5 rounded">
-                    #{index + 1}
-                  </span>
-                  <span className="text-sm font-medium text-slate-800 truncate">
-                    {source.documentTitle}
-                  </span>
-                  <span className="text-xs text-slate-500">
-                    Chunk {source.chunkIndex}
-                  </span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <span className="text-xs font-mono text-slate-600 bg-slate-200 px-2 py-0.5 rounded">
-                    {source.similarityScore.toFixed(4)}
-                  </span>
-                  <svg
-                    className={`w-4 h-4 text-slate-600 transition-transform ${
-                      isExpanded ? 'rotate-180' : ''
-                    }`}
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M19 9l-7 7-7-7"
-                    />
-                  </svg>
-                </div>
-              </button>
+              <div className="flex items-stretch">
+                <button
+                  onClick={() => toggleSource(source.chunkId)}
+                  className="flex-1 min-w-0 px-3 py-2 flex items-center justify-between hover:bg-slate-100 transition-colors"
+                >
+                  <div className="flex items-center space-x-2 text-left flex-1">
+                    <span className="text-xs font-mono bg-slate-200 text-slate-700 px-2 py-0.5 rounded">
+                      #{index + 1}
+                    </span>
+                    <span className="text-sm font-medium text-slate-800 truncate">
+                      {source.documentTitle}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {t('sources.chunk', { index: source.chunkIndex })}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs font-mono text-slate-600 bg-slate-200 px-2 py-0.5 rounded">
+                      {similarity(source.similarityScore)}
+                    </span>
+                    <svg
+                      className={`w-4 h-4 text-slate-600 transition-transform ${
+                        isExpanded ? 'rotate-180' : ''
+                      }`}
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M19 9l-7 7-7-7"
+                      />
+                    </svg>
+                  </div>
+                </button>
+                <button
+                  onClick={() => setOpenSource(source)}
+                  title={t('sources.openTitle')}
+                  className="px-3 text-xs font-medium text-blue-700 border-l border-slate-200 hover:bg-slate-100 transition-colors"
+                >
+                  {t('sources.open')}
+                </button>
+              </div>
 
               {/* Content Preview - Expandable */}
               {isExpanded && (
@@ -102,9 +163,9 @@ export function SourcesPanel({ sources }: SourcesPanelProps) {
                     {source.contentPreview}
                   </p>
                   <div className="mt-2 flex items-center space-x-3 text-xs text-slate-500">
-                    <span title="Chunk ID">ID: {source.chunkId.slice(0, 8)}...</span>
-                    <span title="Document ID">
-                      Doc: {source.documentId.slice(0, 8)}...
+                    <span title={t('sources.chunkId')}>ID: {source.chunkId.slice(0, 8)}...</span>
+                    <span title={t('sources.documentId')}>
+                      {t('sources.doc', { id: source.documentId.slice(0, 8) })}
                     </span>
                   </div>
                 </div>
@@ -113,6 +174,10 @@ export function SourcesPanel({ sources }: SourcesPanelProps) {
           );
         })}
       </div>
+
+      {openSource && (
+        <SourceChunkDrawer source={openSource} onClose={() => setOpenSource(null)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { useSession } from '@/hooks/useSession';
+import { useTranslation } from '@/hooks/useTranslation';
+import { signOut } from '@/lib/authApi';
+
+/**
+ * Signed-in user, their workspace and a sign-out button
+ */
+export function UserMenu() {
+  const user = useSession();
+  const { t } = useTranslation();
+  const [signingOut, setSigningOut] = useState(false);
+
+  if (!user) return null;
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await signOut();
+      window.location.assign('/login');
+    } catch (error) {
+      console.error('Sign-out failed:', error);
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className="text-right leading-tight">
+        <p className="text-sm font-medium text-slate-800">{user.displayName}</p>
+        <p className="text-xs text-slate-500">{t('user.workspace', { workspace: user.workspace })}</p>
+      </div>
+      <button
+        onClick={handleSignOut}
+        disabled={signingOut}
+        className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50 transition-colors"
+      >
+        {t('user.signOut')}
+      </button>
+    </div>
+  );
+}
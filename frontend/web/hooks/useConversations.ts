@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getServerSnapshot, getSnapshot, subscribe } from '@/lib/conversationStore';
+
+/**
+ * Stored conversations, newest first
+ */
+export function useConversations() {
+  const conversations = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  return [...conversations].sort(
+    (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+  );
+}
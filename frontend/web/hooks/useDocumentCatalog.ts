@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+import { fetchDocumentTags } from '@/lib/documentTagsApi';
+import { fetchDocuments } from '@/lib/documentsApi';
+import type { DocumentSummary, DocumentTagsEntry } from '@/types';
+
+export interface DocumentCatalog {
+  /** null until loaded */
+  documents: DocumentSummary[] | null;
+  tags: DocumentTagsEntry[];
+  error: string | null;
+}
+
+/**
+ * Ingested documents and their tags, for picking a conversation's scope.
+ * Nothing is loaded until `enabled`; tags are optional and never fail the load.
+ */
+export function useDocumentCatalog(enabled: boolean): DocumentCatalog {
+  const { t } = useTranslation();
+  const [catalog, setCatalog] = useState<DocumentCatalog>({ documents: null, tags: [], error: null });
+
+  const loaded = catalog.documents !== null;
+  const loadFailed = t('documents.loadFailed');
+  useEffect(() => {
+    if (!enabled || loaded) return;
+    let cancelled = false;
+
+    Promise.all([
+      fetchDocuments(),
+      fetchDocumentTags().catch((err) => {
+        console.warn('Could not load document tags:', err);
+        return { documents: [] };
+      }),
+    ])
+      .then(([documents, tags]) => {
+        if (!cancelled) setCatalog({ documents: documents.documents, tags: tags.documents, error: null });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setCatalog((prev) => ({ ...prev, error: err instanceof Error ? err.message : loadFailed }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, loaded, loadFailed]);
+
+  return catalog;
+}
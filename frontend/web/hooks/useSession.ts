@@ -0,0 +1,9 @@
+import { use } from 'react';
+import { SessionContext } from '@/components/SessionProvider';
+
+/**
+ * The signed-in user; null on the login page and outside a SessionProvider
+ */
+export function useSession() {
+  return use(SessionContext);
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getServerSnapshot, getSnapshot, getTranslator, subscribe } from '@/lib/i18n';
+
+/**
+ * Strings and formatters for the selected UI language
+ */
+export function useTranslation() {
+  const locale = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  return getTranslator(locale);
+}
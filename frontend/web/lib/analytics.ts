@@ -0,0 +1,129 @@
+import type {
+  AnalyticsSummary,
+  AnswerLogEntry,
+  ChunkCitationCount,
+  ConfidenceInfo,
+  ConfidenceThresholds,
+  DailyConfidenceCount,
+  DocumentCitationCount,
+  SimilarityHistogram,
+} from '@/types';
+
+/**
+ * Aggregates logged ask responses for the /analytics page
+ */
+
+const LEVELS: ConfidenceInfo['level'][] = ['high', 'low', 'none'];
+const HISTOGRAM_BINS = 20;
+const TOP_CITED = 10;
+const NO_INFO_LIMIT = 50;
+
+/**
+ * Histogram range: the observed scores, but at least twice the low-confidence
+ * threshold so both threshold markers are visible. Rounded up to 0.05.
+ */
+export function histogramRange(scores: number[], thresholds: ConfidenceThresholds): number {
+  const highest = Math.max(thresholds.lowConfidence * 2, ...scores);
+  return Math.min(1, Math.ceil(highest * 20) / 20);
+}
+
+export function buildHistogram(scores: number[], upper: number, bins = HISTOGRAM_BINS): SimilarityHistogram {
+  const binWidth = upper / bins;
+  const counts = new Array<number>(bins).fill(0);
+  for (const score of scores) {
+    // The top edge belongs to the last bin
+    counts[Math.min(bins - 1, Math.max(0, Math.floor(score / binWidth)))]++;
+  }
+  return { binWidth, counts };
+}
+
+interface Tally<T> {
+  item: T;
+  similaritySum: number;
+}
+
+function rankCitations<T extends DocumentCitationCount>(tallies: Map<string, Tally<T>>): T[] {
+  return [...tallies.values()]
+    .map(({ item, similaritySum }) => ({ ...item, averageSimilarity: similaritySum / item.citations }))
+    .sort((a, b) => b.citations - a.citations || b.averageSimilarity - a.averageSimilarity)
+    .slice(0, TOP_CITED);
+}
+
+function dailyCounts(entries: AnswerLogEntry[]): DailyConfidenceCount[] {
+  const days = new Map<string, DailyConfidenceCount>();
+  for (const entry of entries) {
+    const date = entry.createdAt.slice(0, 10);
+    const day = days.get(date) ?? { date, high: 0, low: 0, none: 0 };
+    day[entry.confidence.level]++;
+    days.set(date, day);
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function summarizeAnswers(
+  entries: AnswerLogEntry[],
+  thresholds: ConfidenceThresholds
+): AnalyticsSummary {
+  const levels = Object.fromEntries(LEVELS.map((level) => [level, 0])) as AnalyticsSummary['levels'];
+  const documents = new Map<string, Tally<DocumentCitationCount>>();
+  const chunks = new Map<string, Tally<ChunkCitationCount>>();
+
+  for (const entry of entries) {
+    levels[entry.confidence.level]++;
+
+    for (const source of entry.sources) {
+      const document = documents.get(source.documentId) ?? {
+        item: {
+          documentId: source.documentId,
+          documentTitle: source.documentTitle,
+          citations: 0,
+          averageSimilarity: 0,
+        },
+        similaritySum: 0,
+      };
+      document.item.citations++;
+      document.similaritySum += source.similarityScore;
+      documents.set(source.documentId, document);
+
+      const chunk = chunks.get(source.chunkId) ?? {
+        item: {
+          chunkId: source.chunkId,
+          chunkIndex: source.chunkIndex,
+          contentPreview: source.contentPreview,
+          documentId: source.documentId,
+          documentTitle: source.documentTitle,
+          citations: 0,
+          averageSimilarity: 0,
+        },
+        similaritySum: 0,
+      };
+      chunk.item.citations++;
+      chunk.similaritySum += source.similarityScore;
+      chunks.set(source.chunkId, chunk);
+    }
+  }
+
+  const maxScores = entries.map((entry) => entry.confidence.maxSimilarity);
+  const averageScores = entries.map((entry) => entry.confidence.averageSimilarity);
+  const upper = histogramRange([...maxScores, ...averageScores], thresholds);
+
+  return {
+    total: entries.length,
+    levels,
+    daily: dailyCounts(entries),
+    maxSimilarity: buildHistogram(maxScores, upper),
+    averageSimilarity: buildHistogram(averageScores, upper),
+    topDocuments: rankCitations(documents),
+    topChunks: rankCitations(chunks),
+    noInfoQuestions: entries
+      .filter((entry) => entry.confidence.level === 'none')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, NO_INFO_LIMIT)
+      .map((entry) => ({
+        question: entry.question,
+        createdAt: entry.createdAt,
+        maxSimilarity: entry.confidence.maxSimilarity,
+        language: entry.language,
+      })),
+  };
+}
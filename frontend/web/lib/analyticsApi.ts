@@ -0,0 +1,23 @@
+import type { AnalyticsResponse } from '@/types';
+import { parseAnalyticsResponse } from './validation';
+
+/**
+ * Browser-side calls to /api/analytics
+ */
+
+async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.details || body?.message || body?.error || `Request failed (${response.status})`;
+}
+
+/**
+ * Aggregates over the last `days` days; 0 covers everything logged
+ */
+export async function fetchAnalytics(days: number): Promise<AnalyticsResponse> {
+  const url = `/api/analytics?days=${days}`;
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response));
+  }
+  return parseAnalyticsResponse(await response.json(), `GET ${url}`);
+}
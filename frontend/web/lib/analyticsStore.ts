@@ -0,0 +1,51 @@
+import { randomUUID } from 'node:crypto';
+import type { AnswerLogEntry, AskRequest, AskResponse, User } from '@/types';
+import { appendJsonl, dataFilePath, readJsonl } from './jsonlFile';
+import { inWorkspace } from './workspaceAccess';
+
+/**
+ * Ask responses logged by the ask proxies, stored as JSON Lines next to the
+ * Next.js server (ANALYTICS_FILE), with the workspace of the user who asked
+ */
+
+const analyticsFile = () => dataFilePath(process.env.ANALYTICS_FILE, 'data/analytics.jsonl');
+
+/**
+ * Logs an answer the backend gave to `user`'s `request`. Never throws: a
+ * lost log entry must not turn a good answer into an error.
+ */
+export async function logAnswer(request: AskRequest, response: AskResponse, user: User | null): Promise<void> {
+  const entry: AnswerLogEntry = {
+    id: randomUUID(),
+    question: request.question,
+    conversationId: response.conversationId,
+    language: response.language,
+    confidence: response.confidence,
+    sources: response.sources,
+    retrievalSettings: {
+      topK: request.topK,
+      minSimilarity: request.minSimilarity,
+      documentIds: request.documentIds,
+    },
+    workspace: user?.workspace,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await appendJsonl(analyticsFile(), entry);
+  } catch (error) {
+    console.warn('Could not log answer for analytics:', error);
+  }
+}
+
+/**
+ * Entries logged at or after `since`, in `workspace` (all of them when missing)
+ */
+export async function listAnswerLogs({
+  since,
+  workspace,
+}: { since?: Date; workspace?: string } = {}): Promise<AnswerLogEntry[]> {
+  const cutoff = since?.toISOString();
+  const entries = await readJsonl<AnswerLogEntry>(analyticsFile());
+  return entries.filter((entry) => (!cutoff || entry.createdAt >= cutoff) && inWorkspace(entry, workspace));
+}
@@ -0,0 +1,333 @@
+import type {
+  ApiErrorCode,
+  AskRequest,
+  AskResponse,
+  ChunkNeighboursResponse,
+  DeleteDocumentResponse,
+  DocumentChunksResponse,
+  DocumentListResponse,
+  IngestionJob,
+  SearchRequest,
+  SearchResponse,
+  UploadResult,
+  User,
+} from '@/types';
+import { backendConfig, type BackendConfig } from './config';
+import {
+  parseApiErrorResponse,
+  parseAskResponse,
+  parseChunkNeighbours,
+  parseDeleteDocument,
+  parseDocumentChunks,
+  parseDocumentList,
+  parseIngestionJob,
+  parseSearchResponse,
+  parseStartedConversation,
+  parseUploadResult,
+} from './validation';
+
+/**
+ * Thrown when the backend can't be reached or answers with a non-2xx status.
+ * `status` is null when no response was received at all.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly details?: string,
+    readonly code: ApiErrorCode = status === null ? 'backend-unreachable' : 'backend-error',
+    /** Seconds to wait before retrying, from a 429's Retry-After header */
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+interface UploadOptions extends RequestOptions {
+  /** multipart/form-data with its boundary; required when the body is a stream */
+  contentType?: string;
+  /** Recorded with the document; its workspace decides who sees it */
+  uploader?: User;
+}
+
+interface ClientOptions {
+  /** Replaces the global fetch, e.g. with the mock backend */
+  fetch?: typeof fetch;
+}
+
+type Operation = keyof BackendConfig['timeouts'];
+
+// Gateway errors are usually a backend container that is still starting
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+// Failures before anything was sent; safe to retry even for a POST
+const NOT_SENT_ERRORS = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+const neverSent = (error: unknown) =>
+  NOT_SENT_ERRORS.has(((error as Error).cause as { code?: string } | undefined)?.code ?? '');
+
+/**
+ * Error code for a non-2xx backend status. The ask endpoint only fails with
+ * a 500 when answer generation (Ollama) throws.
+ */
+export function errorCodeForStatus(status: number, operation?: Operation): ApiErrorCode {
+  if (status === 400 || status === 413 || status === 415 || status === 422) return 'validation';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 429) return 'rate-limited';
+  if (status === 404) return 'not-found';
+  if (RETRYABLE_STATUSES.has(status)) return 'backend-unreachable';
+  if ((operation === 'ask' || operation === 'askStream') && status >= 500) return 'llm-failure';
+  return 'backend-error';
+}
+
+/**
+ * Retry-After in seconds; the header is either seconds or an HTTP date
+ */
+export function readRetryAfter(headers: Headers, now = Date.now()): number | undefined {
+  const value = headers.get('Retry-After')?.trim();
+  if (!value) return undefined;
+  const seconds = /^\d+$/.test(value) ? Number(value) : Math.ceil((Date.parse(value) - now) / 1000);
+  return Number.isFinite(seconds) ? Math.max(0, seconds) : undefined;
+}
+
+/**
+ * Rebuilds the ApiError behind a failed /api/rag/* response from its error body
+ */
+export async function readApiError(response: Response, endpoint: string): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  const retryAfter = readRetryAfter(response.headers);
+  try {
+    const body = parseApiErrorResponse(JSON.parse(text), endpoint);
+    return new ApiError(body.error, response.status, body.details, body.code, retryAfter);
+  } catch {
+    return new ApiError(
+      `Request failed (${response.status})`,
+      response.status,
+      text || undefined,
+      errorCodeForStatus(response.status),
+      retryAfter
+    );
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Typed client for the RAG backend (ask, ingest, search, documents).
+ * Applies the configured timeouts and retry policy and validates every
+ * JSON response against the shapes in types/index.ts.
+ */
+export function createApiClient(
+  config: BackendConfig = backendConfig,
+  { fetch: fetchImpl }: ClientOptions = {}
+) {
+  const withTimeout = (operation: Operation, signal?: AbortSignal) => {
+    const timeout = config.timeouts[operation];
+    const signals = [signal, timeout > 0 ? AbortSignal.timeout(timeout) : undefined]
+      .filter((s): s is AbortSignal => s !== undefined);
+    return signals.length > 0 ? AbortSignal.any(signals) : undefined;
+  };
+
+  /**
+   * Sends a request and returns the raw response once it is 2xx.
+   * Connection failures and gateway errors are retried for idempotent
+   * requests and searches. Asks and uploads are only retried when the
+   * connection failed before they were sent, so a question never reaches the
+   * LLM twice. Aborts, timeouts and streamed bodies (which can only be read
+   * once) are not retried.
+   */
+  const request = async (
+    operation: Operation,
+    path: string,
+    init: RequestInit,
+    { signal }: RequestOptions = {}
+  ): Promise<Response> => {
+    const url = `${config.baseUrl}${path}`;
+    const replayable = !(init.body instanceof ReadableStream);
+    // Search is a read-only POST
+    const idempotent = IDEMPOTENT_METHODS.has(init.method ?? 'GET') || operation === 'search';
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = replayable && attempt < config.retry.attempts;
+      let response: Response;
+
+      try {
+        response = await (fetchImpl ?? fetch)(url, { ...init, signal: withTimeout(operation, signal) });
+      } catch (error) {
+        const aborted = error instanceof DOMException &&
+          (error.name === 'AbortError' || error.name === 'TimeoutError');
+        if (aborted || !canRetry || !(idempotent || neverSent(error))) {
+          throw aborted ? error : new ApiError(`Failed to connect to backend at ${url}: ${(error as Error).message}`, null);
+        }
+        await sleep(config.retry.delayMs * (attempt + 1));
+        continue;
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      if (RETRYABLE_STATUSES.has(response.status) && canRetry && idempotent) {
+        await sleep(config.retry.delayMs * (attempt + 1));
+        continue;
+      }
+
+      const details = await response.text().catch(() => '');
+      throw new ApiError(
+        `Backend request failed (${response.status})`,
+        response.status,
+        details,
+        errorCodeForStatus(response.status, operation),
+        readRetryAfter(response.headers)
+      );
+    }
+  };
+
+  const postJson = (operation: Operation, path: string, body: unknown, options?: RequestOptions) =>
+    request(
+      operation,
+      path,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      options
+    );
+
+  return {
+    request,
+
+    async ask(body: AskRequest, options?: RequestOptions): Promise<AskResponse> {
+      const response = await postJson('ask', '/api/rag/ask', body, options);
+      return parseAskResponse(await response.json(), 'POST /api/rag/ask');
+    },
+
+    /**
+     * Starts a backend conversation whose history is this question and
+     * answer, without asking the LLM. Returns its conversationId.
+     */
+    async startConversation(
+      { question, answer }: Pick<AskResponse, 'question' | 'answer'>,
+      options?: RequestOptions
+    ): Promise<string> {
+      const response = await postJson('conversations', '/api/conversations', { question, answer }, options);
+      return parseStartedConversation(await response.json(), 'POST /api/conversations');
+    },
+
+    /** Opens the SSE answer stream; the caller reads or relays the body. */
+    openAskStream(body: AskRequest, options?: RequestOptions): Promise<Response> {
+      return postJson('askStream', '/api/rag/ask/stream', body, options);
+    },
+
+    async ingestPdf(formData: FormData, options?: RequestOptions): Promise<UploadResult> {
+      const response = await request(
+        'ingest',
+        '/api/ingest/pdf',
+        { method: 'POST', body: formData },
+        options
+      );
+      return parseUploadResult(await response.json(), 'POST /api/ingest/pdf');
+    },
+
+    /**
+     * Queues the PDF for background ingestion; follow it with getIngestionJob.
+     * A multipart stream is forwarded as it arrives instead of being buffered.
+     */
+    async submitPdfJob(
+      body: FormData | ReadableStream<Uint8Array>,
+      { contentType, uploader, ...options }: UploadOptions = {}
+    ): Promise<IngestionJob> {
+      const headers: Record<string, string> = uploader
+        ? { 'X-Uploaded-By': uploader.username, 'X-Workspace': uploader.workspace }
+        : {};
+      // Node's fetch only sends a stream body with duplex: 'half', which the DOM types lack
+      const init: RequestInit & { duplex?: 'half' } =
+        body instanceof ReadableStream
+          ? { method: 'POST', body, headers: { ...headers, 'Content-Type': contentType ?? '' }, duplex: 'half' }
+          : { method: 'POST', body, headers };
+      const response = await request('ingest', '/api/ingest/pdf/jobs', init, options);
+      return parseIngestionJob(await response.json(), 'POST /api/ingest/pdf/jobs');
+    },
+
+    async getIngestionJob(jobId: string, options?: RequestOptions): Promise<IngestionJob> {
+      const response = await request(
+        'jobs',
+        `/api/ingest/jobs/${encodeURIComponent(jobId)}`,
+        { method: 'GET' },
+        options
+      );
+      return parseIngestionJob(await response.json(), 'GET /api/ingest/jobs/{id}');
+    },
+
+    /** Stops a queued or running job; the backend answers 409 once it has finished. */
+    async cancelIngestionJob(jobId: string, options?: RequestOptions): Promise<IngestionJob> {
+      const response = await request(
+        'jobs',
+        `/api/ingest/jobs/${encodeURIComponent(jobId)}`,
+        { method: 'DELETE' },
+        options
+      );
+      return parseIngestionJob(await response.json(), 'DELETE /api/ingest/jobs/{id}');
+    },
+
+    async search(body: SearchRequest, options?: RequestOptions): Promise<SearchResponse> {
+      const response = await postJson('search', '/api/search', body, options);
+      return parseSearchResponse(await response.json(), 'POST /api/search');
+    },
+
+    async listDocuments(options?: RequestOptions): Promise<DocumentListResponse> {
+      const response = await request('documents', '/api/documents', { method: 'GET' }, options);
+      return parseDocumentList(await response.json(), 'GET /api/documents');
+    },
+
+    async getDocumentChunks(
+      documentId: string,
+      { offset = 0, limit = 50 }: { offset?: number; limit?: number } = {},
+      options?: RequestOptions
+    ): Promise<DocumentChunksResponse> {
+      const query = new URLSearchParams({ offset: String(offset), limit: String(limit) });
+      const response = await request(
+        'documents',
+        `/api/documents/${encodeURIComponent(documentId)}/chunks?${query}`,
+        { method: 'GET' },
+        options
+      );
+      return parseDocumentChunks(await response.json(), 'GET /api/documents/{id}/chunks');
+    },
+
+    async getChunkNeighbours(
+      documentId: string,
+      chunkIndex: number,
+      radius = 2,
+      options?: RequestOptions
+    ): Promise<ChunkNeighboursResponse> {
+      const response = await request(
+        'documents',
+        `/api/documents/${encodeURIComponent(documentId)}/chunks/${chunkIndex}/neighbours?radius=${radius}`,
+        { method: 'GET' },
+        options
+      );
+      return parseChunkNeighbours(await response.json(), 'GET /api/documents/{id}/chunks/{index}/neighbours');
+    },
+
+    async deleteDocument(documentId: string, options?: RequestOptions): Promise<DeleteDocumentResponse> {
+      const response = await request(
+        'documents',
+        `/api/documents/${encodeURIComponent(documentId)}`,
+        { method: 'DELETE' },
+        options
+      );
+      return parseDeleteDocument(await response.json(), 'DELETE /api/documents/{id}');
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,37 @@
+import type { ApiErrorCode, MessageError } from '@/types';
+import { ApiError } from './apiClient';
+
+/**
+ * The readable part of a backend error body: a plain JSON string (400s),
+ * a ProblemDetails `detail` (500s) or a proxy envelope's own details.
+ */
+export function describeErrorDetails(details: string | undefined): string | undefined {
+  if (!details) return undefined;
+  try {
+    const parsed = JSON.parse(details);
+    if (typeof parsed === 'string') return parsed;
+    if (typeof parsed.details === 'string') return describeErrorDetails(parsed.details);
+    return parsed.detail || parsed.error || parsed.message || details;
+  } catch {
+    return details;
+  }
+}
+
+/**
+ * Error code for anything thrown while asking: proxy error envelopes keep
+ * their code, a browser fetch that fails outright means the app server is down.
+ */
+export function errorCodeOf(error: unknown): ApiErrorCode {
+  if (error instanceof ApiError) return error.code;
+  if (error instanceof DOMException && error.name === 'TimeoutError') return 'timeout';
+  if (error instanceof TypeError) return 'backend-unreachable';
+  return 'internal';
+}
+
+export function toMessageError(error: unknown, conversationId: string | null): MessageError {
+  const message =
+    (error instanceof ApiError ? describeErrorDetails(error.details) : undefined) ??
+    (error instanceof Error ? error.message : String(error));
+  const retryAfterSeconds = error instanceof ApiError ? error.retryAfterSeconds : undefined;
+  return { code: errorCodeOf(error), message, conversationId, retryAfterSeconds };
+}
@@ -0,0 +1,84 @@
+import type { AskRequest, AskResponse, AskStreamEvent } from '@/types';
+import { ApiError, readApiError } from './apiClient';
+import { readServerSentEvents } from './sse';
+import { parseAskResponse } from './validation';
+
+interface AskStreamOptions {
+  signal?: AbortSignal;
+  onToken: (text: string) => void;
+}
+
+/**
+ * Calls the streaming ask proxy and reports answer tokens as they arrive.
+ * Resolves with the final response frame (confidence, sources, ...);
+ * failures are thrown as ApiErrors carrying the proxy's error code.
+ */
+export async function askStream(
+  request: AskRequest,
+  { signal, onToken }: AskStreamOptions
+): Promise<AskResponse> {
+  const response = await fetch('/api/rag/ask/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await readApiError(response, 'POST /api/rag/ask/stream');
+  }
+
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const frame = toStreamEvent(event, data);
+    switch (frame?.type) {
+      case 'token':
+        onToken(frame.text);
+        break;
+      case 'done':
+        return frame.response;
+      case 'error':
+        // The backend only sends this when generation fails mid-answer
+        throw new ApiError('Answer generation failed', null, frame.error, 'llm-failure');
+    }
+  }
+
+  throw new ApiError('Stream ended before the answer was complete', null);
+}
+
+/**
+ * Relays an answer stream as-is and hands its final frame to `onAnswer`.
+ * Streams that fail or are cancelled before the final frame never call it.
+ */
+export function tapAnswerStream(
+  body: ReadableStream<Uint8Array>,
+  onAnswer: (response: AskResponse) => void
+): ReadableStream<Uint8Array> {
+  const [relay, capture] = body.tee();
+  void (async () => {
+    try {
+      for await (const { event, data } of readServerSentEvents(capture)) {
+        const frame = toStreamEvent(event, data);
+        if (frame?.type === 'done') onAnswer(frame.response);
+      }
+    } catch {
+      // The relayed copy reports the failure to the browser
+    }
+  })();
+  return relay;
+}
+
+function toStreamEvent(event: string, data: string): AskStreamEvent | null {
+  const payload = JSON.parse(data);
+  switch (event) {
+    case 'token':
+      return { type: 'token', text: payload.text };
+    case 'done':
+      return { type: 'done', response: parseAskResponse(payload, 'POST /api/rag/ask/stream') };
+    case 'error':
+      return { type: 'error', error: payload.error };
+    default:
+      return null;
+  }
+}
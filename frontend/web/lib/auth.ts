@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { User } from '@/types';
+import { parseUser } from './validation';
+
+/**
+ * Signed session cookies and the user header the proxy (proxy.ts) hands to
+ * route handlers. Server-side only.
+ *
+ * A session token is `<base64url JSON { user, expiresAt }>.<HMAC-SHA256>`,
+ * signed with AUTH_SECRET; nothing is stored server-side.
+ */
+
+export const SESSION_COOKIE = 'rag_session';
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Set by the proxy on authenticated requests; a client-sent value is always dropped */
+export const USER_HEADER = 'x-rag-user';
+
+const DEV_SECRET = 'rag-demo-insecure-dev-secret';
+let warnedAboutSecret = false;
+
+function sessionSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set to sign session cookies');
+  }
+  // The proxy and the routes are bundled separately, so the fallback has to be a constant
+  if (!warnedAboutSecret) {
+    console.warn('AUTH_SECRET is not set; using an insecure development secret');
+    warnedAboutSecret = true;
+  }
+  return DEV_SECRET;
+}
+
+const sign = (payload: string) => createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+
+export function createSessionToken(user: User, now = Date.now()): string {
+  const payload = Buffer.from(
+    JSON.stringify({ user, expiresAt: now + SESSION_TTL_SECONDS * 1000 })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The user of a session token; null when it is missing, tampered with or expired
+ */
+export function readSessionToken(token: string | undefined, now = Date.now()): User | null {
+  const [payload, signature, ...rest] = token?.split('.') ?? [];
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof session.expiresAt !== 'number' || session.expiresAt <= now) return null;
+    return parseUser(session.user, 'session');
+  } catch {
+    return null;
+  }
+}
+
+export const encodeUserHeader = (user: User) => Buffer.from(JSON.stringify(user)).toString('base64url');
+
+/**
+ * The signed-in user of a request that went through the proxy; null when
+ * the route was called without it (tests, scripts)
+ */
+export function requestUser(request: Request): User | null {
+  const header = request.headers.get(USER_HEADER);
+  if (!header) return null;
+  try {
+    return parseUser(JSON.parse(Buffer.from(header, 'base64url').toString('utf8')), USER_HEADER);
+  } catch {
+    return null;
+  }
+}
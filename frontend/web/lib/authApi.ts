@@ -0,0 +1,35 @@
+import type { LoginRequest, User } from '@/types';
+import { parseUser } from './validation';
+
+/**
+ * Browser-side calls to /api/auth
+ */
+
+async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.details || body?.message || body?.error || `Request failed (${response.status})`;
+}
+
+/**
+ * Signs in and sets the session cookie. Wrong credentials resolve to null.
+ */
+export async function signIn(credentials: LoginRequest): Promise<User | null> {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(credentials),
+  });
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(await errorMessage(response));
+  }
+  const body = await response.json();
+  return parseUser(body?.user, 'POST /api/auth/login');
+}
+
+export async function signOut(): Promise<void> {
+  const response = await fetch('/api/auth/logout', { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response));
+  }
+}
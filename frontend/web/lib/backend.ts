@@ -0,0 +1,12 @@
+import { createApiClient } from './apiClient';
+import { backendConfig, mockBackendEnabled } from './config';
+import { createMockBackendFetch } from './mockBackend';
+
+/**
+ * The backend client the route handlers share. It lives apart from
+ * apiClient.ts, which browser code imports for ApiError, so the mock backend
+ * and its fixtures stay out of the client bundle.
+ */
+export const apiClient = createApiClient(backendConfig, {
+  fetch: mockBackendEnabled ? createMockBackendFetch() : undefined,
+});
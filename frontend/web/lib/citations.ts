@@ -0,0 +1,74 @@
+/**
+ * Splits an answer into plain text and citation markers such as `[1]` or `[1, 3]`.
+ * Markers are numbered like SourcesPanel (#1 = sources[0]); numbers outside
+ * 1..sourceCount are left as text, so answers without markers come back as a
+ * single text segment.
+ */
+
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; sourceIndex: number };
+
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export function splitCitations(answer: string, sourceCount: number): AnswerSegment[] {
+  const segments: AnswerSegment[] = [];
+  let textStart = 0;
+
+  const pushText = (end: number) => {
+    if (end > textStart) {
+      segments.push({ type: 'text', text: answer.slice(textStart, end) });
+    }
+  };
+
+  for (const match of answer.matchAll(MARKER)) {
+    const numbers = match[1].split(',').map((n) => Number(n.trim()));
+    if (numbers.some((n) => n < 1 || n > sourceCount)) continue;
+
+    pushText(match.index);
+    for (const n of numbers) {
+      segments.push({ type: 'citation', sourceIndex: n - 1 });
+    }
+    textStart = match.index + match[0].length;
+  }
+
+  pushText(answer.length);
+  return segments;
+}
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+}
+
+/**
+ * remark plugin: turns markers in text nodes into `<cite data-source-index>`
+ * elements. Code spans and code blocks are `code`/`inlineCode` nodes, not
+ * `text`, so markers inside code stay untouched.
+ */
+export function remarkCitations({ sourceCount }: { sourceCount: number }) {
+  const transform = (node: MarkdownNode) => {
+    if (!node.children) return;
+
+    node.children = node.children.flatMap((child): MarkdownNode[] => {
+      if (child.type !== 'text' || !child.value) {
+        transform(child);
+        return [child];
+      }
+
+      return splitCitations(child.value, sourceCount).map((segment) =>
+        segment.type === 'text'
+          ? { type: 'text', value: segment.text }
+          : {
+              type: 'citation',
+              children: [],
+              data: { hName: 'cite', hProperties: { dataSourceIndex: segment.sourceIndex } },
+            }
+      );
+    });
+  };
+
+  return (tree: MarkdownNode) => transform(tree);
+}
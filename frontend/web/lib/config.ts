@@ -0,0 +1,148 @@
+import type { ConfidenceThresholds } from '@/types';
+
+/**
+ * Backend connection settings, read from environment variables.
+ *
+ * BACKEND_URL is used by the Next.js route handlers, with NEXT_PUBLIC_BACKEND_URL
+ * as a fallback for older setups. The browser only talks to /api/rag/*.
+ * Timeouts are in milliseconds, 0 disables the timeout.
+ */
+export interface BackendConfig {
+  baseUrl: string;
+  timeouts: {
+    ask: number;
+    askStream: number;
+    ingest: number;
+    search: number;
+    documents: number;
+    jobs: number;
+    conversations: number;
+  };
+  retry: {
+    attempts: number;
+    delayMs: number;
+  };
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function readFlag(value: string | undefined): boolean {
+  return ['1', 'true', 'yes'].includes(value?.trim().toLowerCase() ?? '');
+}
+
+export const backendConfig: BackendConfig = {
+  baseUrl: (
+    process.env.BACKEND_URL ||
+    process.env.NEXT_PUBLIC_BACKEND_URL ||
+    'http://localhost:8080'
+  ).replace(/\/+$/, ''),
+  timeouts: {
+    // LLM generation can take minutes with local Ollama
+    ask: readNumber(process.env.BACKEND_ASK_TIMEOUT_MS, 300_000),
+    // Covers the whole stream, not just the first token
+    askStream: readNumber(process.env.BACKEND_ASK_STREAM_TIMEOUT_MS, 300_000),
+    // Only the upload itself - the PDF is processed as a background job
+    ingest: readNumber(process.env.BACKEND_INGEST_TIMEOUT_MS, 300_000),
+    search: readNumber(process.env.BACKEND_SEARCH_TIMEOUT_MS, 30_000),
+    documents: readNumber(process.env.BACKEND_DOCUMENTS_TIMEOUT_MS, 30_000),
+    jobs: readNumber(process.env.BACKEND_JOBS_TIMEOUT_MS, 10_000),
+    conversations: readNumber(process.env.BACKEND_CONVERSATIONS_TIMEOUT_MS, 10_000),
+  },
+  retry: {
+    attempts: readNumber(process.env.BACKEND_RETRY_ATTEMPTS, 2),
+    delayMs: readNumber(process.env.BACKEND_RETRY_DELAY_MS, 500),
+  },
+};
+
+/**
+ * A token bucket per client: `perMinute` requests on average with bursts of
+ * up to `burst`, and at most `concurrency` in flight. 0 turns a limit off.
+ */
+export interface RateLimit {
+  perMinute: number;
+  burst: number;
+  concurrency: number;
+}
+
+export interface RateLimitConfig {
+  ask: RateLimit;
+  ingest: RateLimit;
+  /** Longest question the ask proxies accept, in characters (0: no limit) */
+  maxQuestionLength: number;
+}
+
+/**
+ * Abuse guards for the proxy routes. Asks keep Ollama busy for seconds each,
+ * so one client must not be able to queue up more than a few.
+ */
+export const rateLimitConfig: RateLimitConfig = {
+  ask: {
+    perMinute: readNumber(process.env.RATE_LIMIT_ASK_PER_MINUTE, 10),
+    burst: readNumber(process.env.RATE_LIMIT_ASK_BURST, 5),
+    concurrency: readNumber(process.env.RATE_LIMIT_ASK_CONCURRENCY, 2),
+  },
+  ingest: {
+    perMinute: readNumber(process.env.RATE_LIMIT_INGEST_PER_MINUTE, 20),
+    burst: readNumber(process.env.RATE_LIMIT_INGEST_BURST, 10),
+    concurrency: readNumber(process.env.RATE_LIMIT_INGEST_CONCURRENCY, 3),
+  },
+  maxQuestionLength: readNumber(process.env.MAX_QUESTION_LENGTH, 2_000),
+};
+
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+/**
+ * Optional cache of answers in the ask proxies, for questions that are asked
+ * over and over. Off unless RESPONSE_CACHE_ENABLED is set.
+ */
+export const responseCacheConfig: ResponseCacheConfig = {
+  enabled: readFlag(process.env.RESPONSE_CACHE_ENABLED),
+  ttlMs: readNumber(process.env.RESPONSE_CACHE_TTL_SECONDS, 3_600) * 1000,
+  maxEntries: readNumber(process.env.RESPONSE_CACHE_MAX_ENTRIES, 500),
+};
+
+/**
+ * How many PDFs the upload queue ingests at the same time.
+ * Each one keeps the embedding model busy, so keep this small.
+ */
+export const uploadConcurrency = Math.max(
+  1,
+  readNumber(process.env.NEXT_PUBLIC_UPLOAD_CONCURRENCY, 2)
+);
+
+/**
+ * How often the upload queue polls an ingestion job for its stage and chunk counts
+ */
+export const ingestionPollIntervalMs = Math.max(
+  250,
+  readNumber(process.env.NEXT_PUBLIC_INGEST_POLL_INTERVAL_MS, 1_000)
+);
+
+/**
+ * Mock mode: ask and ingest are answered from lib/mockFixtures.ts instead of
+ * the backend, so the UI runs without Postgres or Ollama.
+ */
+export const mockBackendEnabled = readFlag(process.env.NEXT_PUBLIC_MOCK_BACKEND);
+
+/**
+ * Latency the mock backend adds to every response
+ */
+export const mockBackendDelayMs = readNumber(process.env.MOCK_BACKEND_DELAY_MS, 400);
+
+/**
+ * The backend's RagConfidence thresholds (appsettings.json), used by the
+ * analytics page to mark where the confidence levels change.
+ * Set these when the backend values are changed.
+ */
+export const confidenceThresholds: ConfidenceThresholds = {
+  minAnswerSimilarity: readNumber(process.env.RAG_MIN_ANSWER_SIMILARITY, 0.04),
+  lowConfidence: readNumber(process.env.RAG_LOW_CONFIDENCE_THRESHOLD, 0.06),
+};
@@ -0,0 +1,125 @@
+import type { Conversation, ConversationExport, Message } from '@/types';
+import { parseConversationExport } from './validation';
+
+/**
+ * Conversation export as Markdown (tickets, audit records) and as JSON
+ * that importConversation() turns back into a stored conversation.
+ */
+
+export const confidenceLabels: Record<NonNullable<Message['confidence']>['level'], string> = {
+  high: 'High Confidence',
+  low: 'Low Confidence',
+  none: 'No Relevant Information',
+};
+
+export function toConversationExport(conversation: Conversation): ConversationExport {
+  return {
+    format: 'rag-conversation',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      title: conversation.title,
+      conversationId: conversation.conversationId,
+      retrievalSettings: conversation.retrievalSettings,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString(),
+      // An answer still streaming is exported as cancelled, like in localStorage
+      messages: conversation.messages.map(({ isStreaming, timestamp, ...message }) => ({
+        ...message,
+        ...(isStreaming ? { isCancelled: true } : {}),
+        timestamp: timestamp.toISOString(),
+      })),
+    },
+  };
+}
+
+export function conversationToJson(conversation: Conversation): string {
+  return JSON.stringify(toConversationExport(conversation), null, 2);
+}
+
+/**
+ * Throws ResponseValidationError (or SyntaxError) when the file isn't an export
+ */
+export function parseConversationFile(raw: string): ConversationExport {
+  return parseConversationExport(JSON.parse(raw));
+}
+
+export function conversationToMarkdown(conversation: Conversation): string {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `- Exported: ${new Date().toLocaleString()}`,
+    `- Started: ${conversation.createdAt.toLocaleString()}`,
+  ];
+  if (conversation.conversationId) {
+    lines.push(`- Conversation ID: \`${conversation.conversationId}\``);
+  }
+
+  let questionNumber = 0;
+  for (const message of conversation.messages) {
+    lines.push('');
+
+    if (message.role === 'user') {
+      questionNumber++;
+      lines.push(`## Q${questionNumber}: ${message.content.replace(/\s+/g, ' ').trim()}`);
+      lines.push('', `_${message.timestamp.toLocaleString()}_`);
+      continue;
+    }
+
+    lines.push('### Answer', '', message.content || '_(no answer)_');
+    if (message.cached) {
+      lines.push('', '_Served from the answer cache_');
+    }
+    if (message.isCancelled || message.isStreaming) {
+      lines.push('', '_Generation cancelled_');
+    }
+    if (message.error) {
+      lines.push('', `_Failed: ${message.error.message}_`);
+    }
+
+    if (message.confidence) {
+      const { level, maxSimilarity, averageSimilarity, explanation } = message.confidence;
+      lines.push(
+        '',
+        `**Confidence:** ${confidenceLabels[level]} ` +
+          `(max similarity ${maxSimilarity.toFixed(4)}, average ${averageSimilarity.toFixed(4)})`
+      );
+      if (explanation) lines.push('', `> ${explanation}`);
+    }
+
+    if (message.sources && message.sources.length > 0) {
+      lines.push('', '**Sources:**', '');
+      message.sources.forEach((source, index) => {
+        lines.push(
+          `${index + 1}. ${source.documentTitle} — chunk ${source.chunkIndex} ` +
+            `(similarity ${source.similarityScore.toFixed(4)})`
+        );
+        lines.push(`   > ${source.contentPreview.replace(/\s+/g, ' ').trim()}`);
+      });
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+export function exportFileName(conversation: Conversation, extension: string): string {
+  const slug =
+    conversation.title
+      .toLocaleLowerCase()
+      .normalize('NFKD')
+      .replace(/[^\w\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .slice(0, 50) || 'conversation';
+  return `${slug}-${conversation.updatedAt.toISOString().slice(0, 10)}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns; revoking right away cancels it
+  setTimeout(() => URL.revokeObjectURL(url));
+}
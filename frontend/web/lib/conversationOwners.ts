@@ -0,0 +1,62 @@
+import type { AskRequest, User } from '@/types';
+import { ApiError } from './apiClient';
+
+/**
+ * Who each backend conversation belongs to, kept in the Next.js server's
+ * memory (one server; forgotten on restart, like the rate limits). The
+ * backend continues whatever conversationId it is sent, so the ask proxies
+ * record the user of every answer and only forward a follow-up's
+ * conversationId for that user.
+ */
+
+/** The least recently used conversations are forgotten past this many */
+const MAX_TRACKED_CONVERSATIONS = 50_000;
+
+export function createConversationOwners(maxEntries = MAX_TRACKED_CONVERSATIONS) {
+  // Map order is the eviction order: least recently used first
+  const owners = new Map<string, string>();
+
+  const touch = (conversationId: string, username: string) => {
+    owners.delete(conversationId);
+    owners.set(conversationId, username);
+    for (const oldest of owners.keys()) {
+      if (owners.size <= maxEntries) break;
+      owners.delete(oldest);
+    }
+  };
+
+  return {
+    /**
+     * Hands the conversation of an answer to the user who asked
+     */
+    record(conversationId: string, user: User | null): void {
+      if (user) touch(conversationId, user.username);
+    },
+
+    /**
+     * The conversationId to forward for the user: their own as-is, none for
+     * one this server doesn't know (the backend starts a new conversation,
+     * as for an expired one). Another user's conversation is a 404.
+     * Unchanged for requests without a user (tests, scripts).
+     */
+    check(conversationId: AskRequest['conversationId'], user: User | null): AskRequest['conversationId'] {
+      if (!conversationId || !user) return conversationId;
+
+      const owner = owners.get(conversationId);
+      if (owner === undefined) return undefined;
+      if (owner !== user.username) {
+        throw new ApiError('Conversation not found', 404, `Conversation ${conversationId} not found`, 'not-found');
+      }
+      touch(conversationId, owner);
+      return conversationId;
+    },
+
+    get size() {
+      return owners.size;
+    },
+  };
+}
+
+export type ConversationOwners = ReturnType<typeof createConversationOwners>;
+
+export const conversationOwners = createConversationOwners();
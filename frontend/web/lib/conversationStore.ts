@@ -0,0 +1,215 @@
+import type { Conversation, ConversationExport, Message, RetrievalSettings } from '@/types';
+import { normalizeRetrievalSettings } from './retrievalSettings';
+import { claimUserStorageKey } from './userStorage';
+
+/**
+ * Browser-side conversation history, persisted to localStorage.
+ * Exposed as an external store so components can read it with useSyncExternalStore.
+ */
+
+const STORAGE_KEY = 'rag.conversations.v1';
+const PERSIST_DELAY_MS = 300;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+const EMPTY: Conversation[] = [];
+let conversations: Conversation[] | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let storageKey = STORAGE_KEY;
+
+export function serializeConversations(list: Conversation[]): string {
+  return JSON.stringify(
+    list.map((conversation) => ({
+      ...conversation,
+      // A reload interrupts any answer that is still streaming
+      messages: conversation.messages.map(({ isStreaming, ...message }) =>
+        isStreaming ? { ...message, isCancelled: true } : message
+      ),
+    }))
+  );
+}
+
+export function deserializeConversations(raw: string): Conversation[] {
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) return [];
+
+  // Entries a hand-edited or truncated history left without an id are dropped
+  return parsed
+    .filter((conversation) => typeof conversation?.id === 'string')
+    .map((conversation) => ({
+      ...conversation,
+      retrievalSettings: conversation.retrievalSettings && normalizeRetrievalSettings(conversation.retrievalSettings),
+      createdAt: new Date(conversation.createdAt),
+      updatedAt: new Date(conversation.updatedAt),
+      messages: (conversation.messages ?? []).map((message: Message) => ({
+        ...message,
+        timestamp: new Date(message.timestamp),
+      })),
+    }));
+}
+
+function load(): Conversation[] {
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    return raw ? deserializeConversations(raw) : [];
+  } catch (error) {
+    console.warn('Could not read conversation history:', error);
+    return [];
+  }
+}
+
+function persist() {
+  persistTimer = null;
+  try {
+    window.localStorage.setItem(storageKey, serializeConversations(conversations ?? []));
+  } catch (error) {
+    console.warn('Could not save conversation history:', error);
+  }
+}
+
+function setConversations(next: Conversation[]) {
+  conversations = next;
+  // Streaming updates arrive per token, so writes are batched
+  if (persistTimer === null) {
+    persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Keeps each signed-in user's history under its own key (null: signed out).
+ * Called by SessionProvider before any component reads the history; signing
+ * in or out reloads the page, so no subscriber needs to be told.
+ */
+export function setConversationOwner(username: string | null) {
+  // Written under the previous key first, so nothing lands in history being handed over
+  if (persistTimer !== null) {
+    clearTimeout(persistTimer);
+    persist();
+  }
+
+  const key = claimUserStorageKey(STORAGE_KEY, username);
+  if (key === storageKey) return;
+  storageKey = key;
+  conversations = null;
+}
+
+function current(): Conversation[] {
+  if (conversations === null) {
+    conversations = load();
+  }
+  return conversations;
+}
+
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+
+  // Keep several open tabs in sync
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === storageKey) {
+      conversations = load();
+      listener();
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function getSnapshot(): Conversation[] {
+  return current();
+}
+
+export function getServerSnapshot(): Conversation[] {
+  return EMPTY;
+}
+
+export function getConversation(id: string): Conversation | undefined {
+  return current().find((conversation) => conversation.id === id);
+}
+
+export function createConversation(
+  title: string,
+  retrievalSettings?: RetrievalSettings
+): Conversation {
+  const now = new Date();
+  const conversation: Conversation = {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    title,
+    conversationId: null,
+    messages: [],
+    retrievalSettings,
+    createdAt: now,
+    updatedAt: now,
+  };
+  setConversations([conversation, ...current()]);
+  return conversation;
+}
+
+/**
+ * Adds a conversation from a JSON export as a new entry (never overwrites)
+ */
+export function importConversation({ conversation }: ConversationExport): Conversation {
+  const now = new Date();
+  const imported: Conversation = {
+    ...conversation,
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date(conversation.createdAt),
+    updatedAt: now,
+    messages: conversation.messages.map((message) => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+    })),
+  };
+  setConversations([imported, ...current()]);
+  return imported;
+}
+
+export function updateConversation(
+  id: string,
+  update: (conversation: Conversation) => Conversation
+) {
+  if (!getConversation(id)) return;
+  setConversations(
+    current().map((conversation) =>
+      conversation.id === id
+        ? { ...update(conversation), updatedAt: new Date() }
+        : conversation
+    )
+  );
+}
+
+export function renameConversation(id: string, title: string) {
+  const trimmed = title.trim();
+  if (!trimmed) return;
+  updateConversation(id, (conversation) => ({ ...conversation, title: trimmed }));
+}
+
+export function deleteConversation(id: string) {
+  setConversations(current().filter((conversation) => conversation.id !== id));
+}
+
+/**
+ * Case-insensitive match on the title and on every message in the thread
+ */
+export function searchConversations(list: Conversation[], query: string): Conversation[] {
+  const needle = query.trim().toLocaleLowerCase();
+  if (!needle) return list;
+
+  return list.filter(
+    (conversation) =>
+      conversation.title.toLocaleLowerCase().includes(needle) ||
+      conversation.messages.some((message) =>
+        message.content.toLocaleLowerCase().includes(needle)
+      )
+  );
+}
+
+export function titleFromQuestion(question: string): string {
+  const singleLine = question.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 60 ? `${singleLine.slice(0, 57)}...` : singleLine;
+}
@@ -0,0 +1,57 @@
+import type { DocumentTagsEntry, Source } from '@/types';
+
+/**
+ * Document tags and the document scope of a conversation
+ * (RetrievalSettings.documentIds; empty means every document)
+ */
+
+const MAX_TAG_LENGTH = 40;
+
+/**
+ * Trimmed, non-empty tags without case-insensitive duplicates, in input order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    const key = tag.toLowerCase();
+    if (tag && !seen.has(key)) {
+      seen.add(key);
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+/** Tags typed as a comma-separated list */
+export const parseTagList = (text: string): string[] => normalizeTags(text.split(','));
+
+/**
+ * Every tag in use, sorted, for the scope picker
+ */
+export function allTags(entries: DocumentTagsEntry[]): string[] {
+  return normalizeTags(entries.flatMap((entry) => entry.tags)).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * IDs of the documents tagged `tag` (case-insensitive), limited to `existing`
+ * so deleted documents drop out of the scope
+ */
+export function documentsWithTag(entries: DocumentTagsEntry[], tag: string, existing: string[]): string[] {
+  const wanted = tag.toLowerCase();
+  return entries
+    .filter((entry) => entry.tags.some((t) => t.toLowerCase() === wanted))
+    .map((entry) => entry.documentId)
+    .filter((documentId) => existing.includes(documentId));
+}
+
+/**
+ * Drops sources outside the scope. The backend already filters the search;
+ * this keeps the UI honest against a backend that doesn't.
+ */
+export function withinScope<T extends Pick<Source, 'documentId'>>(sources: T[], documentIds: string[]): T[] {
+  return documentIds.length === 0
+    ? sources
+    : sources.filter((source) => documentIds.includes(source.documentId));
+}
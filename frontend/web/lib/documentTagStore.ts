@@ -0,0 +1,38 @@
+import type { DocumentTags, DocumentTagsEntry } from '@/types';
+import { normalizeTags } from './documentScope';
+import { appendJsonl, dataFilePath, readJsonl } from './jsonlFile';
+import { inWorkspace } from './workspaceAccess';
+
+/**
+ * Document tags, stored as JSON Lines next to the Next.js server (DOCUMENT_TAGS_FILE).
+ * Every save appends the document's full tag list; the latest line of the
+ * workspace wins. Each workspace keeps its own tags, and sees the ones saved
+ * without a workspace.
+ */
+
+const tagsFile = () => dataFilePath(process.env.DOCUMENT_TAGS_FILE, 'data/document-tags.jsonl');
+
+export async function saveDocumentTags(
+  { documentId, tags }: DocumentTags,
+  workspace?: string
+): Promise<DocumentTagsEntry> {
+  const entry: DocumentTagsEntry = {
+    documentId,
+    tags: normalizeTags(tags),
+    workspace,
+    updatedAt: new Date().toISOString(),
+  };
+  await appendJsonl(tagsFile(), entry);
+  return entry;
+}
+
+/**
+ * The current tags of every document tagged in `workspace` (everywhere when missing)
+ */
+export async function listDocumentTags(workspace?: string): Promise<DocumentTagsEntry[]> {
+  const latest = new Map<string, DocumentTagsEntry>();
+  for (const entry of await readJsonl<DocumentTagsEntry>(tagsFile())) {
+    if (inWorkspace(entry, workspace)) latest.set(entry.documentId, entry);
+  }
+  return [...latest.values()].filter((entry) => entry.tags.length > 0);
+}
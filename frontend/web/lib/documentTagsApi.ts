@@ -0,0 +1,30 @@
+import type { DocumentTags, DocumentTagsResponse } from '@/types';
+import { parseDocumentTagsResponse } from './validation';
+
+/**
+ * Browser-side calls to /api/document-tags
+ */
+
+async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.details || body?.message || body?.error || `Request failed (${response.status})`;
+}
+
+export async function fetchDocumentTags(): Promise<DocumentTagsResponse> {
+  const response = await fetch('/api/document-tags', { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response));
+  }
+  return parseDocumentTagsResponse(await response.json(), 'GET /api/document-tags');
+}
+
+export async function updateDocumentTags(update: DocumentTags): Promise<void> {
+  const response = await fetch('/api/document-tags', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response));
+  }
+}
@@ -0,0 +1,70 @@
+import type {
+  ChunkNeighboursResponse,
+  DeleteDocumentResponse,
+  DocumentChunksResponse,
+  DocumentListResponse,
+} from '@/types';
+import {
+  parseChunkNeighbours,
+  parseDeleteDocument,
+  parseDocumentChunks,
+  parseDocumentList,
+} from './validation';
+
+/**
+ * Browser-side calls to the document proxy routes
+ */
+
+async function requestJson<T>(
+  url: string,
+  init: RequestInit,
+  parse: (value: unknown, endpoint: string) => T
+): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(
+      body?.details || body?.message || body?.error || `Request failed (${response.status})`
+    );
+  }
+
+  return parse(body, `${init.method ?? 'GET'} ${url}`);
+}
+
+export function fetchDocuments(): Promise<DocumentListResponse> {
+  return requestJson('/api/rag/documents', { method: 'GET' }, parseDocumentList);
+}
+
+export function fetchDocumentChunks(
+  documentId: string,
+  offset = 0,
+  limit = 50
+): Promise<DocumentChunksResponse> {
+  const query = new URLSearchParams({ offset: String(offset), limit: String(limit) });
+  return requestJson(
+    `/api/rag/documents/${encodeURIComponent(documentId)}/chunks?${query}`,
+    { method: 'GET' },
+    parseDocumentChunks
+  );
+}
+
+export function fetchChunkNeighbours(
+  documentId: string,
+  chunkIndex: number,
+  radius = 2
+): Promise<ChunkNeighboursResponse> {
+  return requestJson(
+    `/api/rag/documents/${encodeURIComponent(documentId)}/chunks/${chunkIndex}/neighbours?radius=${radius}`,
+    { method: 'GET' },
+    parseChunkNeighbours
+  );
+}
+
+export function removeDocument(documentId: string): Promise<DeleteDocumentResponse> {
+  return requestJson(
+    `/api/rag/documents/${encodeURIComponent(documentId)}`,
+    { method: 'DELETE' },
+    parseDeleteDocument
+  );
+}
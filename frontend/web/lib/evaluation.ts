@@ -0,0 +1,429 @@
+import { parse as parseYaml } from 'yaml';
+import type {
+  AskResponse,
+  ConfidenceInfo,
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationRun,
+  EvaluationSummary,
+} from '@/types';
+import { ApiError, type ApiClient } from './apiClient';
+import { parseEvaluationCase, parseEvaluationRun } from './validation';
+
+/**
+ * Offline evaluation of the ask API against a question test set.
+ * Used by scripts/evaluate.ts; everything except runEvaluation is pure.
+ */
+
+export const DEFAULT_K_VALUES = [1, 3, 5];
+
+const LEVELS: ConfidenceInfo['level'][] = ['high', 'low', 'none'];
+
+/**
+ * Parses a test set. `.jsonl` files hold one case per line, anything else is
+ * read as YAML: either a list of cases or a mapping with a `cases` list.
+ */
+export function parseTestSet(raw: string, fileName: string): EvaluationCase[] {
+  const cases = fileName.endsWith('.jsonl') ? parseJsonlCases(raw, fileName) : parseYamlCases(raw, fileName);
+
+  if (cases.length === 0) {
+    throw new Error(`${fileName} contains no test cases`);
+  }
+
+  const seen = new Set<string>();
+  for (const testCase of cases) {
+    if (seen.has(testCase.id)) {
+      throw new Error(`${fileName}: duplicate case id "${testCase.id}"`);
+    }
+    seen.add(testCase.id);
+  }
+
+  return cases;
+}
+
+function parseJsonlCases(raw: string, fileName: string): EvaluationCase[] {
+  return raw.split('\n').flatMap((line, index) => {
+    if (line.trim() === '') return [];
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${fileName}:${index + 1}: ${(error as Error).message}`);
+    }
+    return [parseEvaluationCase(value, fileName, `line ${index + 1}`)];
+  });
+}
+
+function parseYamlCases(raw: string, fileName: string): EvaluationCase[] {
+  const document: unknown = parseYaml(raw);
+  const list = Array.isArray(document)
+    ? document
+    : (document as { cases?: unknown } | null)?.cases;
+
+  if (!Array.isArray(list)) {
+    throw new Error(`${fileName}: expected a list of cases or a "cases:" list`);
+  }
+  return list.map((item, index) => parseEvaluationCase(item, fileName, `cases[${index}]`));
+}
+
+/**
+ * Lowercases and collapses whitespace. Dotted/dotless i are folded to plain
+ * `i` so Turkish phrases match regardless of how the test set capitalizes them.
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\u0307/g, '')
+    .replace(/ı/g, 'i')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Scores one answer against the case's expected documents and phrases
+ */
+export function scoreCase(
+  testCase: EvaluationCase,
+  outcome: { response: AskResponse } | { error: string },
+  durationMs: number
+): EvaluationCaseResult {
+  const expectedDocumentIds = testCase.expectedDocumentIds ?? [];
+  const expectedPhrases = testCase.expectedPhrases ?? [];
+  const base = {
+    id: testCase.id,
+    question: testCase.question,
+    expectedDocumentCount: expectedDocumentIds.length,
+    durationMs: Math.round(durationMs),
+  };
+
+  if ('error' in outcome) {
+    return {
+      ...base,
+      retrievedDocumentIds: [],
+      firstHitRank: null,
+      phrasesFound: [],
+      phrasesMissing: expectedPhrases,
+      error: outcome.error,
+    };
+  }
+
+  const { response } = outcome;
+  const retrievedDocumentIds = response.sources.map((source) => source.documentId);
+  const hitIndex = retrievedDocumentIds.findIndex((id) => expectedDocumentIds.includes(id));
+  const answer = normalizeText(response.answer);
+  const found = (phrase: string) => answer.includes(normalizeText(phrase));
+
+  return {
+    ...base,
+    confidence: response.confidence,
+    language: response.language,
+    retrievedDocumentIds,
+    firstHitRank: hitIndex === -1 ? null : hitIndex + 1,
+    phrasesFound: expectedPhrases.filter(found),
+    phrasesMissing: expectedPhrases.filter((phrase) => !found(phrase)),
+  };
+}
+
+/**
+ * Hit-rate@k, confidence distribution and phrase recall over all cases.
+ * Failed requests count as misses but not towards the confidence levels.
+ */
+export function summarize(results: EvaluationCaseResult[], kValues: number[]): EvaluationSummary {
+  const withDocuments = results.filter((result) => result.expectedDocumentCount > 0);
+  const hitRate: EvaluationSummary['hitRate'] = {};
+  for (const k of kValues) {
+    hitRate[k] =
+      withDocuments.length === 0
+        ? null
+        : withDocuments.filter((r) => r.firstHitRank !== null && r.firstHitRank <= k).length /
+          withDocuments.length;
+  }
+
+  const confidence = { high: 0, low: 0, none: 0 };
+  for (const result of results) {
+    if (result.confidence) confidence[result.confidence.level]++;
+  }
+
+  const found = results.reduce((sum, r) => sum + r.phrasesFound.length, 0);
+  const expected = found + results.reduce((sum, r) => sum + r.phrasesMissing.length, 0);
+
+  const similarities = results.flatMap((r) => (r.confidence ? [r.confidence.maxSimilarity] : []));
+
+  return {
+    total: results.length,
+    errors: results.filter((result) => result.error !== undefined).length,
+    hitRate,
+    confidence,
+    phraseRecall: expected === 0 ? null : found / expected,
+    averageMaxSimilarity:
+      similarities.length === 0
+        ? null
+        : similarities.reduce((sum, value) => sum + value, 0) / similarities.length,
+  };
+}
+
+interface RunOptions {
+  /**
+   * The k values hit rates are reported for; cases without their own topK
+   * ask for the largest, so a hit at rank k can be found at all
+   */
+  kValues?: number[];
+  /** Called after each case, e.g. for progress output */
+  onResult?: (result: EvaluationCaseResult, index: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Asks every question in a fresh conversation, one at a time so the LLM
+ * isn't flooded. A failed request is recorded on its case and the run goes
+ * on, except a sign-in failure, which every other case would repeat.
+ */
+export async function runEvaluation(
+  cases: EvaluationCase[],
+  client: Pick<ApiClient, 'ask'>,
+  { kValues = DEFAULT_K_VALUES, onResult, signal }: RunOptions = {}
+): Promise<EvaluationCaseResult[]> {
+  const results: EvaluationCaseResult[] = [];
+  const defaultTopK = Math.max(...kValues);
+
+  for (const [index, testCase] of cases.entries()) {
+    signal?.throwIfAborted();
+    const started = performance.now();
+    let outcome: { response: AskResponse } | { error: string };
+
+    try {
+      const response = await client.ask(
+        {
+          question: testCase.question,
+          conversationId: null,
+          topK: testCase.topK ?? defaultTopK,
+          minSimilarity: testCase.minSimilarity,
+          documentIds: testCase.documentIds,
+        },
+        { signal }
+      );
+      outcome = { response };
+    } catch (error) {
+      if (signal?.aborted || (error instanceof ApiError && error.code === 'unauthorized')) throw error;
+      outcome = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const result = scoreCase(testCase, outcome, performance.now() - started);
+    results.push(result);
+    onResult?.(result, index);
+  }
+
+  return results;
+}
+
+export function createRun(
+  details: Pick<EvaluationRun, 'testSet' | 'baseUrl' | 'startedAt' | 'finishedAt' | 'kValues'>,
+  results: EvaluationCaseResult[]
+): EvaluationRun {
+  return {
+    format: 'rag-evaluation',
+    version: 1,
+    ...details,
+    summary: summarize(results, details.kValues),
+    results,
+  };
+}
+
+/**
+ * Reads a run written by `evaluate run`, recomputing its summary
+ */
+export function parseRunFile(raw: string, fileName: string): EvaluationRun {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${fileName}: ${(error as Error).message}`);
+  }
+  const run = parseEvaluationRun(value, fileName);
+  return createRun(run, run.results);
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const similarity = (value: number | null | undefined) => (value == null ? '—' : value.toFixed(4));
+
+function cell(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\|/g, '\\|');
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+function summaryRows(summary: EvaluationSummary, kValues: number[]): [string, string][] {
+  return [
+    ...kValues.map((k): [string, string] => [`Hit rate @${k}`, percent(summary.hitRate[k] ?? null)]),
+    ['Phrase recall', percent(summary.phraseRecall)],
+    ...LEVELS.map((level): [string, string] => [`Confidence: ${level}`, String(summary.confidence[level])]),
+    ['Errors', String(summary.errors)],
+    ['Avg. max similarity', similarity(summary.averageMaxSimilarity)],
+  ];
+}
+
+function phraseCell(result: EvaluationCaseResult): string {
+  const expected = result.phrasesFound.length + result.phrasesMissing.length;
+  return expected === 0 ? '—' : `${result.phrasesFound.length}/${expected}`;
+}
+
+function hitCell(result: EvaluationCaseResult): string {
+  if (result.expectedDocumentCount === 0) return '—';
+  return result.firstHitRank === null ? 'miss' : `#${result.firstHitRank}`;
+}
+
+export function runToMarkdown(run: EvaluationRun): string {
+  return [
+    `# Evaluation: ${run.testSet}`,
+    '',
+    `${run.summary.total} questions against ${run.baseUrl} • ${run.startedAt}`,
+    '',
+    table(['Metric', 'Value'], summaryRows(run.summary, run.kValues)),
+    '',
+    '## Cases',
+    '',
+    table(
+      ['Case', 'Question', 'Confidence', 'Max sim.', 'First hit', 'Phrases', 'Time'],
+      run.results.map((result) => [
+        cell(result.id),
+        cell(result.question),
+        result.error ? `error: ${cell(result.error)}` : (result.confidence?.level ?? '—'),
+        similarity(result.confidence?.maxSimilarity),
+        hitCell(result),
+        phraseCell(result),
+        `${result.durationMs} ms`,
+      ])
+    ),
+    '',
+  ].join('\n');
+}
+
+export interface EvaluationCaseChange {
+  id: string;
+  baseline: EvaluationCaseResult;
+  current: EvaluationCaseResult;
+}
+
+export interface EvaluationDiff {
+  baseline: EvaluationRun;
+  current: EvaluationRun;
+  kValues: number[];
+  /** Cases whose confidence level, first hit or found phrases changed */
+  changed: EvaluationCaseChange[];
+  added: string[];
+  removed: string[];
+}
+
+function outcomeKey(result: EvaluationCaseResult): string {
+  return JSON.stringify([
+    result.error !== undefined,
+    result.confidence?.level,
+    result.firstHitRank,
+    result.phrasesFound,
+  ]);
+}
+
+/**
+ * Compares two runs case by case (matched on id). Both summaries are
+ * recomputed with the same k values so the hit rates line up.
+ */
+export function diffRuns(baseline: EvaluationRun, current: EvaluationRun): EvaluationDiff {
+  const kValues = [...new Set([...baseline.kValues, ...current.kValues])].sort((a, b) => a - b);
+  const baselineById = new Map(baseline.results.map((result) => [result.id, result]));
+  const currentIds = new Set(current.results.map((result) => result.id));
+
+  const changed = current.results.flatMap((result): EvaluationCaseChange[] => {
+    const previous = baselineById.get(result.id);
+    return previous && outcomeKey(previous) !== outcomeKey(result)
+      ? [{ id: result.id, baseline: previous, current: result }]
+      : [];
+  });
+
+  return {
+    baseline: createRun({ ...baseline, kValues }, baseline.results),
+    current: createRun({ ...current, kValues }, current.results),
+    kValues,
+    changed,
+    added: current.results.filter((r) => !baselineById.has(r.id)).map((r) => r.id),
+    removed: baseline.results.filter((r) => !currentIds.has(r.id)).map((r) => r.id),
+  };
+}
+
+function delta(
+  baseline: number | null,
+  current: number | null,
+  format: (change: number) => string
+): string {
+  if (baseline === null || current === null) return '—';
+  const change = current - baseline;
+  if (change === 0) return '±0';
+  return `${change > 0 ? '+' : ''}${format(change)}`;
+}
+
+const points = (change: number) => `${(change * 100).toFixed(1)} pp`;
+
+function describeCase(result: EvaluationCaseResult): string {
+  if (result.error) return 'error';
+  return `${result.confidence?.level ?? '—'}, hit ${hitCell(result)}, phrases ${phraseCell(result)}`;
+}
+
+export function diffToMarkdown(diff: EvaluationDiff): string {
+  const baseline = diff.baseline.summary;
+  const current = diff.current.summary;
+
+  const compare = (
+    label: string,
+    pick: (summary: EvaluationSummary) => number | null,
+    show: (value: number | null) => string,
+    format: (change: number) => string
+  ) => [label, show(pick(baseline)), show(pick(current)), delta(pick(baseline), pick(current), format)];
+
+  const count = (value: number | null) => String(value);
+
+  const rows: string[][] = [
+    ...diff.kValues.map((k) => compare(`Hit rate @${k}`, (s) => s.hitRate[k] ?? null, percent, points)),
+    compare('Phrase recall', (s) => s.phraseRecall, percent, points),
+    ...LEVELS.map((level) => compare(`Confidence: ${level}`, (s) => s.confidence[level], count, String)),
+    compare('Errors', (s) => s.errors, count, String),
+    compare('Avg. max similarity', (s) => s.averageMaxSimilarity, similarity, (change) => change.toFixed(4)),
+  ];
+
+  const lines = [
+    '# Evaluation diff',
+    '',
+    `Baseline: ${diff.baseline.testSet} (${diff.baseline.startedAt})  `,
+    `Current: ${diff.current.testSet} (${diff.current.startedAt})`,
+    '',
+    table(['Metric', 'Baseline', 'Current', 'Change'], rows),
+    '',
+    `## Changed cases (${diff.changed.length})`,
+    '',
+  ];
+
+  lines.push(
+    diff.changed.length === 0
+      ? 'No case changed outcome.'
+      : table(
+          ['Case', 'Question', 'Baseline', 'Current'],
+          diff.changed.map(({ id, baseline: before, current: after }) => [
+            cell(id),
+            cell(after.question),
+            describeCase(before),
+            describeCase(after),
+          ])
+        )
+  );
+
+  if (diff.added.length > 0) lines.push('', `Only in current: ${diff.added.map(cell).join(', ')}`);
+  if (diff.removed.length > 0) lines.push('', `Only in baseline: ${diff.removed.map(cell).join(', ')}`);
+  lines.push('');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,49 @@
+import type { ConfidenceInfo, FeedbackListResponse, FeedbackRating, FeedbackSubmission } from '@/types';
+import { parseFeedbackList } from './validation';
+
+/**
+ * Browser-side calls to /api/feedback
+ */
+
+export interface FeedbackQuery {
+  confidence?: ConfidenceInfo['level'];
+  rating?: FeedbackRating;
+}
+
+function toSearchParams({ confidence, rating }: FeedbackQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (confidence) params.set('confidence', confidence);
+  if (rating) params.set('rating', rating);
+  return params;
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.details || body?.message || body?.error || `Request failed (${response.status})`;
+}
+
+export async function submitFeedback(submission: FeedbackSubmission): Promise<void> {
+  const response = await fetch('/api/feedback', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission),
+  });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response));
+  }
+}
+
+export async function fetchFeedback(query: FeedbackQuery = {}): Promise<FeedbackListResponse> {
+  const url = `/api/feedback?${toSearchParams(query)}`;
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response));
+  }
+  return parseFeedbackList(await response.json(), `GET ${url}`);
+}
+
+export function feedbackExportUrl(query: FeedbackQuery = {}): string {
+  const params = toSearchParams(query);
+  params.set('format', 'jsonl');
+  return `/api/feedback?${params}`;
+}
@@ -0,0 +1,54 @@
+import { randomUUID } from 'node:crypto';
+import type { ConfidenceInfo, FeedbackEntry, FeedbackRating, FeedbackSubmission, User } from '@/types';
+import { appendJsonl, dataFilePath, readJsonl } from './jsonlFile';
+import { inWorkspace } from './workspaceAccess';
+
+/**
+ * Answer feedback, stored as JSON Lines next to the Next.js server (FEEDBACK_FILE).
+ * Entries are kept per workspace; entries without one (saved before sign-in
+ * existed, or without a user) are listed for everyone.
+ */
+
+const feedbackFile = () => dataFilePath(process.env.FEEDBACK_FILE, 'data/feedback.jsonl');
+
+export interface FeedbackFilter {
+  confidence?: ConfidenceInfo['level'][];
+  rating?: FeedbackRating;
+  /** Only this workspace's entries; all of them when missing */
+  workspace?: string;
+}
+
+export async function saveFeedback(submission: FeedbackSubmission, user: User | null): Promise<FeedbackEntry> {
+  const entry: FeedbackEntry = {
+    ...submission,
+    id: randomUUID(),
+    ratedBy: user?.username,
+    workspace: user?.workspace,
+    createdAt: new Date().toISOString(),
+  };
+  await appendJsonl(feedbackFile(), entry);
+  return entry;
+}
+
+/**
+ * Newest first. A user's later rating of the same answer replaces their
+ * earlier one. Message ids are only unique within a browser's conversation,
+ * so an answer is its conversationId and messageId.
+ */
+export async function listFeedback({
+  confidence,
+  rating,
+  workspace,
+}: FeedbackFilter = {}): Promise<FeedbackEntry[]> {
+  const latest = new Map<string, FeedbackEntry>();
+  for (const entry of await readJsonl<FeedbackEntry>(feedbackFile())) {
+    if (inWorkspace(entry, workspace)) {
+      latest.set(JSON.stringify([entry.conversationId, entry.messageId, entry.ratedBy]), entry);
+    }
+  }
+
+  return [...latest.values()]
+    .filter((entry) => !confidence?.length || confidence.includes(entry.confidence.level))
+    .filter((entry) => !rating || entry.rating === rating)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
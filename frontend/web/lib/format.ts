@@ -0,0 +1,49 @@
+/**
+ * Number and date formatting. `locale` is a UI locale ('en', 'tr'); without
+ * one the runtime default is used.
+ */
+
+export function formatNumber(value: number, locale?: string, fractionDigits?: number): string {
+  return value.toLocaleString(
+    locale,
+    fractionDigits === undefined
+      ? undefined
+      : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }
+  );
+}
+
+/** Similarity scores are shown with four decimals everywhere */
+export function formatSimilarity(value: number, locale?: string): string {
+  return formatNumber(value, locale, 4);
+}
+
+export function formatBytes(bytes: number, locale?: string): string {
+  if (bytes < 1024) return `${formatNumber(bytes, locale)} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${formatNumber(value, locale, 1)} ${units[unit]}`;
+}
+
+function toDate(value: string | Date): Date {
+  return typeof value === 'string' ? new Date(value) : value;
+}
+
+export function formatDateTime(value: string | Date, locale?: string): string {
+  const date = toDate(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString(locale);
+}
+
+export function formatDate(value: string | Date, locale?: string): string {
+  const date = toDate(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleDateString(locale);
+}
+
+export function formatTime(value: string | Date, locale?: string): string {
+  const date = toDate(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleTimeString(locale);
+}
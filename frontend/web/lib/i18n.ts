@@ -0,0 +1,144 @@
+import type { Locale } from '@/types';
+import { en, type Messages } from './locales/en';
+import { tr } from './locales/tr';
+import {
+  formatBytes,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatSimilarity,
+  formatTime,
+} from './format';
+
+/**
+ * UI localization: message catalogs, the selected locale (persisted to
+ * localStorage and exposed as an external store) and locale-bound formatters.
+ */
+
+export const LOCALES: Locale[] = ['en', 'tr'];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const localeNames: Record<Locale, string> = { en: 'English', tr: 'Türkçe' };
+
+const catalogs: Record<Locale, Messages> = { en, tr };
+
+export type MessageKey = keyof Messages;
+
+/** Keys with `.one` / `.other` variants, chosen by count */
+export type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}.one` ? Base : never) : never;
+
+export type MessageParams = Record<string, string | number>;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * The UI locale matching a backend `language` ('tr', 'en', 'tr-TR'...), if any
+ */
+export function localeForLanguage(language: string | undefined): Locale | undefined {
+  const code = language?.slice(0, 2).toLowerCase();
+  return isLocale(code) ? code : undefined;
+}
+
+export interface Translator {
+  locale: Locale;
+  /** Numbers in `params` are formatted for the locale */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+  number: (value: number, fractionDigits?: number) => string;
+  similarity: (value: number) => string;
+  bytes: (value: number) => string;
+  date: (value: string | Date) => string;
+  time: (value: string | Date) => string;
+  dateTime: (value: string | Date) => string;
+}
+
+function createTranslator(locale: Locale): Translator {
+  const catalog = catalogs[locale];
+  const pluralRules = new Intl.PluralRules(locale);
+
+  const t = (key: MessageKey, params?: MessageParams) =>
+    catalog[key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params?.[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? formatNumber(value, locale) : value;
+    });
+
+  return {
+    locale,
+    t,
+    plural: (key, count, params) =>
+      t(`${key}.${pluralRules.select(count) === 'one' ? 'one' : 'other'}` as MessageKey, {
+        count,
+        ...params,
+      }),
+    number: (value, fractionDigits) => formatNumber(value, locale, fractionDigits),
+    similarity: (value) => formatSimilarity(value, locale),
+    bytes: (value) => formatBytes(value, locale),
+    date: (value) => formatDate(value, locale),
+    time: (value) => formatTime(value, locale),
+    dateTime: (value) => formatDateTime(value, locale),
+  };
+}
+
+const translators = new Map<Locale, Translator>();
+
+/**
+ * Translator for `locale`; the same instance every call
+ */
+export function getTranslator(locale: Locale): Translator {
+  let translator = translators.get(locale);
+  if (!translator) {
+    translator = createTranslator(locale);
+    translators.set(locale, translator);
+  }
+  return translator;
+}
+
+const STORAGE_KEY = 'rag.locale';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let selected: Locale | null = null;
+
+/**
+ * The saved choice, else the browser language when it is Turkish
+ */
+function detect(): Locale {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (error) {
+    console.warn('Could not read the language setting:', error);
+  }
+  return localeForLanguage(window.navigator.language) ?? DEFAULT_LOCALE;
+}
+
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSnapshot(): Locale {
+  if (selected === null) {
+    selected = detect();
+  }
+  return selected;
+}
+
+/** Pages render in the default locale on the server and switch after hydration */
+export function getServerSnapshot(): Locale {
+  return DEFAULT_LOCALE;
+}
+
+export function setLocale(locale: Locale) {
+  selected = locale;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn('Could not save the language setting:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
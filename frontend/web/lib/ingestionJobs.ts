@@ -0,0 +1,181 @@
+import type { IngestionJob, UploadItem, UploadResult } from '@/types';
+import { readApiError } from './apiClient';
+import { ingestionPollIntervalMs } from './config';
+import { claimUserStorageKey } from './userStorage';
+import { parseIngestionJob } from './validation';
+
+/**
+ * Browser-side tracking of backend ingestion jobs: polling the status route,
+ * turning stage + chunk counts into progress, and remembering running jobs
+ * in localStorage so progress survives navigating away and coming back.
+ * The ingest route also follows its jobs on the server with watchIngestionJob.
+ */
+
+const STORAGE_KEY = 'rag.uploads.v1';
+// A backend restart or a flaky connection shouldn't fail the upload right away
+const MAX_POLL_FAILURES = 5;
+let storageKey = STORAGE_KEY;
+
+class JobNotFoundError extends Error {}
+
+export function isJobFinished(job: IngestionJob): boolean {
+  return job.stage === 'completed' || job.stage === 'failed';
+}
+
+/**
+ * Overall fraction (0-1) of a job. Embedding dominates the runtime, so it
+ * gets most of the bar and advances per processed chunk.
+ */
+export function jobProgress(job: IngestionJob): number {
+  switch (job.stage) {
+    case 'queued':
+      return 0;
+    case 'extracting':
+      return 0.02;
+    case 'chunking':
+      return 0.05;
+    case 'embedding':
+      return job.totalChunks > 0 ? 0.1 + 0.85 * (job.processedChunks / job.totalChunks) : 0.1;
+    case 'saving':
+      return 0.97;
+    case 'completed':
+    case 'failed':
+      return 1;
+  }
+}
+
+export function resultFromJob(job: IngestionJob): UploadResult {
+  return {
+    success: true,
+    documentId: job.documentId ?? '',
+    documentTitle: job.documentTitle,
+    chunkCount: job.totalChunks,
+    extractedTextLength: job.extractedTextLength,
+    message: `${job.totalChunks} chunks created`,
+  };
+}
+
+export async function fetchIngestionJob(jobId: string, signal?: AbortSignal): Promise<IngestionJob> {
+  const url = `/api/rag/ingest/jobs/${encodeURIComponent(jobId)}`;
+  const response = await fetch(url, { method: 'GET', cache: 'no-store', signal });
+  const body = await response.json().catch(() => null);
+
+  if (response.status === 404) {
+    throw new JobNotFoundError('Ingestion job not found - the backend may have restarted');
+  }
+  if (!response.ok) {
+    throw new Error(
+      body?.details || body?.message || body?.error || `Request failed (${response.status})`
+    );
+  }
+
+  return parseIngestionJob(body, `GET ${url}`);
+}
+
+/**
+ * Stops a job on the backend. Fails with a 409 once the job has finished.
+ */
+export async function cancelIngestionJob(jobId: string): Promise<IngestionJob> {
+  const url = `/api/rag/ingest/jobs/${encodeURIComponent(jobId)}`;
+  const response = await fetch(url, { method: 'DELETE' });
+  if (!response.ok) {
+    throw await readApiError(response, `DELETE ${url}`);
+  }
+  return parseIngestionJob(await response.json(), `DELETE ${url}`);
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    // An abort during the previous poll has already fired its event
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface WatchOptions {
+  onUpdate?: (job: IngestionJob) => void;
+  signal?: AbortSignal;
+  intervalMs?: number;
+  /** How a poll reads the job; the proxy by default, the backend on the server */
+  fetchJob?: (jobId: string, signal?: AbortSignal) => Promise<IngestionJob>;
+}
+
+/**
+ * Polls a job until it completes or fails, reporting every change.
+ * Resolves with the finished job; failed jobs resolve too, with `error` set.
+ */
+export async function watchIngestionJob(
+  job: IngestionJob,
+  { onUpdate, signal, intervalMs = ingestionPollIntervalMs, fetchJob = fetchIngestionJob }: WatchOptions = {}
+): Promise<IngestionJob> {
+  let current = job;
+  let failures = 0;
+
+  while (!isJobFinished(current)) {
+    await sleep(intervalMs, signal);
+
+    try {
+      const next = await fetchJob(current.jobId, signal);
+      failures = 0;
+      if (next.updatedAt !== current.updatedAt || next.stage !== current.stage) {
+        onUpdate?.(next);
+      }
+      current = next;
+    } catch (error) {
+      if (signal?.aborted || error instanceof JobNotFoundError || ++failures >= MAX_POLL_FAILURES) {
+        throw error;
+      }
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Keeps each signed-in user's uploads under its own key (null: signed out).
+ * Called by SessionProvider before the upload queue restores its uploads.
+ */
+export function setUploadOwner(username: string | null) {
+  storageKey = claimUserStorageKey(STORAGE_KEY, username);
+}
+
+/**
+ * Uploads that reached the backend (they have a job) are kept; files that
+ * were still queued or sending can't be resumed after a reload.
+ */
+export function saveTrackedUploads(items: UploadItem[]) {
+  const tracked = items
+    .filter((item) => item.job !== undefined)
+    .map((item) => ({ ...item, file: undefined }));
+
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(tracked));
+  } catch (error) {
+    console.warn('Could not save upload progress:', error);
+  }
+}
+
+export function loadTrackedUploads(): UploadItem[] {
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+
+    // Without the File a failed upload can't be sent again
+    return (parsed as UploadItem[]).map((item) => ({ ...item, retryable: false }));
+  } catch (error) {
+    console.warn('Could not read upload progress:', error);
+    return [];
+  }
+}
@@ -0,0 +1,48 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Append-only JSON Lines files for data the Next.js server keeps itself
+ * (feedback, analytics). Server-side only.
+ */
+
+export function dataFilePath(envValue: string | undefined, fallback: string): string {
+  return path.resolve(process.cwd(), envValue || fallback);
+}
+
+// Appends from concurrent requests are chained so lines never interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export function appendJsonl(file: string, record: unknown): Promise<void> {
+  const write = writeQueue.then(async () => {
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, `${JSON.stringify(record)}\n`, 'utf8');
+  });
+  writeQueue = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Reads every record; a missing file is an empty list and
+ * unparsable lines (e.g. a crash mid-write) are skipped.
+ */
+export async function readJsonl<T>(file: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const records: T[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      console.warn(`Skipping malformed line in ${file}`);
+    }
+  }
+  return records;
+}
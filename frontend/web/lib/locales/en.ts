@@ -0,0 +1,294 @@
+/**
+ * English UI strings. This catalog defines the message keys; every other
+ * locale must translate all of them. `{name}` placeholders are filled by t().
+ */
+export const en = {
+  'language.label': 'Language',
+
+  'home.title': 'RAG Demo',
+  'home.subtitle': 'Retrieval Augmented Generation System',
+  'home.history': 'History',
+  'home.hideHistory': 'Hide History',
+  'home.documents': '📚 Documents',
+  'home.search': '🔍 Search',
+  'home.feedback': '📝 Feedback',
+  'home.analytics': '📊 Analytics',
+  'home.uploadPdf': '📄 Upload PDF',
+  'home.hideUpload': 'Hide Upload',
+  'home.newConversation': 'New Conversation',
+  'home.emptyTitle': 'Ask a Question',
+  'home.emptySubtitle': 'Start a conversation with the RAG system',
+  'home.conversationActive': 'Conversation active • ID: {id}...',
+  'home.importFailed': 'This file is not a conversation export: {reason}',
+
+  'chatInput.placeholder': 'Ask a question... (Turkish or English)',
+  'chatInput.processing': 'Processing...',
+  'chatInput.stop': 'Stop generating',
+  'chatInput.hint': 'Press Enter to send',
+
+  'message.thinking': 'Thinking...',
+  'message.cancelled': 'Generation cancelled',
+  'message.retrievedWith': 'Retrieved with {settings}',
+  'message.cached': 'Cached',
+  'message.cachedTitle': 'Served from the answer cache; the same question was answered recently',
+
+  'confidence.high.label': 'High Confidence',
+  'confidence.high.description': 'Strong match found in documents',
+  'confidence.low.label': 'Low Confidence',
+  'confidence.low.description': 'Answer may be incomplete or uncertain',
+  'confidence.none.label': 'No Relevant Information',
+  'confidence.none.description': 'Question not sufficiently relevant to available documents',
+  'confidence.max': 'Max: {value}',
+  'confidence.maxTitle': 'Maximum similarity score',
+  'confidence.avg': 'Avg: {value}',
+  'confidence.avgTitle': 'Average similarity score',
+
+  'errors.validation': 'The request was rejected',
+  'errors.backend-unreachable': 'The backend could not be reached',
+  'errors.timeout': 'The backend did not answer in time',
+  'errors.llm-failure': 'The answer could not be generated',
+  'errors.invalid-response': 'The backend sent an unexpected response',
+  'errors.not-found': 'Not found',
+  'errors.cancelled': 'Cancelled',
+  'errors.unauthorized': 'Please sign in again',
+  'errors.rate-limited': 'Too many requests',
+  'errors.retryAfter.one': 'Try again in {count} second',
+  'errors.retryAfter.other': 'Try again in {count} seconds',
+  'errors.backend-error': 'The backend reported an error',
+  'errors.internal': 'Something went wrong',
+  'errors.retry': 'Retry',
+
+  'sources.title': 'Sources ({count})',
+  'sources.chunk': 'Chunk {index}',
+  'sources.open': 'Open',
+  'sources.openTitle': 'Open full chunk with surrounding context',
+  'sources.chunkId': 'Chunk ID',
+  'sources.documentId': 'Document ID',
+  'sources.doc': 'Doc: {id}...',
+  'sources.citation': 'Source {number}: {title}',
+
+  'drawer.matched': 'Matched chunk #{index} • similarity {similarity}',
+  'drawer.chunksInDocument': ' • {count} chunks in document',
+  'drawer.close': 'Close',
+  'drawer.earlier': '← Earlier',
+  'drawer.later': 'Later →',
+  'drawer.context': 'Context',
+  'drawer.backToMatch': 'Back to match',
+  'drawer.emptyRange': 'No chunks in this range - the document may have been deleted or re-ingested',
+
+  'chunk.article': 'Article {number}',
+  'chunk.matched': 'Matched',
+  'chunks.loading': 'Loading chunks...',
+  'chunks.loadFailed': 'Failed to load chunks',
+  'chunks.loaded': '{loaded} of {total} chunks loaded',
+  'chunks.loadMore': 'Load more',
+
+  'code.copy': 'Copy',
+  'code.copied': 'Copied',
+
+  'feedback.thanks': 'Thanks for your feedback',
+  'feedback.prompt': 'Was this answer helpful?',
+  'feedback.helpful': 'Helpful',
+  'feedback.notHelpful': 'Not helpful',
+  'feedback.whatWasWrong': 'What was wrong? (optional)',
+  'feedback.anythingToAdd': 'Anything to add? (optional)',
+  'feedback.sending': 'Sending...',
+  'feedback.send': 'Send feedback',
+  'feedback.cancel': 'Cancel',
+  'feedback.sendFailed': 'Failed to send feedback',
+
+  'retrieval.title': 'Retrieval settings',
+  'retrieval.topK': 'Top K: {value}',
+  'retrieval.topKHint': 'Chunks retrieved per question',
+  'retrieval.minSimilarity': 'Min similarity: {value}',
+  'retrieval.minSimilarityHint': 'Chunks below this score are ignored',
+  'retrieval.documents': 'Documents',
+  'retrieval.loadingDocuments': 'Loading documents...',
+  'retrieval.noDocuments': 'No documents uploaded yet',
+  'retrieval.allDocumentsHint': 'None selected searches all documents',
+  'retrieval.byTag': 'By tag:',
+  'retrieval.reset': 'Reset to defaults',
+  'retrieval.summary': 'topK {topK} • min similarity {minSimilarity} • {scope}',
+  'retrieval.scopeAll': 'all documents',
+  'retrieval.scopeSome.one': '{count} document',
+  'retrieval.scopeSome.other': '{count} documents',
+
+  'scope.label': 'Only in:',
+  'scope.remove': 'Remove {title} from the scope',
+  'scope.clear': 'All documents',
+
+  'sidebar.title': 'Conversations',
+  'sidebar.import': 'Import',
+  'sidebar.importTitle': 'Import a conversation exported as JSON',
+  'sidebar.new': '+ New',
+  'sidebar.search': 'Search conversations...',
+  'sidebar.noMatches': 'No matching conversations',
+  'sidebar.empty': 'No saved conversations yet',
+  'sidebar.messages.one': '{count} message',
+  'sidebar.messages.other': '{count} messages',
+  'sidebar.rename': 'Rename',
+  'sidebar.delete': 'Delete',
+  'sidebar.confirmDelete': 'Delete "{title}"?',
+
+  'export.button': '⬇ Export',
+  'export.markdown': 'Markdown (.md)',
+  'export.json': 'JSON (re-importable)',
+  'export.print': 'Printable view / PDF',
+
+  'upload.title': 'Upload PDF Documents',
+  'upload.clear': 'Clear list',
+  'upload.dropZone': 'Drop PDF files here or click to select',
+  'upload.limits': 'Up to 50MB each • {concurrency} processed at a time',
+  'upload.batchComplete': 'Batch complete: {succeeded} of {total} files ingested',
+  'upload.batchFailed': ' ({failed} failed)',
+  'upload.chunksCreated': 'Chunks Created:',
+  'upload.textExtracted': 'Text Extracted:',
+  'upload.characters': '{count} characters',
+  'upload.noteLabel': 'ℹ️ Note:',
+  'upload.note':
+    'PDFs will be processed automatically (text extraction → chunking → embedding → vector store). Large documents may take several minutes each; progress is tracked on the server, so you can leave this page and come back.',
+  'upload.titleFor': 'Title for {fileName}',
+  'upload.retry': 'Retry',
+  'upload.remove': 'Remove',
+  'upload.cancel': 'Cancel',
+  'upload.waiting': 'Waiting for the backend to accept the file',
+  'upload.chunkProgress': ' • {processed} / {total} chunks',
+  'upload.result': '{chunks} chunks • {characters} characters',
+  'upload.status.queued': 'Queued',
+  'upload.status.uploading': 'Uploading',
+  'upload.status.processing': 'Processing',
+  'upload.status.done': 'Done',
+  'upload.status.failed': 'Failed',
+  'upload.status.cancelled': 'Cancelled',
+  'upload.stage.queued': 'Waiting for a worker',
+  'upload.stage.extracting': 'Extracting text',
+  'upload.stage.chunking': 'Creating chunks',
+  'upload.stage.embedding': 'Generating embeddings',
+  'upload.stage.saving': 'Saving to vector store',
+  'upload.stage.completed': 'Completed',
+  'upload.stage.failed': 'Failed',
+
+  'nav.backToChat': '← Back to Chat',
+  'common.loading': 'Loading...',
+
+  'documents.title': 'Document Library',
+  'documents.count': '{count} documents in the knowledge base',
+  'documents.refresh': 'Refresh',
+  'documents.loading': 'Loading documents...',
+  'documents.loadFailed': 'Failed to load documents',
+  'documents.deleteFailed': 'Failed to delete document',
+  'documents.confirmDelete': 'Delete "{title}" and its {count} chunks? This cannot be undone.',
+  'documents.empty': 'No documents have been ingested yet.',
+  'documents.column.title': 'Title',
+  'documents.column.uploaded': 'Uploaded',
+  'documents.column.chunks': 'Chunks',
+  'documents.column.size': 'Size',
+  'documents.editTags': 'Tags',
+  'documents.tagsPrompt': 'Tags for "{title}", separated by commas:',
+  'documents.tagsFailed': 'Failed to save tags',
+  'documents.delete': 'Delete',
+  'documents.deleting': 'Deleting...',
+
+  'feedbackPage.title': 'Answer Feedback',
+  'feedbackPage.summary': '{count} ratings • 👍 {up} • 👎 {down}',
+  'feedbackPage.export': 'Export JSONL',
+  'feedbackPage.loadFailed': 'Failed to load feedback',
+  'feedbackPage.confidenceFilter': 'Confidence level',
+  'feedbackPage.allConfidence': 'All confidence levels',
+  'feedbackPage.high': 'High confidence',
+  'feedbackPage.low': 'Low confidence',
+  'feedbackPage.none': 'No relevant information',
+  'feedbackPage.ratingFilter': 'Rating',
+  'feedbackPage.allRatings': 'All ratings',
+  'feedbackPage.helpful': '👍 Helpful',
+  'feedbackPage.notHelpful': '👎 Not helpful',
+  'feedbackPage.empty': 'No feedback matches these filters yet.',
+  'feedbackPage.column.date': 'Date',
+  'feedbackPage.column.rating': 'Rating',
+  'feedbackPage.column.confidence': 'Confidence',
+  'feedbackPage.column.maxSimilarity': 'Max sim.',
+  'feedbackPage.column.question': 'Question',
+  'feedbackPage.column.comment': 'Comment',
+  'feedbackPage.answer': 'Answer:',
+  'feedbackPage.comment': 'Comment:',
+  'feedbackPage.sources': 'Sources:',
+  'feedbackPage.noSources': 'none',
+  'feedbackPage.averageSimilarity': 'Avg similarity {value}',
+  'feedbackPage.conversation': ' • Conversation {id}...',
+
+  'analytics.title': 'Confidence Analytics',
+  'analytics.summary.one': '{count} answer logged',
+  'analytics.summary.other': '{count} answers logged',
+  'analytics.period': 'Period',
+  'analytics.period.7': 'Last 7 days',
+  'analytics.period.30': 'Last 30 days',
+  'analytics.period.90': 'Last 90 days',
+  'analytics.period.0': 'All time',
+  'analytics.loadFailed': 'Failed to load analytics',
+  'analytics.empty': 'No answers logged in this period yet. Every answer in the chat is recorded here.',
+  'analytics.levels': 'Confidence levels',
+  'analytics.share': '{count} ({percent}%)',
+  'analytics.overTime': 'Answers per day',
+  'analytics.dayTitle': '{date}: {high} high • {low} low • {none} none',
+  'analytics.maxSimilarity': 'Max similarity',
+  'analytics.averageSimilarity': 'Average similarity',
+  'analytics.histogramHint': 'Answers per similarity range; dashed lines are the backend thresholds',
+  'analytics.binTitle': '{from} – {to}: {count}',
+  'analytics.threshold.minAnswer': 'No answer below {value}',
+  'analytics.threshold.low': 'Low confidence below {value}',
+  'analytics.topDocuments': 'Most-cited documents',
+  'analytics.topChunks': 'Most-cited chunks',
+  'analytics.column.document': 'Document',
+  'analytics.column.chunk': 'Chunk',
+  'analytics.column.citations': 'Citations',
+  'analytics.column.averageSimilarity': 'Avg. sim.',
+  'analytics.noCitations': 'No sources cited in this period',
+  'analytics.noInfo': 'Questions without relevant information',
+  'analytics.noInfoHint': 'These point at gaps in the knowledge base',
+  'analytics.noInfoEmpty': 'Every question found relevant documents',
+  'analytics.column.date': 'Date',
+  'analytics.column.question': 'Question',
+  'analytics.column.maxSimilarity': 'Max sim.',
+
+  'search.title': 'Semantic Search',
+  'search.subtitle': 'Find passages by meaning, without generating an answer',
+  'search.placeholder': 'Search the documents...',
+  'search.submit': 'Search',
+  'search.searching': 'Searching...',
+  'search.threshold': 'Min. similarity: {value}',
+  'search.thresholdHint': 'Hits below this similarity are left out',
+  'search.topK': 'Max. hits: {value}',
+  'search.empty': 'Search for a word or phrase to see the closest chunks, grouped by document.',
+  'search.noResults': 'No chunks above the similarity threshold. Try lowering it.',
+  'search.results.one': '{count} hit in {documents}',
+  'search.results.other': '{count} hits in {documents}',
+  'search.documents.one': '{count} document',
+  'search.documents.other': '{count} documents',
+  'search.rank': '#{rank}',
+  'search.similarityTitle': 'Similarity {value}',
+  'search.ask': 'Ask about this',
+  'search.askHint': 'Starts a new chat limited to this document',
+
+  'login.title': 'Sign in',
+  'login.subtitle': 'Your conversations are private; documents are shared within your workspace',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.submit': 'Sign in',
+  'login.submitting': 'Signing in...',
+  'login.invalid': 'Invalid username or password',
+  'login.failed': 'Sign-in failed',
+  'user.workspace': 'Workspace: {workspace}',
+  'user.signOut': 'Sign out',
+
+  'print.notStored': 'This conversation is not stored in this browser.',
+  'print.backToChat': 'Back to Chat',
+  'print.print': 'Print / Save as PDF',
+  'print.started': 'Started {started} • Last activity {updated}',
+  'print.conversationId': ' • Conversation ID {id}',
+  'print.question': 'Q: {question}',
+  'print.failed': 'Failed: {message}',
+  'print.similarity': ' • max similarity {max} • average {average}',
+  'print.source': '— chunk {index} (similarity {similarity})',
+};
+
+export type Messages = Record<keyof typeof en, string>;
@@ -0,0 +1,290 @@
+import type { Messages } from './en';
+
+export const tr: Messages = {
+  'language.label': 'Dil',
+
+  'home.title': 'RAG Demo',
+  'home.subtitle': 'Erişimle Artırılmış Üretim Sistemi',
+  'home.history': 'Geçmiş',
+  'home.hideHistory': 'Geçmişi Gizle',
+  'home.documents': '📚 Belgeler',
+  'home.search': '🔍 Arama',
+  'home.feedback': '📝 Geri Bildirim',
+  'home.analytics': '📊 Analiz',
+  'home.uploadPdf': '📄 PDF Yükle',
+  'home.hideUpload': 'Yüklemeyi Gizle',
+  'home.newConversation': 'Yeni Sohbet',
+  'home.emptyTitle': 'Bir Soru Sorun',
+  'home.emptySubtitle': 'RAG sistemiyle bir sohbet başlatın',
+  'home.conversationActive': 'Sohbet etkin • ID: {id}...',
+  'home.importFailed': 'Bu dosya bir sohbet dışa aktarımı değil: {reason}',
+
+  'chatInput.placeholder': 'Bir soru sorun... (Türkçe veya İngilizce)',
+  'chatInput.processing': 'İşleniyor...',
+  'chatInput.stop': 'Yanıtı durdur',
+  'chatInput.hint': 'Göndermek için Enter’a basın',
+
+  'message.thinking': 'Düşünüyor...',
+  'message.cancelled': 'Yanıt üretimi iptal edildi',
+  'message.retrievedWith': 'Kullanılan ayarlar: {settings}',
+  'message.cached': 'Önbellekten',
+  'message.cachedTitle': 'Yanıt önbellekten geldi; aynı soru yakın zamanda yanıtlandı',
+
+  'confidence.high.label': 'Yüksek Güven',
+  'confidence.high.description': 'Belgelerde güçlü bir eşleşme bulundu',
+  'confidence.low.label': 'Düşük Güven',
+  'confidence.low.description': 'Yanıt eksik veya belirsiz olabilir',
+  'confidence.none.label': 'İlgili Bilgi Yok',
+  'confidence.none.description': 'Soru mevcut belgelerle yeterince ilgili değil',
+  'confidence.max': 'Maks: {value}',
+  'confidence.maxTitle': 'En yüksek benzerlik skoru',
+  'confidence.avg': 'Ort: {value}',
+  'confidence.avgTitle': 'Ortalama benzerlik skoru',
+
+  'errors.validation': 'İstek reddedildi',
+  'errors.backend-unreachable': 'Sunucuya ulaşılamadı',
+  'errors.timeout': 'Sunucu zamanında yanıt vermedi',
+  'errors.llm-failure': 'Yanıt üretilemedi',
+  'errors.invalid-response': 'Sunucu beklenmeyen bir yanıt gönderdi',
+  'errors.not-found': 'Bulunamadı',
+  'errors.cancelled': 'İptal edildi',
+  'errors.unauthorized': 'Lütfen yeniden giriş yapın',
+  'errors.rate-limited': 'Çok fazla istek gönderildi',
+  'errors.retryAfter.one': '{count} saniye sonra yeniden deneyin',
+  'errors.retryAfter.other': '{count} saniye sonra yeniden deneyin',
+  'errors.backend-error': 'Sunucu bir hata bildirdi',
+  'errors.internal': 'Bir şeyler ters gitti',
+  'errors.retry': 'Tekrar dene',
+
+  'sources.title': 'Kaynaklar ({count})',
+  'sources.chunk': 'Parça {index}',
+  'sources.open': 'Aç',
+  'sources.openTitle': 'Parçanın tamamını çevresindeki bağlamla aç',
+  'sources.chunkId': 'Parça ID',
+  'sources.documentId': 'Belge ID',
+  'sources.doc': 'Belge: {id}...',
+  'sources.citation': 'Kaynak {number}: {title}',
+
+  'drawer.matched': 'Eşleşen parça #{index} • benzerlik {similarity}',
+  'drawer.chunksInDocument': ' • belgede {count} parça',
+  'drawer.close': 'Kapat',
+  'drawer.earlier': '← Önceki',
+  'drawer.later': 'Sonraki →',
+  'drawer.context': 'Bağlam',
+  'drawer.backToMatch': 'Eşleşmeye dön',
+  'drawer.emptyRange': 'Bu aralıkta parça yok - belge silinmiş veya yeniden yüklenmiş olabilir',
+
+  'chunk.article': 'Madde {number}',
+  'chunk.matched': 'Eşleşen',
+  'chunks.loading': 'Parçalar yükleniyor...',
+  'chunks.loadFailed': 'Parçalar yüklenemedi',
+  'chunks.loaded': '{total} parçadan {loaded} tanesi yüklendi',
+  'chunks.loadMore': 'Daha fazla yükle',
+
+  'code.copy': 'Kopyala',
+  'code.copied': 'Kopyalandı',
+
+  'feedback.thanks': 'Geri bildiriminiz için teşekkürler',
+  'feedback.prompt': 'Bu yanıt faydalı oldu mu?',
+  'feedback.helpful': 'Faydalı',
+  'feedback.notHelpful': 'Faydalı değil',
+  'feedback.whatWasWrong': 'Sorun neydi? (isteğe bağlı)',
+  'feedback.anythingToAdd': 'Eklemek istediğiniz bir şey var mı? (isteğe bağlı)',
+  'feedback.sending': 'Gönderiliyor...',
+  'feedback.send': 'Geri bildirim gönder',
+  'feedback.cancel': 'Vazgeç',
+  'feedback.sendFailed': 'Geri bildirim gönderilemedi',
+
+  'retrieval.title': 'Erişim ayarları',
+  'retrieval.topK': 'Top K: {value}',
+  'retrieval.topKHint': 'Soru başına getirilen parça sayısı',
+  'retrieval.minSimilarity': 'Min. benzerlik: {value}',
+  'retrieval.minSimilarityHint': 'Bu skorun altındaki parçalar yok sayılır',
+  'retrieval.documents': 'Belgeler',
+  'retrieval.loadingDocuments': 'Belgeler yükleniyor...',
+  'retrieval.noDocuments': 'Henüz belge yüklenmedi',
+  'retrieval.allDocumentsHint': 'Seçim yapılmazsa tüm belgelerde aranır',
+  'retrieval.byTag': 'Etikete göre:',
+  'retrieval.reset': 'Varsayılanlara dön',
+  'retrieval.summary': 'topK {topK} • min. benzerlik {minSimilarity} • {scope}',
+  'retrieval.scopeAll': 'tüm belgeler',
+  'retrieval.scopeSome.one': '{count} belge',
+  'retrieval.scopeSome.other': '{count} belge',
+
+  'scope.label': 'Yalnızca:',
+  'scope.remove': '{title} kapsamdan çıkar',
+  'scope.clear': 'Tüm belgeler',
+
+  'sidebar.title': 'Sohbetler',
+  'sidebar.import': 'İçe aktar',
+  'sidebar.importTitle': 'JSON olarak dışa aktarılmış bir sohbeti içe aktar',
+  'sidebar.new': '+ Yeni',
+  'sidebar.search': 'Sohbetlerde ara...',
+  'sidebar.noMatches': 'Eşleşen sohbet yok',
+  'sidebar.empty': 'Henüz kayıtlı sohbet yok',
+  'sidebar.messages.one': '{count} mesaj',
+  'sidebar.messages.other': '{count} mesaj',
+  'sidebar.rename': 'Yeniden adlandır',
+  'sidebar.delete': 'Sil',
+  'sidebar.confirmDelete': '"{title}" silinsin mi?',
+
+  'export.button': '⬇ Dışa aktar',
+  'export.markdown': 'Markdown (.md)',
+  'export.json': 'JSON (yeniden içe aktarılabilir)',
+  'export.print': 'Yazdırılabilir görünüm / PDF',
+
+  'upload.title': 'PDF Belgeleri Yükle',
+  'upload.clear': 'Listeyi temizle',
+  'upload.dropZone': 'PDF dosyalarını buraya bırakın veya seçmek için tıklayın',
+  'upload.limits': 'Dosya başına en fazla 50MB • aynı anda {concurrency} dosya işlenir',
+  'upload.batchComplete': 'Toplu yükleme tamamlandı: {total} dosyadan {succeeded} tanesi işlendi',
+  'upload.batchFailed': ' ({failed} başarısız)',
+  'upload.chunksCreated': 'Oluşturulan Parçalar:',
+  'upload.textExtracted': 'Çıkarılan Metin:',
+  'upload.characters': '{count} karakter',
+  'upload.noteLabel': 'ℹ️ Not:',
+  'upload.note':
+    'PDF’ler otomatik olarak işlenir (metin çıkarma → parçalama → embedding → vektör deposu). Büyük belgelerin her biri birkaç dakika sürebilir; ilerleme sunucuda takip edilir, bu sayfadan ayrılıp daha sonra geri dönebilirsiniz.',
+  'upload.titleFor': '{fileName} için başlık',
+  'upload.retry': 'Tekrar dene',
+  'upload.remove': 'Kaldır',
+  'upload.cancel': 'İptal',
+  'upload.waiting': 'Sunucunun dosyayı kabul etmesi bekleniyor',
+  'upload.chunkProgress': ' • {processed} / {total} parça',
+  'upload.result': '{chunks} parça • {characters} karakter',
+  'upload.status.queued': 'Sırada',
+  'upload.status.uploading': 'Yükleniyor',
+  'upload.status.processing': 'İşleniyor',
+  'upload.status.done': 'Tamamlandı',
+  'upload.status.failed': 'Başarısız',
+  'upload.status.cancelled': 'İptal edildi',
+  'upload.stage.queued': 'Bir işçi bekleniyor',
+  'upload.stage.extracting': 'Metin çıkarılıyor',
+  'upload.stage.chunking': 'Parçalar oluşturuluyor',
+  'upload.stage.embedding': 'Embedding’ler üretiliyor',
+  'upload.stage.saving': 'Vektör deposuna kaydediliyor',
+  'upload.stage.completed': 'Tamamlandı',
+  'upload.stage.failed': 'Başarısız',
+
+  'nav.backToChat': '← Sohbete Dön',
+  'common.loading': 'Yükleniyor...',
+
+  'documents.title': 'Belge Kütüphanesi',
+  'documents.count': 'Bilgi tabanında {count} belge var',
+  'documents.refresh': 'Yenile',
+  'documents.loading': 'Belgeler yükleniyor...',
+  'documents.loadFailed': 'Belgeler yüklenemedi',
+  'documents.deleteFailed': 'Belge silinemedi',
+  'documents.confirmDelete': '"{title}" ve {count} parçası silinsin mi? Bu işlem geri alınamaz.',
+  'documents.empty': 'Henüz hiç belge yüklenmedi.',
+  'documents.column.title': 'Başlık',
+  'documents.column.uploaded': 'Yüklenme',
+  'documents.column.chunks': 'Parça',
+  'documents.column.size': 'Boyut',
+  'documents.editTags': 'Etiketler',
+  'documents.tagsPrompt': '"{title}" için etiketler, virgülle ayrılmış:',
+  'documents.tagsFailed': 'Etiketler kaydedilemedi',
+  'documents.delete': 'Sil',
+  'documents.deleting': 'Siliniyor...',
+
+  'feedbackPage.title': 'Yanıt Geri Bildirimleri',
+  'feedbackPage.summary': '{count} değerlendirme • 👍 {up} • 👎 {down}',
+  'feedbackPage.export': 'JSONL olarak dışa aktar',
+  'feedbackPage.loadFailed': 'Geri bildirimler yüklenemedi',
+  'feedbackPage.confidenceFilter': 'Güven düzeyi',
+  'feedbackPage.allConfidence': 'Tüm güven düzeyleri',
+  'feedbackPage.high': 'Yüksek güven',
+  'feedbackPage.low': 'Düşük güven',
+  'feedbackPage.none': 'İlgili bilgi yok',
+  'feedbackPage.ratingFilter': 'Değerlendirme',
+  'feedbackPage.allRatings': 'Tüm değerlendirmeler',
+  'feedbackPage.helpful': '👍 Faydalı',
+  'feedbackPage.notHelpful': '👎 Faydalı değil',
+  'feedbackPage.empty': 'Bu filtrelere uyan geri bildirim henüz yok.',
+  'feedbackPage.column.date': 'Tarih',
+  'feedbackPage.column.rating': 'Değerlendirme',
+  'feedbackPage.column.confidence': 'Güven',
+  'feedbackPage.column.maxSimilarity': 'Maks. benz.',
+  'feedbackPage.column.question': 'Soru',
+  'feedbackPage.column.comment': 'Yorum',
+  'feedbackPage.answer': 'Yanıt:',
+  'feedbackPage.comment': 'Yorum:',
+  'feedbackPage.sources': 'Kaynaklar:',
+  'feedbackPage.noSources': 'yok',
+  'feedbackPage.averageSimilarity': 'Ort. benzerlik {value}',
+  'feedbackPage.conversation': ' • Sohbet {id}...',
+
+  'analytics.title': 'Güven Analizi',
+  'analytics.summary.one': '{count} yanıt kaydedildi',
+  'analytics.summary.other': '{count} yanıt kaydedildi',
+  'analytics.period': 'Dönem',
+  'analytics.period.7': 'Son 7 gün',
+  'analytics.period.30': 'Son 30 gün',
+  'analytics.period.90': 'Son 90 gün',
+  'analytics.period.0': 'Tüm zamanlar',
+  'analytics.loadFailed': 'Analiz verileri yüklenemedi',
+  'analytics.empty': 'Bu dönemde henüz kayıtlı yanıt yok. Sohbetteki her yanıt burada kaydedilir.',
+  'analytics.levels': 'Güven düzeyleri',
+  'analytics.share': '{count} (%{percent})',
+  'analytics.overTime': 'Günlük yanıtlar',
+  'analytics.dayTitle': '{date}: {high} yüksek • {low} düşük • {none} yok',
+  'analytics.maxSimilarity': 'Maks. benzerlik',
+  'analytics.averageSimilarity': 'Ortalama benzerlik',
+  'analytics.histogramHint': 'Benzerlik aralığına göre yanıt sayısı; kesikli çizgiler sunucu eşikleridir',
+  'analytics.binTitle': '{from} – {to}: {count}',
+  'analytics.threshold.minAnswer': '{value} altında yanıt yok',
+  'analytics.threshold.low': '{value} altında düşük güven',
+  'analytics.topDocuments': 'En çok atıf alan belgeler',
+  'analytics.topChunks': 'En çok atıf alan parçalar',
+  'analytics.column.document': 'Belge',
+  'analytics.column.chunk': 'Parça',
+  'analytics.column.citations': 'Atıf',
+  'analytics.column.averageSimilarity': 'Ort. benz.',
+  'analytics.noCitations': 'Bu dönemde kaynak gösterilmedi',
+  'analytics.noInfo': 'İlgili bilgi bulunamayan sorular',
+  'analytics.noInfoHint': 'Bunlar bilgi tabanındaki eksiklere işaret eder',
+  'analytics.noInfoEmpty': 'Her soru için ilgili belge bulundu',
+  'analytics.column.date': 'Tarih',
+  'analytics.column.question': 'Soru',
+  'analytics.column.maxSimilarity': 'Maks. benz.',
+
+  'search.title': 'Anlamsal Arama',
+  'search.subtitle': 'Cevap üretmeden, anlamına göre bölüm bulun',
+  'search.placeholder': 'Belgelerde arayın...',
+  'search.submit': 'Ara',
+  'search.searching': 'Aranıyor...',
+  'search.threshold': 'Min. benzerlik: {value}',
+  'search.thresholdHint': 'Bu benzerliğin altındaki sonuçlar gösterilmez',
+  'search.topK': 'Maks. sonuç: {value}',
+  'search.empty': 'Belgeye göre gruplanmış en yakın parçaları görmek için bir kelime veya ifade arayın.',
+  'search.noResults': 'Benzerlik eşiğinin üzerinde parça yok. Eşiği düşürmeyi deneyin.',
+  'search.results.one': '{documents} içinde {count} sonuç',
+  'search.results.other': '{documents} içinde {count} sonuç',
+  'search.documents.one': '{count} belge',
+  'search.documents.other': '{count} belge',
+  'search.rank': '#{rank}',
+  'search.similarityTitle': 'Benzerlik {value}',
+  'search.ask': 'Bunu sor',
+  'search.askHint': 'Yalnızca bu belgeyle sınırlı yeni bir sohbet başlatır',
+
+  'login.title': 'Giriş yap',
+  'login.subtitle': 'Sohbetleriniz size özeldir; belgeler çalışma alanınızla paylaşılır',
+  'login.username': 'Kullanıcı adı',
+  'login.password': 'Parola',
+  'login.submit': 'Giriş yap',
+  'login.submitting': 'Giriş yapılıyor...',
+  'login.invalid': 'Kullanıcı adı veya parola hatalı',
+  'login.failed': 'Giriş başarısız',
+  'user.workspace': 'Çalışma alanı: {workspace}',
+  'user.signOut': 'Çıkış yap',
+
+  'print.notStored': 'Bu sohbet bu tarayıcıda kayıtlı değil.',
+  'print.backToChat': 'Sohbete Dön',
+  'print.print': 'Yazdır / PDF olarak kaydet',
+  'print.started': 'Başlangıç {started} • Son etkinlik {updated}',
+  'print.conversationId': ' • Sohbet ID {id}',
+  'print.question': 'S: {question}',
+  'print.failed': 'Başarısız: {message}',
+  'print.similarity': ' • maks. benzerlik {max} • ortalama {average}',
+  'print.source': '— parça {index} (benzerlik {similarity})',
+};
@@ -0,0 +1,376 @@
+import type {
+  AskRequest,
+  AskResponse,
+  DocumentSummary,
+  IngestionJob,
+  SearchHit,
+  SearchRequest,
+  SearchResponse,
+  UploadResult,
+} from '@/types';
+import { mockBackendDelayMs } from './config';
+import { withinScope } from './documentScope';
+import {
+  MOCK_CONVERSATION_ID,
+  mockAskResponses,
+  mockBackendErrors,
+  MOCK_DOCUMENTS,
+  MOCK_JOB_CREATED_AT,
+  MOCK_SOURCES,
+  mockIngestionJob,
+  type MockAskScenario,
+} from './mockFixtures';
+import { formatServerSentEvent } from './sse';
+
+/**
+ * In-process stand-in for the RAG backend. createMockBackendFetch() returns a
+ * fetch the API client uses instead of the network when mock mode is on, so
+ * the proxy routes, validation and error handling run exactly as usual.
+ *
+ * Tags in the question pick the scenario (default: high confidence, answered
+ * in Turkish or English depending on the question):
+ *
+ *   #low #none #long   other answer fixtures (#none has no sources)
+ *   #slow              waits SLOW_RESPONSE_MS before answering
+ *   #error             500 from the LLM (mid-stream error event when streaming)
+ *   #unavailable       503 from the backend
+ *   #offline           connection failure
+ *
+ * Questions with documentIds only cite fixture sources from those documents.
+ * Searches return every fixture source above the threshold (none for #none),
+ * also limited to documentIds; #unavailable and #offline work there too.
+ *
+ * PDFs with "fail" in the file name end as failed jobs, "reject" is refused
+ * with a 400 like a non-PDF upload. Completed jobs join the fixture documents
+ * in the document list, with the uploader and workspace headers they were sent with.
+ */
+
+export const SLOW_RESPONSE_MS = 8_000;
+
+const TOKEN_INTERVAL_MS = 30;
+
+type Failure = 'llmFailure' | 'unavailable' | 'offline';
+
+export interface MockAskScenarioSelection {
+  scenario: MockAskScenario;
+  slow: boolean;
+  failure?: Failure;
+}
+
+const hasTag = (question: string, tag: string) => new RegExp(`(^|\\s)#${tag}\\b`, 'i').test(question);
+
+const TURKISH = /[çğıöşüÇĞİÖŞÜ]|\b(nedir|nasıl|neden|hangi|midir|mıdır)\b/i;
+
+/**
+ * Maps a question to its fixture and failure mode
+ */
+export function selectAskScenario(question: string): MockAskScenarioSelection {
+  const scenario: MockAskScenario = hasTag(question, 'none')
+    ? 'none'
+    : hasTag(question, 'low')
+      ? 'low'
+      : hasTag(question, 'long')
+        ? 'long'
+        : TURKISH.test(question)
+          ? 'high'
+          : 'highEnglish';
+
+  const failure: Failure | undefined = hasTag(question, 'offline')
+    ? 'offline'
+    : hasTag(question, 'unavailable')
+      ? 'unavailable'
+      : hasTag(question, 'error')
+        ? 'llmFailure'
+        : undefined;
+
+  return { scenario, slow: hasTag(question, 'slow'), failure };
+}
+
+/**
+ * The fixture for a question, echoing the question and conversation like the backend.
+ * Sources outside `documentIds` are dropped; with none left it is the #none answer.
+ */
+export function mockAskResponse(request: AskRequest): AskResponse {
+  const { scenario } = selectAskScenario(request.question);
+  const fixture = mockAskResponses[scenario];
+  const sources = withinScope(fixture.sources, request.documentIds ?? []);
+  const scoped =
+    sources.length === 0 ? mockAskResponses.none : { ...fixture, sources, sourceCount: sources.length };
+  return {
+    ...scoped,
+    question: request.question,
+    conversationId: request.conversationId || MOCK_CONVERSATION_ID,
+  };
+}
+
+const SEARCH_HITS: SearchHit[] = Object.values(MOCK_SOURCES)
+  .map(({ contentPreview, ...source }) => ({
+    ...source,
+    content: contentPreview,
+    preview: contentPreview.length > 200 ? `${contentPreview.slice(0, 200)}...` : contentPreview,
+  }))
+  .sort((a, b) => b.similarityScore - a.similarityScore);
+
+/**
+ * The fixture sources as search hits, applying topK and the threshold like the backend
+ */
+export function mockSearchResponse(request: SearchRequest): SearchResponse {
+  const topK = request.topK ?? 5;
+  const similarityThreshold = request.similarityThreshold ?? 0;
+  const results = hasTag(request.query, 'none')
+    ? []
+    : withinScope(SEARCH_HITS, request.documentIds ?? [])
+        .filter((hit) => hit.similarityScore >= similarityThreshold)
+        .slice(0, topK);
+
+  return { query: request.query, resultCount: results.length, topK, similarityThreshold, results };
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function streamAnswer(response: AskResponse, failMidway: boolean, signal?: AbortSignal | null): Response {
+  const tokens = response.answer.match(/\S+\s*/g) ?? [];
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const sent = failMidway ? tokens.slice(0, Math.ceil(tokens.length / 3)) : tokens;
+        for (const text of sent) {
+          await wait(TOKEN_INTERVAL_MS, signal);
+          controller.enqueue(encoder.encode(formatServerSentEvent('token', { text })));
+        }
+        controller.enqueue(
+          encoder.encode(
+            failMidway
+              ? formatServerSentEvent('error', { error: mockBackendErrors.llmFailure.body.detail })
+              : formatServerSentEvent('done', response)
+          )
+        );
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+interface TrackedJob {
+  job: IngestionJob;
+  steps: Partial<IngestionJob>[];
+  /** When steps[0] is reached (ms since epoch) */
+  nextStepAt: number;
+}
+
+/**
+ * The fixture documents as the backend lists them, newest first
+ */
+export const MOCK_DOCUMENT_LIST: DocumentSummary[] = Object.values(MOCK_DOCUMENTS).map(
+  ({ documentId, documentTitle }) => ({
+    documentId,
+    title: documentTitle,
+    uploadDate: MOCK_JOB_CREATED_AT,
+    chunkCount: Object.values(MOCK_SOURCES).filter((source) => source.documentId === documentId).length,
+  })
+);
+
+const TOTAL_CHUNKS = 12;
+
+/** Time between two job steps; the default poll interval sees every stage */
+const JOB_STEP_MS = 1_000;
+
+/**
+ * Stages a job goes through, one every jobStepMs
+ */
+function jobSteps(fails: boolean): Partial<IngestionJob>[] {
+  const embedding = [0, 4, 8, 12].map(
+    (processedChunks): Partial<IngestionJob> => ({ stage: 'embedding', totalChunks: TOTAL_CHUNKS, processedChunks })
+  );
+  const head: Partial<IngestionJob>[] = [
+    { stage: 'extracting' },
+    { stage: 'chunking', extractedTextLength: 48_213 },
+  ];
+
+  return fails
+    ? [...head, ...embedding.slice(0, 2), { stage: 'failed', error: 'Embedding failed: Ollama is not reachable' }]
+    : [...head, ...embedding, { stage: 'saving' }, { stage: 'completed', documentId: crypto.randomUUID() }];
+}
+
+interface MockBackendOptions {
+  /** Added to every response so loading states are visible */
+  delayMs?: number;
+  slowMs?: number;
+  /**
+   * Jobs advance with time rather than per poll, so the browser and the
+   * ingest route polling the same job don't make it skip stages
+   */
+  jobStepMs?: number;
+}
+
+export function createMockBackendFetch({
+  delayMs = mockBackendDelayMs,
+  slowMs = SLOW_RESPONSE_MS,
+  jobStepMs = JOB_STEP_MS,
+}: MockBackendOptions = {}): typeof fetch {
+  const jobs = new Map<string, TrackedJob>();
+  const documents = [...MOCK_DOCUMENT_LIST];
+
+  const ask = async (init: RequestInit | undefined, streaming: boolean) => {
+    const request = JSON.parse(String(init?.body)) as AskRequest;
+    const { slow, failure } = selectAskScenario(request.question);
+
+    if (slow) await wait(slowMs, init?.signal);
+    if (failure === 'offline') throw new TypeError('fetch failed');
+    if (failure === 'unavailable') {
+      return json(mockBackendErrors.unavailable.body, mockBackendErrors.unavailable.status);
+    }
+
+    const response = mockAskResponse(request);
+    if (streaming) return streamAnswer(response, failure === 'llmFailure', init?.signal);
+    return failure === 'llmFailure'
+      ? json(mockBackendErrors.llmFailure.body, mockBackendErrors.llmFailure.status)
+      : json(response);
+  };
+
+  const search = async (init: RequestInit | undefined) => {
+    const request = JSON.parse(String(init?.body)) as SearchRequest;
+    const { failure } = selectAskScenario(request.query);
+
+    if (failure === 'offline') throw new TypeError('fetch failed');
+    if (failure === 'unavailable') {
+      return json(mockBackendErrors.unavailable.body, mockBackendErrors.unavailable.status);
+    }
+    return json(mockSearchResponse(request));
+  };
+
+  const readUpload = async (init: RequestInit | undefined) => {
+    // The ingest route forwards the multipart body as a stream
+    const formData =
+      init?.body instanceof FormData
+        ? init.body
+        : await new Response(init?.body, { headers: init?.headers }).formData();
+    const file = formData.get('file') as File | null;
+    const fileName = file?.name ?? 'document.pdf';
+    const title = (formData.get('title') as string | null) || fileName.replace(/\.pdf$/i, '');
+    return { fileName, title, size: file?.size ?? 0 };
+  };
+
+  const submitJob = async (init: RequestInit | undefined) => {
+    const { fileName, title } = await readUpload(init);
+    if (/reject/i.test(fileName)) {
+      return json(mockBackendErrors.invalidPdf.body, mockBackendErrors.invalidPdf.status);
+    }
+
+    const now = new Date().toISOString();
+    const headers = new Headers(init?.headers);
+    const job = mockIngestionJob(crypto.randomUUID(), {
+      fileName,
+      documentTitle: title,
+      uploadedBy: headers.get('X-Uploaded-By') ?? undefined,
+      workspace: headers.get('X-Workspace') ?? undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+    jobs.set(job.jobId, { job, steps: jobSteps(/fail/i.test(fileName)), nextStepAt: Date.now() + jobStepMs });
+    return json(job, 202);
+  };
+
+  const pollJob = (jobId: string) => {
+    const tracked = jobs.get(jobId);
+    if (!tracked) return json({ error: `Ingestion job ${jobId} not found` }, 404);
+
+    // Every step that came due since the last poll
+    while (tracked.steps.length > 0 && Date.now() >= tracked.nextStepAt) {
+      const next = tracked.steps.shift()!;
+      tracked.nextStepAt += jobStepMs;
+      tracked.job = { ...tracked.job, ...next, updatedAt: new Date().toISOString() };
+
+      if (next.stage === 'completed' && tracked.job.documentId) {
+        documents.unshift({
+          documentId: tracked.job.documentId,
+          title: tracked.job.documentTitle,
+          uploadDate: tracked.job.updatedAt,
+          chunkCount: TOTAL_CHUNKS,
+          originalFilename: tracked.job.fileName,
+          uploadedBy: tracked.job.uploadedBy,
+          workspace: tracked.job.workspace,
+        });
+      }
+    }
+    return json(tracked.job);
+  };
+
+  const cancelJob = (jobId: string) => {
+    const tracked = jobs.get(jobId);
+    if (!tracked) return json({ error: `Ingestion job ${jobId} not found` }, 404);
+    if (tracked.job.stage === 'completed' || tracked.job.stage === 'failed') {
+      return json(`Ingestion job ${jobId} has already finished`, 409);
+    }
+
+    tracked.steps = [];
+    tracked.job = { ...tracked.job, stage: 'failed', error: 'Cancelled by user', updatedAt: new Date().toISOString() };
+    return json(tracked.job);
+  };
+
+  const ingestNow = async (init: RequestInit | undefined) => {
+    const { fileName, title, size } = await readUpload(init);
+    if (/reject/i.test(fileName)) {
+      return json(mockBackendErrors.invalidPdf.body, mockBackendErrors.invalidPdf.status);
+    }
+    const result: UploadResult = {
+      success: true,
+      documentId: crypto.randomUUID(),
+      documentTitle: title,
+      chunkCount: TOTAL_CHUNKS,
+      extractedTextLength: size,
+      message: 'PDF ingested (mock backend)',
+    };
+    return json(result);
+  };
+
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = init?.method ?? 'GET';
+    await wait(delayMs, init?.signal);
+
+    const jobMatch = url.pathname.match(/^\/api\/ingest\/jobs\/([^/]+)$/);
+
+    if (method === 'POST' && url.pathname === '/api/rag/ask') return ask(init, false);
+    if (method === 'POST' && url.pathname === '/api/rag/ask/stream') return ask(init, true);
+    if (method === 'POST' && url.pathname === '/api/search') return search(init);
+    if (method === 'POST' && url.pathname === '/api/conversations') {
+      return json({ conversationId: crypto.randomUUID() });
+    }
+    if (method === 'POST' && url.pathname === '/api/ingest/pdf/jobs') return submitJob(init);
+    if (method === 'POST' && url.pathname === '/api/ingest/pdf') return ingestNow(init);
+    if (method === 'GET' && jobMatch) return pollJob(decodeURIComponent(jobMatch[1]));
+    if (method === 'GET' && url.pathname === '/api/documents') {
+      return json({ totalDocuments: documents.length, documents });
+    }
+    if (method === 'DELETE' && jobMatch) return cancelJob(decodeURIComponent(jobMatch[1]));
+
+    return json({ error: `Not available in mock backend mode: ${method} ${url.pathname}` }, 404);
+  };
+}
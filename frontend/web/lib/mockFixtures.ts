@@ -0,0 +1,217 @@
+import type { AskResponse, ConfidenceInfo, IngestionJob, Source } from '@/types';
+
+/**
+ * Canned backend responses for mock mode (NEXT_PUBLIC_MOCK_BACKEND) and tests.
+ * Every value is fixed so screenshots and assertions stay stable.
+ */
+
+export const MOCK_CONVERSATION_ID = '00000000-0000-4000-8000-00000000c0de';
+
+export const MOCK_DOCUMENTS = {
+  civilCode: { documentId: '11111111-1111-4111-8111-111111111111', documentTitle: 'Türk Medeni Kanunu' },
+  kvkk: { documentId: '22222222-2222-4222-8222-222222222222', documentTitle: 'KVKK - 6698 Sayılı Kanun' },
+  gdpr: { documentId: '33333333-3333-4333-8333-333333333333', documentTitle: 'GDPR Summary' },
+} as const;
+
+function source(
+  document: (typeof MOCK_DOCUMENTS)[keyof typeof MOCK_DOCUMENTS],
+  chunkIndex: number,
+  similarityScore: number,
+  contentPreview: string
+): Source {
+  return {
+    chunkId: `${document.documentId.slice(0, 8)}-0000-4000-8000-${String(chunkIndex).padStart(12, '0')}`,
+    ...document,
+    chunkIndex,
+    similarityScore,
+    contentPreview,
+  };
+}
+
+export const MOCK_SOURCES = {
+  civilCodeArticle1: source(
+    MOCK_DOCUMENTS.civilCode,
+    0,
+    0.1342,
+    'Madde 1 - Kanun, sözüyle ve özüyle değindiği bütün konularda uygulanır. Kanunda uygulanabilir bir hüküm bulunmayan hâllerde hâkim, örf ve âdet hukukuna göre...'
+  ),
+  civilCodeArticle2: source(
+    MOCK_DOCUMENTS.civilCode,
+    1,
+    0.0987,
+    'Madde 2 - Herkes, haklarını kullanırken ve borçlarını yerine getirirken dürüstlük kurallarına uymak zorundadır.'
+  ),
+  kvkkDefinitions: source(
+    MOCK_DOCUMENTS.kvkk,
+    3,
+    0.0611,
+    'Kişisel veri: Kimliği belirli veya belirlenebilir gerçek kişiye ilişkin her türlü bilgiyi ifade eder.'
+  ),
+  gdprPrinciples: source(
+    MOCK_DOCUMENTS.gdpr,
+    2,
+    0.1178,
+    'Personal data shall be processed lawfully, fairly and in a transparent manner in relation to the data subject.'
+  ),
+  gdprRights: source(
+    MOCK_DOCUMENTS.gdpr,
+    7,
+    0.0834,
+    'The data subject shall have the right to obtain from the controller confirmation as to whether or not personal data concerning him or her are being processed.'
+  ),
+} satisfies Record<string, Source>;
+
+export const MOCK_CONFIDENCE = {
+  high: {
+    level: 'high',
+    maxSimilarity: 0.1342,
+    averageSimilarity: 0.1165,
+    explanation: 'Belgelerde soruyla güçlü şekilde eşleşen bölümler bulundu.',
+  },
+  low: {
+    level: 'low',
+    maxSimilarity: 0.0611,
+    averageSimilarity: 0.0473,
+    explanation: 'Only weakly related passages were found; the answer may be incomplete.',
+  },
+  // No explanation, so the badge falls back to its default description
+  none: { level: 'none', maxSimilarity: 0.0124, averageSimilarity: 0.0098 },
+} satisfies Record<ConfidenceInfo['level'], ConfidenceInfo>;
+
+function response(
+  question: string,
+  answer: string,
+  language: 'tr' | 'en',
+  confidence: ConfidenceInfo,
+  sources: Source[]
+): AskResponse {
+  return {
+    question,
+    answer,
+    conversationId: MOCK_CONVERSATION_ID,
+    language,
+    confidence,
+    sources,
+    sourceCount: sources.length,
+  };
+}
+
+const LONG_ANSWER = `Türk Medeni Kanunu'nun başlangıç hükümleri, kanunun nasıl uygulanacağını ve hâkimin takdir yetkisini düzenler [1].
+
+## Uygulama sırası
+
+1. **Kanunun sözü ve özü** - Kanun, sözüyle ve özüyle değindiği bütün konularda uygulanır [1].
+2. **Örf ve âdet hukuku** - Kanunda hüküm yoksa hâkim örf ve âdet hukukuna göre karar verir [1].
+3. **Hâkimin koyacağı kural** - Örf ve âdet hukuku da yoksa hâkim, kanun koyucu olsaydı nasıl bir kural koyacak idiyse ona göre karar verir [1].
+
+## Dürüstlük kuralı
+
+Herkes, haklarını kullanırken ve borçlarını yerine getirirken dürüstlük kurallarına uymak zorundadır [2]. Bir hakkın açıkça kötüye kullanılmasını hukuk düzeni korumaz [2].
+
+| Madde | Konu | İlke |
+| --- | --- | --- |
+| 1 | Hukukun uygulanması | Kanun, örf ve âdet, hâkimin kuralı |
+| 2 | Dürüst davranma | Hakkın kötüye kullanılması yasağı |
+| 3 | İyiniyet | İyiniyetin varlığı asıldır |
+
+> Not: Kişisel verilerle ilgili sorular için KVKK'daki tanımlar da dikkate alınmalıdır [3].
+
+\`\`\`text
+Madde 1 → Madde 2 → Madde 3
+\`\`\`
+
+${Array.from(
+  { length: 6 },
+  (_, i) =>
+    `${i + 1}. paragraf: Yargıtay içtihatları, başlangıç hükümlerinin somut olaylara uygulanmasında yol gösterici niteliktedir ve hâkim, bilimsel görüşlerden ve yargı kararlarından yararlanır [1, 2].`
+).join('\n\n')}`;
+
+/**
+ * Successful /api/rag/ask responses, one per scenario. `question` is a
+ * placeholder; the mock backend echoes the question that was asked.
+ */
+export const mockAskResponses = {
+  high: response(
+    'Türk Medeni Kanunu madde 1 nedir?',
+    "Türk Medeni Kanunu'nun 1. maddesine göre kanun, sözüyle ve özüyle değindiği bütün konularda uygulanır [1]. Kanunda hüküm bulunmayan hâllerde hâkim örf ve âdet hukukuna göre karar verir [1, 2].",
+    'tr',
+    MOCK_CONFIDENCE.high,
+    [MOCK_SOURCES.civilCodeArticle1, MOCK_SOURCES.civilCodeArticle2]
+  ),
+  highEnglish: response(
+    'What does the GDPR say about processing personal data?',
+    'Personal data must be processed **lawfully, fairly and transparently** [1]. Data subjects can ask the controller whether their data is being processed [2].',
+    'en',
+    { ...MOCK_CONFIDENCE.high, explanation: 'Strongly matching passages were found in the documents.' },
+    [MOCK_SOURCES.gdprPrinciples, MOCK_SOURCES.gdprRights]
+  ),
+  low: response(
+    'Can my employer read my e-mails?',
+    'The documents do not address workplace e-mail directly. They only define personal data in general terms [1], so this answer may be incomplete.',
+    'en',
+    MOCK_CONFIDENCE.low,
+    [MOCK_SOURCES.kvkkDefinitions]
+  ),
+  none: response(
+    'Yarın hava nasıl olacak?',
+    'Üzgünüm, yüklenen belgelerde bu soruyla ilgili bilgi bulunamadı.',
+    'tr',
+    MOCK_CONFIDENCE.none,
+    []
+  ),
+  long: response(
+    'Medeni Kanun başlangıç hükümlerini ayrıntılı açıklar mısın?',
+    LONG_ANSWER,
+    'tr',
+    MOCK_CONFIDENCE.high,
+    [MOCK_SOURCES.civilCodeArticle1, MOCK_SOURCES.civilCodeArticle2, MOCK_SOURCES.kvkkDefinitions]
+  ),
+} satisfies Record<string, AskResponse>;
+
+export type MockAskScenario = keyof typeof mockAskResponses;
+
+/**
+ * Backend failures as the real backend reports them: ProblemDetails for
+ * exceptions, a plain JSON string for validation errors.
+ */
+export const mockBackendErrors = {
+  llmFailure: {
+    status: 500,
+    body: {
+      type: 'https://tools.ietf.org/html/rfc9110#section-15.6.1',
+      title: 'An error occurred while processing your request.',
+      status: 500,
+      detail: 'RAG error: Ollama request failed: model "llama3.2" not found',
+    },
+  },
+  unavailable: {
+    status: 503,
+    body: {
+      type: 'https://tools.ietf.org/html/rfc9110#section-15.6.4',
+      title: 'Service Unavailable',
+      status: 503,
+      detail: 'Database error: connection refused',
+    },
+  },
+  invalidPdf: { status: 400, body: 'Only PDF files are supported' },
+} satisfies Record<string, { status: number; body: unknown }>;
+
+export const MOCK_JOB_CREATED_AT = '2026-01-01T09:00:00.000Z';
+
+/**
+ * Ingestion job snapshot; the mock backend walks a job through the stages
+ */
+export function mockIngestionJob(jobId: string, overrides: Partial<IngestionJob> = {}): IngestionJob {
+  return {
+    jobId,
+    fileName: 'document.pdf',
+    documentTitle: 'document',
+    stage: 'queued',
+    processedChunks: 0,
+    totalChunks: 0,
+    extractedTextLength: 0,
+    createdAt: MOCK_JOB_CREATED_AT,
+    updatedAt: MOCK_JOB_CREATED_AT,
+    ...overrides,
+  };
+}
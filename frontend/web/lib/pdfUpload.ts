@@ -0,0 +1,95 @@
+import type { IngestionJob } from '@/types';
+import { ApiError, readApiError } from './apiClient';
+import { describeErrorDetails } from './apiErrors';
+import { parseIngestionJob } from './validation';
+
+export const MAX_PDF_SIZE_BYTES = 50 * 1024 * 1024;
+
+interface UploadPdfOptions {
+  signal?: AbortSignal;
+  /** Fraction (0-1) of the file sent to the backend */
+  onUploadProgress?: (fraction: number) => void;
+  /** The file is fully sent; the backend is creating the ingestion job */
+  onUploaded?: () => void;
+}
+
+const UPLOAD_URL = '/api/rag/ingest';
+
+/**
+ * The backend's rule: a PDF content type or a .pdf file name
+ */
+export function isPdfUpload(contentType: string, fileName: string): boolean {
+  return contentType.includes('pdf') || fileName.toLowerCase().endsWith('.pdf');
+}
+
+/**
+ * Same checks the backend applies, so obviously invalid files never leave the browser
+ */
+export function validatePdfFile(file: File): string | null {
+  if (!isPdfUpload(file.type, file.name)) return 'Only PDF files are supported';
+  if (file.size > MAX_PDF_SIZE_BYTES) return 'File size must be less than 50MB';
+  return null;
+}
+
+export function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.pdf$/i, '');
+}
+
+/**
+ * Uploads a PDF through the ingest proxy route and returns the queued ingestion job.
+ * Uses XMLHttpRequest because fetch can't report upload progress.
+ */
+export function uploadPdf(
+  file: File,
+  title: string,
+  { signal, onUploadProgress, onUploaded }: UploadPdfOptions = {}
+): Promise<IngestionJob> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (title) {
+      formData.append('title', title);
+    }
+
+    // The route streams the body on to the backend and applies BACKEND_INGEST_TIMEOUT_MS
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', UPLOAD_URL);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.upload.onload = () => onUploaded?.();
+
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const headers = { 'Retry-After': xhr.getResponseHeader('Retry-After') ?? '' };
+        const response = new Response(xhr.responseText, { status: xhr.status, headers });
+        readApiError(response, `POST ${UPLOAD_URL}`).then(reject);
+        return;
+      }
+      try {
+        resolve(parseIngestionJob(JSON.parse(xhr.responseText), `POST ${UPLOAD_URL}`));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    xhr.onerror = () => reject(new ApiError('Failed to reach the upload route', null));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(formData);
+  });
+}
+
+/**
+ * Backend errors are either a JSON string (400) or a ProblemDetails object (500),
+ * wrapped in the proxy's error envelope; the proxy's own checks come as plain text.
+ */
+export function describeUploadError(error: unknown): string {
+  if (error instanceof ApiError) {
+    return describeErrorDetails(error.details) ?? error.message;
+  }
+  return error instanceof Error ? error.message : 'Upload failed';
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import type { ApiErrorCode, ApiErrorResponse } from '@/types';
+import { ApiError } from './apiClient';
+import { RateLimitedError } from './rateLimit';
+import { UploadRejectedError } from './uploadGuard';
+import { ResponseValidationError } from './validation';
+
+function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  details?: string,
+  headers?: HeadersInit
+) {
+  const body: ApiErrorResponse = { code, error, details };
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Maps a failed backend call to the proxy's error envelope ({ code, error, details }):
+ * over a rate limit → 429 with Retry-After,
+ * backend non-2xx → same status + the backend body as details,
+ * unreachable → 502, timeout → 504, bad response shape → 502, anything else → 500
+ */
+export function proxyErrorResponse(error: unknown, failure = 'Backend request failed') {
+  if (error instanceof RateLimitedError) {
+    return errorResponse(429, 'rate-limited', 'Too many requests', error.message, {
+      'Retry-After': String(error.retryAfterSeconds),
+    });
+  }
+
+  if (error instanceof ApiError && error.status !== null) {
+    const headers =
+      error.retryAfterSeconds === undefined ? undefined : { 'Retry-After': String(error.retryAfterSeconds) };
+    return errorResponse(error.status, error.code, failure, error.details, headers);
+  }
+
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    // The browser went away; nobody reads this response
+    return errorResponse(499, 'cancelled', 'Request cancelled');
+  }
+
+  console.error('Proxy error:', error);
+
+  if (error instanceof ApiError) {
+    return errorResponse(502, 'backend-unreachable', 'Failed to connect to backend', error.message);
+  }
+
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return errorResponse(504, 'timeout', 'Backend did not respond in time');
+  }
+
+  if (error instanceof ResponseValidationError) {
+    return errorResponse(502, 'invalid-response', 'Invalid backend response', error.message);
+  }
+
+  return errorResponse(500, 'internal', failure, (error as Error).message);
+}
+
+/**
+ * 401 for a request without a session, or a sign-in with wrong credentials
+ */
+export function unauthorizedResponse(error = 'Sign in required') {
+  return errorResponse(401, 'unauthorized', error);
+}
+
+/**
+ * 400 for a request body that can't be read or fails validation,
+ * 413 / 415 for uploads refused by the upload guard
+ */
+export function invalidRequestResponse(error: unknown, unreadable = 'Body must be JSON') {
+  if (error instanceof UploadRejectedError) {
+    return errorResponse(error.status, 'validation', 'Invalid upload', error.message);
+  }
+
+  return errorResponse(
+    400,
+    'validation',
+    'Invalid request',
+    error instanceof ResponseValidationError
+      ? `expected ${error.path} to be ${error.expected}`
+      : unreadable
+  );
+}
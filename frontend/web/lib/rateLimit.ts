@@ -0,0 +1,144 @@
+import type { User } from '@/types';
+import { requestUser } from './auth';
+import { rateLimitConfig, type RateLimit } from './config';
+import { ResponseValidationError } from './validation';
+
+/**
+ * In-memory rate limits for the proxy routes (one Next.js server; limits
+ * reset on restart). Clients are the signed-in user, or the IP address for
+ * requests without one.
+ */
+
+type Operation = 'ask' | 'ingest';
+
+/** What a client hitting the concurrency cap is told to wait */
+const IN_FLIGHT_RETRY_SECONDS = 5;
+
+/** Full buckets are dropped once this many clients are tracked */
+const MAX_TRACKED_CLIENTS = 10_000;
+
+/**
+ * Thrown when a client is over a limit; answered with 429 and Retry-After
+ */
+export class RateLimitedError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = 'RateLimitedError';
+  }
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export function clientKey(request: Request, user: User | null = requestUser(request)): string {
+  if (user) return `user:${user.username}`;
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return `ip:${forwarded || request.headers.get('x-real-ip') || 'unknown'}`;
+}
+
+export function createRateLimiter(
+  limits: Record<Operation, RateLimit>,
+  now: () => number = Date.now
+) {
+  const buckets = new Map<string, Bucket>();
+  const inFlight = new Map<string, number>();
+
+  const refill = ({ perMinute, burst }: RateLimit, key: string): Bucket => {
+    const time = now();
+    const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: time };
+    bucket.tokens = Math.min(burst, bucket.tokens + ((time - bucket.updatedAt) / 60_000) * perMinute);
+    bucket.updatedAt = time;
+    return bucket;
+  };
+
+  const prune = () => {
+    if (buckets.size < MAX_TRACKED_CLIENTS) return;
+    for (const key of buckets.keys()) {
+      const operation = key.slice(0, key.indexOf(':')) as Operation;
+      if (refill(limits[operation], key).tokens >= limits[operation].burst) buckets.delete(key);
+    }
+  };
+
+  return {
+    /**
+     * Takes a token and an in-flight slot for the client, or throws
+     * RateLimitedError. The returned function frees the slot; calling it
+     * more than once is harmless.
+     */
+    acquire(operation: Operation, client: string): () => void {
+      const limit = limits[operation];
+      const key = `${operation}:${client}`;
+      const running = inFlight.get(key) ?? 0;
+
+      if (limit.concurrency > 0 && running >= limit.concurrency) {
+        throw new RateLimitedError(
+          `At most ${limit.concurrency} ${operation} requests can run at the same time`,
+          IN_FLIGHT_RETRY_SECONDS
+        );
+      }
+
+      if (limit.perMinute > 0 && limit.burst > 0) {
+        prune();
+        const bucket = refill(limit, key);
+        if (bucket.tokens < 1) {
+          throw new RateLimitedError(
+            `Rate limit of ${limit.perMinute} ${operation} requests per minute exceeded`,
+            Math.ceil(((1 - bucket.tokens) / limit.perMinute) * 60)
+          );
+        }
+        bucket.tokens -= 1;
+        buckets.set(key, bucket);
+      }
+
+      inFlight.set(key, running + 1);
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        const remaining = (inFlight.get(key) ?? 1) - 1;
+        if (remaining > 0) inFlight.set(key, remaining);
+        else inFlight.delete(key);
+      };
+    },
+  };
+}
+
+export const rateLimiter = createRateLimiter(rateLimitConfig);
+
+/**
+ * Rejects questions over the configured length like any other invalid body
+ */
+export function checkQuestionLength(
+  question: string,
+  endpoint: string,
+  maxLength = rateLimitConfig.maxQuestionLength
+): void {
+  if (maxLength > 0 && question.length > maxLength) {
+    throw new ResponseValidationError(endpoint, 'body.question', `at most ${maxLength} characters`);
+  }
+}
+
+/**
+ * Relays a streamed body and frees the in-flight slot once it ends or the
+ * client goes away
+ */
+export function releaseWhenDone(
+  body: ReadableStream<Uint8Array> | null,
+  release: () => void,
+  signal: AbortSignal
+): ReadableStream<Uint8Array> | null {
+  signal.addEventListener('abort', release, { once: true });
+  if (!body) {
+    release();
+    return body;
+  }
+  // The relay errors too when the pipe fails, so the client still sees the failure
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  body.pipeTo(writable).then(release, release);
+  return readable;
+}
@@ -0,0 +1,118 @@
+import type { AskRequest, AskResponse } from '@/types';
+import { responseCacheConfig, type ResponseCacheConfig } from './config';
+import { formatServerSentEvent } from './sse';
+
+/**
+ * Answers of the ask proxies, kept in the Next.js server's memory
+ * (RESPONSE_CACHE_*). Only questions that start a conversation are cached,
+ * since follow-ups depend on the conversation's history. The key holds the
+ * documentIds after workspace scoping, so workspaces never share answers.
+ * The cache is emptied whenever a document is ingested or deleted.
+ */
+
+/**
+ * A cached answer without its conversation: that one belongs to whoever
+ * asked first. The proxies start a conversation of the caller's own with
+ * apiClient.startConversation.
+ */
+export type CachedAnswer = Omit<AskResponse, 'conversationId'>;
+
+/**
+ * Case, spacing and trailing punctuation don't make a different question
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '')
+    .trim();
+}
+
+/**
+ * Cache key of an ask request, or null for a follow-up in a conversation
+ */
+export function responseCacheKey(request: AskRequest): string | null {
+  if (request.conversationId) return null;
+  return JSON.stringify([
+    normalizeQuestion(request.question),
+    request.topK ?? null,
+    request.minSimilarity ?? null,
+    [...(request.documentIds ?? [])].sort(),
+  ]);
+}
+
+interface Entry {
+  answer: CachedAnswer;
+  expiresAt: number;
+}
+
+export function createResponseCache(
+  { enabled, ttlMs, maxEntries }: ResponseCacheConfig,
+  now: () => number = Date.now
+) {
+  // Map order is the eviction order: least recently used first
+  const entries = new Map<string, Entry>();
+  const keyOf = (request: AskRequest) =>
+    enabled && ttlMs > 0 && maxEntries > 0 ? responseCacheKey(request) : null;
+
+  return {
+    /**
+     * The cached answer to the request, flagged as cached
+     */
+    get(request: AskRequest): CachedAnswer | null {
+      const key = keyOf(request);
+      const entry = key === null ? undefined : entries.get(key);
+      if (key === null || !entry) return null;
+
+      entries.delete(key);
+      if (entry.expiresAt <= now()) return null;
+      entries.set(key, entry);
+
+      return { ...entry.answer, question: request.question, cached: true };
+    },
+
+    set(request: AskRequest, response: AskResponse): void {
+      const key = keyOf(request);
+      if (key === null) return;
+
+      // The asker's conversation is never handed to anyone else
+      const answer: CachedAnswer & Partial<Pick<AskResponse, 'conversationId'>> = { ...response };
+      delete answer.conversationId;
+
+      entries.delete(key);
+      entries.set(key, { answer, expiresAt: now() + ttlMs });
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+
+    clear(): void {
+      entries.clear();
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+export type ResponseCache = ReturnType<typeof createResponseCache>;
+
+export const responseCache = createResponseCache(responseCacheConfig);
+
+/**
+ * A cached answer as the backend would stream it: the whole text as one
+ * token frame, then the final frame
+ */
+export function cachedAnswerStream(response: AskResponse): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(formatServerSentEvent('token', { text: response.answer })));
+      controller.enqueue(encoder.encode(formatServerSentEvent('done', response)));
+      controller.close();
+    },
+  });
+}
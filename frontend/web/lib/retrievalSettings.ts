@@ -0,0 +1,47 @@
+import type { AskRequest, RetrievalSettings } from '@/types';
+import type { Translator } from './i18n';
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  topK: 5,
+  minSimilarity: 0,
+  documentIds: [],
+};
+
+export const TOP_K_RANGE = { min: 1, max: 20 } as const;
+
+/**
+ * Clamps values coming from inputs or old localStorage entries
+ */
+export function normalizeRetrievalSettings(settings: Partial<RetrievalSettings>): RetrievalSettings {
+  const topK = Math.round(settings.topK ?? DEFAULT_RETRIEVAL_SETTINGS.topK);
+  const minSimilarity = settings.minSimilarity ?? DEFAULT_RETRIEVAL_SETTINGS.minSimilarity;
+
+  return {
+    topK: Math.min(TOP_K_RANGE.max, Math.max(TOP_K_RANGE.min, Number.isFinite(topK) ? topK : 5)),
+    minSimilarity: Math.min(1, Math.max(0, Number.isFinite(minSimilarity) ? minSimilarity : 0)),
+    documentIds: [...new Set(settings.documentIds ?? [])],
+  };
+}
+
+/** The part of an AskRequest the settings control */
+export function toAskParameters(
+  settings: RetrievalSettings
+): Pick<AskRequest, 'topK' | 'minSimilarity' | 'documentIds'> {
+  return {
+    topK: settings.topK,
+    minSimilarity: settings.minSimilarity,
+    documentIds: settings.documentIds.length > 0 ? settings.documentIds : undefined,
+  };
+}
+
+export function describeRetrievalSettings(settings: RetrievalSettings, { t, plural, number }: Translator): string {
+  const scope =
+    settings.documentIds.length === 0
+      ? t('retrieval.scopeAll')
+      : plural('retrieval.scopeSome', settings.documentIds.length);
+  return t('retrieval.summary', {
+    topK: settings.topK,
+    minSimilarity: number(settings.minSimilarity, 2),
+    scope,
+  });
+}
@@ -0,0 +1,23 @@
+import type { SearchRequest, SearchResponse } from '@/types';
+import { readApiError } from './apiClient';
+import { parseSearchResponse } from './validation';
+
+/**
+ * Calls the search proxy; failures are thrown as ApiErrors carrying the proxy's error code
+ */
+export async function searchChunks(request: SearchRequest, signal?: AbortSignal): Promise<SearchResponse> {
+  const response = await fetch('/api/rag/search', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, 'POST /api/rag/search');
+  }
+
+  return parseSearchResponse(await response.json(), 'POST /api/rag/search');
+}
@@ -0,0 +1,64 @@
+import type { SearchHit } from '@/types';
+
+/**
+ * Grouping and query-term highlighting for the /search page
+ */
+
+export interface RankedHit extends SearchHit {
+  /** 1-based position in the backend's ranking */
+  rank: number;
+}
+
+export interface DocumentHits {
+  documentId: string;
+  documentTitle: string;
+  hits: RankedHit[];
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Groups hits by document. Documents are ordered by their best hit and
+ * keep the backend's ranking inside each group.
+ */
+export function groupHitsByDocument(hits: SearchHit[]): DocumentHits[] {
+  const groups = new Map<string, DocumentHits>();
+  hits.forEach((hit, index) => {
+    const group = groups.get(hit.documentId) ?? {
+      documentId: hit.documentId,
+      documentTitle: hit.documentTitle,
+      hits: [],
+    };
+    group.hits.push({ ...hit, rank: index + 1 });
+    groups.set(hit.documentId, group);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Distinct words of the query worth highlighting (single letters are skipped)
+ */
+export function queryTerms(query: string): string[] {
+  const words = query.split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 1);
+  return [...new Set(words.map((word) => word.toLowerCase()))];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits `text` into matching and non-matching segments, case-insensitively.
+ * Longer terms win where terms overlap.
+ */
+export function highlightSegments(text: string, terms: string[]): TextSegment[] {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const pattern = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  // The capture group keeps the matches in the split output, at odd indexes
+  return text
+    .split(new RegExp(`(${pattern})`, 'iu'))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text !== '');
+}
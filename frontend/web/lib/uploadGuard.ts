@@ -0,0 +1,153 @@
+import { isPdfUpload, MAX_PDF_SIZE_BYTES } from './pdfUpload';
+
+/**
+ * Server-side checks for PDF uploads passing through the ingest proxy.
+ * The multipart body is streamed to the backend as it arrives; only the
+ * part headers at its start are read here, never the whole file.
+ */
+
+// Boundaries, part headers and the title field on top of the file itself
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+// The file part is expected near the start; give up looking after this
+const MAX_HEAD_BYTES = 1024 * 1024;
+
+/**
+ * An upload the proxy refuses without (or while) forwarding it
+ */
+export class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 413 | 415
+  ) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+export interface GuardedUpload {
+  /** The untouched multipart body, replayed from the start */
+  body: ReadableStream<Uint8Array>;
+  /** Set when the body grew past the size limit after forwarding started */
+  readonly rejected: UploadRejectedError | null;
+}
+
+interface FilePart {
+  contentType: string;
+  fileName: string;
+}
+
+const latin1 = new TextDecoder('latin1');
+
+function readBoundary(contentType: string | null): string | null {
+  if (!contentType?.toLowerCase().startsWith('multipart/form-data')) return null;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+/**
+ * Headers of the 'file' part, once they have arrived in full
+ */
+function findFilePart(head: Uint8Array, boundary: string): FilePart | null {
+  // latin1 keeps one character per byte, which is all the header parsing needs
+  const text = latin1.decode(head);
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const partHeaders = new RegExp(`--${escaped}\\r\\n((?:[^\\r\\n]+\\r\\n)*?)\\r\\n`, 'g');
+
+  for (const [, headers] of text.matchAll(partHeaders)) {
+    if (!/content-disposition:[^\r\n]*\bname="file"/i.test(headers)) continue;
+    return {
+      contentType: headers.match(/content-type:\s*([^\r\n]*)/i)?.[1] ?? '',
+      fileName: headers.match(/filename="([^"]*)"/i)?.[1] ?? '',
+    };
+  }
+  return null;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const joined = new Uint8Array(a.byteLength + b.byteLength);
+  joined.set(a);
+  joined.set(b, a.byteLength);
+  return joined;
+}
+
+const tooLarge = () => new UploadRejectedError('File size must be less than 50MB', 413);
+
+/**
+ * Reads up to the 'file' part headers and rejects anything that isn't a PDF
+ * or is too large, then hands back a stream of the complete body for the
+ * backend. A body without a Content-Length is counted while it streams.
+ */
+export async function guardPdfUpload(
+  body: ReadableStream<Uint8Array> | null,
+  headers: Headers,
+  maxFileBytes = MAX_PDF_SIZE_BYTES
+): Promise<GuardedUpload> {
+  const boundary = readBoundary(headers.get('content-type'));
+  if (!body || !boundary) {
+    throw new UploadRejectedError('Body must be multipart/form-data', 400);
+  }
+
+  const maxBodyBytes = maxFileBytes + MULTIPART_OVERHEAD_BYTES;
+  const declaredLength = Number(headers.get('content-length'));
+  if (declaredLength > maxBodyBytes) {
+    await body.cancel();
+    throw tooLarge();
+  }
+
+  const reader = body.getReader();
+  let head: Uint8Array = new Uint8Array(0);
+  let part: FilePart | null = null;
+  let ended = false;
+
+  while (!part && !ended && head.byteLength < MAX_HEAD_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) {
+      ended = true;
+    } else {
+      head = concat(head, value);
+      part = findFilePart(head, boundary);
+    }
+  }
+
+  if (!part || !isPdfUpload(part.contentType, part.fileName)) {
+    await reader.cancel();
+    throw part
+      ? new UploadRejectedError('Only PDF files are supported', 415)
+      : new UploadRejectedError("No file uploaded. Use 'file' as the field name.", 400);
+  }
+
+  let received = head.byteLength;
+  let rejected: UploadRejectedError | null = null;
+
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(head);
+      if (ended) controller.close();
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      received += value.byteLength;
+      if (received > maxBodyBytes) {
+        rejected = tooLarge();
+        controller.error(rejected);
+        await reader.cancel();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return {
+    body: replay,
+    get rejected() {
+      return rejected;
+    },
+  };
+}
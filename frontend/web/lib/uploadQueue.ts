@@ -0,0 +1,320 @@
+import type { IngestionJob, UploadItem } from '@/types';
+import { ApiError } from './apiClient';
+import { uploadConcurrency } from './config';
+import {
+  cancelIngestionJob,
+  loadTrackedUploads,
+  resultFromJob,
+  saveTrackedUploads,
+  watchIngestionJob,
+} from './ingestionJobs';
+import { describeUploadError, titleFromFileName, uploadPdf, validatePdfFile } from './pdfUpload';
+
+/** Sends the file and resolves with the backend ingestion job */
+export type Uploader = (
+  item: UploadItem,
+  callbacks: {
+    onUploadProgress: (fraction: number) => void;
+    onUploaded: () => void;
+    signal: AbortSignal;
+  }
+) => Promise<IngestionJob>;
+
+/** Follows a job until it completes or fails, reporting each change */
+export type JobWatcher = (
+  job: IngestionJob,
+  onUpdate: (job: IngestionJob) => void,
+  signal: AbortSignal
+) => Promise<IngestionJob>;
+
+/** Stops a queued or running job on the backend */
+export type JobCanceller = (jobId: string) => Promise<unknown>;
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  totalChunks: number;
+  totalCharacters: number;
+}
+
+type Listener = () => void;
+
+let nextId = 0;
+
+/**
+ * Upload queue that runs at most `concurrency` uploads at a time.
+ * An upload stays active until its ingestion job finishes on the backend.
+ * Framework-agnostic; components read it with useSyncExternalStore.
+ */
+export class UploadQueue {
+  private items: UploadItem[] = [];
+  private readonly listeners = new Set<Listener>();
+  // Aborts the upload or the polling of an active item
+  private readonly controllers = new Map<string, AbortController>();
+
+  constructor(
+    private readonly upload: Uploader,
+    private readonly watch: JobWatcher,
+    private readonly cancelJob: JobCanceller,
+    private readonly concurrency: number
+  ) {}
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.items;
+
+  add(files: File[]) {
+    const added = files.map((file): UploadItem => {
+      const error = validatePdfFile(file);
+      return {
+        id: `upload-${Date.now()}-${++nextId}`,
+        file,
+        fileName: file.name,
+        fileSize: file.size,
+        title: titleFromFileName(file.name),
+        status: error ? 'failed' : 'queued',
+        uploadProgress: 0,
+        error: error ?? undefined,
+        retryable: !error,
+      };
+    });
+    this.setItems([...this.items, ...added]);
+    this.pump();
+  }
+
+  /**
+   * Brings back uploads saved before a reload and keeps following
+   * the jobs that were still running
+   */
+  restore(saved: UploadItem[]) {
+    const known = new Set(this.items.map((item) => item.id));
+    const restored = saved.filter((item) => !known.has(item.id));
+    this.setItems([...restored, ...this.items]);
+
+    for (const item of restored) {
+      if (item.status === 'processing' && item.job) {
+        this.follow(item.id, item.job).finally(() => this.pump());
+      }
+    }
+  }
+
+  rename(id: string, title: string) {
+    this.update(id, (item) => (item.status === 'queued' ? { ...item, title } : item));
+  }
+
+  retry(id: string) {
+    this.update(id, (item) =>
+      (item.status === 'failed' || item.status === 'cancelled') && item.retryable
+        ? {
+            ...item,
+            status: 'queued',
+            uploadProgress: 0,
+            job: undefined,
+            error: undefined,
+            retryAfterSeconds: undefined,
+          }
+        : item
+    );
+    this.pump();
+  }
+
+  /**
+   * Stops a queued, uploading or processing item. A job that already reached
+   * the backend is cancelled there too, which rolls back its chunks.
+   */
+  cancel(id: string) {
+    const item = this.items.find((i) => i.id === id);
+    if (!item || (item.status !== 'queued' && !isActive(item))) return;
+
+    this.controllers.get(id)?.abort();
+    this.update(id, (i) => ({
+      ...i,
+      status: 'cancelled',
+      error: undefined,
+      retryable: i.file !== undefined,
+    }));
+    if (item.job) {
+      this.cancelJob(item.job.jobId).catch((error) =>
+        console.warn('Could not cancel ingestion job:', error)
+      );
+    }
+    this.pump();
+  }
+
+  remove(id: string) {
+    this.setItems(this.items.filter((item) => item.id !== id || isActive(item)));
+  }
+
+  clearFinished() {
+    this.setItems(this.items.filter((item) => item.status === 'queued' || isActive(item)));
+  }
+
+  private pump() {
+    let running = this.items.filter(isActive).length;
+
+    for (const item of this.items) {
+      if (running >= this.concurrency) break;
+      if (item.status !== 'queued') continue;
+      running++;
+      this.start(item);
+    }
+  }
+
+  private async start(item: UploadItem) {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.update(item.id, (i) => ({ ...i, status: 'uploading', uploadProgress: 0 }));
+
+    let job: IngestionJob;
+    try {
+      job = await this.upload(item, {
+        onUploadProgress: (fraction) =>
+          this.update(item.id, (i) => ({ ...i, uploadProgress: fraction })),
+        onUploaded: () =>
+          this.update(item.id, (i) => ({ ...i, status: 'processing', uploadProgress: 1 })),
+        signal: controller.signal,
+      });
+      this.update(item.id, (i) => ({ ...i, status: 'processing', uploadProgress: 1, job }));
+    } catch (error) {
+      this.controllers.delete(item.id);
+      if (!controller.signal.aborted) this.fail(item.id, error);
+      this.pump();
+      return;
+    }
+
+    await this.follow(item.id, job, controller);
+    this.pump();
+  }
+
+  private async follow(id: string, job: IngestionJob, controller = new AbortController()) {
+    this.controllers.set(id, controller);
+    try {
+      const finished = await this.watch(
+        job,
+        (next) => this.update(id, (i) => ({ ...i, job: next })),
+        controller.signal
+      );
+      if (finished.stage === 'failed') {
+        throw new Error(finished.error || 'Ingestion failed');
+      }
+      this.update(id, (i) => ({ ...i, status: 'done', job: finished, result: resultFromJob(finished) }));
+    } catch (error) {
+      // Cancelled items keep their status
+      if (!controller.signal.aborted) this.fail(id, error);
+    } finally {
+      this.controllers.delete(id);
+    }
+  }
+
+  private fail(id: string, error: unknown) {
+    this.update(id, (i) => ({
+      ...i,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Upload failed',
+      retryAfterSeconds: error instanceof ApiError ? error.retryAfterSeconds : undefined,
+      retryable: i.file !== undefined,
+    }));
+  }
+
+  private update(id: string, change: (item: UploadItem) => UploadItem) {
+    this.setItems(this.items.map((item) => (item.id === id ? change(item) : item)));
+  }
+
+  private setItems(items: UploadItem[]) {
+    this.items = items;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function isActive(item: UploadItem) {
+  return item.status === 'uploading' || item.status === 'processing';
+}
+
+/**
+ * Totals for a finished batch, or null while files are still queued or running.
+ * Cancelled files don't count.
+ */
+export function summarizeBatch(items: UploadItem[]): BatchSummary | null {
+  const settled = items.filter((item) => item.status !== 'cancelled');
+  if (settled.length === 0 || settled.some((item) => item.status === 'queued' || isActive(item))) {
+    return null;
+  }
+
+  const done = settled.filter((item) => item.status === 'done');
+  return {
+    total: settled.length,
+    succeeded: done.length,
+    failed: settled.length - done.length,
+    totalChunks: done.reduce((sum, item) => sum + (item.result?.chunkCount ?? 0), 0),
+    totalCharacters: done.reduce((sum, item) => sum + (item.result?.extractedTextLength ?? 0), 0),
+  };
+}
+
+const EMPTY: UploadItem[] = [];
+
+export const getServerSnapshot = () => EMPTY;
+
+let sharedQueue: UploadQueue | null = null;
+
+const uploadWithLogging: Uploader = async (item, callbacks) => {
+  console.log('📤 [PDF Upload] Starting upload...', {
+    filename: item.fileName,
+    size: item.fileSize,
+    title: item.title,
+  });
+  try {
+    const job = await uploadPdf(item.file!, item.title, callbacks);
+    console.log('✅ [PDF Upload] Queued for ingestion', { jobId: job.jobId });
+    return job;
+  } catch (err) {
+    if (callbacks.signal.aborted) throw err;
+    const message = describeUploadError(err);
+    console.error('❌ [PDF Upload] Failed:', message, err);
+    // Keeps the Retry-After of a rate-limited upload
+    throw err instanceof ApiError
+      ? new ApiError(message, err.status, undefined, err.code, err.retryAfterSeconds)
+      : new Error(message);
+  }
+};
+
+/**
+ * The app-wide upload queue. It lives outside React so uploads keep going
+ * while PdfUpload is unmounted; trackUploads() saves its running jobs.
+ */
+export function getUploadQueue(): UploadQueue {
+  if (sharedQueue) return sharedQueue;
+
+  const queue = new UploadQueue(
+    uploadWithLogging,
+    (job, onUpdate, signal) => watchIngestionJob(job, { onUpdate, signal }),
+    cancelIngestionJob,
+    uploadConcurrency
+  );
+  // Rendered on the server too; only the browser instance is shared
+  if (typeof window === 'undefined') return queue;
+
+  sharedQueue = queue;
+  return queue;
+}
+
+let tracking = false;
+
+/**
+ * Restores the uploads saved before a reload into the shared queue, once,
+ * and saves every change from then on, so running jobs pick up their
+ * progress again. Called from an effect: the queue is created during render,
+ * before SessionProvider has picked the signed-in user's storage key.
+ */
+export function trackUploads(queue: UploadQueue) {
+  if (tracking || queue !== sharedQueue) return;
+  tracking = true;
+
+  queue.restore(loadTrackedUploads());
+  queue.subscribe(() => saveTrackedUploads(queue.getSnapshot()));
+}
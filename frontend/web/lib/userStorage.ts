@@ -0,0 +1,25 @@
+/**
+ * localStorage keys of the browser stores kept per signed-in user
+ * (conversation history, tracked uploads).
+ */
+
+/**
+ * The key of `username`'s copy of a store (null: signed out, the bare key).
+ * Data saved under the bare key before sign-in existed is moved to the
+ * first user who signs in on this browser, so it isn't lost or shared.
+ */
+export function claimUserStorageKey(baseKey: string, username: string | null): string {
+  if (!username) return baseKey;
+
+  const key = `${baseKey}:${username}`;
+  try {
+    const legacy = window.localStorage.getItem(baseKey);
+    if (legacy !== null && window.localStorage.getItem(key) === null) {
+      window.localStorage.setItem(key, legacy);
+      window.localStorage.removeItem(baseKey);
+    }
+  } catch (error) {
+    console.warn(`Could not move ${baseKey} to ${username}:`, error);
+  }
+  return key;
+}
@@ -0,0 +1,79 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { User } from '@/types';
+import { dataFilePath } from './jsonlFile';
+
+/**
+ * Local user accounts for the credentials login, stored as a JSON array
+ * next to the Next.js server (USERS_FILE). Managed with `npm run add-user`.
+ */
+
+interface StoredUser extends User {
+  /** scrypt:<salt hex>:<hash hex> */
+  passwordHash: string;
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+const usersFile = () => dataFilePath(process.env.USERS_FILE, 'data/users.json');
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+async function readUsers(): Promise<StoredUser[]> {
+  try {
+    return JSON.parse(await readFile(usersFile(), 'utf8')) as StoredUser[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+const toUser = ({ username, displayName, workspace }: StoredUser): User => ({ username, displayName, workspace });
+
+/**
+ * The user for a username/password pair, or null. Unknown usernames take as
+ * long as wrong passwords so they can't be told apart by timing.
+ */
+export async function authenticate(username: string, password: string): Promise<User | null> {
+  const user = (await readUsers()).find((u) => u.username === username.trim().toLowerCase());
+  if (!user) {
+    await hashPassword(password);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? toUser(user) : null;
+}
+
+/**
+ * Adds a user or replaces one with the same username
+ */
+export async function saveUser({ password, ...user }: User & { password: string }): Promise<User> {
+  const stored: StoredUser = {
+    username: user.username.trim().toLowerCase(),
+    displayName: user.displayName.trim() || user.username,
+    workspace: user.workspace.trim(),
+    passwordHash: await hashPassword(password),
+  };
+
+  const users = (await readUsers()).filter((u) => u.username !== stored.username);
+  const file = usersFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify([...users, stored], null, 2) + '\n', 'utf8');
+  return toUser(stored);
+}
@@ -0,0 +1,655 @@
+import type {
+  AnalyticsResponse,
+  ApiErrorCode,
+  ApiErrorResponse,
+  AskRequest,
+  AskResponse,
+  ChunkCitationCount,
+  ChunkNeighboursResponse,
+  ConfidenceInfo,
+  ConversationExport,
+  DeleteDocumentResponse,
+  DocumentCitationCount,
+  DocumentChunk,
+  DocumentChunksResponse,
+  DocumentListResponse,
+  DocumentSummary,
+  DocumentTags,
+  DocumentTagsEntry,
+  DocumentTagsResponse,
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationRun,
+  ExportedMessage,
+  FeedbackEntry,
+  FeedbackListResponse,
+  FeedbackSubmission,
+  IngestionJob,
+  LoginRequest,
+  RetrievalSettings,
+  SearchHit,
+  SearchRequest,
+  SearchResponse,
+  SimilarityHistogram,
+  Source,
+  UploadResult,
+  User,
+} from '@/types';
+
+/**
+ * Thrown when a backend response doesn't match the shape in types/index.ts.
+ * Failing here is better than rendering `undefined` in the chat.
+ */
+export class ResponseValidationError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly path: string,
+    readonly expected: string
+  ) {
+    super(`Invalid response from ${endpoint}: expected ${path} to be ${expected}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+class Reader {
+  constructor(
+    private readonly endpoint: string,
+    private readonly path: string,
+    private readonly value: Fields
+  ) {}
+
+  static root(endpoint: string, value: unknown, name = 'response'): Reader {
+    return Reader.object(endpoint, name, value);
+  }
+
+  private static object(endpoint: string, path: string, value: unknown): Reader {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ResponseValidationError(endpoint, path, 'an object');
+    }
+    return new Reader(endpoint, path, value as Fields);
+  }
+
+  private fail(key: string, expected: string): never {
+    throw new ResponseValidationError(this.endpoint, `${this.path}.${key}`, expected);
+  }
+
+  string(key: string): string {
+    const value = this.value[key];
+    return typeof value === 'string' ? value : this.fail(key, 'a string');
+  }
+
+  optionalString(key: string): string | undefined {
+    const value = this.value[key];
+    if (value === undefined || value === null) return undefined;
+    return typeof value === 'string' ? value : this.fail(key, 'a string');
+  }
+
+  number(key: string): number {
+    const value = this.value[key];
+    return typeof value === 'number' && Number.isFinite(value)
+      ? value
+      : this.fail(key, 'a number');
+  }
+
+  optionalNumber(key: string): number | undefined {
+    const value = this.value[key];
+    if (value === undefined || value === null) return undefined;
+    return this.number(key);
+  }
+
+  optionalBoolean(key: string): boolean | undefined {
+    const value = this.value[key];
+    if (value === undefined || value === null) return undefined;
+    return this.boolean(key);
+  }
+
+  boolean(key: string): boolean {
+    const value = this.value[key];
+    return typeof value === 'boolean' ? value : this.fail(key, 'a boolean');
+  }
+
+  oneOf<T extends string>(key: string, allowed: readonly T[]): T {
+    const value = this.value[key];
+    return allowed.includes(value as T)
+      ? (value as T)
+      : this.fail(key, `one of ${allowed.join(', ')}`);
+  }
+
+  child(key: string): Reader {
+    return Reader.object(this.endpoint, `${this.path}.${key}`, this.value[key]);
+  }
+
+  optionalChild(key: string): Reader | undefined {
+    const value = this.value[key];
+    return value === undefined || value === null ? undefined : this.child(key);
+  }
+
+  optionalStringList(key: string): string[] | undefined {
+    const value = this.value[key];
+    return value === undefined || value === null ? undefined : this.stringList(key);
+  }
+
+  stringList(key: string): string[] {
+    const value = this.value[key];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      this.fail(key, 'an array of strings');
+    }
+    return value as string[];
+  }
+
+  numberList(key: string): number[] {
+    const value = this.value[key];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'number' || !Number.isFinite(item))) {
+      this.fail(key, 'an array of numbers');
+    }
+    return value as number[];
+  }
+
+  optionalList(key: string): Reader[] | undefined {
+    const value = this.value[key];
+    return value === undefined || value === null ? undefined : this.list(key);
+  }
+
+  list(key: string): Reader[] {
+    const value = this.value[key];
+    if (!Array.isArray(value)) this.fail(key, 'an array');
+    return value.map((item, index) =>
+      Reader.object(this.endpoint, `${this.path}.${key}[${index}]`, item)
+    );
+  }
+}
+
+const API_ERROR_CODES: readonly ApiErrorCode[] = [
+  'validation',
+  'backend-unreachable',
+  'timeout',
+  'llm-failure',
+  'invalid-response',
+  'not-found',
+  'cancelled',
+  'unauthorized',
+  'rate-limited',
+  'backend-error',
+  'internal',
+];
+
+function readConfidence(r: Reader): ConfidenceInfo {
+  return {
+    level: r.oneOf('level', ['high', 'low', 'none'] as const),
+    maxSimilarity: r.number('maxSimilarity'),
+    averageSimilarity: r.number('averageSimilarity'),
+    explanation: r.optionalString('explanation'),
+  };
+}
+
+function readSource(r: Reader): Source {
+  return {
+    chunkId: r.string('chunkId'),
+    documentId: r.string('documentId'),
+    documentTitle: r.string('documentTitle'),
+    chunkIndex: r.number('chunkIndex'),
+    similarityScore: r.number('similarityScore'),
+    contentPreview: r.string('contentPreview'),
+  };
+}
+
+function readRetrievalSettings(r: Reader): RetrievalSettings {
+  return {
+    topK: r.number('topK'),
+    minSimilarity: r.number('minSimilarity'),
+    documentIds: r.stringList('documentIds'),
+  };
+}
+
+function readFeedbackSubmission(r: Reader): FeedbackSubmission {
+  const settings = r.optionalChild('retrievalSettings');
+  return {
+    messageId: r.string('messageId'),
+    rating: r.oneOf('rating', ['up', 'down'] as const),
+    comment: r.optionalString('comment'),
+    question: r.string('question'),
+    answer: r.string('answer'),
+    conversationId: r.optionalString('conversationId') ?? null,
+    language: r.optionalString('language'),
+    confidence: readConfidence(r.child('confidence')),
+    sources: r.list('sources').map(readSource),
+    retrievalSettings: settings && readRetrievalSettings(settings),
+  };
+}
+
+function readHistogram(r: Reader): SimilarityHistogram {
+  return {
+    binWidth: r.number('binWidth'),
+    counts: r.numberList('counts'),
+  };
+}
+
+function readDocumentCitation(r: Reader): DocumentCitationCount {
+  return {
+    documentId: r.string('documentId'),
+    documentTitle: r.string('documentTitle'),
+    citations: r.number('citations'),
+    averageSimilarity: r.number('averageSimilarity'),
+  };
+}
+
+function readChunkCitation(r: Reader): ChunkCitationCount {
+  return {
+    ...readDocumentCitation(r),
+    chunkId: r.string('chunkId'),
+    chunkIndex: r.number('chunkIndex'),
+    contentPreview: r.string('contentPreview'),
+  };
+}
+
+function readExportedMessage(r: Reader): ExportedMessage {
+  const confidence = r.optionalChild('confidence');
+  const settings = r.optionalChild('retrievalSettings');
+  const feedback = r.optionalChild('feedback');
+  const error = r.optionalChild('error');
+  return {
+    id: r.string('id'),
+    role: r.oneOf('role', ['user', 'assistant'] as const),
+    content: r.string('content'),
+    timestamp: r.string('timestamp'),
+    language: r.optionalString('language'),
+    confidence: confidence && readConfidence(confidence),
+    sources: r.optionalList('sources')?.map(readSource),
+    isCancelled: r.optionalBoolean('isCancelled'),
+    retrievalSettings: settings && readRetrievalSettings(settings),
+    cached: r.optionalBoolean('cached'),
+    feedback: feedback && {
+      rating: feedback.oneOf('rating', ['up', 'down'] as const),
+      comment: feedback.optionalString('comment'),
+    },
+    error: error && {
+      code: error.oneOf('code', API_ERROR_CODES),
+      message: error.string('message'),
+      conversationId: error.optionalString('conversationId') ?? null,
+      retryAfterSeconds: error.optionalNumber('retryAfterSeconds'),
+    },
+  };
+}
+
+function readSearchHit(r: Reader): SearchHit {
+  return {
+    chunkId: r.string('chunkId'),
+    documentId: r.string('documentId'),
+    documentTitle: r.string('documentTitle'),
+    chunkIndex: r.number('chunkIndex'),
+    content: r.string('content'),
+    similarityScore: r.number('similarityScore'),
+    preview: r.string('preview'),
+  };
+}
+
+function readDocumentSummary(r: Reader): DocumentSummary {
+  return {
+    documentId: r.string('documentId'),
+    title: r.string('title'),
+    uploadDate: r.string('uploadDate'),
+    chunkCount: r.number('chunkCount'),
+    originalFilename: r.optionalString('originalFilename'),
+    fileSizeBytes: r.optionalNumber('fileSizeBytes'),
+    uploadedBy: r.optionalString('uploadedBy'),
+    workspace: r.optionalString('workspace'),
+  };
+}
+
+function readDocumentChunk(r: Reader): DocumentChunk {
+  return {
+    chunkId: r.string('chunkId'),
+    chunkIndex: r.number('chunkIndex'),
+    content: r.string('content'),
+    tokenCount: r.optionalNumber('tokenCount'),
+    chunkType: r.string('chunkType'),
+    articleNumber: r.optionalString('articleNumber'),
+    articleTitle: r.optionalString('articleTitle'),
+  };
+}
+
+export function parseAskResponse(value: unknown, endpoint = 'ask'): AskResponse {
+  const r = Reader.root(endpoint, value);
+  const sources = r.list('sources').map(readSource);
+  return {
+    question: r.string('question'),
+    answer: r.string('answer'),
+    conversationId: r.string('conversationId'),
+    language: r.string('language'),
+    confidence: readConfidence(r.child('confidence')),
+    sources,
+    sourceCount: r.number('sourceCount'),
+    cached: r.optionalBoolean('cached'),
+  };
+}
+
+/**
+ * Validates an ask POST body before it is forwarded; failures become 400s
+ */
+export function parseAskRequest(value: unknown, endpoint = 'ask'): AskRequest {
+  const r = Reader.root(endpoint, value, 'body');
+  const question = r.string('question');
+  if (question.trim() === '') {
+    throw new ResponseValidationError(endpoint, 'body.question', 'a non-empty string');
+  }
+  return {
+    question,
+    conversationId: r.optionalString('conversationId') ?? null,
+    topK: r.optionalNumber('topK'),
+    minSimilarity: r.optionalNumber('minSimilarity'),
+    documentIds: r.optionalStringList('documentIds'),
+  };
+}
+
+/**
+ * Validates a login POST body; failures become 400s in the route
+ */
+export function parseLoginRequest(value: unknown, endpoint = 'login'): LoginRequest {
+  const r = Reader.root(endpoint, value, 'body');
+  return {
+    username: r.string('username'),
+    password: r.string('password'),
+  };
+}
+
+export function parseUser(value: unknown, endpoint = 'user'): User {
+  const r = Reader.root(endpoint, value);
+  return {
+    username: r.string('username'),
+    displayName: r.string('displayName'),
+    workspace: r.string('workspace'),
+  };
+}
+
+/**
+ * Validates a search POST body; failures become 400s in the route
+ */
+export function parseSearchRequest(value: unknown, endpoint = 'search'): SearchRequest {
+  const r = Reader.root(endpoint, value, 'body');
+  const query = r.string('query');
+  if (query.trim() === '') {
+    throw new ResponseValidationError(endpoint, 'body.query', 'a non-empty string');
+  }
+  return {
+    query,
+    topK: r.optionalNumber('topK'),
+    similarityThreshold: r.optionalNumber('similarityThreshold'),
+  };
+}
+
+/**
+ * Reads the error body of a failed /api/rag/* response
+ */
+export function parseApiErrorResponse(value: unknown, endpoint = 'api'): ApiErrorResponse {
+  const r = Reader.root(endpoint, value, 'error response');
+  return {
+    code: r.oneOf('code', API_ERROR_CODES),
+    error: r.string('error'),
+    details: r.optionalString('details'),
+  };
+}
+
+export function parseUploadResult(value: unknown, endpoint = 'ingest'): UploadResult {
+  const r = Reader.root(endpoint, value);
+  return {
+    success: r.boolean('success'),
+    documentId: r.string('documentId'),
+    documentTitle: r.string('documentTitle'),
+    chunkCount: r.number('chunkCount'),
+    extractedTextLength: r.number('extractedTextLength'),
+    message: r.string('message'),
+  };
+}
+
+export function parseSearchResponse(value: unknown, endpoint = 'search'): SearchResponse {
+  const r = Reader.root(endpoint, value);
+  return {
+    query: r.string('query'),
+    resultCount: r.number('resultCount'),
+    topK: r.number('topK'),
+    similarityThreshold: r.number('similarityThreshold'),
+    results: r.list('results').map(readSearchHit),
+  };
+}
+
+export function parseDocumentList(value: unknown, endpoint = 'documents'): DocumentListResponse {
+  const r = Reader.root(endpoint, value);
+  return {
+    totalDocuments: r.number('totalDocuments'),
+    documents: r.list('documents').map(readDocumentSummary),
+  };
+}
+
+export function parseDocumentChunks(value: unknown, endpoint = 'document chunks'): DocumentChunksResponse {
+  const r = Reader.root(endpoint, value);
+  return {
+    document: readDocumentSummary(r.child('document')),
+    offset: r.number('offset'),
+    limit: r.number('limit'),
+    chunks: r.list('chunks').map(readDocumentChunk),
+  };
+}
+
+export function parseChunkNeighbours(
+  value: unknown,
+  endpoint = 'chunk neighbours'
+): ChunkNeighboursResponse {
+  const r = Reader.root(endpoint, value);
+  return {
+    document: readDocumentSummary(r.child('document')),
+    chunkIndex: r.number('chunkIndex'),
+    radius: r.number('radius'),
+    firstChunkIndex: r.number('firstChunkIndex'),
+    lastChunkIndex: r.number('lastChunkIndex'),
+    chunks: r.list('chunks').map(readDocumentChunk),
+  };
+}
+
+/**
+ * The conversationId of a conversation started from a cached answer
+ */
+export function parseStartedConversation(value: unknown, endpoint = 'conversations'): string {
+  return Reader.root(endpoint, value).string('conversationId');
+}
+
+export function parseDeleteDocument(value: unknown, endpoint = 'delete document'): DeleteDocumentResponse {
+  const r = Reader.root(endpoint, value);
+  return {
+    success: r.boolean('success'),
+    documentId: r.string('documentId'),
+  };
+}
+
+/**
+ * Validates a document tags PUT body; failures become 400s in the route
+ */
+export function parseDocumentTags(value: unknown, endpoint = 'document tags'): DocumentTags {
+  const r = Reader.root(endpoint, value, 'body');
+  return {
+    documentId: r.string('documentId'),
+    tags: r.stringList('tags'),
+  };
+}
+
+export function parseDocumentTagsResponse(value: unknown, endpoint = 'document tags'): DocumentTagsResponse {
+  const r = Reader.root(endpoint, value);
+  return {
+    documents: r.list('documents').map(
+      (entry): DocumentTagsEntry => ({
+        documentId: entry.string('documentId'),
+        tags: entry.stringList('tags'),
+        updatedAt: entry.string('updatedAt'),
+      })
+    ),
+  };
+}
+
+export function parseIngestionJob(value: unknown, endpoint = 'ingestion job'): IngestionJob {
+  const r = Reader.root(endpoint, value);
+  return {
+    jobId: r.string('jobId'),
+    fileName: r.string('fileName'),
+    documentTitle: r.string('documentTitle'),
+    uploadedBy: r.optionalString('uploadedBy'),
+    workspace: r.optionalString('workspace'),
+    stage: r.oneOf('stage', [
+      'queued',
+      'extracting',
+      'chunking',
+      'embedding',
+      'saving',
+      'completed',
+      'failed',
+    ] as const),
+    processedChunks: r.number('processedChunks'),
+    totalChunks: r.number('totalChunks'),
+    extractedTextLength: r.number('extractedTextLength'),
+    documentId: r.optionalString('documentId'),
+    error: r.optionalString('error'),
+    createdAt: r.string('createdAt'),
+    updatedAt: r.string('updatedAt'),
+  };
+}
+
+/**
+ * Validates a feedback POST body; failures become 400s in the route
+ */
+export function parseFeedbackSubmission(value: unknown, endpoint = 'feedback'): FeedbackSubmission {
+  return readFeedbackSubmission(Reader.root(endpoint, value, 'body'));
+}
+
+export function parseFeedbackList(value: unknown, endpoint = 'feedback'): FeedbackListResponse {
+  const r = Reader.root(endpoint, value);
+  return {
+    total: r.number('total'),
+    entries: r.list('entries').map(
+      (entry): FeedbackEntry => ({
+        ...readFeedbackSubmission(entry),
+        id: entry.string('id'),
+        ratedBy: entry.optionalString('ratedBy'),
+        workspace: entry.optionalString('workspace'),
+        createdAt: entry.string('createdAt'),
+      })
+    ),
+  };
+}
+
+export function parseAnalyticsResponse(value: unknown, endpoint = 'analytics'): AnalyticsResponse {
+  const r = Reader.root(endpoint, value);
+  const thresholds = r.child('thresholds');
+  const summary = r.child('summary');
+  const levels = summary.child('levels');
+  return {
+    since: r.optionalString('since') ?? null,
+    thresholds: {
+      minAnswerSimilarity: thresholds.number('minAnswerSimilarity'),
+      lowConfidence: thresholds.number('lowConfidence'),
+    },
+    summary: {
+      total: summary.number('total'),
+      levels: { high: levels.number('high'), low: levels.number('low'), none: levels.number('none') },
+      daily: summary.list('daily').map((day) => ({
+        date: day.string('date'),
+        high: day.number('high'),
+        low: day.number('low'),
+        none: day.number('none'),
+      })),
+      maxSimilarity: readHistogram(summary.child('maxSimilarity')),
+      averageSimilarity: readHistogram(summary.child('averageSimilarity')),
+      topDocuments: summary.list('topDocuments').map(readDocumentCitation),
+      topChunks: summary.list('topChunks').map(readChunkCitation),
+      noInfoQuestions: summary.list('noInfoQuestions').map((question) => ({
+        question: question.string('question'),
+        createdAt: question.string('createdAt'),
+        maxSimilarity: question.number('maxSimilarity'),
+        language: question.optionalString('language'),
+      })),
+    },
+  };
+}
+
+/**
+ * Reads a conversation file produced by the JSON export
+ */
+export function parseConversationExport(value: unknown, endpoint = 'conversation file'): ConversationExport {
+  const r = Reader.root(endpoint, value, 'file');
+  r.oneOf('format', ['rag-conversation'] as const);
+  if (r.number('version') !== 1) {
+    throw new ResponseValidationError(endpoint, 'file.version', '1');
+  }
+  const c = r.child('conversation');
+  const settings = c.optionalChild('retrievalSettings');
+  return {
+    format: 'rag-conversation',
+    version: 1,
+    exportedAt: r.string('exportedAt'),
+    conversation: {
+      title: c.string('title'),
+      conversationId: c.optionalString('conversationId') ?? null,
+      retrievalSettings: settings && readRetrievalSettings(settings),
+      createdAt: c.string('createdAt'),
+      updatedAt: c.string('updatedAt'),
+      messages: c.list('messages').map(readExportedMessage),
+    },
+  };
+}
+
+/**
+ * Reads one question of an evaluation test set (YAML entry or JSONL line)
+ */
+export function parseEvaluationCase(value: unknown, endpoint = 'test set', name = 'case'): EvaluationCase {
+  const r = Reader.root(endpoint, value, name);
+  return {
+    id: r.string('id'),
+    question: r.string('question'),
+    expectedDocumentIds: r.optionalStringList('expectedDocumentIds'),
+    expectedPhrases: r.optionalStringList('expectedPhrases'),
+    topK: r.optionalNumber('topK'),
+    minSimilarity: r.optionalNumber('minSimilarity'),
+    documentIds: r.optionalStringList('documentIds'),
+  };
+}
+
+function readEvaluationCaseResult(r: Reader): EvaluationCaseResult {
+  const confidence = r.optionalChild('confidence');
+  return {
+    id: r.string('id'),
+    question: r.string('question'),
+    confidence: confidence && readConfidence(confidence),
+    language: r.optionalString('language'),
+    retrievedDocumentIds: r.stringList('retrievedDocumentIds'),
+    firstHitRank: r.optionalNumber('firstHitRank') ?? null,
+    expectedDocumentCount: r.number('expectedDocumentCount'),
+    phrasesFound: r.stringList('phrasesFound'),
+    phrasesMissing: r.stringList('phrasesMissing'),
+    durationMs: r.number('durationMs'),
+    error: r.optionalString('error'),
+  };
+}
+
+/**
+ * Reads a saved evaluation run for diff mode. The summary is recomputed from
+ * the results, so only the per-case fields are checked here.
+ */
+export function parseEvaluationRun(
+  value: unknown,
+  endpoint = 'evaluation run'
+): Omit<EvaluationRun, 'summary'> {
+  const r = Reader.root(endpoint, value, 'run');
+  r.oneOf('format', ['rag-evaluation'] as const);
+  if (r.number('version') !== 1) {
+    throw new ResponseValidationError(endpoint, 'run.version', '1');
+  }
+  return {
+    format: 'rag-evaluation',
+    version: 1,
+    testSet: r.string('testSet'),
+    baseUrl: r.string('baseUrl'),
+    startedAt: r.string('startedAt'),
+    finishedAt: r.string('finishedAt'),
+    kValues: r.numberList('kValues'),
+    results: r.list('results').map(readEvaluationCaseResult),
+  };
+}
@@ -0,0 +1,71 @@
+import type { DocumentSummary, IngestionJob, User } from '@/types';
+import { ApiError } from './apiClient';
+import { apiClient } from './backend';
+
+/**
+ * Workspace-private documents. The backend knows nothing about users, so
+ * the proxies narrow every request to the documents the signed-in user's
+ * workspace may see. Documents without a workspace (uploaded before sign-in
+ * existed) stay visible to everyone.
+ */
+
+/**
+ * Matches no document; an empty documentIds list would mean all of them
+ */
+export const NO_DOCUMENTS = '00000000-0000-0000-0000-000000000000';
+
+export function canSeeDocument(document: Pick<DocumentSummary, 'workspace'>, user: User | null): boolean {
+  return !user || !document.workspace || document.workspace === user.workspace;
+}
+
+export const visibleDocuments = (documents: DocumentSummary[], user: User | null) =>
+  documents.filter((document) => canSeeDocument(document, user));
+
+/**
+ * Whether a record the server keeps itself (feedback, answer logs, tags)
+ * is listed for `workspace`; every record is when it is missing
+ */
+export const inWorkspace = (record: { workspace?: string }, workspace: string | undefined) =>
+  !workspace || !record.workspace || record.workspace === workspace;
+
+/**
+ * 404 for a document of another workspace, so its existence isn't revealed
+ */
+export function assertVisible(document: DocumentSummary, user: User | null): void {
+  if (!canSeeDocument(document, user)) {
+    throw new ApiError('Document not found', 404, `Document ${document.documentId} not found`, 'not-found');
+  }
+}
+
+/**
+ * 404 for an ingestion job of another workspace, the same as for the
+ * document it creates
+ */
+export function assertJobVisible(job: IngestionJob, user: User | null): void {
+  if (!canSeeDocument(job, user)) {
+    throw new ApiError('Ingestion job not found', 404, `Ingestion job ${job.jobId} not found`, 'not-found');
+  }
+}
+
+/**
+ * The documentIds to send with an ask or search request: the requested
+ * scope (or everything) minus the documents hidden from the user.
+ * Unchanged when nothing is hidden.
+ */
+export async function scopeToWorkspace(
+  documentIds: string[] | undefined,
+  user: User | null,
+  signal?: AbortSignal
+): Promise<string[] | undefined> {
+  if (!user) return documentIds;
+
+  const { documents } = await apiClient.listDocuments({ signal });
+  const visible = visibleDocuments(documents, user);
+  if (visible.length === documents.length) return documentIds;
+
+  const visibleIds = new Set(visible.map((document) => document.documentId));
+  const scoped = documentIds?.length
+    ? documentIds.filter((id) => visibleIds.has(id))
+    : [...visibleIds];
+  return scoped.length > 0 ? scoped : [NO_DOCUMENTS];
+}
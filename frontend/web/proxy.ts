@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { encodeUserHeader, readSessionToken, SESSION_COOKIE, USER_HEADER } from '@/lib/auth';
+import type { ApiErrorResponse } from '@/types';
+
+/**
+ * Sign-in gate (Next.js middleware, called proxy since Next 16). Every page
+ * and API route needs a valid session cookie except the login page and the
+ * login endpoint. API calls get a 401 envelope, pages a redirect to /login.
+ * Authenticated requests carry the user to the route handlers in USER_HEADER.
+ */
+
+const PUBLIC_PATHS = new Set(['/login', '/api/auth/login']);
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const headers = new Headers(request.headers);
+  // Only this proxy may say who the user is
+  headers.delete(USER_HEADER);
+
+  const user = readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (user) {
+    headers.set(USER_HEADER, encodeUserHeader(user));
+    return NextResponse.next({ request: { headers } });
+  }
+
+  if (PUBLIC_PATHS.has(pathname)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  if (pathname.startsWith('/api/')) {
+    const body: ApiErrorResponse = { code: 'unauthorized', error: 'Sign in required' };
+    return NextResponse.json(body, { status: 401 });
+  }
+
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Everything but Next.js assets and the favicon
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
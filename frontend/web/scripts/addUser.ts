@@ -0,0 +1,59 @@
+/**
+ * Adds a user to the local user store (USERS_FILE, default data/users.json),
+ * or resets the password of an existing one.
+ *
+ *   npm run add-user -- <username> --workspace <name> [--name "Display Name"] [--password <password>]
+ *
+ * Without --password the password is read from stdin.
+ */
+import { createInterface } from 'node:readline/promises';
+import { parseArgs } from 'node:util';
+import { saveUser } from '@/lib/userStore';
+
+const USAGE = `Usage:
+  add-user <username> --workspace <name> [--name <display name>] [--password <password>]`;
+
+async function readPassword(): Promise<string> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return await prompt.question('Password: ');
+  } finally {
+    prompt.close();
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      workspace: { type: 'string' },
+      name: { type: 'string' },
+      password: { type: 'string' },
+    },
+  });
+  const [username] = positionals;
+
+  if (positionals.length !== 1 || !values.workspace?.trim()) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  const password = values.password ?? (await readPassword());
+  if (password.length < 8) {
+    throw new Error('The password must be at least 8 characters');
+  }
+
+  const user = await saveUser({
+    username,
+    displayName: values.name ?? username,
+    workspace: values.workspace,
+    password,
+  });
+  console.error(`Saved ${user.username} (${user.displayName}) in workspace "${user.workspace}"`);
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,138 @@
+/**
+ * Offline evaluation CLI.
+ *
+ *   npm run eval -- run eval/questions.yaml [--url http://localhost:8080] [--session <cookie>] [--k 1,3,5] [--out file.json]
+ *   npm run eval -- diff baseline.json current.json [--out diff.md]
+ *
+ * `run` asks every question through the same ask API the chat uses and writes
+ * the results as JSON plus a Markdown table next to it. `--url` is the backend
+ * (BACKEND_URL by default) or the app; the app's proxy needs the value of a
+ * signed-in browser's session cookie (--session or RAG_SESSION). `diff`
+ * compares two saved runs. Both print their Markdown to stdout.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ApiError, createApiClient } from '@/lib/apiClient';
+import { SESSION_COOKIE } from '@/lib/auth';
+import { backendConfig } from '@/lib/config';
+import {
+  createRun,
+  DEFAULT_K_VALUES,
+  diffRuns,
+  diffToMarkdown,
+  parseRunFile,
+  parseTestSet,
+  runEvaluation,
+  runToMarkdown,
+} from '@/lib/evaluation';
+
+const USAGE = `Usage:
+  evaluate run <test-set.yaml|.jsonl> [--url <backend or app URL>] [--session <cookie>] [--k 1,3,5] [--out <run.json>]
+  evaluate diff <baseline.json> <current.json> [--out <diff.md>]`;
+
+async function writeOutput(file: string, content: string) {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, content, 'utf8');
+  console.error(`Wrote ${file}`);
+}
+
+function parseKValues(value: string | undefined): number[] {
+  if (value === undefined) return DEFAULT_K_VALUES;
+  const kValues = value.split(',').map((k) => Number(k.trim()));
+  if (kValues.some((k) => !Number.isInteger(k) || k < 1)) {
+    throw new Error(`--k expects positive integers, got "${value}"`);
+  }
+  return kValues;
+}
+
+/**
+ * Sends the session cookie with every request, for runs through the app's proxy
+ */
+function withSession(session: string | undefined): typeof fetch | undefined {
+  if (!session) return undefined;
+  return (input, init) => {
+    const headers = new Headers(init?.headers);
+    headers.set('Cookie', `${SESSION_COOKIE}=${session}`);
+    return fetch(input, { ...init, headers });
+  };
+}
+
+async function run(
+  testSetPath: string,
+  options: { url?: string; session?: string; k?: string; out?: string }
+) {
+  const cases = parseTestSet(await readFile(testSetPath, 'utf8'), testSetPath);
+  const kValues = parseKValues(options.k);
+  const baseUrl = (options.url ?? backendConfig.baseUrl).replace(/\/+$/, '');
+  const client = createApiClient(
+    { ...backendConfig, baseUrl },
+    { fetch: withSession(options.session ?? process.env.RAG_SESSION) }
+  );
+
+  console.error(`Evaluating ${cases.length} questions against ${baseUrl}`);
+  const startedAt = new Date().toISOString();
+  const results = await runEvaluation(cases, client, {
+    kValues,
+    onResult: (result, index) =>
+      console.error(
+        `[${index + 1}/${cases.length}] ${result.id}: ` +
+          (result.error ?? `${result.confidence?.level}, first hit ${result.firstHitRank ?? '-'}`) +
+          ` (${result.durationMs} ms)`
+      ),
+  }).catch((error) => {
+    if (error instanceof ApiError && error.code === 'unauthorized') {
+      throw new Error(`${baseUrl} requires sign-in: pass --session (or RAG_SESSION), or --url the backend`);
+    }
+    throw error;
+  });
+
+  const evaluation = createRun(
+    { testSet: testSetPath, baseUrl, startedAt, finishedAt: new Date().toISOString(), kValues },
+    results
+  );
+  const markdown = runToMarkdown(evaluation);
+
+  const out =
+    options.out ??
+    path.join('data', 'eval', `${path.parse(testSetPath).name}-${startedAt.replace(/[:.]/g, '-')}.json`);
+  await writeOutput(out, JSON.stringify(evaluation, null, 2) + '\n');
+  await writeOutput(out.replace(/\.json$/, '') + '.md', markdown);
+  console.log(markdown);
+}
+
+async function diff(baselinePath: string, currentPath: string, options: { out?: string }) {
+  const baseline = parseRunFile(await readFile(baselinePath, 'utf8'), baselinePath);
+  const current = parseRunFile(await readFile(currentPath, 'utf8'), currentPath);
+  const markdown = diffToMarkdown(diffRuns(baseline, current));
+
+  if (options.out) await writeOutput(options.out, markdown);
+  console.log(markdown);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      session: { type: 'string' },
+      k: { type: 'string' },
+      out: { type: 'string' },
+    },
+  });
+  const [command, ...files] = positionals;
+
+  if (command === 'run' && files.length === 1) {
+    await run(files[0], values);
+  } else if (command === 'diff' && files.length === 2) {
+    await diff(files[0], files[1], values);
+  } else {
+    console.error(USAGE);
+    process.exitCode = 2;
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
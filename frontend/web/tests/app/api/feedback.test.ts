@@ -0,0 +1,114 @@
+import { randomUUID } from 'node:crypto';
+import { rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET, POST } from '@/app/api/feedback/route';
+import { encodeUserHeader, USER_HEADER } from '@/lib/auth';
+import { mockAskResponses } from '@/lib/mockFixtures';
+import type { FeedbackEntry, FeedbackListResponse, FeedbackSubmission, User } from '@/types';
+
+const LEGAL: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+const HR: User = { username: 'mert', displayName: 'Mert', workspace: 'hr' };
+
+const { high, none } = mockAskResponses;
+
+const submission = (overrides: Partial<FeedbackSubmission> = {}): FeedbackSubmission => ({
+  messageId: '1760000000000',
+  rating: 'down',
+  comment: '  Cites the wrong article  ',
+  question: high.question,
+  answer: high.answer,
+  conversationId: high.conversationId,
+  language: high.language,
+  confidence: high.confidence,
+  sources: high.sources,
+  ...overrides,
+});
+
+const headers = (user: User) => ({ [USER_HEADER]: encodeUserHeader(user) });
+
+const rate = (body: unknown, user = LEGAL) =>
+  POST(
+    new NextRequest('http://localhost/api/feedback', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: headers(user),
+    })
+  );
+
+const list = (query = '', user = LEGAL) =>
+  GET(new NextRequest(`http://localhost/api/feedback${query}`, { headers: headers(user) }));
+
+let file: string;
+
+beforeEach(() => {
+  file = path.join(os.tmpdir(), 'rag-web-tests', `feedback-${randomUUID()}.jsonl`);
+  vi.stubEnv('FEEDBACK_FILE', file);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(file, { force: true });
+});
+
+describe('POST /api/feedback', () => {
+  it('stores the rating with the user and workspace, comment trimmed', async () => {
+    const response = await rate(submission());
+
+    expect(response.status).toBe(201);
+    const entry: FeedbackEntry = await response.json();
+    expect(entry).toMatchObject({
+      messageId: '1760000000000',
+      rating: 'down',
+      comment: 'Cites the wrong article',
+      ratedBy: 'ayse',
+      workspace: 'legal',
+    });
+    expect(entry.id).toBeDefined();
+  });
+
+  it('answers 400 for a malformed rating', async () => {
+    const response = await rate({ ...submission(), rating: 'meh' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'validation' });
+    expect((await (await list()).json()).total).toBe(0);
+  });
+});
+
+describe('GET /api/feedback', () => {
+  it("lists only the user's workspace", async () => {
+    await rate(submission({ messageId: '1' }), LEGAL);
+    await rate(submission({ messageId: '2' }), HR);
+
+    const body: FeedbackListResponse = await (await list('', HR)).json();
+
+    expect(body.total).toBe(1);
+    expect(body.entries[0]).toMatchObject({ messageId: '2', ratedBy: 'mert' });
+  });
+
+  it('filters by confidence and rating, ignoring unknown values', async () => {
+    await rate(submission({ messageId: '1', rating: 'up' }));
+    await rate(submission({ messageId: '2', rating: 'down', confidence: none.confidence }));
+    await rate(submission({ messageId: '3', rating: 'down' }));
+
+    const body: FeedbackListResponse = await (await list('?confidence=none,bogus&rating=down')).json();
+
+    expect(body.entries.map((entry) => entry.messageId)).toEqual(['2']);
+    expect((await (await list('?rating=sideways')).json()).total).toBe(3);
+  });
+
+  it('downloads the filtered entries as JSON Lines', async () => {
+    await rate(submission({ messageId: '1', rating: 'up' }));
+    await rate(submission({ messageId: '2', rating: 'down' }));
+
+    const response = await list('?rating=down&format=jsonl');
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="feedback-\d{4}-\d{2}-\d{2}\.jsonl"$/);
+    const lines = (await response.text()).trimEnd().split('\n');
+    expect(lines.map((line) => JSON.parse(line).messageId)).toEqual(['2']);
+  });
+});
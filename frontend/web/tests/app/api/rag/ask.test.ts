@@ -0,0 +1,339 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/rag/ask/route';
+import { listAnswerLogs } from '@/lib/analyticsStore';
+import { encodeUserHeader, USER_HEADER } from '@/lib/auth';
+import { createMockBackendFetch } from '@/lib/mockBackend';
+import { mockAskResponses, mockBackendErrors } from '@/lib/mockFixtures';
+import type { IngestionStage, User } from '@/types';
+
+function ask(question: string) {
+  return POST(
+    new NextRequest('http://localhost/api/rag/ask', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question, conversationId: 'conv-1' }),
+    })
+  );
+}
+
+describe('POST /api/rag/ask', () => {
+  it('returns the backend answer', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await ask('What does the GDPR say?');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      ...mockAskResponses.highEnglish,
+      question: 'What does the GDPR say?',
+      conversationId: 'conv-1',
+    });
+    expect(fetchMock).toHaveBeenCalledWith('http://backend.test/api/rag/ask', expect.anything());
+  });
+
+  it('logs the answer for analytics under an ID of its own', async () => {
+    vi.stubGlobal('fetch', createMockBackendFetch({ delayMs: 0 }));
+    const question = `What does Article 5 say? ${crypto.randomUUID()}`;
+
+    await ask(question);
+
+    await vi.waitFor(async () => {
+      const entry = (await listAnswerLogs()).find((e) => e.question === question);
+      expect(entry).toMatchObject({
+        conversationId: 'conv-1',
+        confidence: mockAskResponses.highEnglish.confidence,
+        sources: mockAskResponses.highEnglish.sources,
+      });
+      expect(entry?.id).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  it('continues a conversation only for the user who started it', async () => {
+    // The mock backend, starting a new conversation for every ask without one
+    const mock = createMockBackendFetch({ delayMs: 0 });
+    const fetchMock = vi.fn<typeof fetch>(async (input, init) => {
+      if (String(input) !== 'http://backend.test/api/rag/ask') return mock(input, init);
+      const { question, conversationId } = JSON.parse(String(init?.body));
+      return Response.json({ ...mockAskResponses.highEnglish, question, conversationId: conversationId ?? crypto.randomUUID() });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const askCalls = () => fetchMock.mock.calls.filter(([url]) => String(url) === 'http://backend.test/api/rag/ask');
+    const askAs = (user: User, conversationId?: string) =>
+      POST(
+        new NextRequest('http://localhost/api/rag/ask', {
+          method: 'POST',
+          headers: { [USER_HEADER]: encodeUserHeader(user) },
+          body: JSON.stringify({ question: 'And Article 5?', conversationId }),
+        })
+      );
+    const ayse: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+    const mert: User = { username: 'mert', displayName: 'Mert', workspace: 'legal' };
+
+    const { conversationId } = await (await askAs(ayse)).json();
+    expect((await (await askAs(ayse, conversationId)).json()).conversationId).toBe(conversationId);
+
+    const stolen = await askAs(mert, conversationId);
+    expect(stolen.status).toBe(404);
+    expect(await stolen.json()).toMatchObject({ code: 'not-found' });
+
+    const unknown = await (await askAs(mert, 'conv-from-before-a-restart')).json();
+    expect(unknown.conversationId).not.toBe('conv-from-before-a-restart');
+    expect(askCalls()).toHaveLength(3);
+  });
+
+  it('logs the answer under the workspace of the user who asked', async () => {
+    vi.stubGlobal('fetch', createMockBackendFetch({ delayMs: 0 }));
+    const question = `Who may see this? ${crypto.randomUUID()}`;
+    const legal: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+
+    await POST(
+      new NextRequest('http://localhost/api/rag/ask', {
+        method: 'POST',
+        headers: { [USER_HEADER]: encodeUserHeader(legal) },
+        body: JSON.stringify({ question }),
+      })
+    );
+
+    await vi.waitFor(async () => {
+      const logged = (await listAnswerLogs({ workspace: 'legal' })).find((e) => e.question === question);
+      expect(logged?.workspace).toBe('legal');
+    });
+    expect((await listAnswerLogs({ workspace: 'hr' })).some((e) => e.question === question)).toBe(false);
+  });
+
+  it('reports backend 500s as LLM failures with the backend details', async () => {
+    vi.stubGlobal('fetch', createMockBackendFetch({ delayMs: 0 }));
+
+    const response = await ask('KVKK nedir? #error');
+
+    expect(response.status).toBe(500);
+    const body = await response.json();
+    expect(body).toMatchObject({ code: 'llm-failure', error: 'Answer generation failed' });
+    expect(JSON.parse(body.details)).toEqual(mockBackendErrors.llmFailure.body);
+  });
+
+  it('rejects a missing question without calling the backend', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await POST(
+      new NextRequest('http://localhost/api/rag/ask', {
+        method: 'POST',
+        body: JSON.stringify({ question: '  ' }),
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      code: 'validation',
+      error: 'Invalid request',
+      details: 'expected body.question to be a non-empty string',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects questions over the maximum length', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await ask('a'.repeat(2_001));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toBe('expected body.question to be at most 2000 characters');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('answers 429 with Retry-After while the client has too many asks in flight', async () => {
+    const pending: (() => void)[] = [];
+    const backend = createMockBackendFetch({ delayMs: 0 });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn<typeof fetch>(
+        (input, init) => new Promise((resolve) => pending.push(() => resolve(backend(input, init))))
+      )
+    );
+
+    // RATE_LIMIT_ASK_CONCURRENCY defaults to 2
+    const running = [ask('KVKK nedir?'), ask('KVKK nedir?')];
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+    const limited = await ask('KVKK nedir?');
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('5');
+    expect(await limited.json()).toMatchObject({ code: 'rate-limited', error: 'Too many requests' });
+
+    // Finished asks free their slots
+    pending.forEach((resolve) => resolve());
+    expect((await Promise.all(running)).map((response) => response.status)).toEqual([200, 200]);
+    const next = ask('KVKK nedir?');
+    await vi.waitFor(() => expect(pending).toHaveLength(3));
+    pending[2]();
+    expect((await next).status).toBe(200);
+  });
+
+  it('reports 503s as-is without asking the LLM twice', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await ask('#unavailable');
+
+    expect(response.status).toBe(503);
+    const body = await response.json();
+    expect(body.code).toBe('backend-unreachable');
+    expect(JSON.parse(body.details).detail).toBe(mockBackendErrors.unavailable.body.detail);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 502 when the backend cannot be reached', async () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed', { cause: refused }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await ask('KVKK nedir?');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      code: 'backend-unreachable',
+      error: 'Failed to connect to backend',
+      details: 'Failed to connect to backend at http://backend.test/api/rag/ask: fetch failed',
+    });
+    // Nothing was sent, so the ask is retried: first attempt + BACKEND_RETRY_ATTEMPTS (2)
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not resend a question when the connection drops after sending it', async () => {
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed', { cause: reset }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await ask('KVKK nedir?');
+
+    expect(response.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 502 when the backend response has the wrong shape', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(Response.json({ answer: 'no confidence' })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await ask('KVKK nedir?');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({
+      code: 'invalid-response',
+      error: 'Invalid backend response',
+    });
+  });
+
+  it('aborts the backend call when the browser goes away', async () => {
+    vi.stubGlobal('fetch', createMockBackendFetch({ delayMs: 0, slowMs: 60_000 }));
+    const browser = new AbortController();
+
+    const pending = POST(
+      new NextRequest('http://localhost/api/rag/ask', {
+        method: 'POST',
+        body: JSON.stringify({ question: 'KVKK nedir? #slow' }),
+        signal: browser.signal,
+      })
+    );
+    browser.abort();
+    const response = await pending;
+
+    expect(response.status).toBe(499);
+    expect((await response.json()).code).toBe('cancelled');
+  });
+
+  it('answers 504 when the backend times out', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockRejectedValue(new DOMException('The operation timed out.', 'TimeoutError'))
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await ask('KVKK nedir?');
+
+    expect(response.status).toBe(504);
+    expect((await response.json()).code).toBe('timeout');
+  });
+});
+
+describe('POST /api/rag/ask with the response cache', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  /** Route modules re-imported so the cache reads RESPONSE_CACHE_ENABLED */
+  async function cachingRoutes() {
+    vi.stubEnv('RESPONSE_CACHE_ENABLED', 'true');
+    vi.resetModules();
+    const [{ POST: askRoute }, { POST: ingestRoute }, { GET: jobRoute }] = await Promise.all([
+      import('@/app/api/rag/ask/route'),
+      import('@/app/api/rag/ingest/route'),
+      import('@/app/api/rag/ingest/jobs/[id]/route'),
+    ]);
+    const ask = (question: string) =>
+      askRoute(new NextRequest('http://localhost/api/rag/ask', { method: 'POST', body: JSON.stringify({ question }) }));
+    const ingest = () => {
+      const formData = new FormData();
+      formData.append('file', new File(['%PDF-1.4'], 'new.pdf', { type: 'application/pdf' }));
+      return ingestRoute(new NextRequest('http://localhost/api/rag/ingest', { method: 'POST', body: formData }));
+    };
+    const pollJob = (id: string) =>
+      jobRoute(new NextRequest(`http://localhost/api/rag/ingest/jobs/${id}`), { params: Promise.resolve({ id }) });
+    return { ask, ingest, pollJob };
+  }
+
+  const askCalls = (fetchMock: ReturnType<typeof vi.fn>) =>
+    fetchMock.mock.calls.filter(([url]) => url === 'http://backend.test/api/rag/ask');
+
+  it('answers a repeated question from the cache until a document is ingested', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { ask, ingest } = await cachingRoutes();
+
+    const first = await (await ask('What does the GDPR say?')).json();
+    const repeated = await (await ask('what does the GDPR say')).json();
+
+    expect(first.cached).toBeUndefined();
+    expect(repeated).toMatchObject({ answer: first.answer, question: 'what does the GDPR say', cached: true });
+    expect(askCalls(fetchMock)).toHaveLength(1);
+    // Follow-ups to the cached answer continue a backend conversation that holds it
+    const seeded = fetchMock.mock.calls.find(([url]) => url === 'http://backend.test/api/conversations');
+    expect(JSON.parse(String(seeded?.[1]?.body))).toEqual({ question: 'what does the GDPR say', answer: first.answer });
+    expect(repeated.conversationId).not.toBe(first.conversationId);
+
+    expect((await ingest()).status).toBe(202);
+    expect((await (await ask('What does the GDPR say?')).json()).cached).toBeUndefined();
+    expect(askCalls(fetchMock)).toHaveLength(2);
+  });
+
+  it('empties the cache once when an ingestion job completes, not when it is polled', async () => {
+    // The mock backend, with the job's stage set by the test
+    const mock = createMockBackendFetch({ delayMs: 0 });
+    let stage: IngestionStage = 'embedding';
+    const fetchMock = vi.fn<typeof fetch>(async (input, init) => {
+      const response = await mock(input, init);
+      if (!String(input).startsWith('http://backend.test/api/ingest/jobs/')) return response;
+      return Response.json({ ...(await response.json()), stage });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('NEXT_PUBLIC_INGEST_POLL_INTERVAL_MS', '250');
+    const { ask, ingest, pollJob } = await cachingRoutes();
+    const cached = async () => (await (await ask('What does the GDPR say?')).json()).cached;
+
+    const { jobId } = await (await ingest()).json();
+    await ask('What does the GDPR say?');
+    expect(await cached()).toBe(true);
+
+    stage = 'completed';
+    await vi.waitFor(async () => expect(await cached()).toBeUndefined(), { timeout: 2_000 });
+
+    expect((await pollJob(jobId)).status).toBe(200);
+    expect(await cached()).toBe(true);
+  });
+});
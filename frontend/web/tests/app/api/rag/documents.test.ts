@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/rag/documents/route';
+import { DELETE } from '@/app/api/rag/documents/[id]/route';
+import { POST as ask } from '@/app/api/rag/ask/route';
+import { POST as search } from '@/app/api/rag/search/route';
+import { encodeUserHeader, USER_HEADER } from '@/lib/auth';
+import { createMockBackendFetch, MOCK_DOCUMENT_LIST } from '@/lib/mockBackend';
+import { MOCK_DOCUMENTS } from '@/lib/mockFixtures';
+import { NO_DOCUMENTS } from '@/lib/workspaceAccess';
+import type { DocumentSummary, User } from '@/types';
+
+const LEGAL: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+const HR: User = { username: 'mert', displayName: 'Mert', workspace: 'hr' };
+
+const PRIVATE_DOCUMENT: DocumentSummary = {
+  documentId: MOCK_DOCUMENTS.gdpr.documentId,
+  title: MOCK_DOCUMENTS.gdpr.documentTitle,
+  uploadDate: '2026-10-01T10:00:00.000Z',
+  chunkCount: 2,
+  uploadedBy: 'mert',
+  workspace: 'hr',
+};
+
+/**
+ * The mock backend, with the GDPR document moved into the HR workspace
+ */
+function stubBackend() {
+  const mock = createMockBackendFetch({ delayMs: 0 });
+  const fetchMock = vi.fn<typeof fetch>(async (input, init) => {
+    const url = new URL(String(input));
+    if (url.pathname === '/api/documents') {
+      const documents = MOCK_DOCUMENT_LIST.map((document) =>
+        document.documentId === PRIVATE_DOCUMENT.documentId ? PRIVATE_DOCUMENT : document
+      );
+      return Response.json({ totalDocuments: documents.length, documents });
+    }
+    if (init?.method === 'DELETE') {
+      return Response.json({ success: true, documentId: url.pathname.split('/').pop() });
+    }
+    return mock(input, init);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function request(
+  path: string,
+  user: User | null,
+  init: { method?: string; headers?: HeadersInit; body?: string } = {}
+) {
+  const headers = new Headers(init.headers);
+  if (user) headers.set(USER_HEADER, encodeUserHeader(user));
+  return new NextRequest(`http://localhost${path}`, { ...init, headers });
+}
+
+const sentBody = (fetchMock: ReturnType<typeof stubBackend>, path: string) =>
+  JSON.parse(String(fetchMock.mock.calls.find(([url]) => String(url).endsWith(path))?.[1]?.body));
+
+describe('workspace-private documents', () => {
+  it('lists only the documents of the user\'s workspace and shared ones', async () => {
+    stubBackend();
+
+    const legal = await (await GET(request('/api/rag/documents', LEGAL))).json();
+    const hr = await (await GET(request('/api/rag/documents', HR))).json();
+
+    expect(legal.totalDocuments).toBe(2);
+    expect(legal.documents.map((d: DocumentSummary) => d.documentId)).not.toContain(PRIVATE_DOCUMENT.documentId);
+    expect(hr.totalDocuments).toBe(3);
+  });
+
+  it('limits searches to the visible documents', async () => {
+    const fetchMock = stubBackend();
+
+    const response = await search(
+      request('/api/rag/search', LEGAL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'personal data' }),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(sentBody(fetchMock, '/api/search').documentIds).toEqual([
+      MOCK_DOCUMENTS.civilCode.documentId,
+      MOCK_DOCUMENTS.kvkk.documentId,
+    ]);
+    const body = await response.json();
+    expect(body.results.every((hit: { documentId: string }) => hit.documentId !== PRIVATE_DOCUMENT.documentId)).toBe(
+      true
+    );
+  });
+
+  it('matches nothing when the requested scope is all hidden', async () => {
+    const fetchMock = stubBackend();
+
+    const response = await ask(
+      request('/api/rag/ask', LEGAL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: 'What does the GDPR say?', documentIds: [PRIVATE_DOCUMENT.documentId] }),
+      })
+    );
+
+    expect(sentBody(fetchMock, '/api/rag/ask').documentIds).toEqual([NO_DOCUMENTS]);
+    expect((await response.json()).confidence.level).toBe('none');
+  });
+
+  it('reports another workspace\'s document as not found instead of deleting it', async () => {
+    const fetchMock = stubBackend();
+    const params = Promise.resolve({ id: PRIVATE_DOCUMENT.documentId });
+
+    const response = await DELETE(
+      request(`/api/rag/documents/${PRIVATE_DOCUMENT.documentId}`, LEGAL, { method: 'DELETE' }),
+      { params }
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: 'not-found' });
+    expect(fetchMock.mock.calls.some(([, init]) => init?.method === 'DELETE')).toBe(false);
+  });
+});
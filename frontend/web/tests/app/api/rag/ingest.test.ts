@@ -0,0 +1,222 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DELETE, GET } from '@/app/api/rag/ingest/jobs/[id]/route';
+import { POST } from '@/app/api/rag/ingest/route';
+import { encodeUserHeader, USER_HEADER } from '@/lib/auth';
+import { createMockBackendFetch } from '@/lib/mockBackend';
+import { mockBackendErrors } from '@/lib/mockFixtures';
+import type { IngestionJob, User } from '@/types';
+
+function upload(fileName: string, title?: string, type = 'application/pdf', user?: User) {
+  const formData = new FormData();
+  formData.append('file', new File(['%PDF-1.4'], fileName, { type }));
+  if (title) formData.append('title', title);
+  const headers = new Headers();
+  if (user) headers.set(USER_HEADER, encodeUserHeader(user));
+  return POST(new NextRequest('http://localhost/api/rag/ingest', { method: 'POST', body: formData, headers }));
+}
+
+const BOUNDARY = 'test-boundary';
+const MB = new Uint8Array(1024 * 1024);
+
+/**
+ * A chunked multipart upload (no Content-Length) with a PDF part of `megabytes`
+ */
+function streamedUpload(megabytes: number, headers: Record<string, string> = {}) {
+  const encoder = new TextEncoder();
+  let sent = 0;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(
+          `--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="big.pdf"\r\n` +
+            'Content-Type: application/pdf\r\n\r\n%PDF-1.4\n'
+        )
+      );
+    },
+    pull(controller) {
+      if (sent++ < megabytes) {
+        controller.enqueue(MB);
+      } else {
+        controller.enqueue(encoder.encode(`\r\n--${BOUNDARY}--\r\n`));
+        controller.close();
+      }
+    },
+  });
+
+  return POST(
+    new NextRequest('http://localhost/api/rag/ingest', {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${BOUNDARY}`, ...headers },
+      body,
+      duplex: 'half',
+    })
+  );
+}
+
+/** Backend stand-in that reads the forwarded body chunk by chunk, like a real socket */
+function drainingBackend() {
+  return vi.fn(async (_url: string, init?: RequestInit) => {
+    const reader = (init?.body as ReadableStream<Uint8Array>).getReader();
+    let bytes = 0;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      bytes += chunk.value.byteLength;
+    }
+    return Response.json({ error: `received ${bytes} bytes` }, { status: 418 });
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('POST /api/rag/ingest', () => {
+  it('queues the PDF and returns the ingestion job with 202', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await upload('kanun.pdf', 'Medeni Kanun');
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toMatchObject({
+      fileName: 'kanun.pdf',
+      documentTitle: 'Medeni Kanun',
+      stage: 'queued',
+    });
+    expect(fetchMock).toHaveBeenCalledWith('http://backend.test/api/ingest/pdf/jobs', expect.anything());
+  });
+
+  it('passes backend validation errors through with their details', async () => {
+    vi.stubGlobal('fetch', createMockBackendFetch({ delayMs: 0 }));
+
+    const response = await upload('reject.pdf');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      code: 'validation',
+      error: 'PDF upload failed',
+      details: JSON.stringify(mockBackendErrors.invalidPdf.body),
+    });
+  });
+
+  it('passes ProblemDetails from backend failures through', async () => {
+    const { status, body } = mockBackendErrors.llmFailure;
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(Response.json(body, { status })));
+
+    const response = await upload('kanun.pdf');
+
+    expect(response.status).toBe(500);
+    const envelope = await response.json();
+    expect(envelope.code).toBe('backend-error');
+    expect(JSON.parse(envelope.details)).toEqual(body);
+  });
+
+  it('answers 502 when the backend cannot be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+    const response = await upload('kanun.pdf');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      code: 'backend-unreachable',
+      error: 'Failed to connect to backend',
+      details: 'Failed to connect to backend at http://backend.test/api/ingest/pdf/jobs: fetch failed',
+    });
+  });
+
+  it('streams the body to the backend instead of buffering it', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await upload('kanun.pdf', 'Medeni Kanun');
+
+    expect(response.status).toBe(202);
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(init.body).toBeInstanceOf(ReadableStream);
+    expect(new Headers(init.headers).get('content-type')).toMatch(/^multipart\/form-data; boundary=/);
+  });
+
+  it('refuses files that are not PDFs with 415', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await upload('notes.txt', undefined, 'text/plain');
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toEqual({
+      code: 'validation',
+      error: 'Invalid upload',
+      details: 'Only PDF files are supported',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses uploads declared larger than 50MB with 413', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await streamedUpload(0, { 'Content-Length': String(51 * 1024 * 1024) });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).details).toBe('File size must be less than 50MB');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('stops forwarding a chunked upload once it passes 50MB', async () => {
+    vi.stubGlobal('fetch', drainingBackend());
+
+    const response = await streamedUpload(51);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: 'validation', error: 'Invalid upload' });
+  });
+
+  it('forwards a chunked upload under the limit in full', async () => {
+    vi.stubGlobal('fetch', drainingBackend());
+
+    const response = await streamedUpload(2);
+
+    const body = await response.json();
+    expect(JSON.parse(body.details).error).toMatch(/^received 2\d{6} bytes$/);
+  });
+
+  it('rejects bodies that are not multipart', async () => {
+    const response = await POST(
+      new NextRequest('http://localhost/api/rag/ingest', { method: 'POST', body: 'not a form' })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'validation' });
+  });
+});
+
+describe('/api/rag/ingest/jobs/[id]', () => {
+  const LEGAL: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+  const HR: User = { username: 'mert', displayName: 'Mert', workspace: 'hr' };
+
+  function jobRequest(jobId: string, user: User, method = 'GET') {
+    const headers = new Headers({ [USER_HEADER]: encodeUserHeader(user) });
+    return [
+      new NextRequest(`http://localhost/api/rag/ingest/jobs/${jobId}`, { method, headers }),
+      { params: Promise.resolve({ id: jobId }) },
+    ] as const;
+  }
+
+  it('shows a job only to the workspace that uploaded it', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const job: IngestionJob = await (await upload('kanun.pdf', undefined, undefined, HR)).json();
+
+    expect(job).toMatchObject({ uploadedBy: 'mert', workspace: 'hr' });
+    expect((await GET(...jobRequest(job.jobId, HR))).status).toBe(200);
+
+    const lookup = await GET(...jobRequest(job.jobId, LEGAL));
+    expect(lookup.status).toBe(404);
+    expect(await lookup.json()).toMatchObject({ code: 'not-found' });
+
+    const cancel = await DELETE(...jobRequest(job.jobId, LEGAL, 'DELETE'));
+    expect(cancel.status).toBe(404);
+    expect(fetchMock.mock.calls.some(([, init]) => init?.method === 'DELETE')).toBe(false);
+  });
+});
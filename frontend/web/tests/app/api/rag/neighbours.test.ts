@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/rag/documents/[id]/chunks/[chunkIndex]/neighbours/route';
+import { encodeUserHeader, USER_HEADER } from '@/lib/auth';
+import { MOCK_DOCUMENT_LIST } from '@/lib/mockBackend';
+import type { ChunkNeighboursResponse, DocumentSummary, User } from '@/types';
+
+const LEGAL: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+const HR: User = { username: 'mert', displayName: 'Mert', workspace: 'hr' };
+
+const SHARED_DOCUMENT = MOCK_DOCUMENT_LIST[0];
+const HR_DOCUMENT: DocumentSummary = { ...SHARED_DOCUMENT, uploadedBy: 'mert', workspace: 'hr' };
+
+/**
+ * The backend's neighbours endpoint (not in the mock backend), answering
+ * for `document` with the radius it was asked for
+ */
+function stubBackend(document: DocumentSummary) {
+  const fetchMock = vi.fn<typeof fetch>(async (input) => {
+    const url = new URL(String(input));
+    const [, chunkIndex] = url.pathname.match(/\/chunks\/(\d+)\/neighbours$/)!;
+    const radius = Number(url.searchParams.get('radius'));
+    const body: ChunkNeighboursResponse = {
+      document,
+      chunkIndex: Number(chunkIndex),
+      radius,
+      firstChunkIndex: 0,
+      lastChunkIndex: 20,
+      chunks: [{ chunkId: 'chunk-4', chunkIndex: 4, content: 'Madde 4', chunkType: 'article' }],
+    };
+    return Response.json(body);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function neighbours(chunkIndex: string, query = '', user: User = LEGAL) {
+  const id = SHARED_DOCUMENT.documentId;
+  return GET(
+    new NextRequest(`http://localhost/api/rag/documents/${id}/chunks/${chunkIndex}/neighbours${query}`, {
+      headers: { [USER_HEADER]: encodeUserHeader(user) },
+    }),
+    { params: Promise.resolve({ id, chunkIndex }) }
+  );
+}
+
+const forwardedRadius = (fetchMock: ReturnType<typeof stubBackend>) =>
+  new URL(String(fetchMock.mock.calls[0][0])).searchParams.get('radius');
+
+describe('GET /api/rag/documents/[id]/chunks/[chunkIndex]/neighbours', () => {
+  it('returns the chunk and its neighbours', async () => {
+    const fetchMock = stubBackend(SHARED_DOCUMENT);
+
+    const response = await neighbours('4', '?radius=3');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ chunkIndex: 4, radius: 3, chunks: [{ chunkIndex: 4 }] });
+    expect(String(fetchMock.mock.calls[0][0])).toBe(
+      `http://backend.test/api/documents/${SHARED_DOCUMENT.documentId}/chunks/4/neighbours?radius=3`
+    );
+  });
+
+  it.each([
+    ['', '2'],
+    ['?radius=abc', '2'],
+    ['?radius=-3', '0'],
+    ['?radius=50', '10'],
+    ['?radius=2.7', '2'],
+  ])('sends radius %s to the backend as %s', async (query, radius) => {
+    const fetchMock = stubBackend(SHARED_DOCUMENT);
+
+    expect((await neighbours('4', query)).status).toBe(200);
+    expect(forwardedRadius(fetchMock)).toBe(radius);
+  });
+
+  it.each(['abc', '-1', '1.5'])('answers 400 for chunk index %s without calling the backend', async (chunkIndex) => {
+    const fetchMock = stubBackend(SHARED_DOCUMENT);
+
+    const response = await neighbours(chunkIndex);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'validation', error: 'Invalid chunk index' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 for a chunk of another workspace's document", async () => {
+    stubBackend(HR_DOCUMENT);
+
+    const hidden = await neighbours('4', '', LEGAL);
+    expect(hidden.status).toBe(404);
+    expect(await hidden.json()).toMatchObject({ code: 'not-found' });
+
+    expect((await neighbours('4', '', HR)).status).toBe(200);
+  });
+
+  it('passes a missing document through as 404', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('Document not found', { status: 404 })));
+
+    const response = await neighbours('4');
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/rag/search/route';
+import { createMockBackendFetch } from '@/lib/mockBackend';
+import { MOCK_SOURCES, mockBackendErrors } from '@/lib/mockFixtures';
+
+function search(body: unknown) {
+  return POST(
+    new NextRequest('http://localhost/api/rag/search', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('POST /api/rag/search', () => {
+  it('returns the ranked hits above the threshold', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await search({ query: 'kişisel veri', topK: 3, similarityThreshold: 0.1 });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ query: 'kişisel veri', resultCount: 2, topK: 3, similarityThreshold: 0.1 });
+    expect(body.results.map((hit: { chunkId: string }) => hit.chunkId)).toEqual([
+      MOCK_SOURCES.civilCodeArticle1.chunkId,
+      MOCK_SOURCES.gdprPrinciples.chunkId,
+    ]);
+    expect(fetchMock).toHaveBeenCalledWith('http://backend.test/api/search', expect.anything());
+  });
+
+  it('rejects an empty query without calling the backend', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await search({ query: ' ', topK: 5 });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      code: 'validation',
+      error: 'Invalid request',
+      details: 'expected body.query to be a non-empty string',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries gateway errors, then passes them on in the error envelope', async () => {
+    const fetchMock = vi.fn(createMockBackendFetch({ delayMs: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await search({ query: 'KVKK #unavailable' });
+
+    expect(response.status).toBe(503);
+    const body = await response.json();
+    expect(body).toMatchObject({ code: 'backend-unreachable', error: 'Search failed' });
+    expect(JSON.parse(body.details).detail).toBe(mockBackendErrors.unavailable.body.detail);
+    // Search is read-only: first attempt + BACKEND_RETRY_ATTEMPTS (2)
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
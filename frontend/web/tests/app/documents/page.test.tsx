@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import DocumentsPage from '@/app/documents/page';
+import { setLocale } from '@/lib/i18n';
+import { MOCK_DOCUMENT_LIST } from '@/lib/mockBackend';
+
+const [first, second] = MOCK_DOCUMENT_LIST;
+
+/**
+ * The document routes, with `deleteResponse` answering the DELETE
+ */
+function stubRoutes(deleteResponse: () => Response) {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>((url, init) => {
+    if (init?.method === 'DELETE') return Promise.resolve(deleteResponse());
+    if (url === '/api/rag/documents') {
+      return Promise.resolve(Response.json({ totalDocuments: 2, documents: [first, second] }));
+    }
+    return Promise.resolve(Response.json({ documents: [] }));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const deleteButton = async (title: string) =>
+  within(await screen.findByRole('row', { name: new RegExp(title) })).getByRole('button', { name: 'Delete' });
+
+beforeEach(() => {
+  setLocale('en');
+});
+
+describe('DocumentsPage', () => {
+  it('deletes a document once confirmed', async () => {
+    const fetchMock = stubRoutes(() => Response.json({ success: true, documentId: first.documentId }));
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const user = userEvent.setup();
+    render(<DocumentsPage />);
+
+    await user.click(await deleteButton(first.title));
+
+    expect(confirm).toHaveBeenCalledWith(expect.stringContaining(first.title));
+    await vi.waitFor(() => expect(screen.queryByRole('row', { name: new RegExp(first.title) })).not.toBeInTheDocument());
+    expect(screen.getByRole('row', { name: new RegExp(second.title) })).toBeInTheDocument();
+    expect(screen.getByText('1 documents in the knowledge base')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith(`/api/rag/documents/${first.documentId}`, { method: 'DELETE' });
+  });
+
+  it('keeps the document when the confirmation is cancelled', async () => {
+    const fetchMock = stubRoutes(() => Response.json({ success: true, documentId: first.documentId }));
+    vi.spyOn(window, 'confirm').mockReturnValue(false);
+    const user = userEvent.setup();
+    render(<DocumentsPage />);
+
+    await user.click(await deleteButton(first.title));
+
+    expect(screen.getByRole('row', { name: new RegExp(first.title) })).toBeInTheDocument();
+    expect(fetchMock.mock.calls.some(([, init]) => init?.method === 'DELETE')).toBe(false);
+  });
+
+  it('keeps the document and shows the error when deletion fails', async () => {
+    stubRoutes(() => Response.json({ error: 'Backend error', details: 'Document is being ingested' }, { status: 409 }));
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const user = userEvent.setup();
+    render(<DocumentsPage />);
+
+    await user.click(await deleteButton(first.title));
+
+    expect(await screen.findByText('Document is being ingested')).toBeInTheDocument();
+    expect(await deleteButton(first.title)).toBeEnabled();
+  });
+});
@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Home from '@/app/page';
+import { deleteConversation, getSnapshot } from '@/lib/conversationStore';
+import { setLocale } from '@/lib/i18n';
+import { MOCK_DOCUMENTS, mockAskResponses, mockBackendErrors } from '@/lib/mockFixtures';
+
+function sse(...frames: [event: string, data: unknown][]) {
+  const body = frames.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function ask(question: string) {
+  const user = userEvent.setup();
+  render(<Home />);
+  await user.type(screen.getByPlaceholderText(/Ask a question/), `${question}{Enter}`);
+}
+
+const askCalls = (fetchMock: ReturnType<typeof vi.fn>) =>
+  fetchMock.mock.calls.filter(([url]) => url === '/api/rag/ask/stream');
+
+beforeEach(() => {
+  localStorage.clear();
+  setLocale('en');
+  getSnapshot().forEach((conversation) => deleteConversation(conversation.id));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('Home', () => {
+  it('shows the answer with its confidence when the stream completes', async () => {
+    const answer = mockAskResponses.high;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(sse(['token', { text: 'Türk ' }], ['done', answer]))
+    );
+
+    await ask('Türk Medeni Kanunu madde 1 nedir?');
+
+    // The badge follows the Turkish answer, the rest of the UI stays English
+    expect(await screen.findByText('Yüksek Güven')).toBeInTheDocument();
+    expect(screen.getByText('Sources (2)')).toBeInTheDocument();
+  });
+
+  it('fills in the question from a search hit and asks it, limited to its document, once sent', async () => {
+    const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>(() =>
+      Promise.resolve(sse(['done', mockAskResponses.high]))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    window.history.replaceState(null, '', '/?ask=KVKK+nedir%3F&document=doc-1');
+    const user = userEvent.setup();
+
+    render(<Home />);
+
+    const input = screen.getByPlaceholderText(/Ask a question/);
+    await vi.waitFor(() => expect(input).toHaveValue('KVKK nedir?'));
+    expect(askCalls(fetchMock)).toHaveLength(0);
+
+    await user.type(input, '{Enter}');
+
+    expect(await screen.findByText('Yüksek Güven')).toBeInTheDocument();
+    const [, init] = askCalls(fetchMock)[0];
+    expect(JSON.parse(String(init?.body))).toMatchObject({ question: 'KVKK nedir?', documentIds: ['doc-1'] });
+    expect(getSnapshot()[0].retrievalSettings?.documentIds).toEqual(['doc-1']);
+    expect(window.location.search).toBe('');
+  });
+
+  it('shows the document scope above the input and drops sources outside it', async () => {
+    const { gdpr } = MOCK_DOCUMENTS;
+    const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>((url) => {
+      if (url === '/api/rag/documents') {
+        return Promise.resolve(
+          Response.json({
+            totalDocuments: 1,
+            documents: [{ documentId: gdpr.documentId, title: gdpr.documentTitle, uploadDate: '2026-10-01', chunkCount: 8 }],
+          })
+        );
+      }
+      if (url === '/api/document-tags') return Promise.resolve(Response.json({ documents: [] }));
+      // Civil code sources, although only the GDPR was asked about
+      return Promise.resolve(sse(['done', mockAskResponses.high]));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    window.history.replaceState(null, '', `/?ask=Madde+1&document=${gdpr.documentId}`);
+    const user = userEvent.setup();
+
+    render(<Home />);
+    const input = screen.getByPlaceholderText(/Ask a question/);
+    await vi.waitFor(() => expect(input).toHaveValue('Madde 1'));
+    await user.type(input, '{Enter}');
+
+    expect(await screen.findByText('Yüksek Güven')).toBeInTheDocument();
+    expect(await screen.findByText(gdpr.documentTitle)).toBeInTheDocument();
+    expect(getSnapshot()[0].messages[1].sources).toEqual([]);
+
+    await user.click(screen.getByRole('button', { name: `Remove ${gdpr.documentTitle} from the scope` }));
+
+    expect(getSnapshot()[0].retrievalSettings?.documentIds).toEqual([]);
+    expect(screen.queryByText(gdpr.documentTitle)).not.toBeInTheDocument();
+  });
+
+  it('switches the UI language and remembers the choice', async () => {
+    const user = userEvent.setup();
+    render(<Home />);
+
+    await user.click(screen.getByRole('button', { name: 'tr' }));
+
+    expect(screen.getByText('Bir Soru Sorun')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText(/Bir soru sorun/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'tr' })).toHaveAttribute('aria-pressed', 'true');
+    expect(localStorage.getItem('rag.locale')).toBe('tr');
+    expect(document.documentElement.lang).toBe('tr');
+  });
+
+  it('shows why the answer failed and keeps the input usable', async () => {
+    const { status, body } = mockBackendErrors.llmFailure;
+    const fetchMock = vi.fn().mockResolvedValue(
+      Response.json(
+        { code: 'llm-failure', error: 'Answer generation failed', details: JSON.stringify(body) },
+        { status }
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await ask('KVKK nedir?');
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent('The answer could not be generated');
+    expect(alert).toHaveTextContent(body.detail);
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/rag/ask/stream',
+      expect.objectContaining({ method: 'POST' })
+    );
+    // No confidence badge for an answer that never arrived
+    expect(screen.queryByText('No Relevant Information')).not.toBeInTheDocument();
+    expect(screen.getByPlaceholderText(/Ask a question/)).toBeEnabled();
+  });
+
+  it('shows the error when the backend fails mid-stream', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        sse(['token', { text: 'Partial ' }], ['error', { error: mockBackendErrors.llmFailure.body.detail }])
+      )
+    );
+
+    await ask('KVKK nedir?');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('The answer could not be generated');
+    expect(screen.queryByText('Partial')).not.toBeInTheDocument();
+  });
+
+  it('says when to try again after a rate-limited question', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        Response.json(
+          {
+            code: 'rate-limited',
+            error: 'Too many requests',
+            details: 'Rate limit of 10 ask requests per minute exceeded',
+          },
+          { status: 429, headers: { 'Retry-After': '12' } }
+        )
+      )
+    );
+
+    await ask('KVKK nedir?');
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent('Too many requests');
+    expect(alert).toHaveTextContent('Try again in 12 seconds');
+  });
+
+  it('tells the user when the proxy cannot be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    await ask('KVKK nedir?');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('The backend could not be reached');
+  });
+
+  it('retries a failed question in place', async () => {
+    const answer = mockAskResponses.high;
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(sse(['done', answer]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await ask('KVKK nedir?');
+    await userEvent.click(await screen.findByRole('button', { name: 'Retry' }));
+
+    expect(await screen.findByText('Yüksek Güven')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(askCalls(fetchMock)).toHaveLength(2);
+    const [first, second] = askCalls(fetchMock).map(([, init]) => JSON.parse(init.body));
+    expect(second).toEqual(first);
+    expect(second.question).toBe('KVKK nedir?');
+  });
+});
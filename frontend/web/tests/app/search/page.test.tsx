@@ -0,0 +1,53 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import SearchPage from '@/app/search/page';
+import { setLocale } from '@/lib/i18n';
+import type { SearchRequest } from '@/types';
+
+/** The search route, answering every search with no hits */
+function stubSearch() {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<Response>>((_url, init) => {
+    const { query, topK, similarityThreshold = 0 }: SearchRequest = JSON.parse(String(init?.body));
+    return Promise.resolve(Response.json({ query, resultCount: 0, topK, similarityThreshold, results: [] }));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const searches = (fetchMock: ReturnType<typeof stubSearch>): SearchRequest[] =>
+  fetchMock.mock.calls.map(([, init]) => JSON.parse(String(init?.body)));
+
+async function search(query: string) {
+  render(<SearchPage />);
+  await userEvent.type(screen.getByPlaceholderText('Search the documents...'), `${query}{Enter}`);
+  expect(await screen.findByText(/No chunks above the similarity threshold/)).toBeInTheDocument();
+}
+
+beforeEach(() => {
+  setLocale('en');
+});
+
+describe('SearchPage', () => {
+  it('searches once the query is submitted', async () => {
+    const fetchMock = stubSearch();
+
+    await search('kişisel veri');
+
+    expect(searches(fetchMock)).toEqual([{ query: 'kişisel veri', topK: 10, similarityThreshold: 0 }]);
+  });
+
+  it('searches once for a slider dragged across several steps', async () => {
+    const fetchMock = stubSearch();
+    await search('kişisel veri');
+
+    const slider = screen.getByLabelText(/Min. similarity/);
+    for (const value of ['0.1', '0.2', '0.3', '0.4']) {
+      fireEvent.change(slider, { target: { value } });
+    }
+
+    await vi.waitFor(() => expect(searches(fetchMock)).toHaveLength(2));
+    expect(searches(fetchMock)[1]).toEqual({ query: 'kişisel veri', topK: 10, similarityThreshold: 0.4 });
+  });
+});
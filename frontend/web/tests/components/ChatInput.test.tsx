@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { ChatInput } from '@/components/ChatInput';
+
+function setup(disabled = false, onStop?: () => void) {
+  const onSend = vi.fn();
+  render(<ChatInput onSend={onSend} onStop={onStop} disabled={disabled} />);
+  return { onSend, input: screen.getByPlaceholderText(/Ask a question/), user: userEvent.setup() };
+}
+
+describe('ChatInput', () => {
+  it('sends the trimmed question on Enter and clears the input', async () => {
+    const { onSend, input, user } = setup();
+
+    await user.type(input, '  KVKK nedir?  {Enter}');
+
+    expect(onSend).toHaveBeenCalledExactlyOnceWith('KVKK nedir?');
+    expect(input).toHaveValue('');
+  });
+
+  it('inserts a new line on Shift+Enter instead of sending', async () => {
+    const { onSend, input, user } = setup();
+
+    await user.type(input, 'first line{Shift>}{Enter}{/Shift}second line');
+
+    expect(onSend).not.toHaveBeenCalled();
+    expect(input).toHaveValue('first line\nsecond line');
+
+    await user.keyboard('{Enter}');
+    expect(onSend).toHaveBeenCalledExactlyOnceWith('first line\nsecond line');
+  });
+
+  it('does not send blank input', async () => {
+    const { onSend, input, user } = setup();
+
+    await user.type(input, '   {Enter}');
+
+    expect(onSend).not.toHaveBeenCalled();
+    expect(screen.getByRole('button')).toBeDisabled();
+  });
+
+  it('is disabled while a question is processing', () => {
+    const { input } = setup(true);
+
+    expect(input).toBeDisabled();
+    expect(screen.getByText('Processing...')).toBeInTheDocument();
+  });
+
+  it('offers a stop button while a question is processing', async () => {
+    const onStop = vi.fn();
+    const { user } = setup(true, onStop);
+
+    await user.click(screen.getByRole('button', { name: 'Stop generating' }));
+
+    expect(onStop).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { ConfidenceBadge } from '@/components/ConfidenceBadge';
+import { MOCK_CONFIDENCE } from '@/lib/mockFixtures';
+
+describe('ConfidenceBadge', () => {
+  it.each([
+    ['high', 'High Confidence', '✓'],
+    ['low', 'Low Confidence', '⚠'],
+    ['none', 'No Relevant Information', '✕'],
+  ] as const)('renders the %s variant', (level, label, icon) => {
+    const confidence = MOCK_CONFIDENCE[level];
+    render(<ConfidenceBadge confidence={confidence} />);
+
+    expect(screen.getByText(label)).toBeInTheDocument();
+    expect(screen.getByText(icon)).toBeInTheDocument();
+    expect(screen.getByText(`Max: ${confidence.maxSimilarity.toFixed(4)}`)).toBeInTheDocument();
+    expect(screen.getByText(`Avg: ${confidence.averageSimilarity.toFixed(4)}`)).toBeInTheDocument();
+  });
+
+  it('shows the backend explanation when there is one', () => {
+    render(<ConfidenceBadge confidence={MOCK_CONFIDENCE.low} />);
+
+    expect(screen.getByText(MOCK_CONFIDENCE.low.explanation)).toBeInTheDocument();
+    expect(screen.queryByText('Answer may be incomplete or uncertain')).not.toBeInTheDocument();
+  });
+
+  it('falls back to the level description without an explanation', () => {
+    render(<ConfidenceBadge confidence={MOCK_CONFIDENCE.none} />);
+
+    expect(
+      screen.getByText('Question not sufficiently relevant to available documents')
+    ).toBeInTheDocument();
+  });
+
+  it('is worded in the language of the answer', () => {
+    render(<ConfidenceBadge confidence={MOCK_CONFIDENCE.none} language="tr" />);
+
+    expect(screen.getByText('İlgili Bilgi Yok')).toBeInTheDocument();
+    expect(screen.getByText('Soru mevcut belgelerle yeterince ilgili değil')).toBeInTheDocument();
+    expect(screen.getByText('Maks: 0,0124')).toBeInTheDocument();
+  });
+
+  it('treats an empty explanation like a missing one', () => {
+    render(<ConfidenceBadge confidence={{ ...MOCK_CONFIDENCE.high, explanation: '' }} />);
+
+    expect(screen.getByText('Strong match found in documents')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { DocumentTable } from '@/components/DocumentTable';
+import type { DocumentSummary } from '@/types';
+
+const DOCUMENTS: DocumentSummary[] = [
+  { documentId: 'kvkk', title: 'KVKK', uploadDate: '2026-10-02T09:00:00Z', chunkCount: 8, fileSizeBytes: 2_048 },
+  { documentId: 'civil', title: 'Civil Code', uploadDate: '2026-10-03T09:00:00Z', chunkCount: 40 },
+  { documentId: 'labour', title: 'Labour Law', uploadDate: '2026-10-01T09:00:00Z', chunkCount: 12, fileSizeBytes: 512 },
+];
+
+function setup(props: Partial<Parameters<typeof DocumentTable>[0]> = {}) {
+  const handlers = { onSelect: vi.fn(), onDelete: vi.fn(), onEditTags: vi.fn() };
+  render(<DocumentTable documents={DOCUMENTS} selectedId={null} deletingId={null} tags={{}} {...handlers} {...props} />);
+  return handlers;
+}
+
+const titles = () =>
+  screen
+    .getAllByRole('row')
+    .slice(1)
+    .map((row) => within(row).getAllByRole('cell')[0].querySelector('p')?.textContent);
+
+const column = (name: string) => screen.getByRole('button', { name: new RegExp(`^${name}`) });
+
+describe('DocumentTable', () => {
+  it('lists the newest upload first', () => {
+    setup();
+
+    expect(titles()).toEqual(['Civil Code', 'KVKK', 'Labour Law']);
+    expect(screen.getByRole('columnheader', { name: /Uploaded/ })).toHaveAttribute('aria-sort', 'descending');
+  });
+
+  it('sorts by the clicked column and flips it on a second click', async () => {
+    const user = userEvent.setup();
+    setup();
+
+    await user.click(column('Title'));
+    expect(titles()).toEqual(['Civil Code', 'KVKK', 'Labour Law']);
+    expect(screen.getByRole('columnheader', { name: /Title/ })).toHaveAttribute('aria-sort', 'ascending');
+
+    await user.click(column('Title'));
+    expect(titles()).toEqual(['Labour Law', 'KVKK', 'Civil Code']);
+
+    await user.click(column('Chunks'));
+    expect(titles()).toEqual(['Civil Code', 'Labour Law', 'KVKK']);
+
+    // A document without a file size goes last, largest first
+    await user.click(column('Size'));
+    expect(titles()).toEqual(['KVKK', 'Labour Law', 'Civil Code']);
+    expect(screen.getByRole('columnheader', { name: /Uploaded/ })).not.toHaveAttribute('aria-sort');
+  });
+
+  it('asks to delete a document without selecting its row', async () => {
+    const user = userEvent.setup();
+    const { onDelete, onSelect } = setup();
+
+    await user.click(within(screen.getByRole('row', { name: /KVKK/ })).getByRole('button', { name: 'Delete' }));
+
+    expect(onDelete).toHaveBeenCalledWith(DOCUMENTS[0]);
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it('disables the delete button while that document is being deleted', () => {
+    setup({ deletingId: 'kvkk' });
+
+    expect(screen.getByRole('button', { name: 'Deleting...' })).toBeDisabled();
+    expect(screen.getAllByRole('button', { name: 'Delete' })).toHaveLength(2);
+  });
+});
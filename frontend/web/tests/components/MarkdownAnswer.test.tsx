@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { MarkdownAnswer } from '@/components/MarkdownAnswer';
+import { MOCK_SOURCES } from '@/lib/mockFixtures';
+
+const sources = [MOCK_SOURCES.civilCodeArticle1, MOCK_SOURCES.civilCodeArticle2];
+
+function setup(content: string) {
+  const onCitationSelect = vi.fn();
+  const { container } = render(
+    <MarkdownAnswer content={content} sources={sources} onCitationSelect={onCitationSelect} />
+  );
+  return { container, onCitationSelect };
+}
+
+const chip = (number: number) =>
+  screen.getByRole('button', { name: `Source ${number}: ${sources[number - 1].documentTitle}` });
+
+describe('MarkdownAnswer', () => {
+  it('shows raw HTML in the answer as text', () => {
+    const { container } = setup(
+      'Before <script>window.hacked = true</script> and <img src="x" onerror="window.hacked = true"> after'
+    );
+
+    expect(container.querySelector('script')).toBeNull();
+    expect(container.querySelector('img')).toBeNull();
+    expect(container).toHaveTextContent('<script>window.hacked = true</script>');
+    expect(container).toHaveTextContent('<img src="x" onerror="window.hacked = true">');
+  });
+
+  it('turns citation markers into chips that select their source', async () => {
+    const { onCitationSelect } = setup('Kişilik doğumla başlar [2], sağ doğmak şartıyla [1, 2].');
+
+    expect(screen.getAllByRole('button')).toHaveLength(3);
+    expect(screen.queryByText(/\[\d/)).not.toBeInTheDocument();
+
+    await userEvent.click(chip(1));
+    expect(onCitationSelect).toHaveBeenCalledExactlyOnceWith(0);
+  });
+
+  it('turns markers into chips inside lists and tables', () => {
+    const { container } = setup(
+      ['- Birinci madde [1]', '- İkinci madde [2]', '', '| Madde | Kaynak |', '| --- | --- |', '| 1 | [1] |'].join('\n')
+    );
+
+    const items = container.querySelectorAll('li');
+    expect(within(items[0]).getByRole('button')).toHaveTextContent('1');
+    expect(within(items[1]).getByRole('button')).toHaveTextContent('2');
+    expect(within(container.querySelector('td:last-child')!).getByRole('button')).toHaveTextContent('1');
+  });
+
+  it('leaves markers without a source and markers in code as text', () => {
+    const { container } = setup('Unknown [3], code `[1]` and\n\n```\nlist[1]\n```');
+
+    expect(screen.queryByRole('button', { name: /^Source/ })).not.toBeInTheDocument();
+    expect(container).toHaveTextContent('Unknown [3]');
+    expect(container.querySelector('p code')).toHaveTextContent('[1]');
+    expect(container.querySelector('pre')).toHaveTextContent('list[1]');
+  });
+});
@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useState } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RetrievalSettingsPanel } from '@/components/RetrievalSettingsPanel';
+import { MOCK_DOCUMENT_LIST } from '@/lib/mockBackend';
+import { DEFAULT_RETRIEVAL_SETTINGS } from '@/lib/retrievalSettings';
+import type { RetrievalSettings } from '@/types';
+
+const [first, second] = MOCK_DOCUMENT_LIST;
+
+/** The panel with its settings kept like the chat page keeps them */
+function setup(initial: RetrievalSettings = DEFAULT_RETRIEVAL_SETTINGS) {
+  const onChange = vi.fn<(settings: RetrievalSettings) => void>();
+  function Harness() {
+    const [settings, setSettings] = useState(initial);
+    return (
+      <RetrievalSettingsPanel
+        settings={settings}
+        onChange={(next) => {
+          onChange(next);
+          setSettings(next);
+        }}
+      />
+    );
+  }
+  render(<Harness />);
+  return { onChange, lastSettings: () => onChange.mock.calls.at(-1)?.[0] };
+}
+
+const open = () => userEvent.click(screen.getByRole('button', { name: /Retrieval settings/ }));
+
+beforeEach(() => {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn((url: string) =>
+      Promise.resolve(
+        url === '/api/rag/documents'
+          ? Response.json({ totalDocuments: 2, documents: [first, second] })
+          : Response.json({ documents: [] })
+      )
+    )
+  );
+});
+
+describe('RetrievalSettingsPanel', () => {
+  it('summarizes the settings while closed', () => {
+    setup({ topK: 8, minSimilarity: 0.25, documentIds: ['doc-1'] });
+
+    expect(screen.getByText('topK 8 • min similarity 0.25 • 1 document')).toBeInTheDocument();
+    expect(screen.queryByLabelText(/Top K/)).not.toBeInTheDocument();
+  });
+
+  it('keeps the sliders within their ranges', async () => {
+    const { lastSettings } = setup();
+    await open();
+
+    fireEvent.change(screen.getByLabelText('Top K: 5'), { target: { value: '40' } });
+    expect(lastSettings()?.topK).toBe(20);
+
+    fireEvent.change(screen.getByLabelText('Min similarity: 0.00'), { target: { value: '0.4' } });
+    expect(lastSettings()).toEqual({ topK: 20, minSimilarity: 0.4, documentIds: [] });
+    expect(screen.getByText('topK 20 • min similarity 0.40 • all documents')).toBeInTheDocument();
+  });
+
+  it('scopes the question to the checked documents', async () => {
+    const { lastSettings } = setup();
+    await open();
+
+    await userEvent.click(await screen.findByRole('checkbox', { name: first.title }));
+    await userEvent.click(screen.getByRole('checkbox', { name: second.title }));
+    expect(lastSettings()?.documentIds).toEqual([first.documentId, second.documentId]);
+
+    await userEvent.click(screen.getByRole('checkbox', { name: first.title }));
+    expect(lastSettings()?.documentIds).toEqual([second.documentId]);
+  });
+
+  it('resets to the defaults', async () => {
+    const { lastSettings } = setup({ topK: 12, minSimilarity: 0.6, documentIds: [first.documentId] });
+    await open();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Reset to defaults' }));
+
+    expect(lastSettings()).toEqual(DEFAULT_RETRIEVAL_SETTINGS);
+  });
+});
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SessionProvider } from '@/components/SessionProvider';
+import { useConversations } from '@/hooks/useConversations';
+import { getSnapshot, serializeConversations, setConversationOwner } from '@/lib/conversationStore';
+import type { Conversation, User } from '@/types';
+
+const AYSE: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+
+const conversation = (title: string): Conversation => ({
+  id: title,
+  title,
+  conversationId: null,
+  messages: [],
+  createdAt: new Date('2026-10-01T09:00:00Z'),
+  updatedAt: new Date('2026-10-01T09:00:00Z'),
+});
+
+function Titles() {
+  const conversations = useConversations();
+  return <p>{conversations.map((c) => c.title).join(', ') || 'No conversations'}</p>;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  setConversationOwner(null);
+});
+
+describe('SessionProvider', () => {
+  it("shows the signed-in user's own history", async () => {
+    localStorage.setItem('rag.conversations.v1:ayse', serializeConversations([conversation('KVKK')]));
+    localStorage.setItem('rag.conversations.v1:mehmet', serializeConversations([conversation('GDPR')]));
+
+    render(
+      <SessionProvider user={AYSE}>
+        <Titles />
+      </SessionProvider>
+    );
+
+    expect(await screen.findByText('KVKK')).toBeInTheDocument();
+  });
+
+  it('hands the history from before sign-in to the first user who signs in', async () => {
+    localStorage.setItem('rag.conversations.v1', serializeConversations([conversation('Old question')]));
+
+    render(
+      <SessionProvider user={AYSE}>
+        <Titles />
+      </SessionProvider>
+    );
+
+    expect(await screen.findByText('Old question')).toBeInTheDocument();
+    expect(localStorage.getItem('rag.conversations.v1')).toBeNull();
+    expect(localStorage.getItem('rag.conversations.v1:ayse')).toContain('Old question');
+  });
+
+  it('leaves the stores alone while rendering on the server', () => {
+    localStorage.setItem('rag.conversations.v1:ayse', serializeConversations([conversation('KVKK')]));
+
+    renderToString(
+      <SessionProvider user={AYSE}>
+        <p>Page</p>
+      </SessionProvider>
+    );
+
+    // The next request, whoever sent it, still starts from no owner
+    expect(getSnapshot()).toEqual([]);
+  });
+});
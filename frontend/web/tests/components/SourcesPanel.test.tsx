@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import { SourcesPanel } from '@/components/SourcesPanel';
+import { MOCK_SOURCES } from '@/lib/mockFixtures';
+
+const sources = [MOCK_SOURCES.civilCodeArticle1, MOCK_SOURCES.civilCodeArticle2];
+
+const header = (index: number) => screen.getByText(`#${index + 1}`).closest('button')!;
+
+describe('SourcesPanel', () => {
+  it('renders nothing without sources', () => {
+    const { container } = render(<SourcesPanel sources={[]} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists sources collapsed, with title, chunk and similarity', () => {
+    render(<SourcesPanel sources={sources} />);
+
+    expect(screen.getByText('Sources (2)')).toBeInTheDocument();
+    expect(screen.getAllByText('Türk Medeni Kanunu')).toHaveLength(2);
+    expect(screen.getByText('Chunk 1')).toBeInTheDocument();
+    expect(screen.getByText('0.1342')).toBeInTheDocument();
+    expect(screen.queryByText(sources[0].contentPreview)).not.toBeInTheDocument();
+  });
+
+  it('expands and collapses each source independently', async () => {
+    const user = userEvent.setup();
+    render(<SourcesPanel sources={sources} />);
+
+    await user.click(header(0));
+    expect(screen.getByText(sources[0].contentPreview)).toBeInTheDocument();
+    expect(screen.queryByText(sources[1].contentPreview)).not.toBeInTheDocument();
+
+    await user.click(header(1));
+    expect(screen.getByText(sources[1].contentPreview)).toBeInTheDocument();
+
+    await user.click(header(0));
+    expect(screen.queryByText(sources[0].contentPreview)).not.toBeInTheDocument();
+    expect(screen.getByText(sources[1].contentPreview)).toBeInTheDocument();
+  });
+});
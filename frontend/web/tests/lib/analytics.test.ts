@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildHistogram, histogramRange, summarizeAnswers } from '@/lib/analytics';
+import type { AnswerLogEntry, ConfidenceInfo, Source } from '@/types';
+
+const THRESHOLDS = { minAnswerSimilarity: 0.04, lowConfidence: 0.06 };
+
+function source(documentId: string, chunkIndex: number, similarityScore: number): Source {
+  return {
+    chunkId: `${documentId}-${chunkIndex}`,
+    documentId,
+    documentTitle: `Title ${documentId}`,
+    chunkIndex,
+    similarityScore,
+    contentPreview: `chunk ${chunkIndex}`,
+  };
+}
+
+function entry(
+  question: string,
+  level: ConfidenceInfo['level'],
+  maxSimilarity: number,
+  sources: Source[] = [],
+  createdAt = '2026-10-01T10:00:00.000Z'
+): AnswerLogEntry {
+  return {
+    id: question,
+    question,
+    conversationId: null,
+    confidence: { level, maxSimilarity, averageSimilarity: maxSimilarity / 2 },
+    sources,
+    createdAt,
+  };
+}
+
+describe('histogram', () => {
+  it('spans at least twice the low-confidence threshold, rounded up to 0.05', () => {
+    expect(histogramRange([0.01, 0.02], THRESHOLDS)).toBe(0.15);
+    expect(histogramRange([0.31], THRESHOLDS)).toBe(0.35);
+    expect(histogramRange([0.99], THRESHOLDS)).toBe(1);
+  });
+
+  it('counts scores per bin and keeps the top edge in the last bin', () => {
+    expect(buildHistogram([0, 0.05, 0.09, 0.1], 0.1, 4)).toEqual({ binWidth: 0.025, counts: [1, 0, 1, 2] });
+  });
+});
+
+describe('summarizeAnswers', () => {
+  const entries = [
+    entry('q1', 'high', 0.12, [source('a', 0, 0.12), source('b', 3, 0.08)], '2026-10-01T09:00:00.000Z'),
+    entry('q2', 'high', 0.1, [source('a', 0, 0.1), source('a', 1, 0.07)], '2026-10-02T09:00:00.000Z'),
+    entry('q3', 'low', 0.05, [source('b', 3, 0.05)], '2026-10-02T12:00:00.000Z'),
+    entry('Yarın hava nasıl?', 'none', 0.01, [], '2026-10-03T09:00:00.000Z'),
+    entry('What is the weather?', 'none', 0.02, [], '2026-10-01T08:00:00.000Z'),
+  ];
+
+  it('counts the confidence levels overall and per day', () => {
+    const summary = summarizeAnswers(entries, THRESHOLDS);
+
+    expect(summary.total).toBe(5);
+    expect(summary.levels).toEqual({ high: 2, low: 1, none: 2 });
+    expect(summary.daily).toEqual([
+      { date: '2026-10-01', high: 1, low: 0, none: 1 },
+      { date: '2026-10-02', high: 1, low: 1, none: 0 },
+      { date: '2026-10-03', high: 0, low: 0, none: 1 },
+    ]);
+  });
+
+  it('ranks the most-cited documents and chunks', () => {
+    const summary = summarizeAnswers(entries, THRESHOLDS);
+
+    expect(summary.topDocuments.map((d) => [d.documentId, d.citations])).toEqual([
+      ['a', 3],
+      ['b', 2],
+    ]);
+    expect(summary.topChunks[0]).toMatchObject({ chunkId: 'a-0', citations: 2, averageSimilarity: 0.11 });
+    expect(summary.topChunks[1]).toMatchObject({ chunkId: 'b-3', citations: 2, contentPreview: 'chunk 3' });
+  });
+
+  it('lists no-information questions newest first', () => {
+    const summary = summarizeAnswers(entries, THRESHOLDS);
+
+    expect(summary.noInfoQuestions.map((q) => q.question)).toEqual(['Yarın hava nasıl?', 'What is the weather?']);
+  });
+
+  it('builds both similarity histograms over the same range', () => {
+    const summary = summarizeAnswers(entries, THRESHOLDS);
+
+    expect(summary.maxSimilarity.binWidth).toBeCloseTo(0.15 / 20);
+    expect(summary.averageSimilarity.binWidth).toBe(summary.maxSimilarity.binWidth);
+    expect(summary.maxSimilarity.counts.reduce((a, b) => a + b)).toBe(5);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { tapAnswerStream } from '@/lib/askStream';
+import { mockAskResponses } from '@/lib/mockFixtures';
+import { formatServerSentEvent } from '@/lib/sse';
+
+const ANSWER = mockAskResponses.highEnglish;
+
+function eventStream(...frames: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      frames.forEach((frame) => controller.enqueue(encoder.encode(frame)));
+      controller.close();
+    },
+  });
+}
+
+describe('tapAnswerStream', () => {
+  it('relays the stream unchanged and reports its final frame', async () => {
+    const frames = [formatServerSentEvent('token', { text: ANSWER.answer }), formatServerSentEvent('done', ANSWER)];
+    const onAnswer = vi.fn();
+
+    const relayed = await new Response(tapAnswerStream(eventStream(...frames), onAnswer)).text();
+
+    expect(relayed).toBe(frames.join(''));
+    await vi.waitFor(() => expect(onAnswer).toHaveBeenCalledWith(ANSWER));
+  });
+
+  it('reports nothing for a stream that fails mid-answer', async () => {
+    const onAnswer = vi.fn();
+
+    await new Response(
+      tapAnswerStream(
+        eventStream(formatServerSentEvent('token', { text: 'Half' }), formatServerSentEvent('error', { error: 'LLM failed' })),
+        onAnswer
+      )
+    ).text();
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(onAnswer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSessionToken,
+  encodeUserHeader,
+  readSessionToken,
+  requestUser,
+  SESSION_TTL_SECONDS,
+  USER_HEADER,
+} from '@/lib/auth';
+import type { User } from '@/types';
+
+const USER: User = { username: 'ayse', displayName: 'Ayşe Yılmaz', workspace: 'legal' };
+const NOW = Date.parse('2026-10-01T10:00:00.000Z');
+
+describe('session tokens', () => {
+  it('round-trips the user until the token expires', () => {
+    const token = createSessionToken(USER, NOW);
+
+    expect(readSessionToken(token, NOW + 1000)).toEqual(USER);
+    expect(readSessionToken(token, NOW + SESSION_TTL_SECONDS * 1000)).toBeNull();
+  });
+
+  it('rejects tampered, truncated and missing tokens', () => {
+    const [payload, signature] = createSessionToken(USER, NOW).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ user: { ...USER, workspace: 'hr' }, expiresAt: NOW + 60_000 })
+    ).toString('base64url');
+
+    expect(readSessionToken(`${forged}.${signature}`, NOW)).toBeNull();
+    expect(readSessionToken(payload, NOW)).toBeNull();
+    expect(readSessionToken(`${payload}.${signature}.x`, NOW)).toBeNull();
+    expect(readSessionToken(undefined, NOW)).toBeNull();
+  });
+});
+
+describe('requestUser', () => {
+  it('reads the user the proxy attached', () => {
+    const request = new Request('http://localhost/api/rag/ask', {
+      headers: { [USER_HEADER]: encodeUserHeader(USER) },
+    });
+    expect(requestUser(request)).toEqual(USER);
+  });
+
+  it('is null without a readable header', () => {
+    expect(requestUser(new Request('http://localhost/api/rag/ask'))).toBeNull();
+    expect(
+      requestUser(new Request('http://localhost/api/rag/ask', { headers: { [USER_HEADER]: 'not-json' } }))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { splitCitations } from '@/lib/citations';
+
+describe('splitCitations', () => {
+  it('returns an answer without markers as a single text segment', () => {
+    expect(splitCitations('Kişilik doğumla başlar.', 2)).toEqual([{ type: 'text', text: 'Kişilik doğumla başlar.' }]);
+  });
+
+  it('splits single and grouped markers into zero-based source indexes', () => {
+    expect(splitCitations('A [1] b [1, 3].', 3)).toEqual([
+      { type: 'text', text: 'A ' },
+      { type: 'citation', sourceIndex: 0 },
+      { type: 'text', text: ' b ' },
+      { type: 'citation', sourceIndex: 0 },
+      { type: 'citation', sourceIndex: 2 },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('keeps markers outside the sources as text', () => {
+    expect(splitCitations('[0] [3] [1, 4]', 2)).toEqual([{ type: 'text', text: '[0] [3] [1, 4]' }]);
+  });
+
+  it('does not emit empty text between adjacent markers', () => {
+    expect(splitCitations('[1][2]', 2)).toEqual([
+      { type: 'citation', sourceIndex: 0 },
+      { type: 'citation', sourceIndex: 1 },
+    ]);
+  });
+});
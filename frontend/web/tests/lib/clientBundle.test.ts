@@ -0,0 +1,18 @@
+import { describe, expect, it, vi } from 'vitest';
+
+describe('browser modules', () => {
+  // Anything they import ends up in the client bundle
+  it.each(['apiClient', 'askStream', 'pdfUpload', 'uploadQueue', 'ingestionJobs', 'searchApi', 'documentsApi'])(
+    'load %s without the mock backend',
+    async (name) => {
+      vi.resetModules();
+      vi.doMock('@/lib/mockBackend', () => {
+        throw new Error('The mock backend was imported');
+      });
+
+      await expect(import(`@/lib/${name}.ts`)).resolves.toBeDefined();
+
+      vi.doUnmock('@/lib/mockBackend');
+    }
+  );
+});
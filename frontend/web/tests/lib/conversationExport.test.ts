@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  conversationToJson,
+  conversationToMarkdown,
+  downloadFile,
+  parseConversationFile,
+} from '@/lib/conversationExport';
+import { importConversation } from '@/lib/conversationStore';
+import { mockAskResponses } from '@/lib/mockFixtures';
+import { ResponseValidationError } from '@/lib/validation';
+import type { Conversation } from '@/types';
+
+const ANSWER = mockAskResponses.highEnglish;
+
+/** An export file as read from disk, before validation */
+interface ExportFile {
+  format?: string;
+  version?: number;
+  conversation?: { messages: { role?: string }[] };
+}
+
+const CONVERSATION: Conversation = {
+  id: 'local-1',
+  title: 'GDPR',
+  conversationId: ANSWER.conversationId,
+  createdAt: new Date('2026-10-01T09:00:00.000Z'),
+  updatedAt: new Date('2026-10-01T09:05:00.000Z'),
+  messages: [
+    { id: '1', role: 'user', content: 'What does the GDPR say?', timestamp: new Date('2026-10-01T09:00:00.000Z') },
+    {
+      id: '2',
+      role: 'assistant',
+      content: ANSWER.answer,
+      timestamp: new Date('2026-10-01T09:00:05.000Z'),
+      confidence: ANSWER.confidence,
+      sources: ANSWER.sources,
+      language: ANSWER.language,
+      cached: true,
+    },
+    { id: '3', role: 'user', content: 'And Article 5?', timestamp: new Date('2026-10-01T09:05:00.000Z') },
+    {
+      id: '4',
+      role: 'assistant',
+      content: '',
+      timestamp: new Date('2026-10-01T09:05:01.000Z'),
+      error: {
+        code: 'rate-limited',
+        message: 'Too many requests',
+        conversationId: ANSWER.conversationId,
+        retryAfterSeconds: 30,
+      },
+    },
+  ],
+};
+
+describe('conversation export', () => {
+  it('imports an exported conversation with every message field intact', () => {
+    const imported = importConversation(parseConversationFile(conversationToJson(CONVERSATION)));
+
+    expect(imported.id).not.toBe(CONVERSATION.id);
+    expect(imported.messages).toEqual(CONVERSATION.messages);
+  });
+
+  it('keeps the conversation details and exports a streaming answer as cancelled', () => {
+    const streaming: Conversation = {
+      ...CONVERSATION,
+      retrievalSettings: { topK: 3, minSimilarity: 0.4, documentIds: ['doc-1'] },
+      messages: [{ ...CONVERSATION.messages[1], isStreaming: true }],
+    };
+
+    const { conversation } = parseConversationFile(conversationToJson(streaming));
+
+    expect(conversation).toMatchObject({
+      title: 'GDPR',
+      conversationId: ANSWER.conversationId,
+      retrievalSettings: streaming.retrievalSettings,
+      createdAt: '2026-10-01T09:00:00.000Z',
+    });
+    expect(conversation.messages[0]).toMatchObject({ isCancelled: true });
+    expect(conversation.messages[0]).not.toHaveProperty('isStreaming');
+  });
+
+  it('rejects a file that is not JSON', () => {
+    expect(() => parseConversationFile('# GDPR\n\n## Q1: What does the GDPR say?')).toThrow(SyntaxError);
+  });
+
+  it.each<[string, (file: ExportFile) => void]>([
+    ['another format', (file) => (file.format = 'rag-evaluation')],
+    ['another version', (file) => (file.version = 2)],
+    ['no conversation', (file) => delete file.conversation],
+    ['a message without a role', (file) => delete file.conversation?.messages[0].role],
+  ])('rejects a file with %s', (_, corrupt) => {
+    const file: ExportFile = JSON.parse(conversationToJson(CONVERSATION));
+    corrupt(file);
+
+    expect(() => parseConversationFile(JSON.stringify(file))).toThrow(ResponseValidationError);
+  });
+
+  it('marks cached answers in Markdown', () => {
+    expect(conversationToMarkdown(CONVERSATION)).toContain('_Served from the answer cache_');
+  });
+});
+
+describe('downloadFile', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('revokes the object URL only after the download has started', () => {
+    vi.useFakeTimers();
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:export');
+    const revoke = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    downloadFile('gdpr.md', '# GDPR', 'text/markdown');
+
+    expect(click).toHaveBeenCalledOnce();
+    expect(click.mock.contexts[0]).toMatchObject({ href: 'blob:export', download: 'gdpr.md' });
+    expect(revoke).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(revoke).toHaveBeenCalledExactlyOnceWith('blob:export');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from '@/lib/apiClient';
+import { createConversationOwners } from '@/lib/conversationOwners';
+import type { User } from '@/types';
+
+const AYSE: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+const MERT: User = { username: 'mert', displayName: 'Mert', workspace: 'legal' };
+
+describe('createConversationOwners', () => {
+  it('forwards a conversation only for the user who started it', () => {
+    const owners = createConversationOwners();
+    owners.record('conv-1', AYSE);
+
+    expect(owners.check('conv-1', AYSE)).toBe('conv-1');
+    expect(() => owners.check('conv-1', MERT)).toThrow(
+      expect.objectContaining({ status: 404, code: 'not-found' }) as ApiError
+    );
+  });
+
+  it('drops conversations it does not know, so the backend starts a new one', () => {
+    const owners = createConversationOwners();
+
+    expect(owners.check('conv-unknown', AYSE)).toBeUndefined();
+    expect(owners.check(undefined, AYSE)).toBeUndefined();
+  });
+
+  it('leaves requests without a user alone', () => {
+    const owners = createConversationOwners();
+    owners.record('conv-1', null);
+
+    expect(owners.size).toBe(0);
+    expect(owners.check('conv-1', null)).toBe('conv-1');
+  });
+
+  it('forgets the least recently used conversation when full', () => {
+    const owners = createConversationOwners(2);
+    owners.record('first', AYSE);
+    owners.record('second', AYSE);
+    owners.check('first', AYSE);
+    owners.record('third', AYSE);
+
+    expect(owners.check('second', AYSE)).toBeUndefined();
+    expect(owners.check('first', AYSE)).toBe('first');
+    expect(owners.check('third', AYSE)).toBe('third');
+  });
+});
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { deserializeConversations, serializeConversations } from '@/lib/conversationStore';
+import type { Conversation } from '@/types';
+
+const STORAGE_KEY = 'rag.conversations.v1';
+
+const CONVERSATION: Conversation = {
+  id: 'c-1',
+  title: 'KVKK nedir?',
+  conversationId: 'backend-1',
+  createdAt: new Date('2026-10-01T09:00:00Z'),
+  updatedAt: new Date('2026-10-01T09:05:00Z'),
+  messages: [
+    { id: 'm-1', role: 'user', content: 'KVKK nedir?', timestamp: new Date('2026-10-01T09:00:00Z') },
+    {
+      id: 'm-2',
+      role: 'assistant',
+      content: 'Kişisel Verilerin Korunması Kanunu',
+      timestamp: new Date('2026-10-01T09:00:05Z'),
+      isStreaming: true,
+    },
+  ],
+};
+
+// The store keeps the loaded history in module state, so each test loads it afresh
+async function loadStore() {
+  vi.resetModules();
+  return import('@/lib/conversationStore');
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('deserializeConversations', () => {
+  it('revives dates and marks answers that were streaming as cancelled', () => {
+    const [conversation] = deserializeConversations(serializeConversations([CONVERSATION]));
+
+    expect(conversation.createdAt).toBeInstanceOf(Date);
+    expect(conversation.createdAt).toEqual(CONVERSATION.createdAt);
+    expect(conversation.updatedAt).toEqual(CONVERSATION.updatedAt);
+    expect(conversation.messages.map((message) => message.timestamp)).toEqual(
+      CONVERSATION.messages.map((message) => message.timestamp)
+    );
+    expect(conversation.messages[1]).toMatchObject({ isCancelled: true });
+    expect(conversation.messages[1]).not.toHaveProperty('isStreaming');
+  });
+
+  it('returns no conversations for JSON that is not a list', () => {
+    expect(deserializeConversations('{"id":"c-1"}')).toEqual([]);
+    expect(deserializeConversations('null')).toEqual([]);
+  });
+
+  it('drops entries without an id and fills in missing messages', () => {
+    const raw = JSON.stringify([null, 42, { title: 'no id' }, { id: 'c-2', title: 'Boş', createdAt: '2026-10-01' }]);
+
+    const conversations = deserializeConversations(raw);
+
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0]).toMatchObject({ id: 'c-2', messages: [] });
+  });
+
+  it('keeps retrieval settings in range', () => {
+    const saved = { ...CONVERSATION, retrievalSettings: { topK: 8, minSimilarity: 0.3, documentIds: ['doc-1'] } };
+    const tampered = { ...CONVERSATION, retrievalSettings: { topK: 50, minSimilarity: 2, documentIds: ['doc-1', 'doc-1'] } };
+
+    expect(deserializeConversations(serializeConversations([saved]))[0].retrievalSettings).toEqual(
+      saved.retrievalSettings
+    );
+    expect(deserializeConversations(serializeConversations([tampered]))[0].retrievalSettings).toEqual({
+      topK: 20,
+      minSimilarity: 1,
+      documentIds: ['doc-1'],
+    });
+    expect(deserializeConversations(serializeConversations([CONVERSATION]))[0].retrievalSettings).toBeUndefined();
+  });
+});
+
+describe('conversation store', () => {
+  it('loads the history saved in localStorage', async () => {
+    localStorage.setItem(STORAGE_KEY, serializeConversations([CONVERSATION]));
+    const store = await loadStore();
+
+    const [conversation] = store.getSnapshot();
+
+    expect(conversation.id).toBe('c-1');
+    expect(conversation.messages[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('starts empty without a saved history', async () => {
+    const store = await loadStore();
+
+    expect(store.getSnapshot()).toEqual([]);
+  });
+
+  it('starts empty, with a warning, when the saved history is corrupt', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEY, '[{"id":"c-1",');
+    const store = await loadStore();
+
+    expect(store.getSnapshot()).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('Could not read conversation history:', expect.any(SyntaxError));
+  });
+
+  it('starts empty when localStorage cannot be read', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    });
+    const store = await loadStore();
+
+    expect(store.getSnapshot()).toEqual([]);
+  });
+
+  it('keeps each user history under its own key', async () => {
+    localStorage.setItem(`${STORAGE_KEY}:ayse`, serializeConversations([CONVERSATION]));
+    const store = await loadStore();
+
+    store.setConversationOwner('ayse');
+    expect(store.getSnapshot().map((conversation) => conversation.id)).toEqual(['c-1']);
+
+    store.setConversationOwner('mehmet');
+    expect(store.getSnapshot()).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { allTags, documentsWithTag, normalizeTags, parseTagList, withinScope } from '@/lib/documentScope';
+import { MOCK_DOCUMENTS, MOCK_SOURCES } from '@/lib/mockFixtures';
+
+const entries = [
+  { documentId: 'a', tags: ['Law', 'tr'], updatedAt: '2026-10-01T00:00:00.000Z' },
+  { documentId: 'b', tags: ['privacy', 'law'], updatedAt: '2026-10-01T00:00:00.000Z' },
+  { documentId: 'deleted', tags: ['law'], updatedAt: '2026-10-01T00:00:00.000Z' },
+];
+
+describe('tags', () => {
+  it('trims, collapses spaces and drops empty and duplicate tags', () => {
+    expect(normalizeTags([' data  protection ', '', 'Law', 'law', 'LAW '])).toEqual(['data protection', 'Law']);
+    expect(parseTagList('kvkk, gdpr,, kvkk')).toEqual(['kvkk', 'gdpr']);
+  });
+
+  it('lists every tag once, sorted', () => {
+    expect(allTags(entries)).toEqual(['Law', 'privacy', 'tr']);
+  });
+
+  it('resolves a tag to the existing documents carrying it', () => {
+    expect(documentsWithTag(entries, 'LAW', ['a', 'b'])).toEqual(['a', 'b']);
+    expect(documentsWithTag(entries, 'privacy', ['a'])).toEqual([]);
+  });
+});
+
+describe('withinScope', () => {
+  const sources = [MOCK_SOURCES.civilCodeArticle1, MOCK_SOURCES.gdprPrinciples];
+
+  it('keeps only sources from the scoped documents', () => {
+    expect(withinScope(sources, [MOCK_DOCUMENTS.gdpr.documentId])).toEqual([MOCK_SOURCES.gdprPrinciples]);
+  });
+
+  it('keeps everything when the scope is all documents', () => {
+    expect(withinScope(sources, [])).toBe(sources);
+  });
+});
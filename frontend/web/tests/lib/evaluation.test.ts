@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createApiClient } from '@/lib/apiClient';
+import {
+  createRun,
+  diffRuns,
+  diffToMarkdown,
+  parseRunFile,
+  parseTestSet,
+  runEvaluation,
+  runToMarkdown,
+} from '@/lib/evaluation';
+import type { AskRequest, AskResponse, EvaluationCase } from '@/types';
+import { startStubBackend, type StubBackend } from '../stubBackend';
+
+const DOC_A = 'aaaaaaaa-0000-0000-0000-000000000001';
+const DOC_B = 'bbbbbbbb-0000-0000-0000-000000000002';
+
+function answer(
+  question: string,
+  text: string,
+  level: AskResponse['confidence']['level'],
+  documentIds: string[]
+): AskResponse {
+  return {
+    question,
+    answer: text,
+    conversationId: 'conv-1',
+    language: 'tr',
+    confidence: { level, maxSimilarity: level === 'none' ? 0.01 : 0.12, averageSimilarity: 0.05 },
+    sources: documentIds.map((documentId, index) => ({
+      chunkId: `chunk-${index}`,
+      documentId,
+      documentTitle: `Document ${index}`,
+      chunkIndex: index,
+      similarityScore: 0.1,
+      contentPreview: '...',
+    })),
+    sourceCount: documentIds.length,
+  };
+}
+
+const cases: EvaluationCase[] = [
+  {
+    id: 'first-hit',
+    question: 'KVKK nedir?',
+    expectedDocumentIds: [DOC_A],
+    expectedPhrases: ['Kişisel Veri', 'İlgili kişi'],
+  },
+  { id: 'second-hit', question: 'Veri sorumlusu kimdir?', expectedDocumentIds: [DOC_A], topK: 3 },
+  { id: 'no-info', question: 'Yarın hava nasıl?', expectedPhrases: ['bilgi yok'] },
+  { id: 'broken', question: 'fail', expectedDocumentIds: [DOC_B] },
+];
+
+const responses: Record<string, AskResponse> = {
+  'KVKK nedir?': answer('KVKK nedir?', 'KVKK, kişisel   verilerin korunması kanunudur.', 'high', [DOC_A, DOC_B]),
+  'Veri sorumlusu kimdir?': answer('Veri sorumlusu kimdir?', 'Veri sorumlusu...', 'low', [DOC_B, DOC_A]),
+  'Yarın hava nasıl?': answer('Yarın hava nasıl?', 'Bu konuda bilgi yok.', 'none', []),
+};
+
+let backend: StubBackend | undefined;
+
+afterEach(async () => {
+  await backend?.close();
+  backend = undefined;
+});
+
+async function evaluateAgainstStub(kValues?: number[]) {
+  backend = await startStubBackend(({ body }) => {
+    const { question } = body as AskRequest;
+    const response = responses[question];
+    return response ? { body: response } : { status: 500, body: { error: 'LLM failed' } };
+  });
+  const client = createApiClient({
+    baseUrl: backend.url,
+    timeouts: { ask: 5_000, askStream: 5_000, ingest: 0, search: 0, documents: 0, jobs: 0, conversations: 0 },
+    retry: { attempts: 0, delayMs: 0 },
+  });
+  return runEvaluation(cases, client, { kValues });
+}
+
+describe('parseTestSet', () => {
+  it('reads a YAML list under "cases"', () => {
+    const parsed = parseTestSet(
+      'cases:\n  - id: a\n    question: KVKK nedir?\n    expectedPhrases: [kanun]\n',
+      'set.yaml'
+    );
+    expect(parsed).toEqual([
+      expect.objectContaining({ id: 'a', question: 'KVKK nedir?', expectedPhrases: ['kanun'] }),
+    ]);
+  });
+
+  it('reads one case per JSONL line and skips blank lines', () => {
+    const parsed = parseTestSet(
+      '{"id":"a","question":"q1","expectedDocumentIds":["d1"]}\n\n{"id":"b","question":"q2","topK":3}\n',
+      'set.jsonl'
+    );
+    expect(parsed.map((c) => c.id)).toEqual(['a', 'b']);
+    expect(parsed[1].topK).toBe(3);
+  });
+
+  it('reports the line of invalid JSONL', () => {
+    expect(() => parseTestSet('{"id":"a","question":"q"}\n{oops', 'set.jsonl')).toThrow('set.jsonl:2');
+  });
+
+  it('rejects missing questions and duplicate ids', () => {
+    expect(() => parseTestSet('- id: a\n', 'set.yaml')).toThrow('cases[0].question');
+    expect(() => parseTestSet('- {id: a, question: q}\n- {id: a, question: q}\n', 'set.yaml')).toThrow(
+      'duplicate case id "a"'
+    );
+  });
+});
+
+describe('runEvaluation against a stub backend', () => {
+  it('sends each question through the ask API in a fresh conversation', async () => {
+    await evaluateAgainstStub();
+
+    expect(backend!.requests.map((r) => `${r.method} ${r.url}`)).toEqual(
+      Array(cases.length).fill('POST /api/rag/ask')
+    );
+    expect(backend!.requests[1].body).toEqual({
+      question: 'Veri sorumlusu kimdir?',
+      conversationId: null,
+      topK: 3,
+    });
+  });
+
+  it('asks for the largest k when a case sets no topK', async () => {
+    await evaluateAgainstStub([1, 10]);
+
+    expect(backend!.requests.map((r) => (r.body as AskRequest).topK)).toEqual([10, 3, 10, 10]);
+  });
+
+  it('scores hits, phrases and failures per case', async () => {
+    const results = await evaluateAgainstStub();
+    const byId = Object.fromEntries(results.map((result) => [result.id, result]));
+
+    expect(byId['first-hit']).toMatchObject({
+      firstHitRank: 1,
+      phrasesFound: ['Kişisel Veri'],
+      phrasesMissing: ['İlgili kişi'],
+    });
+    expect(byId['second-hit'].firstHitRank).toBe(2);
+    expect(byId['no-info']).toMatchObject({ firstHitRank: null, phrasesFound: ['bilgi yok'] });
+    expect(byId.broken).not.toHaveProperty('confidence');
+    expect(byId.broken.firstHitRank).toBeNull();
+    expect(byId.broken.error).toContain('500');
+  });
+
+  it('stops at the first sign-in failure instead of failing every case', async () => {
+    backend = await startStubBackend(() => ({ status: 401, body: { code: 'unauthorized', error: 'Sign in required' } }));
+    const client = createApiClient({
+      baseUrl: backend.url,
+      timeouts: { ask: 5_000, askStream: 5_000, ingest: 0, search: 0, documents: 0, jobs: 0, conversations: 0 },
+      retry: { attempts: 0, delayMs: 0 },
+    });
+
+    await expect(runEvaluation(cases, client)).rejects.toMatchObject({ code: 'unauthorized' });
+    expect(backend.requests).toHaveLength(1);
+  });
+
+  it('summarizes hit rate@k, confidence levels and phrase recall', async () => {
+    const run = createRun(
+      { testSet: 'set.yaml', baseUrl: 'stub', startedAt: 'a', finishedAt: 'b', kValues: [1, 3] },
+      await evaluateAgainstStub()
+    );
+
+    expect(run.summary).toMatchObject({
+      total: 4,
+      errors: 1,
+      // 3 cases expect documents: hit at #1, hit at #2, error
+      hitRate: { 1: 1 / 3, 3: 2 / 3 },
+      confidence: { high: 1, low: 1, none: 1 },
+      phraseRecall: 2 / 3,
+    });
+
+    const markdown = runToMarkdown(run);
+    expect(markdown).toContain('| Hit rate @1 | 33.3% |');
+    expect(markdown).toContain('| second-hit | Veri sorumlusu kimdir? | low | 0.1200 | #2 | — |');
+  });
+});
+
+describe('diffRuns', () => {
+  it('reports metric changes and cases whose outcome changed', async () => {
+    const results = await evaluateAgainstStub();
+    const details = { testSet: 'set.yaml', baseUrl: 'stub', startedAt: 'a', finishedAt: 'b', kValues: [1] };
+    const baseline = createRun(details, results);
+    const current = createRun(
+      { ...details, kValues: [1, 3] },
+      results.map((result) => (result.id === 'second-hit' ? { ...result, firstHitRank: 1 } : result))
+    );
+
+    // Round-trip through the saved JSON like the CLI does
+    const diff = diffRuns(
+      parseRunFile(JSON.stringify(baseline), 'baseline.json'),
+      parseRunFile(JSON.stringify(current), 'current.json')
+    );
+
+    expect(diff.changed.map((change) => change.id)).toEqual(['second-hit']);
+    const markdown = diffToMarkdown(diff);
+    expect(markdown).toContain('| Hit rate @1 | 33.3% | 66.7% | +33.3 pp |');
+    expect(markdown).toContain('| Hit rate @3 | 66.7% | 66.7% | ±0 |');
+    expect(markdown).toContain('| second-hit | Veri sorumlusu kimdir? | low, hit #2, phrases — | low, hit #1, phrases — |');
+  });
+
+  it('rejects files that are not evaluation runs', () => {
+    expect(() => parseRunFile('{"format":"rag-conversation"}', 'x.json')).toThrow('run.format');
+  });
+});
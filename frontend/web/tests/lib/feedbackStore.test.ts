@@ -0,0 +1,111 @@
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { listFeedback, saveFeedback } from '@/lib/feedbackStore';
+import { mockAskResponses } from '@/lib/mockFixtures';
+import type { FeedbackSubmission, User } from '@/types';
+
+const LEGAL: User = { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' };
+const LEGAL_COLLEAGUE: User = { username: 'can', displayName: 'Can', workspace: 'legal' };
+const HR: User = { username: 'mert', displayName: 'Mert', workspace: 'hr' };
+
+const { high, low } = mockAskResponses;
+
+const submission = (overrides: Partial<FeedbackSubmission> = {}): FeedbackSubmission => ({
+  messageId: '1760000000000',
+  rating: 'up',
+  question: high.question,
+  answer: high.answer,
+  conversationId: 'conversation-1',
+  confidence: high.confidence,
+  sources: high.sources,
+  ...overrides,
+});
+
+let file: string;
+
+beforeEach(() => {
+  file = path.join(os.tmpdir(), 'rag-web-tests', `feedback-${randomUUID()}.jsonl`);
+  vi.stubEnv('FEEDBACK_FILE', file);
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  await rm(file, { force: true });
+});
+
+describe('feedback store', () => {
+  it('saves the rating with the user who gave it', async () => {
+    const entry = await saveFeedback(submission(), LEGAL);
+
+    expect(entry).toMatchObject({ ratedBy: 'ayse', workspace: 'legal', rating: 'up' });
+    expect(await listFeedback()).toEqual([entry]);
+  });
+
+  it("keeps only a user's latest rating of an answer", async () => {
+    await saveFeedback(submission({ rating: 'up' }), LEGAL);
+    const latest = await saveFeedback(submission({ rating: 'down', comment: 'Wrong article' }), LEGAL);
+
+    expect(await listFeedback()).toEqual([latest]);
+  });
+
+  it('keeps ratings of the same message id in other conversations and by other users', async () => {
+    await saveFeedback(submission(), LEGAL);
+    await saveFeedback(submission({ conversationId: 'conversation-2' }), LEGAL);
+    await saveFeedback(submission(), LEGAL_COLLEAGUE);
+
+    const entries = await listFeedback();
+
+    expect(entries).toHaveLength(3);
+    expect(entries.map((entry) => [entry.conversationId, entry.ratedBy])).toEqual(
+      expect.arrayContaining([
+        ['conversation-1', 'ayse'],
+        ['conversation-2', 'ayse'],
+        ['conversation-1', 'can'],
+      ])
+    );
+  });
+
+  it("lists a workspace's entries and the ones from before sign-in", async () => {
+    const legal = await saveFeedback(submission(), LEGAL);
+    await saveFeedback(submission({ messageId: '2' }), HR);
+    const shared = await saveFeedback(submission({ messageId: '3' }), null);
+
+    const entries = await listFeedback({ workspace: 'legal' });
+
+    expect(entries.map((entry) => entry.id).sort()).toEqual([legal.id, shared.id].sort());
+  });
+
+  it('filters by confidence and rating, newest first', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-01T09:00:00Z'));
+    const minuteLater = () => vi.advanceTimersByTime(60_000);
+
+    const first = await saveFeedback(submission({ messageId: '1', rating: 'down' }), LEGAL);
+    minuteLater();
+    await saveFeedback(submission({ messageId: '2', rating: 'up' }), LEGAL);
+    minuteLater();
+    await saveFeedback(submission({ messageId: '3', rating: 'down', confidence: high.confidence }), LEGAL);
+    minuteLater();
+    const last = await saveFeedback(
+      submission({ messageId: '4', rating: 'down', confidence: low.confidence }),
+      LEGAL
+    );
+
+    expect((await listFeedback({ rating: 'down' })).map((entry) => entry.messageId)).toEqual(['4', '3', '1']);
+    expect(await listFeedback({ rating: 'down', confidence: ['low', 'none'] })).toEqual([last]);
+    expect((await listFeedback({ confidence: ['high'] })).at(-1)).toEqual(first);
+  });
+
+  it('skips lines a crash left half-written', async () => {
+    const entry = await saveFeedback(submission(), LEGAL);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, '{"id":"broken","rat');
+
+    expect(await listFeedback()).toEqual([entry]);
+  });
+});
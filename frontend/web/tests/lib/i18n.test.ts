@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { getTranslator, localeForLanguage } from '@/lib/i18n';
+import { en } from '@/lib/locales/en';
+import { tr } from '@/lib/locales/tr';
+
+describe('message catalogs', () => {
+  it('use the same placeholders in every language', () => {
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+    for (const key of Object.keys(en) as (keyof typeof en)[]) {
+      expect(placeholders(tr[key]), key).toEqual(placeholders(en[key]));
+    }
+  });
+});
+
+describe('getTranslator', () => {
+  it('fills placeholders and formats numbers for the locale', () => {
+    expect(getTranslator('en').t('documents.count', { count: 1234 })).toBe(
+      '1,234 documents in the knowledge base'
+    );
+    expect(getTranslator('tr').t('documents.count', { count: 1234 })).toBe(
+      'Bilgi tabanında 1.234 belge var'
+    );
+  });
+
+  it('leaves placeholders without a value as they are', () => {
+    expect(getTranslator('en').t('sources.title')).toBe('Sources ({count})');
+  });
+
+  it('picks the plural form by count', () => {
+    const { plural } = getTranslator('en');
+    expect(plural('sidebar.messages', 1)).toBe('1 message');
+    expect(plural('sidebar.messages', 3)).toBe('3 messages');
+    expect(getTranslator('tr').plural('sidebar.messages', 3)).toBe('3 mesaj');
+  });
+
+  it('formats similarity scores with four decimals', () => {
+    expect(getTranslator('en').similarity(0.1342)).toBe('0.1342');
+    expect(getTranslator('tr').similarity(0.1342)).toBe('0,1342');
+  });
+
+  it('returns the same instance per locale', () => {
+    expect(getTranslator('tr')).toBe(getTranslator('tr'));
+  });
+});
+
+describe('localeForLanguage', () => {
+  it.each([
+    ['tr', 'tr'],
+    ['en', 'en'],
+    ['tr-TR', 'tr'],
+    ['EN', 'en'],
+    ['de', undefined],
+    [undefined, undefined],
+  ])('%s → %s', (language, locale) => {
+    expect(localeForLanguage(language)).toBe(locale);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import { jobProgress, watchIngestionJob } from '@/lib/ingestionJobs';
+import { mockIngestionJob } from '@/lib/mockFixtures';
+import type { IngestionJob } from '@/types';
+
+const JOB = mockIngestionJob('job-1');
+
+/** Answers each poll with the next snapshot; a snapshot that is an Error fails that poll */
+function polls(...snapshots: (Partial<IngestionJob> | Error)[]) {
+  let poll = 0;
+  return vi.fn(async (jobId: string): Promise<IngestionJob> => {
+    const snapshot = snapshots[Math.min(poll, snapshots.length - 1)];
+    poll++;
+    if (snapshot instanceof Error) throw snapshot;
+    return { ...JOB, jobId, updatedAt: `2026-01-01T09:00:0${poll}.000Z`, ...snapshot };
+  });
+}
+
+describe('jobProgress', () => {
+  it('maps stages to a growing fraction', () => {
+    const stages = (['queued', 'extracting', 'chunking', 'embedding', 'saving', 'completed'] as const).map((stage) =>
+      jobProgress({ ...JOB, stage })
+    );
+
+    expect(stages).toEqual([...stages].sort((a, b) => a - b));
+    expect(stages[0]).toBe(0);
+    expect(stages.at(-1)).toBe(1);
+  });
+
+  it('advances through embedding per processed chunk', () => {
+    const embedding = (processedChunks: number, totalChunks = 12) =>
+      jobProgress({ ...JOB, stage: 'embedding', processedChunks, totalChunks });
+
+    expect(embedding(0)).toBeCloseTo(0.1);
+    expect(embedding(6)).toBeCloseTo(0.525);
+    expect(embedding(12)).toBeCloseTo(0.95);
+    expect(embedding(0, 0)).toBeCloseTo(0.1);
+  });
+
+  it('fills the bar for a failed job', () => {
+    expect(jobProgress({ ...JOB, stage: 'failed' })).toBe(1);
+  });
+});
+
+describe('watchIngestionJob', () => {
+  it('polls until the job completes, reporting each change once', async () => {
+    const fetchJob = polls(
+      { stage: 'extracting' },
+      { stage: 'embedding', processedChunks: 4, totalChunks: 12, updatedAt: 'same' },
+      { stage: 'embedding', processedChunks: 4, totalChunks: 12, updatedAt: 'same' },
+      { stage: 'completed', documentId: 'doc-1' }
+    );
+    const onUpdate = vi.fn();
+
+    const finished = await watchIngestionJob(JOB, { onUpdate, fetchJob, intervalMs: 0 });
+
+    expect(finished).toMatchObject({ stage: 'completed', documentId: 'doc-1' });
+    expect(fetchJob).toHaveBeenCalledTimes(4);
+    expect(fetchJob).toHaveBeenCalledWith('job-1', undefined);
+    expect(onUpdate.mock.calls.map(([job]) => job.stage)).toEqual(['extracting', 'embedding', 'completed']);
+  });
+
+  it('resolves with a failed job instead of throwing', async () => {
+    const fetchJob = polls({ stage: 'failed', error: 'Embedding failed' });
+
+    await expect(watchIngestionJob(JOB, { fetchJob, intervalMs: 0 })).resolves.toMatchObject({
+      stage: 'failed',
+      error: 'Embedding failed',
+    });
+  });
+
+  it('does not poll a job that has already finished', async () => {
+    const fetchJob = polls({ stage: 'completed' });
+
+    await watchIngestionJob({ ...JOB, stage: 'completed' }, { fetchJob, intervalMs: 0 });
+
+    expect(fetchJob).not.toHaveBeenCalled();
+  });
+
+  it('rides out a few failed polls', async () => {
+    const offline = new TypeError('Failed to fetch');
+    const fetchJob = polls(offline, offline, offline, offline, { stage: 'completed' });
+
+    await expect(watchIngestionJob(JOB, { fetchJob, intervalMs: 0 })).resolves.toMatchObject({ stage: 'completed' });
+    expect(fetchJob).toHaveBeenCalledTimes(5);
+  });
+
+  it('gives up after five failed polls in a row', async () => {
+    const fetchJob = polls(new TypeError('Failed to fetch'));
+
+    await expect(watchIngestionJob(JOB, { fetchJob, intervalMs: 0 })).rejects.toThrow('Failed to fetch');
+    expect(fetchJob).toHaveBeenCalledTimes(5);
+  });
+
+  it('gives up right away when the backend no longer knows the job', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(Response.json({ code: 'not-found' }, { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(watchIngestionJob(JOB, { intervalMs: 0 })).rejects.toThrow('Ingestion job not found');
+    expect(fetchMock).toHaveBeenCalledExactlyOnceWith(
+      '/api/rag/ingest/jobs/job-1',
+      expect.objectContaining({ method: 'GET' })
+    );
+  });
+
+  it('stops polling when aborted', async () => {
+    const controller = new AbortController();
+    const fetchJob = vi.fn(async (): Promise<IngestionJob> => {
+      controller.abort(new DOMException('Upload cancelled', 'AbortError'));
+      return { ...JOB, stage: 'extracting', updatedAt: 'later' };
+    });
+
+    await expect(
+      watchIngestionJob(JOB, { fetchJob, signal: controller.signal, intervalMs: 0 })
+    ).rejects.toThrow('Upload cancelled');
+    expect(fetchJob).toHaveBeenCalledOnce();
+  });
+});
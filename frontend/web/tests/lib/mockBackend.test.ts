@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, createApiClient } from '@/lib/apiClient';
+import { createMockBackendFetch, selectAskScenario } from '@/lib/mockBackend';
+import { MOCK_CONVERSATION_ID, MOCK_DOCUMENTS, mockAskResponses, mockBackendErrors } from '@/lib/mockFixtures';
+import { readServerSentEvents } from '@/lib/sse';
+
+function mockClient(jobStepMs = 1_000) {
+  return createApiClient(
+    {
+      baseUrl: 'http://backend.test',
+      timeouts: { ask: 2_000, askStream: 2_000, ingest: 0, search: 0, documents: 0, jobs: 0, conversations: 0 },
+      retry: { attempts: 0, delayMs: 0 },
+    },
+    { fetch: createMockBackendFetch({ delayMs: 0, slowMs: 50, jobStepMs }) }
+  );
+}
+
+function uploadForm(fileName: string) {
+  const formData = new FormData();
+  formData.append('file', new File(['%PDF-1.4'], fileName, { type: 'application/pdf' }));
+  return formData;
+}
+
+describe('selectAskScenario', () => {
+  it.each([
+    ['Türk Medeni Kanunu madde 1 nedir?', 'high'],
+    ['What does the GDPR say?', 'highEnglish'],
+    ['Is this covered? #low', 'low'],
+    ['#none Yarın hava nasıl?', 'none'],
+    ['Explain everything #long', 'long'],
+  ])('%s → %s', (question, scenario) => {
+    expect(selectAskScenario(question).scenario).toBe(scenario);
+  });
+
+  it('combines the answer with slow and failure tags', () => {
+    expect(selectAskScenario('#low #slow #error')).toEqual({ scenario: 'low', slow: true, failure: 'llmFailure' });
+    expect(selectAskScenario('no tags here').failure).toBeUndefined();
+  });
+});
+
+describe('mock backend ask', () => {
+  it('answers with the fixture, echoing the question and conversation', async () => {
+    const response = await mockClient().ask({ question: 'Is it lawful? #low', conversationId: 'conv-7' });
+
+    expect(response).toEqual({
+      ...mockAskResponses.low,
+      question: 'Is it lawful? #low',
+      conversationId: 'conv-7',
+    });
+  });
+
+  it('starts a conversation when none is given', async () => {
+    const response = await mockClient().ask({ question: '#none anything' });
+    expect(response.conversationId).toBe(MOCK_CONVERSATION_ID);
+    expect(response.sources).toEqual([]);
+  });
+
+  it('only cites sources from the requested documents', async () => {
+    const client = mockClient();
+    const { civilCode, gdpr } = MOCK_DOCUMENTS;
+
+    const scoped = await client.ask({ question: 'Madde 1 nedir?', documentIds: [civilCode.documentId] });
+    expect(scoped.sources.map((s) => s.documentId)).toEqual([civilCode.documentId, civilCode.documentId]);
+
+    const elsewhere = await client.ask({ question: 'Madde 1 nedir?', documentIds: [gdpr.documentId] });
+    expect(elsewhere).toMatchObject({ sources: [], confidence: { level: 'none' } });
+  });
+
+  it('reports LLM failures with the backend ProblemDetails', async () => {
+    const error = await mockClient().ask({ question: 'KVKK nedir? #error' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(500);
+    expect(JSON.parse(error.details)).toEqual(mockBackendErrors.llmFailure.body);
+  });
+
+  it('simulates a backend that cannot be reached', async () => {
+    const error = await mockClient().ask({ question: '#offline' }).catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBeNull();
+  });
+
+  it('lets slow answers run into the client timeout', async () => {
+    const client = createApiClient(
+      {
+        baseUrl: 'http://backend.test',
+        timeouts: { ask: 10, askStream: 10, ingest: 0, search: 0, documents: 0, jobs: 0, conversations: 0 },
+        retry: { attempts: 0, delayMs: 0 },
+      },
+      { fetch: createMockBackendFetch({ delayMs: 0, slowMs: 1_000 }) }
+    );
+    await expect(client.ask({ question: '#slow' })).rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('streams the answer as token frames followed by the final response', async () => {
+    const response = await mockClient().openAskStream({ question: 'What does the GDPR say?' });
+    const frames = [];
+    for await (const frame of readServerSentEvents(response.body!)) frames.push(frame);
+
+    const tokens = frames.filter((f) => f.event === 'token').map((f) => JSON.parse(f.data).text);
+    expect(tokens.join('')).toBe(mockAskResponses.highEnglish.answer);
+    expect(frames.at(-1)?.event).toBe('done');
+    expect(JSON.parse(frames.at(-1)!.data).confidence).toEqual(mockAskResponses.highEnglish.confidence);
+  });
+
+  it('ends a failing stream with an error frame', async () => {
+    const response = await mockClient().openAskStream({ question: 'KVKK nedir? #error' });
+    const frames = [];
+    for await (const frame of readServerSentEvents(response.body!)) frames.push(frame);
+
+    expect(frames.at(-1)).toEqual({
+      event: 'error',
+      data: JSON.stringify({ error: mockBackendErrors.llmFailure.body.detail }),
+    });
+  });
+});
+
+describe('mock backend ingestion', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('walks a job through every stage, one step per second', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = mockClient();
+    const job = await client.submitPdfJob(uploadForm('kanun.pdf'));
+    expect(job).toMatchObject({ fileName: 'kanun.pdf', documentTitle: 'kanun', stage: 'queued' });
+    expect(await client.getIngestionJob(job.jobId)).toMatchObject({ stage: 'queued' });
+
+    const stages = [];
+    let current = job;
+    while (current.stage !== 'completed' && current.stage !== 'failed') {
+      vi.advanceTimersByTime(1_000);
+      current = await client.getIngestionJob(job.jobId);
+      stages.push(`${current.stage}:${current.processedChunks}`);
+    }
+
+    expect(stages).toEqual([
+      'extracting:0',
+      'chunking:0',
+      'embedding:0',
+      'embedding:4',
+      'embedding:8',
+      'embedding:12',
+      'saving:12',
+      'completed:12',
+    ]);
+    expect(current.documentId).toBeDefined();
+  });
+
+  it('does not skip stages when the same job is polled more often', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = mockClient();
+    const job = await client.submitPdfJob(uploadForm('kanun.pdf'));
+
+    vi.advanceTimersByTime(1_000);
+    const polls = await Promise.all([1, 2, 3].map(() => client.getIngestionJob(job.jobId)));
+    expect(polls.map((poll) => poll.stage)).toEqual(['extracting', 'extracting', 'extracting']);
+
+    vi.advanceTimersByTime(2_500);
+    expect(await client.getIngestionJob(job.jobId)).toMatchObject({ stage: 'embedding', processedChunks: 0 });
+  });
+
+  it('fails jobs for files named "fail"', async () => {
+    const client = mockClient(0);
+    const job = await client.submitPdfJob(uploadForm('will-fail.pdf'));
+    const current = await client.getIngestionJob(job.jobId);
+    expect(current).toMatchObject({ stage: 'failed', error: expect.stringContaining('Embedding failed') });
+  });
+
+  it('cancels running jobs but not finished ones', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = mockClient();
+    const job = await client.submitPdfJob(uploadForm('kanun.pdf'));
+    vi.advanceTimersByTime(1_000);
+    await client.getIngestionJob(job.jobId);
+
+    expect(await client.cancelIngestionJob(job.jobId)).toMatchObject({ stage: 'failed', error: 'Cancelled by user' });
+    expect(await client.getIngestionJob(job.jobId)).toMatchObject({ stage: 'failed' });
+    await expect(client.cancelIngestionJob(job.jobId)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('rejects files named "reject" and unknown jobs', async () => {
+    const client = mockClient();
+    await expect(client.submitPdfJob(uploadForm('reject.pdf'))).rejects.toMatchObject({
+      status: 400,
+      details: JSON.stringify(mockBackendErrors.invalidPdf.body),
+    });
+    await expect(client.getIngestionJob('missing')).rejects.toMatchObject({ status: 404 });
+  });
+});
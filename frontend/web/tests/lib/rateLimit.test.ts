@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { readRetryAfter } from '@/lib/apiClient';
+import { checkQuestionLength, clientKey, createRateLimiter, RateLimitedError } from '@/lib/rateLimit';
+
+const LIMITS = {
+  ask: { perMinute: 6, burst: 2, concurrency: 0 },
+  ingest: { perMinute: 0, burst: 0, concurrency: 1 },
+};
+
+function limiter() {
+  let time = 0;
+  const rateLimiter = createRateLimiter(LIMITS, () => time);
+  return { rateLimiter, advance: (ms: number) => (time += ms) };
+}
+
+const rejection = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected the call to throw');
+};
+
+describe('createRateLimiter', () => {
+  it('allows a burst, then one request per refill interval', () => {
+    const { rateLimiter, advance } = limiter();
+
+    rateLimiter.acquire('ask', 'user:ayse')();
+    rateLimiter.acquire('ask', 'user:ayse')();
+    const error = rejection(() => rateLimiter.acquire('ask', 'user:ayse'));
+    expect(error).toBeInstanceOf(RateLimitedError);
+    // 6 per minute: the next token arrives after 10 seconds
+    expect(error).toMatchObject({ retryAfterSeconds: 10 });
+
+    advance(4_000);
+    expect(rejection(() => rateLimiter.acquire('ask', 'user:ayse'))).toMatchObject({ retryAfterSeconds: 6 });
+    advance(6_000);
+    expect(() => rateLimiter.acquire('ask', 'user:ayse')).not.toThrow();
+  });
+
+  it('keeps a bucket per client', () => {
+    const { rateLimiter } = limiter();
+
+    rateLimiter.acquire('ask', 'user:ayse');
+    rateLimiter.acquire('ask', 'user:ayse');
+
+    expect(() => rateLimiter.acquire('ask', 'user:mert')).not.toThrow();
+  });
+
+  it('caps requests in flight until they are released', () => {
+    const { rateLimiter } = limiter();
+
+    const release = rateLimiter.acquire('ingest', 'ip:10.0.0.1');
+    expect(rejection(() => rateLimiter.acquire('ingest', 'ip:10.0.0.1'))).toMatchObject({ retryAfterSeconds: 5 });
+
+    release();
+    release();
+    const next = rateLimiter.acquire('ingest', 'ip:10.0.0.1');
+    expect(rejection(() => rateLimiter.acquire('ingest', 'ip:10.0.0.1'))).toBeInstanceOf(RateLimitedError);
+    next();
+  });
+});
+
+describe('clientKey', () => {
+  it('prefers the user, then the first forwarded address', () => {
+    const request = new Request('http://localhost/api/rag/ask', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+    });
+
+    expect(clientKey(request, { username: 'ayse', displayName: 'Ayşe', workspace: 'legal' })).toBe('user:ayse');
+    expect(clientKey(request, null)).toBe('ip:203.0.113.7');
+    expect(clientKey(new Request('http://localhost/api/rag/ask'), null)).toBe('ip:unknown');
+  });
+});
+
+describe('checkQuestionLength', () => {
+  it('rejects questions over the limit unless the limit is off', () => {
+    expect(() => checkQuestionLength('a'.repeat(10), 'POST /api/rag/ask', 10)).not.toThrow();
+    expect(() => checkQuestionLength('a'.repeat(11), 'POST /api/rag/ask', 10)).toThrow(
+      'expected body.question to be at most 10 characters'
+    );
+    expect(() => checkQuestionLength('a'.repeat(11), 'POST /api/rag/ask', 0)).not.toThrow();
+  });
+});
+
+describe('readRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2026-10-01T10:00:00.000Z');
+
+    expect(readRetryAfter(new Headers({ 'Retry-After': '12' }), now)).toBe(12);
+    expect(readRetryAfter(new Headers({ 'Retry-After': 'Thu, 01 Oct 2026 10:00:30 GMT' }), now)).toBe(30);
+    expect(readRetryAfter(new Headers(), now)).toBeUndefined();
+    expect(readRetryAfter(new Headers({ 'Retry-After': 'soon' }), now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { mockAskResponses } from '@/lib/mockFixtures';
+import { cachedAnswerStream, createResponseCache, normalizeQuestion } from '@/lib/responseCache';
+import { readServerSentEvents } from '@/lib/sse';
+
+const CONFIG = { enabled: true, ttlMs: 60_000, maxEntries: 2 };
+const ANSWER = mockAskResponses.highEnglish;
+
+function cache(config = CONFIG) {
+  let time = 0;
+  const responseCache = createResponseCache(config, () => time);
+  return { responseCache, advance: (ms: number) => (time += ms) };
+}
+
+async function frames(body: ReadableStream<Uint8Array>) {
+  const events = [];
+  for await (const { event, data } of readServerSentEvents(body)) events.push([event, JSON.parse(data)]);
+  return events;
+}
+
+describe('normalizeQuestion', () => {
+  it('ignores case, spacing and trailing punctuation', () => {
+    expect(normalizeQuestion('  What does   the GDPR say?? ')).toBe('what does the gdpr say');
+    expect(normalizeQuestion('ＫＶＫＫ nedir.')).toBe('kvkk nedir');
+  });
+});
+
+describe('createResponseCache', () => {
+  it('serves a repeated question flagged as cached, without the first asker\'s conversation', () => {
+    const { responseCache } = cache();
+
+    responseCache.set({ question: 'What does the GDPR say?', topK: 5 }, ANSWER);
+    const hit = responseCache.get({ question: 'what does the gdpr say', topK: 5 });
+
+    expect(hit).toMatchObject({ answer: ANSWER.answer, question: 'what does the gdpr say', cached: true });
+    expect(hit).not.toHaveProperty('conversationId');
+  });
+
+  it('keys on the retrieval settings and document scope', () => {
+    const { responseCache } = cache();
+
+    responseCache.set({ question: 'KVKK nedir?', documentIds: ['a', 'b'], minSimilarity: 0.05 }, ANSWER);
+
+    expect(responseCache.get({ question: 'KVKK nedir?', documentIds: ['b', 'a'], minSimilarity: 0.05 })).not.toBeNull();
+    expect(responseCache.get({ question: 'KVKK nedir?', documentIds: ['a'], minSimilarity: 0.05 })).toBeNull();
+    expect(responseCache.get({ question: 'KVKK nedir?', documentIds: ['a', 'b'] })).toBeNull();
+    expect(responseCache.get({ question: 'KVKK nedir?', documentIds: ['a', 'b'], minSimilarity: 0.05, topK: 3 })).toBeNull();
+  });
+
+  it('never caches follow-ups in a conversation', () => {
+    const { responseCache } = cache();
+
+    responseCache.set({ question: 'And Article 5?', conversationId: 'conv-1' }, ANSWER);
+
+    expect(responseCache.size).toBe(0);
+    responseCache.set({ question: 'And Article 5?' }, ANSWER);
+    expect(responseCache.get({ question: 'And Article 5?', conversationId: 'conv-1' })).toBeNull();
+  });
+
+  it('expires answers after the TTL', () => {
+    const { responseCache, advance } = cache();
+
+    responseCache.set({ question: 'KVKK nedir?' }, ANSWER);
+    advance(59_999);
+    expect(responseCache.get({ question: 'KVKK nedir?' })).not.toBeNull();
+    advance(1);
+    expect(responseCache.get({ question: 'KVKK nedir?' })).toBeNull();
+    expect(responseCache.size).toBe(0);
+  });
+
+  it('evicts the least recently used answer when full', () => {
+    const { responseCache } = cache();
+
+    responseCache.set({ question: 'first' }, ANSWER);
+    responseCache.set({ question: 'second' }, ANSWER);
+    responseCache.get({ question: 'first' });
+    responseCache.set({ question: 'third' }, ANSWER);
+
+    expect(responseCache.get({ question: 'second' })).toBeNull();
+    expect(responseCache.get({ question: 'first' })).not.toBeNull();
+    expect(responseCache.get({ question: 'third' })).not.toBeNull();
+  });
+
+  it('stores nothing when disabled and empties on clear', () => {
+    const disabled = cache({ ...CONFIG, enabled: false }).responseCache;
+    disabled.set({ question: 'KVKK nedir?' }, ANSWER);
+    expect(disabled.get({ question: 'KVKK nedir?' })).toBeNull();
+
+    const { responseCache } = cache();
+    responseCache.set({ question: 'KVKK nedir?' }, ANSWER);
+    responseCache.clear();
+    expect(responseCache.get({ question: 'KVKK nedir?' })).toBeNull();
+  });
+});
+
+describe('cachedAnswerStream', () => {
+  it('replays a cached answer as one token frame and the final frame', async () => {
+    const replayed = await frames(cachedAnswerStream({ ...ANSWER, cached: true }));
+
+    expect(replayed).toEqual([
+      ['token', { text: ANSWER.answer }],
+      ['done', { ...ANSWER, cached: true }],
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  normalizeRetrievalSettings,
+  toAskParameters,
+} from '@/lib/retrievalSettings';
+
+describe('normalizeRetrievalSettings', () => {
+  it('fills in the defaults', () => {
+    expect(normalizeRetrievalSettings({})).toEqual(DEFAULT_RETRIEVAL_SETTINGS);
+  });
+
+  it.each([
+    [0, 1],
+    [-4, 1],
+    [3.6, 4],
+    [50, 20],
+    [Number.NaN, 5],
+  ])('clamps topK %s to %s', (topK, expected) => {
+    expect(normalizeRetrievalSettings({ topK }).topK).toBe(expected);
+  });
+
+  it.each([
+    [-0.2, 0],
+    [0.35, 0.35],
+    [1.5, 1],
+    [Number.NaN, 0],
+  ])('clamps minSimilarity %s to %s', (minSimilarity, expected) => {
+    expect(normalizeRetrievalSettings({ minSimilarity }).minSimilarity).toBe(expected);
+  });
+
+  it('drops repeated documents', () => {
+    expect(normalizeRetrievalSettings({ documentIds: ['doc-1', 'doc-2', 'doc-1'] }).documentIds).toEqual([
+      'doc-1',
+      'doc-2',
+    ]);
+  });
+});
+
+describe('toAskParameters', () => {
+  it('leaves documentIds out when every document is searched', () => {
+    expect(toAskParameters({ topK: 8, minSimilarity: 0.3, documentIds: [] })).toEqual({
+      topK: 8,
+      minSimilarity: 0.3,
+      documentIds: undefined,
+    });
+    expect(toAskParameters({ topK: 8, minSimilarity: 0.3, documentIds: ['doc-1'] }).documentIds).toEqual(['doc-1']);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { groupHitsByDocument, highlightSegments, queryTerms } from '@/lib/searchResults';
+import type { SearchHit } from '@/types';
+
+function hit(documentId: string, chunkIndex: number, similarityScore: number): SearchHit {
+  return {
+    chunkId: `${documentId}-${chunkIndex}`,
+    documentId,
+    documentTitle: `Title ${documentId}`,
+    chunkIndex,
+    content: `chunk ${chunkIndex}`,
+    similarityScore,
+    preview: `chunk ${chunkIndex}`,
+  };
+}
+
+describe('groupHitsByDocument', () => {
+  it('orders documents by their best hit and keeps the ranking inside each group', () => {
+    const groups = groupHitsByDocument([hit('a', 4, 0.3), hit('b', 1, 0.2), hit('a', 0, 0.1)]);
+
+    expect(groups.map((group) => group.documentTitle)).toEqual(['Title a', 'Title b']);
+    expect(groups[0].hits.map((h) => [h.chunkIndex, h.rank])).toEqual([
+      [4, 1],
+      [0, 3],
+    ]);
+    expect(groups[1].hits[0].rank).toBe(2);
+  });
+});
+
+describe('highlighting', () => {
+  it('splits the query into distinct words', () => {
+    expect(queryTerms('Kişisel veri, kişisel Veri? a')).toEqual(['kişisel', 'veri']);
+  });
+
+  it('marks every case-insensitive occurrence, preferring longer terms', () => {
+    expect(highlightSegments('Personal data and data subjects', ['data', 'data subject'])).toEqual([
+      { text: 'Personal ', match: false },
+      { text: 'data', match: true },
+      { text: ' and ', match: false },
+      { text: 'data subject', match: true },
+      { text: 's', match: false },
+    ]);
+  });
+
+  it('treats regex characters in the query literally', () => {
+    expect(highlightSegments('Madde 1 (a)', ['(a)'])).toEqual([
+      { text: 'Madde 1 ', match: false },
+      { text: '(a)', match: true },
+    ]);
+    expect(highlightSegments('no terms', [])).toEqual([{ text: 'no terms', match: false }]);
+  });
+});
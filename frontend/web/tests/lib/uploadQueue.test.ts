@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@/lib/apiClient';
+import { mockIngestionJob } from '@/lib/mockFixtures';
+import { summarizeBatch, UploadQueue, type JobWatcher, type Uploader } from '@/lib/uploadQueue';
+import type { IngestionJob, UploadItem } from '@/types';
+
+const pdf = (name: string) => new File(['%PDF-1.7'], name, { type: 'application/pdf' });
+
+/**
+ * Uploads that stay in flight until the test settles them, and jobs
+ * that complete as soon as they are watched
+ */
+function setup(concurrency = 2) {
+  const pending = new Map<string, { resolve: (job: IngestionJob) => void; reject: (error: unknown) => void }>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const upload = vi.fn<Uploader>(
+    (item) =>
+      new Promise<IngestionJob>((resolve, reject) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        const settle = () => {
+          inFlight--;
+          pending.delete(item.fileName);
+        };
+        pending.set(item.fileName, {
+          resolve: (job) => {
+            settle();
+            resolve(job);
+          },
+          reject: (error) => {
+            settle();
+            reject(error);
+          },
+        });
+      })
+  );
+  const watch = vi.fn<JobWatcher>(async (job) => ({
+    ...job,
+    stage: 'completed',
+    documentId: `doc-${job.jobId}`,
+    totalChunks: 4,
+    processedChunks: 4,
+    extractedTextLength: 1000,
+  }));
+  const cancelJob = vi.fn(async () => {});
+  const queue = new UploadQueue(upload, watch, cancelJob, concurrency);
+
+  const settle = (fileName: string) => pending.get(fileName)!.resolve(mockIngestionJob(`job-${fileName}`, { fileName }));
+  const complete = async (fileName: string) => {
+    settle(fileName);
+    await vi.waitFor(() => expect(statusOf(fileName)).toBe('done'));
+  };
+  const fail = async (fileName: string, error: unknown) => {
+    pending.get(fileName)!.reject(error);
+    await vi.waitFor(() => expect(statusOf(fileName)).toBe('failed'));
+  };
+  const statusOf = (fileName: string) => queue.getSnapshot().find((item) => item.fileName === fileName)?.status;
+
+  return { queue, upload, watch, cancelJob, settle, complete, fail, statusOf, maxInFlight: () => maxInFlight };
+}
+
+describe('UploadQueue', () => {
+  it('runs no more than the configured number of uploads at a time', async () => {
+    const { queue, upload, complete, statusOf, maxInFlight } = setup(2);
+
+    queue.add(['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf'].map(pdf));
+
+    expect(upload).toHaveBeenCalledTimes(2);
+    expect(queue.getSnapshot().map((item) => item.status)).toEqual(['uploading', 'uploading', 'queued', 'queued']);
+
+    await complete('a.pdf');
+    expect(statusOf('c.pdf')).toBe('uploading');
+    expect(statusOf('d.pdf')).toBe('queued');
+
+    await complete('b.pdf');
+    await complete('c.pdf');
+    await complete('d.pdf');
+
+    expect(upload).toHaveBeenCalledTimes(4);
+    expect(maxInFlight()).toBe(2);
+  });
+
+  it('keeps uploading the other files when one fails', async () => {
+    const { queue, complete, fail, statusOf } = setup(1);
+
+    queue.add(['a.pdf', 'b.pdf', 'c.pdf'].map(pdf));
+    await fail('a.pdf', new ApiError('Too many requests', 429, undefined, 'rate-limited', 12));
+    await complete('b.pdf');
+    await complete('c.pdf');
+
+    expect(queue.getSnapshot()[0]).toMatchObject({
+      status: 'failed',
+      error: 'Too many requests',
+      retryAfterSeconds: 12,
+      retryable: true,
+    });
+    expect(statusOf('b.pdf')).toBe('done');
+    expect(statusOf('c.pdf')).toBe('done');
+  });
+
+  it('fails a file whose ingestion job fails without stopping the others', async () => {
+    const { queue, watch, settle, complete, statusOf } = setup(1);
+    watch.mockImplementationOnce(async (job) => ({ ...job, stage: 'failed', error: 'No text could be extracted' }));
+
+    queue.add(['scan.pdf', 'b.pdf'].map(pdf));
+    settle('scan.pdf');
+    await vi.waitFor(() => expect(statusOf('scan.pdf')).toBe('failed'));
+
+    expect(queue.getSnapshot()[0]).toMatchObject({ status: 'failed', error: 'No text could be extracted' });
+    await complete('b.pdf');
+    expect(statusOf('b.pdf')).toBe('done');
+  });
+
+  it('rejects files that are not PDFs without uploading them', () => {
+    const { queue, upload } = setup();
+
+    queue.add([new File(['hello'], 'notes.txt', { type: 'text/plain' })]);
+
+    expect(upload).not.toHaveBeenCalled();
+    expect(queue.getSnapshot()[0]).toMatchObject({
+      status: 'failed',
+      error: 'Only PDF files are supported',
+      retryable: false,
+    });
+  });
+
+  it('starts the next queued file when an upload is cancelled', async () => {
+    const { queue, upload, statusOf } = setup(1);
+
+    queue.add(['a.pdf', 'b.pdf'].map(pdf));
+    queue.cancel(queue.getSnapshot()[0].id);
+
+    expect(statusOf('a.pdf')).toBe('cancelled');
+    expect(upload.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(statusOf('b.pdf')).toBe('uploading');
+  });
+});
+
+const item = (status: UploadItem['status'], chunkCount = 0, extractedTextLength = 0): UploadItem => ({
+  id: `upload-${status}`,
+  fileName: `${status}.pdf`,
+  fileSize: 1,
+  title: status,
+  status,
+  uploadProgress: 1,
+  result:
+    status === 'done'
+      ? { success: true, documentId: 'doc', documentTitle: status, chunkCount, extractedTextLength, message: '' }
+      : undefined,
+});
+
+describe('summarizeBatch', () => {
+  it('is null while files are queued or running', () => {
+    expect(summarizeBatch([item('done'), item('queued')])).toBeNull();
+    expect(summarizeBatch([item('done'), item('uploading')])).toBeNull();
+    expect(summarizeBatch([item('done'), item('processing')])).toBeNull();
+  });
+
+  it('is null without files, or with only cancelled ones', () => {
+    expect(summarizeBatch([])).toBeNull();
+    expect(summarizeBatch([item('cancelled')])).toBeNull();
+  });
+
+  it('totals the finished batch, leaving out cancelled files', () => {
+    expect(
+      summarizeBatch([item('done', 4, 1000), item('done', 6, 2500), item('failed'), item('cancelled')])
+    ).toEqual({ total: 3, succeeded: 2, failed: 1, totalChunks: 10, totalCharacters: 3500 });
+  });
+});
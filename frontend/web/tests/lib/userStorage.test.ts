@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadTrackedUploads, setUploadOwner } from '@/lib/ingestionJobs';
+import { claimUserStorageKey } from '@/lib/userStorage';
+
+const KEY = 'rag.test.v1';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('claimUserStorageKey', () => {
+  it('uses the bare key when signed out', () => {
+    localStorage.setItem(KEY, '[1]');
+
+    expect(claimUserStorageKey(KEY, null)).toBe(KEY);
+    expect(localStorage.getItem(KEY)).toBe('[1]');
+  });
+
+  it('moves data saved under the bare key to the first user who signs in', () => {
+    localStorage.setItem(KEY, '[1]');
+
+    expect(claimUserStorageKey(KEY, 'ayse')).toBe(`${KEY}:ayse`);
+    expect(localStorage.getItem(`${KEY}:ayse`)).toBe('[1]');
+    expect(localStorage.getItem(KEY)).toBeNull();
+
+    expect(claimUserStorageKey(KEY, 'mehmet')).toBe(`${KEY}:mehmet`);
+    expect(localStorage.getItem(`${KEY}:mehmet`)).toBeNull();
+  });
+
+  it('never overwrites what the user already has', () => {
+    localStorage.setItem(KEY, '[1]');
+    localStorage.setItem(`${KEY}:ayse`, '[2]');
+
+    claimUserStorageKey(KEY, 'ayse');
+
+    expect(localStorage.getItem(`${KEY}:ayse`)).toBe('[2]');
+    expect(localStorage.getItem(KEY)).toBe('[1]');
+  });
+});
+
+describe('setUploadOwner', () => {
+  afterEach(() => {
+    setUploadOwner(null);
+  });
+
+  it('hands uploads tracked before sign-in to the first user only', () => {
+    localStorage.setItem('rag.uploads.v1', JSON.stringify([{ id: 'upload-1', status: 'processing' }]));
+
+    setUploadOwner('ayse');
+    expect(loadTrackedUploads()).toEqual([{ id: 'upload-1', status: 'processing', retryable: false }]);
+
+    setUploadOwner('mehmet');
+    expect(loadTrackedUploads()).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  body: unknown;
+}
+
+export type StubHandler = (
+  request: StubRequest
+) => { status?: number; body: unknown } | Promise<{ status?: number; body: unknown }>;
+
+export interface StubBackend {
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text === '' ? undefined : JSON.parse(text);
+}
+
+/**
+ * Local HTTP server standing in for the RAG backend. Every request is
+ * recorded and answered by `handler` with a JSON body.
+ */
+export async function startStubBackend(handler: StubHandler): Promise<StubBackend> {
+  const requests: StubRequest[] = [];
+
+  const server = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    const stubRequest = {
+      method: request.method ?? 'GET',
+      url: request.url ?? '/',
+      body: await readBody(request),
+    };
+    requests.push(stubRequest);
+
+    const { status = 200, body } = await handler(stubRequest);
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(typeof body === 'string' ? body : JSON.stringify(body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
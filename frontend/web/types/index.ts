@@ -22,6 +22,458 @@ export interface Message {
   confidence?: ConfidenceInfo;
   sources?: Source[];
   language?: string;
+  isStreaming?: boolean;
+  isCancelled?: boolean;
+  /** Settings the answer was retrieved with */
+  retrievalSettings?: RetrievalSettings;
+  /** The answer was served from the ask proxy's response cache */
+  cached?: boolean;
+  /** The user's rating, once submitted */
+  feedback?: MessageFeedback;
+  /** Set when the question failed; the message is shown as an error with a retry button */
+  error?: MessageError;
 }
 
+/**
+ * What went wrong in a /api/rag/* call
+ */
+export type ApiErrorCode =
+  | 'validation'
+  | 'backend-unreachable'
+  | 'timeout'
+  | 'llm-failure'
+  | 'invalid-response'
+  | 'not-found'
+  | 'cancelled'
+  | 'unauthorized'
+  | 'rate-limited'
+  | 'backend-error'
+  | 'internal';
 
+/**
+ * Body of every failed API route response.
+ * `details` carries the backend's own error body when there is one.
+ */
+export interface ApiErrorResponse {
+  code: ApiErrorCode;
+  error: string;
+  details?: string;
+}
+
+export interface MessageError {
+  code: ApiErrorCode;
+  message: string;
+  /** The conversationId the question was sent with; a retry sends it again */
+  conversationId: string | null;
+  /** From the Retry-After header of a rate-limited request */
+  retryAfterSeconds?: number;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+/**
+ * What the chat sends to /api/feedback for one answer
+ */
+export interface FeedbackSubmission extends MessageFeedback {
+  messageId: string;
+  question: string;
+  answer: string;
+  conversationId: string | null;
+  language?: string;
+  confidence: ConfidenceInfo;
+  sources: Source[];
+  retrievalSettings?: RetrievalSettings;
+}
+
+export interface FeedbackEntry extends FeedbackSubmission {
+  id: string;
+  /** Username of the user who rated; missing for ratings from before sign-in */
+  ratedBy?: string;
+  /** Workspace of the user who rated; only that workspace sees the entry */
+  workspace?: string;
+  createdAt: string;
+}
+
+export interface FeedbackListResponse {
+  total: number;
+  entries: FeedbackEntry[];
+}
+
+/**
+ * One answered question, logged by the ask proxies after every ask response
+ */
+export interface AnswerLogEntry {
+  /** Generated by the server for each answer */
+  id: string;
+  question: string;
+  conversationId: string | null;
+  language?: string;
+  confidence: ConfidenceInfo;
+  sources: Source[];
+  /** As asked; settings left out were the backend's defaults */
+  retrievalSettings?: Pick<AskRequest, 'topK' | 'minSimilarity' | 'documentIds'>;
+  /** Workspace of the user who asked; only that workspace's analytics count it */
+  workspace?: string;
+  createdAt: string;
+}
+
+/**
+ * The backend's RagConfidence settings: below minAnswerSimilarity the answer
+ * is "none" without calling the LLM, below lowConfidence it is "low"
+ */
+export interface ConfidenceThresholds {
+  minAnswerSimilarity: number;
+  lowConfidence: number;
+}
+
+/** Equal-width bins from 0; bin i covers [i * binWidth, (i + 1) * binWidth) */
+export interface SimilarityHistogram {
+  binWidth: number;
+  counts: number[];
+}
+
+export interface DocumentCitationCount {
+  documentId: string;
+  documentTitle: string;
+  citations: number;
+  averageSimilarity: number;
+}
+
+export interface ChunkCitationCount extends DocumentCitationCount {
+  chunkId: string;
+  chunkIndex: number;
+  contentPreview: string;
+}
+
+export interface DailyConfidenceCount extends Record<ConfidenceInfo['level'], number> {
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+}
+
+export interface NoInfoQuestion {
+  question: string;
+  createdAt: string;
+  maxSimilarity: number;
+  language?: string;
+}
+
+export interface AnalyticsSummary {
+  total: number;
+  levels: Record<ConfidenceInfo['level'], number>;
+  daily: DailyConfidenceCount[];
+  maxSimilarity: SimilarityHistogram;
+  averageSimilarity: SimilarityHistogram;
+  topDocuments: DocumentCitationCount[];
+  topChunks: ChunkCitationCount[];
+  /** Newest first */
+  noInfoQuestions: NoInfoQuestion[];
+}
+
+export interface AnalyticsResponse {
+  /** Start of the period (ISO), null for all time */
+  since: string | null;
+  thresholds: ConfidenceThresholds;
+  summary: AnalyticsSummary;
+}
+
+/**
+ * Vector search parameters sent with each question
+ */
+export interface RetrievalSettings {
+  topK: number;
+  minSimilarity: number;
+  /** Empty means all documents */
+  documentIds: string[];
+}
+
+export interface AskRequest {
+  question: string;
+  conversationId?: string | null;
+  topK?: number;
+  minSimilarity?: number;
+  documentIds?: string[];
+}
+
+export interface AskResponse {
+  question: string;
+  answer: string;
+  conversationId: string;
+  language: string;
+  confidence: ConfidenceInfo;
+  sources: Source[];
+  sourceCount: number;
+  /** Set by the ask proxy when the answer came from its response cache */
+  cached?: boolean;
+}
+
+export type AskStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; response: AskResponse }
+  | { type: 'error'; error: string };
+
+export interface UploadResult {
+  success: boolean;
+  documentId: string;
+  documentTitle: string;
+  chunkCount: number;
+  extractedTextLength: number;
+  message: string;
+}
+
+export interface SearchRequest {
+  query: string;
+  topK?: number;
+  similarityThreshold?: number;
+  /** Only search these documents; set by the proxy from the user's workspace */
+  documentIds?: string[];
+}
+
+export interface SearchHit {
+  chunkId: string;
+  documentId: string;
+  documentTitle: string;
+  chunkIndex: number;
+  content: string;
+  similarityScore: number;
+  preview: string;
+}
+
+export interface SearchResponse {
+  query: string;
+  resultCount: number;
+  topK: number;
+  similarityThreshold: number;
+  results: SearchHit[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  conversationId: string | null;
+  messages: Message[];
+  /** Used for the next question in this conversation */
+  retrievalSettings?: RetrievalSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * File format of a downloaded conversation (JSON export / import)
+ */
+export interface ConversationExport {
+  format: 'rag-conversation';
+  version: 1;
+  exportedAt: string;
+  conversation: {
+    title: string;
+    conversationId: string | null;
+    retrievalSettings?: RetrievalSettings;
+    createdAt: string;
+    updatedAt: string;
+    messages: ExportedMessage[];
+  };
+}
+
+export type ExportedMessage = Omit<Message, 'timestamp' | 'isStreaming'> & {
+  timestamp: string;
+};
+
+export interface DocumentSummary {
+  documentId: string;
+  title: string;
+  uploadDate: string;
+  chunkCount: number;
+  originalFilename?: string;
+  fileSizeBytes?: number;
+  /** Username of the uploader; missing for documents from before sign-in */
+  uploadedBy?: string;
+  /** Only users of this workspace see the document; missing means everyone */
+  workspace?: string;
+}
+
+export interface DocumentListResponse {
+  totalDocuments: number;
+  documents: DocumentSummary[];
+}
+
+export interface DocumentChunk {
+  chunkId: string;
+  chunkIndex: number;
+  content: string;
+  tokenCount?: number;
+  chunkType: string;
+  articleNumber?: string;
+  articleTitle?: string;
+}
+
+export interface DocumentChunksResponse {
+  document: DocumentSummary;
+  offset: number;
+  limit: number;
+  chunks: DocumentChunk[];
+}
+
+/**
+ * A chunk and its neighbours (chunkIndex ± radius) in the same document
+ */
+export interface ChunkNeighboursResponse {
+  document: DocumentSummary;
+  chunkIndex: number;
+  radius: number;
+  firstChunkIndex: number;
+  lastChunkIndex: number;
+  chunks: DocumentChunk[];
+}
+
+export interface DeleteDocumentResponse {
+  success: boolean;
+  documentId: string;
+}
+
+/**
+ * Labels a document carries on /documents; picking a tag scopes a
+ * conversation to every document with it
+ */
+export interface DocumentTags {
+  documentId: string;
+  tags: string[];
+}
+
+export interface DocumentTagsEntry extends DocumentTags {
+  /** Each workspace tags documents for itself */
+  workspace?: string;
+  updatedAt: string;
+}
+
+export interface DocumentTagsResponse {
+  documents: DocumentTagsEntry[];
+}
+
+export type UploadStatus = 'queued' | 'uploading' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export type IngestionStage =
+  | 'queued'
+  | 'extracting'
+  | 'chunking'
+  | 'embedding'
+  | 'saving'
+  | 'completed'
+  | 'failed';
+
+/**
+ * Backend ingestion job, polled while a PDF is extracted, chunked and embedded
+ */
+export interface IngestionJob {
+  jobId: string;
+  fileName: string;
+  documentTitle: string;
+  /** Username of the uploader, as for the document it creates */
+  uploadedBy?: string;
+  /** Only users of this workspace see the job; missing means everyone */
+  workspace?: string;
+  stage: IngestionStage;
+  processedChunks: number;
+  totalChunks: number;
+  extractedTextLength: number;
+  documentId?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadItem {
+  id: string;
+  /** Missing for uploads restored after a reload; only the job can be followed then */
+  file?: File;
+  fileName: string;
+  fileSize: number;
+  title: string;
+  status: UploadStatus;
+  uploadProgress: number;
+  job?: IngestionJob;
+  result?: UploadResult;
+  error?: string;
+  /** From the Retry-After header of a rate-limited upload */
+  retryAfterSeconds?: number;
+  retryable?: boolean;
+}
+
+/**
+ * One question of an offline evaluation test set (scripts/evaluate.ts)
+ */
+export interface EvaluationCase {
+  id: string;
+  question: string;
+  /** Any of these in the top k sources counts as a retrieval hit */
+  expectedDocumentIds?: string[];
+  /** Matched case-insensitively against the answer */
+  expectedPhrases?: string[];
+  topK?: number;
+  minSimilarity?: number;
+  documentIds?: string[];
+}
+
+export interface EvaluationCaseResult {
+  id: string;
+  question: string;
+  /** Missing when the ask request failed */
+  confidence?: ConfidenceInfo;
+  language?: string;
+  retrievedDocumentIds: string[];
+  /** 1-based rank of the first expected document, null if none was retrieved */
+  firstHitRank: number | null;
+  expectedDocumentCount: number;
+  phrasesFound: string[];
+  phrasesMissing: string[];
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvaluationSummary {
+  total: number;
+  errors: number;
+  /** Keyed by k; null when no case has expected documents */
+  hitRate: Record<string, number | null>;
+  confidence: Record<ConfidenceInfo['level'], number>;
+  /** Found / expected phrases over all cases; null when no case has phrases */
+  phraseRecall: number | null;
+  averageMaxSimilarity: number | null;
+}
+
+export interface EvaluationRun {
+  format: 'rag-evaluation';
+  version: 1;
+  testSet: string;
+  baseUrl: string;
+  startedAt: string;
+  finishedAt: string;
+  kValues: number[];
+  summary: EvaluationSummary;
+  results: EvaluationCaseResult[];
+}
+
+/**
+ * A signed-in user. Conversations are kept per user, documents per workspace.
+ */
+export interface User {
+  username: string;
+  displayName: string;
+  workspace: string;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface SessionResponse {
+  user: User;
+}
+
+/** UI language; answers can be in either regardless of this choice */
+export type Locale = 'en' | 'tr';
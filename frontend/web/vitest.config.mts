@@ -0,0 +1,24 @@
+import os from 'node:os';
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(import.meta.dirname) },
+  },
+  test: {
+    include: ['tests/**/*.test.{ts,tsx}'],
+    setupFiles: ['tests/setup.ts'],
+    // Read by lib/config.ts at import; no real backend is ever contacted
+    env: {
+      BACKEND_URL: 'http://backend.test',
+      BACKEND_RETRY_DELAY_MS: '0',
+      NEXT_PUBLIC_MOCK_BACKEND: 'false',
+      // Route suites send more requests than a client may; the limiter has its own tests
+      RATE_LIMIT_ASK_PER_MINUTE: '0',
+      RATE_LIMIT_INGEST_PER_MINUTE: '0',
+      // The ask routes log every answer; keep that out of the working tree
+      ANALYTICS_FILE: path.join(os.tmpdir(), 'rag-web-tests', 'analytics.jsonl'),
+    },
+  },
+});